@@ -1,5 +1,5 @@
 import React, { useState, useEffect, useMemo } from 'react';
-import { LayoutDashboard, PlusCircle, History, Settings, Wallet, CalendarRange, LogOut, Target, Shield, Tags } from 'lucide-react';
+import { LayoutDashboard, PlusCircle, History, Settings, Wallet, CalendarRange, LogOut, Target, Shield, Tags, Undo2, Redo2 } from 'lucide-react';
 import { supabase } from './lib/supabase';
 import Auth from './components/Auth';
 import ResetPassword from './components/ResetPassword';
@@ -11,6 +11,7 @@ import SettingsView from './components/SettingsView';
 import AccountsView from './components/AccountsView';
 import CalendarView from './components/CalendarView';
 import PlanningView from './components/PlanningView';
+import BudgetView from './components/BudgetView';
 import CategoriesView from './components/CategoriesView';
 import WarrantiesView from './components/WarrantiesView';
 import BillsDebtsView from './components/BillsDebtsView';
@@ -19,7 +20,7 @@ import BatchChequeCreator from './components/BatchChequeCreator';
 import MatchingConfirmationModal from './components/MatchingConfirmationModal';
 import BottomTabs from './components/BottomTabs';
 import NavigationDrawer from './components/NavigationDrawer';
-import { Transaction, View, AppSettings, TransactionType, Category, Account, RecurringRule, SavingsGoal, WarrantyItem, ScheduledTransaction } from './types';
+import { Transaction, View, AppSettings, TransactionType, Category, Account, RecurringRule, SavingsGoal, WarrantyItem, ScheduledTransaction, GoalContribution, ExchangeRate, Budget, Reconciliation, NetWorthSnapshot, SecurityPrice, SavedSearch, AuditContext, AuditSource } from './types';
 import { v4 as uuidv4 } from 'uuid';
 import {
   getAllTransactions,
@@ -43,7 +44,33 @@ import {
   clearAllData,
   getAllScheduledTransactions,
   saveScheduledTransaction,
+  getAllSavingsGoals,
+  saveSavingsGoal,
+  getAllGoalContributions,
+  getAllExchangeRates,
+  saveExchangeRate,
+  deleteExchangeRate as deleteExchangeRateDB,
+  getAllBudgets,
+  saveBudget,
+  deleteBudget as deleteBudgetDB,
+  getAllReconciliations,
+  getAllNetWorthSnapshots,
+  getAllSecurityPrices,
+  clearAuditLog,
+  migrateInlineImages,
+  deleteOrphanedAttachments,
 } from './services/indexedDBService';
+import { recordContribution, deleteGoalWithContributions } from './services/savingsGoalService';
+import { recordLearnedRates } from './services/exchangeRateService';
+import { checkBudgetAlerts, formatBudgetAlerts } from './services/budgetService';
+import { generateStatementPayments } from './services/creditCardService';
+import { recordLoanPayment } from './services/loanService';
+import { recordDebtPayment } from './services/debtPayoffService';
+import { backfillNetWorthHistory, recordNetWorthSnapshot } from './services/netWorthService';
+import { revalueInvestmentAccounts } from './services/investmentService';
+import { getSavedSearches, saveSavedSearches } from './services/searchQueryService';
+import { BulkChange, applyBulkChange } from './services/bulkEditService';
+import { UNDO_STACK_LIMIT, newAuditContext, redoBatch, undoBatch } from './services/auditService';
 import {
   createScheduledTransaction,
   updateScheduledTransaction,
@@ -66,7 +93,7 @@ import {
 } from './services/unknownTransactionService';
 import { convertTransactionToScheduled, RecurringBillFormData } from './services/transactionToScheduledService';
 import { cleanupOldReceipts } from './services/receiptCleanupService';
-import { shouldAutoBackup, exportToCSV, exportReceiptsZip, uploadBackup, markAutoBackupComplete } from './services/backupService';
+import { shouldAutoBackup, exportBackup, exportReceiptsZip, uploadBackup, markAutoBackupComplete, recordAutoBackupFailure, clearAutoBackupFailure } from './services/backupService';
 import { initializeDailyBackup, stopDailyBackup } from './services/dailyAutoBackupService';
 
 const DEFAULT_SETTINGS: AppSettings = {
@@ -77,10 +104,13 @@ const DEFAULT_SETTINGS: AppSettings = {
   savingsGoals: [],
   warranties: [],
   scheduledTransactions: [],
+  exchangeRates: [],
   gradientStartColor: '#d0dddf',
   gradientEndColor: '#dcfefb',
   gradientAngle: 135,
-  autoBalancerEnabled: true
+  autoBalancerEnabled: true,
+  parserProvider: 'gemini',
+  parserFallbackEnabled: true
 };
 
 const App: React.FC = () => {
@@ -98,10 +128,13 @@ const App: React.FC = () => {
     savingsGoals: [],
     warranties: [],
     scheduledTransactions: [],
+    exchangeRates: [],
     gradientStartColor: '#d0dddf',
     gradientEndColor: '#dcfefb',
     gradientAngle: 135,
-    autoBalancerEnabled: true
+    autoBalancerEnabled: true,
+    parserProvider: 'gemini',
+    parserFallbackEnabled: true
   });
   const [editingTransaction, setEditingTransaction] = useState<Transaction | null>(null);
   const [selectedAccountId, setSelectedAccountId] = useState<string | null>(null);
@@ -109,6 +142,14 @@ const App: React.FC = () => {
   const [showBackupRestoreModal, setShowBackupRestoreModal] = useState(false);
   const [migrating, setMigrating] = useState(false);
   const [scheduledTransactions, setScheduledTransactions] = useState<ScheduledTransaction[]>([]);
+  const [goalContributions, setGoalContributions] = useState<GoalContribution[]>([]);
+  const [budgets, setBudgets] = useState<Budget[]>([]);
+  const [reconciliations, setReconciliations] = useState<Reconciliation[]>([]);
+  const [netWorthSnapshots, setNetWorthSnapshots] = useState<NetWorthSnapshot[]>([]);
+  const [securityPrices, setSecurityPrices] = useState<SecurityPrice[]>([]);
+  const [savedSearches, setSavedSearches] = useState<SavedSearch[]>([]);
+  const [undoStack, setUndoStack] = useState<AuditContext[]>([]);
+  const [redoStack, setRedoStack] = useState<AuditContext[]>([]);
   const [showScheduledForm, setShowScheduledForm] = useState(false);
   const [editingScheduled, setEditingScheduled] = useState<ScheduledTransaction | null>(null);
   const [showBatchChequeCreator, setShowBatchChequeCreator] = useState(false);
@@ -117,6 +158,7 @@ const App: React.FC = () => {
     scheduledTransaction: ScheduledTransaction;
     score: number;
     reasons: string[];
+    source: AuditSource;
   } | null>(null);
 
   // Date Filter State
@@ -124,6 +166,9 @@ const App: React.FC = () => {
   const [customStartDate, setCustomStartDate] = useState<string>('');
   const [customEndDate, setCustomEndDate] = useState<string>('');
 
+  // History search (kept here so pinned searches in the drawer can open it)
+  const [searchQuery, setSearchQuery] = useState('');
+
   // Navigation offsets (0 = current, -1 = previous, +1 = next)
   const [monthOffset, setMonthOffset] = useState(0);
   const [yearOffset, setYearOffset] = useState(0);
@@ -159,7 +204,13 @@ const App: React.FC = () => {
   // Load user data when authenticated
   useEffect(() => {
     if (session?.user) {
-      loadUserData();
+      // Drop images nothing refers to any more once loading (and the inline image migration) is
+      // done - the undo stack starts empty, so nothing can bring an unreferenced image back
+      loadUserData()
+        .then(() => deleteOrphanedAttachments())
+        .catch((error) => {
+          console.error('Failed to clean up attachments:', error);
+        });
 
       // Initialize daily auto-backup scheduler
       initializeDailyBackup(session.user.id).catch((error) => {
@@ -173,6 +224,16 @@ const App: React.FC = () => {
     };
   }, [session]);
 
+  // Snapshot net worth whenever balances change (one snapshot per day)
+  useEffect(() => {
+    if (settings.accounts.length === 0) return;
+    recordNetWorthSnapshot(settings.accounts, settings.baseCurrency, settings.exchangeRates, netWorthSnapshots)
+      .then(saved => {
+        if (saved) setNetWorthSnapshots(prev => [...prev.filter(s => s.id !== saved.id), saved]);
+      })
+      .catch(error => console.error('Error recording net worth snapshot:', error));
+  }, [settings.accounts, settings.baseCurrency, settings.exchangeRates]);
+
   // Filter transactions based on date filter
   const filteredTransactions = useMemo(() => {
     if (dateFilter === 'all') {
@@ -244,6 +305,9 @@ const App: React.FC = () => {
         }
       }
 
+      // One-time move of inline receipt and cheque images into the attachments store
+      await migrateInlineImages();
+
       // Load from IndexedDB
       const [
         txns,
@@ -256,7 +320,17 @@ const App: React.FC = () => {
         gradientEndColor,
         gradientAngle,
         autoBalancerEnabled,
+        parserProvider,
+        parserFallbackEnabled,
         scheduledData,
+        savingsGoals,
+        contributions,
+        exchangeRates,
+        budgetData,
+        reconciliationData,
+        netWorthData,
+        priceData,
+        searches,
       ] = await Promise.all([
         getAllTransactions(),
         getAllAccounts(),
@@ -268,11 +342,40 @@ const App: React.FC = () => {
         getSetting('gradientEndColor'),
         getSetting('gradientAngle'),
         getSetting('autoBalancerEnabled'),
+        getSetting('parserProvider'),
+        getSetting('parserFallbackEnabled'),
         getAllScheduledTransactions(),
+        getAllSavingsGoals(),
+        getAllGoalContributions(),
+        getAllExchangeRates(),
+        getAllBudgets(),
+        getAllReconciliations(),
+        getAllNetWorthSnapshots(),
+        getAllSecurityPrices(),
+        getSavedSearches(),
       ]);
 
+      // Keep investment accounts at the market value of their holdings
+      const revalued = await revalueInvestmentAccounts(accounts || [], txns || [], priceData || []);
+      const accountsWithValues = (accounts || []).map(a => revalued.find(r => r.id === a.id) || a);
+
+      // Schedule payments for credit card statements that closed since the last load
+      const statementPayments = await generateStatementPayments(accounts || [], txns || [], scheduledData || []);
+      const allScheduled = [...(scheduledData || []), ...statementPayments];
+
       setTransactions(txns || []);
-      setScheduledTransactions(scheduledData || []);
+      setScheduledTransactions(allScheduled);
+      setGoalContributions(contributions || []);
+      setBudgets(budgetData || []);
+      setReconciliations(reconciliationData || []);
+      setSecurityPrices(priceData || []);
+      setSavedSearches(searches);
+
+      // First run: rebuild month-end net worth from transaction history
+      const snapshots = netWorthData && netWorthData.length > 0
+        ? netWorthData
+        : await backfillNetWorthHistory(accountsWithValues, txns || [], baseCurrency || 'USD', exchangeRates || []);
+      setNetWorthSnapshots(snapshots);
 
       // Initialize order values for categories that don't have them
       const categoriesWithOrder = (categories || []).map((cat, index) => ({
@@ -291,15 +394,18 @@ const App: React.FC = () => {
       setSettings({
         baseCurrency: baseCurrency || 'USD',
         categories: categoriesWithOrder,
-        accounts: accounts || [],
+        accounts: accountsWithValues,
         recurringRules: rules || [],
-        savingsGoals: [], // Not migrated yet
+        savingsGoals: savingsGoals || [],
         warranties: warranties || [],
-        scheduledTransactions: scheduledData || [],
+        scheduledTransactions: allScheduled,
+        exchangeRates: exchangeRates || [],
         gradientStartColor: gradientStartColor || '#d0dddf',
         gradientEndColor: gradientEndColor || '#dcfefb',
         gradientAngle: gradientAngle || 135,
         autoBalancerEnabled: autoBalancerEnabled !== undefined ? autoBalancerEnabled : true,
+        parserProvider: parserProvider || 'gemini',
+        parserFallbackEnabled: parserFallbackEnabled !== undefined ? parserFallbackEnabled : true,
       });
 
       // Run cleanup on startup
@@ -310,13 +416,16 @@ const App: React.FC = () => {
         const shouldBackup = await shouldAutoBackup();
         if (shouldBackup) {
           try {
-            const csv = await exportToCSV();
+            const data = await exportBackup();
             const receiptsBlob = await exportReceiptsZip();
-            await uploadBackup(session.user.id, csv, receiptsBlob);
+            await uploadBackup(session.user.id, data, receiptsBlob);
             await markAutoBackupComplete();
+            await clearAutoBackupFailure();
             console.log('Auto-backup completed');
           } catch (err) {
             console.error('Auto-backup failed:', err);
+            const failure = await recordAutoBackupFailure(err);
+            alert(`Monthly auto-backup failed: ${failure.message}`);
           }
         }
       }
@@ -325,6 +434,15 @@ const App: React.FC = () => {
     }
   };
 
+  // Push a finished action onto the undo stack (a new action clears redo)
+  const recordUndo = (audit: AuditContext) => {
+    setUndoStack(prev => [...prev, audit].slice(-UNDO_STACK_LIMIT));
+    setRedoStack([]);
+  };
+
+  const addedContext = (txns: Transaction[], source: AuditSource) =>
+    newAuditContext(source, txns.length === 1 ? `Add ${txns[0].merchant}` : `Add ${txns.length} transactions`);
+
   // Helper: Check if transaction should update balance (compare to most recent transaction)
   const shouldUpdateBalance = (transaction: Transaction, accountId: string): boolean => {
     // Find most recent transaction for this account
@@ -347,12 +465,12 @@ const App: React.FC = () => {
     return newTxnDateTime >= mostRecentDateTime;
   };
 
-  const saveTransactionsNormally = async (newTransactions: Transaction[]) => {
+  const saveTransactionsNormally = async (newTransactions: Transaction[], audit: AuditContext) => {
     const unknownTransactionsToCreate: Transaction[] = [];
 
     // Save to IndexedDB and detect balance differences
     for (const tx of newTransactions) {
-      await saveTransaction(tx);
+      await saveTransaction(tx, audit);
 
       // Update account balances
       if (tx.type === TransactionType.TRANSFER && tx.accountId && tx.toAccountId) {
@@ -362,12 +480,12 @@ const App: React.FC = () => {
 
         if (fromAccount) {
           const newFromBalance = fromAccount.balance - tx.amount;
-          await saveAccount({ ...fromAccount, balance: newFromBalance });
+          await saveAccount({ ...fromAccount, balance: newFromBalance }, audit);
         }
 
         if (toAccount) {
           const newToBalance = toAccount.balance + tx.amount;
-          await saveAccount({ ...toAccount, balance: newToBalance });
+          await saveAccount({ ...toAccount, balance: newToBalance }, audit);
         }
       } else if (tx.accountId) {
         // Handle EXPENSE/INCOME
@@ -430,22 +548,37 @@ const App: React.FC = () => {
           }
 
           const updatedAccount = { ...account, balance: newBalance };
-          await saveAccount(updatedAccount);
+          await saveAccount(updatedAccount, audit);
         }
       }
     }
 
-    // Save Unknown transactions (if any were created)
+    // Save Unknown transactions (if any were created), in the same undo batch
     for (const unknownTx of unknownTransactionsToCreate) {
-      await saveTransaction(unknownTx);
+      await saveTransaction(unknownTx, { ...audit, source: 'auto-balancer' });
+    }
+    recordUndo(audit);
+
+    // Remember the conversion rates parsed transactions used
+    try {
+      await recordLearnedRates(newTransactions, settings.baseCurrency);
+    } catch (err) {
+      console.error('Failed to learn exchange rates:', err);
     }
 
+    // Warn when new expenses push a budget past one of its alert thresholds
+    const budgetAlerts = checkBudgetAlerts(budgets, transactions, newTransactions, settings);
+
     // Reload data
     await loadUserData();
     setCurrentView('dashboard');
+
+    if (budgetAlerts.length > 0) {
+      alert(`Budget alert\n\n${formatBudgetAlerts(budgetAlerts, settings.baseCurrency)}`);
+    }
   };
 
-  const handleAddTransactions = async (newTransactions: Omit<Transaction, 'id'>[]) => {
+  const handleAddTransactions = async (newTransactions: Omit<Transaction, 'id'>[], source: AuditSource = 'ai-parse') => {
     const txnsWithIds = newTransactions.map(tx => ({
       ...tx,
       id: uuidv4(),
@@ -464,13 +597,14 @@ const App: React.FC = () => {
             scheduledTransaction: match.scheduledTransaction,
             score: match.score,
             reasons: match.reasons,
+            source,
           });
           return; // Exit to show match confirmation
         }
       }
 
       // No matches found OR bulk import - proceed with normal flow for all transactions
-      await saveTransactionsNormally(txnsWithIds);
+      await saveTransactionsNormally(txnsWithIds, addedContext(txnsWithIds, source));
     } catch (error) {
       console.error('Error adding transactions:', error);
       alert('Failed to save transactions. Please try again.');
@@ -480,15 +614,17 @@ const App: React.FC = () => {
   const handleConfirmMatch = async () => {
     if (!matchingCandidate) return;
 
+    const audit = newAuditContext('match-confirm', `Match ${matchingCandidate.transaction.merchant}`);
     try {
       // Save the transaction
-      await saveTransaction(matchingCandidate.transaction);
+      await saveTransaction(matchingCandidate.transaction, audit);
 
       // Mark scheduled transaction as paid
       await markAsPaid(
         matchingCandidate.scheduledTransaction.id,
         matchingCandidate.transaction.id,
-        matchingCandidate.transaction.date
+        matchingCandidate.transaction.date,
+        audit
       );
 
       // Update account balance (use the SAME logic from saveTransactionsNormally)
@@ -501,12 +637,12 @@ const App: React.FC = () => {
 
         if (fromAccount) {
           const newFromBalance = fromAccount.balance - tx.amount;
-          await saveAccount({ ...fromAccount, balance: newFromBalance });
+          await saveAccount({ ...fromAccount, balance: newFromBalance }, audit);
         }
 
         if (toAccount) {
           const newToBalance = toAccount.balance + tx.amount;
-          await saveAccount({ ...toAccount, balance: newToBalance });
+          await saveAccount({ ...toAccount, balance: newToBalance }, audit);
         }
       } else if (tx.accountId) {
         const account = settings.accounts.find(a => a.id === tx.accountId);
@@ -526,10 +662,15 @@ const App: React.FC = () => {
           }
 
           const updatedAccount = { ...account, balance: newBalance };
-          await saveAccount(updatedAccount);
+          await saveAccount(updatedAccount, audit);
         }
       }
 
+      // Debt payments: split loan installments into principal/interest, credit cards and payoff targets
+      await recordLoanPayment(matchingCandidate.scheduledTransaction, tx, audit);
+      await recordDebtPayment(matchingCandidate.scheduledTransaction, tx, audit);
+      recordUndo(audit);
+
       setMatchingCandidate(null);
 
       await loadUserData();
@@ -543,14 +684,17 @@ const App: React.FC = () => {
     if (!matchingCandidate) return;
 
     // Save the rejected match transaction normally
-    await saveTransactionsNormally([matchingCandidate.transaction]);
+    await saveTransactionsNormally([matchingCandidate.transaction], addedContext([matchingCandidate.transaction], matchingCandidate.source));
 
     setMatchingCandidate(null);
   };
 
   const handleDeleteTransaction = async (id: string) => {
     if (window.confirm("Are you sure you want to delete this transaction?")) {
-      await deleteTransactionDB(id);
+      const tx = transactions.find(t => t.id === id);
+      const audit = newAuditContext('manual-edit', `Delete ${tx?.merchant || 'transaction'}`);
+      await deleteTransactionDB(id, audit);
+      recordUndo(audit);
       await loadUserData();
     }
   };
@@ -560,11 +704,71 @@ const App: React.FC = () => {
   };
 
   const handleUpdateTransaction = async (updated: Transaction) => {
-    await saveTransaction(updated);
+    const audit = newAuditContext('manual-edit', `Edit ${updated.merchant}`);
+    await saveTransaction(updated, audit);
+    recordUndo(audit);
     setEditingTransaction(null);
     await loadUserData();
   };
 
+  const handleBulkChange = async (change: BulkChange) => {
+    const audit = newAuditContext('bulk-edit', change.label);
+    try {
+      await applyBulkChange(change, audit);
+      recordUndo(audit);
+      await loadUserData();
+    } catch (error) {
+      console.error('Error applying bulk change:', error);
+      alert('Failed to update the selected transactions. Nothing was changed.');
+    }
+  };
+
+  const handleUndo = async () => {
+    const batch = undoStack[undoStack.length - 1];
+    if (!batch) return;
+    try {
+      await undoBatch(batch);
+      setUndoStack(prev => prev.slice(0, -1));
+      setRedoStack(prev => [...prev, batch]);
+      await loadUserData();
+    } catch (error) {
+      console.error('Error undoing change:', error);
+      alert('Failed to undo. Nothing was changed.');
+    }
+  };
+
+  const handleRedo = async () => {
+    const batch = redoStack[redoStack.length - 1];
+    if (!batch) return;
+    try {
+      await redoBatch(batch);
+      setRedoStack(prev => prev.slice(0, -1));
+      setUndoStack(prev => [...prev, batch]);
+      await loadUserData();
+    } catch (error) {
+      console.error('Error redoing change:', error);
+      alert('Failed to redo. Nothing was changed.');
+    }
+  };
+
+  // Ctrl/Cmd+Z to undo, Ctrl/Cmd+Shift+Z or Ctrl+Y to redo (text fields keep their own undo)
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (!(e.ctrlKey || e.metaKey) || target.closest('input, textarea, select, [contenteditable="true"]')) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        handleUndo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        handleRedo();
+      }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [undoStack, redoStack]);
+
   const handleAddRuleFromTransaction = async (merchant: string, category: string, type: TransactionType) => {
     try {
       const newRule: RecurringRule = {
@@ -617,8 +821,10 @@ const App: React.FC = () => {
       };
 
       // Save transaction and update account balance
-      await saveTransaction(txWithId);
-      await saveAccount({ ...account, balance: newBalance });
+      const audit = newAuditContext('balance-adjustment', `Adjust ${account.name} balance`);
+      await saveTransaction(txWithId, audit);
+      await saveAccount({ ...account, balance: newBalance }, audit);
+      recordUndo(audit);
 
       // Reload data
       await loadUserData();
@@ -627,6 +833,31 @@ const App: React.FC = () => {
     }
   };
 
+  // Overwrite the stored balance with the one rebuilt from transaction history (no adjustment transaction)
+  const handleRecomputeBalance = async (accountId: string, balance: number) => {
+    try {
+      const account = settings.accounts.find(a => a.id === accountId);
+      if (!account) return;
+      const audit = newAuditContext('balance-adjustment', `Recompute ${account.name} balance`);
+      await saveAccount({ ...account, balance }, audit);
+      recordUndo(audit);
+      await loadUserData();
+    } catch (error) {
+      console.error('Error recomputing balance:', error);
+      alert('Failed to update balance.');
+    }
+  };
+
+  const handleRebuildNetWorthHistory = async () => {
+    try {
+      await backfillNetWorthHistory(settings.accounts, transactions, settings.baseCurrency, settings.exchangeRates);
+      setNetWorthSnapshots(await getAllNetWorthSnapshots());
+    } catch (error) {
+      console.error('Error rebuilding net worth history:', error);
+      alert('Failed to rebuild net worth history.');
+    }
+  };
+
   const handleCreateRecurringBill = async (transaction: Transaction, recurringData: RecurringBillFormData) => {
     try {
       // Convert transaction to ScheduledTransaction
@@ -651,11 +882,72 @@ const App: React.FC = () => {
     }
   };
 
+  const handleSaveBudget = async (budget: Budget) => {
+    try {
+      await saveBudget(budget);
+      await loadUserData();
+    } catch (error) {
+      console.error('Error saving budget:', error);
+      alert('Failed to save budget. Please try again.');
+    }
+  };
+
+  const handleDeleteBudget = async (id: string) => {
+    if (!window.confirm('Delete this budget?')) return;
+    await deleteBudgetDB(id);
+    await loadUserData();
+  };
+
+  const handleGoalDeposit = async (
+    goalId: string,
+    amount: number,
+    date: string,
+    accountId?: string,
+    recordTransaction?: boolean
+  ) => {
+    try {
+      const goal = settings.savingsGoals.find(g => g.id === goalId);
+      if (!goal) {
+        console.error('Savings goal not found');
+        return;
+      }
+
+      // Optionally record the deposit as money leaving the source account, in the same batch
+      const audit = newAuditContext('manual-entry', `Deposit to ${goal.name}`);
+      await recordContribution(goal, amount, date, audit, {
+        accountId,
+        withdrawal: recordTransaction
+          ? { account: settings.accounts.find(a => a.id === accountId), currency: settings.baseCurrency }
+          : undefined,
+      });
+      recordUndo(audit);
+
+      await loadUserData();
+    } catch (error) {
+      console.error('Error recording goal deposit:', error);
+      alert('Failed to record the deposit. Nothing was changed.');
+    }
+  };
+
   const handleAccountSelect = (accountId: string) => {
     setSelectedAccountId(accountId);
     setCurrentView('history');
   };
 
+  const handleSavedSearchesChange = async (searches: SavedSearch[]) => {
+    try {
+      await saveSavedSearches(searches);
+      setSavedSearches(searches);
+    } catch (error) {
+      console.error('Error saving searches:', error);
+    }
+  };
+
+  const handleOpenSavedSearch = (search: SavedSearch) => {
+    setSearchQuery(search.query);
+    setCurrentView('history');
+  };
+
   const handleUpdateSettings = async (newSettings: AppSettings) => {
     try {
       // Handle Developer Reset Actions
@@ -669,17 +961,19 @@ const App: React.FC = () => {
 
         let successCount = 0;
         let failCount = 0;
+        const audit = newAuditContext('manual-edit', 'Delete Unknown transactions');
 
         // Delete transactions one by one with error handling
         for (const tx of unknownTxns) {
           try {
-            await deleteTransactionDB(tx.id);
+            await deleteTransactionDB(tx.id, audit);
             successCount++;
           } catch (err) {
             console.error(`Failed to delete transaction ${tx.id}:`, err);
             failCount++;
           }
         }
+        if (successCount > 0) recordUndo(audit);
 
         await loadUserData();
 
@@ -705,6 +999,9 @@ const App: React.FC = () => {
       if ((newSettings as any).__resetToDefault) {
         // Hard Reset - Delete all user data
         await clearAllData();
+        await clearAuditLog();
+        setUndoStack([]);
+        setRedoStack([]);
         setTransactions([]);
         setSettings(DEFAULT_SETTINGS);
         return;
@@ -716,6 +1013,8 @@ const App: React.FC = () => {
       await saveSetting('gradientEndColor', newSettings.gradientEndColor);
       await saveSetting('gradientAngle', newSettings.gradientAngle);
       await saveSetting('autoBalancerEnabled', newSettings.autoBalancerEnabled);
+      await saveSetting('parserProvider', newSettings.parserProvider);
+      await saveSetting('parserFallbackEnabled', newSettings.parserFallbackEnabled);
 
       // Save categories
       for (const cat of newSettings.categories) {
@@ -730,9 +1029,10 @@ const App: React.FC = () => {
         await deleteCategoryDB(cat.id);
       }
 
-      // Save accounts
+      // Save accounts (unchanged ones aren't logged)
+      const accountsAudit = newAuditContext('manual-edit', 'Edit accounts');
       for (const acc of newSettings.accounts) {
-        await saveAccount(acc);
+        await saveAccount(acc, accountsAudit);
       }
 
       // Delete removed accounts
@@ -740,8 +1040,9 @@ const App: React.FC = () => {
         a => !newSettings.accounts.find(na => na.id === a.id)
       );
       for (const acc of removedAccounts) {
-        await deleteAccountDB(acc.id);
+        await deleteAccountDB(acc.id, accountsAudit);
       }
+      if (JSON.stringify(newSettings.accounts) !== JSON.stringify(settings.accounts)) recordUndo(accountsAudit);
 
       // Save rules
       for (const rule of newSettings.recurringRules) {
@@ -769,6 +1070,39 @@ const App: React.FC = () => {
         await deleteWarrantyDB(warranty.id);
       }
 
+      // Save savings goals
+      for (const goal of newSettings.savingsGoals) {
+        await saveSavingsGoal(goal);
+      }
+
+      // Delete removed savings goals (and their contribution history)
+      const removedGoals = settings.savingsGoals.filter(
+        g => !newSettings.savingsGoals.find(ng => ng.id === g.id)
+      );
+      if (removedGoals.length > 0) {
+        const audit = newAuditContext(
+          'manual-edit',
+          removedGoals.length === 1 ? `Delete goal ${removedGoals[0].name}` : `Delete ${removedGoals.length} goals`
+        );
+        for (const goal of removedGoals) {
+          await deleteGoalWithContributions(goal.id, audit);
+        }
+        recordUndo(audit);
+      }
+
+      // Save exchange rates
+      for (const rate of newSettings.exchangeRates) {
+        await saveExchangeRate(rate);
+      }
+
+      // Delete removed exchange rates
+      const removedRates = settings.exchangeRates.filter(
+        r => !newSettings.exchangeRates.find(nr => nr.id === r.id)
+      );
+      for (const rate of removedRates) {
+        await deleteExchangeRateDB(rate.id);
+      }
+
       // Reload
       await loadUserData();
     } catch (error) {
@@ -854,7 +1188,11 @@ const App: React.FC = () => {
       }
 
       // Mark the scheduled transaction as paid with the matched transaction
-      await markAsPaid(scheduledTx.id, transactionId, transaction.date);
+      const audit = newAuditContext('match-confirm', `Pair ${scheduledTx.chequeNumber || scheduledTx.merchant}`);
+      await markAsPaid(scheduledTx.id, transactionId, transaction.date, audit);
+      await recordLoanPayment(scheduledTx, transaction, audit);
+      await recordDebtPayment(scheduledTx, transaction, audit);
+      recordUndo(audit);
 
       // Reload user data to refresh the UI
       await loadUserData();
@@ -880,8 +1218,10 @@ const App: React.FC = () => {
       const account = settings.accounts.find(a => a.id === accountId);
       if (!account) return;
 
+      const audit = newAuditContext('balance-adjustment', `Accept ${account.name} balance`);
       const updatedAccount = { ...account, balance: newBalance };
-      await saveAccount(updatedAccount);
+      await saveAccount(updatedAccount, audit);
+      recordUndo(audit);
       await loadUserData();
     } catch (error) {
       console.error('Error accepting calculated balance:', error);
@@ -961,6 +1301,7 @@ const App: React.FC = () => {
             accounts={settings.accounts}
             scheduledTransactions={scheduledTransactions}
             baseCurrency={settings.baseCurrency}
+            exchangeRates={settings.exchangeRates}
             dateFilter={dateFilter}
             onDateFilterChange={handleDateFilterChange}
             customStartDate={customStartDate}
@@ -980,6 +1321,8 @@ const App: React.FC = () => {
               setCurrentView('accounts');
             }}
             onViewBills={() => setCurrentView('bills')}
+            netWorthSnapshots={netWorthSnapshots}
+            onRebuildNetWorthHistory={handleRebuildNetWorthHistory}
           />
         );
       case 'add':
@@ -998,8 +1341,16 @@ const App: React.FC = () => {
           <AccountsView
             accounts={settings.accounts}
             transactions={filteredTransactions}
+            allTransactions={transactions}
+            baseCurrency={settings.baseCurrency}
+            exchangeRates={settings.exchangeRates}
+            reconciliations={reconciliations}
             onSelectAccount={handleAccountSelect}
             onAdjustBalance={handleManualBalanceAdjustment}
+            onReconciliationChanged={loadUserData}
+            onRecomputeBalance={handleRecomputeBalance}
+            securityPrices={securityPrices}
+            onInvestmentsChanged={loadUserData}
             dateFilter={dateFilter}
             onDateFilterChange={handleDateFilterChange}
             customStartDate={customStartDate}
@@ -1015,7 +1366,10 @@ const App: React.FC = () => {
         return (
           <TransactionList
             transactions={filteredTransactions}
+            allTransactions={transactions}
             accounts={settings.accounts}
+            categories={settings.categories}
+            reconciliations={reconciliations}
             onDelete={handleDeleteTransaction}
             onEdit={handleEditTransaction}
             initialFilterAccountId={selectedAccountId}
@@ -1029,6 +1383,13 @@ const App: React.FC = () => {
             onPreviousPeriod={handlePreviousPeriod}
             onNextPeriod={handleNextPeriod}
             currentPeriodLabel={getCurrentPeriodLabel()}
+            searchQuery={searchQuery}
+            onSearchQueryChange={setSearchQuery}
+            savedSearches={savedSearches}
+            onSavedSearchesChange={handleSavedSearchesChange}
+            onBulkChange={handleBulkChange}
+            undoLabel={undoStack[undoStack.length - 1]?.source === 'bulk-edit' ? undoStack[undoStack.length - 1].label : null}
+            onUndo={handleUndo}
           />
         );
       case 'calendar':
@@ -1048,7 +1409,21 @@ const App: React.FC = () => {
           <PlanningView
             settings={settings}
             onUpdateSettings={handleUpdateSettings}
+            goalContributions={goalContributions}
+            onDeposit={handleGoalDeposit}
+            transactions={transactions}
+            scheduledTransactions={scheduledTransactions}
+            onPaymentsScheduled={loadUserData}
+          />
+        );
+      case 'budgets':
+        return (
+          <BudgetView
+            settings={settings}
+            budgets={budgets}
             transactions={transactions}
+            onSaveBudget={handleSaveBudget}
+            onDeleteBudget={handleDeleteBudget}
           />
         );
       case 'categories':
@@ -1081,11 +1456,16 @@ const App: React.FC = () => {
             accounts={settings.accounts}
             scheduledTransactions={scheduledTransactions}
             transactions={transactions}
+            recurringRules={settings.recurringRules}
             onCreateScheduled={() => setShowScheduledForm(true)}
             onCreateBatchCheques={() => setShowBatchChequeCreator(true)}
             onMarkPaid={handleMarkPaid}
             onSkip={handleSkipScheduled}
             onManualPairing={handleManualChequePairing}
+            onLoanChanged={(audit) => {
+              recordUndo(audit);
+              loadUserData();
+            }}
             onViewScheduled={(st) => {
               setEditingScheduled(st);
               setShowScheduledForm(true);
@@ -1100,6 +1480,11 @@ const App: React.FC = () => {
             onUpdateSettings={handleUpdateSettings}
             onBack={() => setCurrentView('dashboard')}
             transactions={transactions}
+            onRulesApplied={loadUserData}
+            onReceiptsCleanedUp={(audit) => {
+              recordUndo(audit);
+              loadUserData();
+            }}
           />
         );
       default:
@@ -1109,6 +1494,7 @@ const App: React.FC = () => {
             accounts={settings.accounts}
             scheduledTransactions={scheduledTransactions}
             baseCurrency={settings.baseCurrency}
+            exchangeRates={settings.exchangeRates}
             dateFilter={dateFilter}
             onDateFilterChange={handleDateFilterChange}
             customStartDate={customStartDate}
@@ -1173,6 +1559,8 @@ const App: React.FC = () => {
           onClose={() => setShowBackupRestoreModal(false)}
           onRestoreComplete={async () => {
             setShowBackupRestoreModal(false);
+            setUndoStack([]);
+            setRedoStack([]);
             await loadUserData();
           }}
         />
@@ -1188,6 +1576,22 @@ const App: React.FC = () => {
             <h1 className="text-xl font-bold text-slate-800 tracking-tight">FinSnap</h1>
           </div>
           <div className="flex items-center gap-3">
+            <button
+              onClick={handleUndo}
+              disabled={undoStack.length === 0}
+              className="text-slate-400 hover:text-slate-600 disabled:opacity-30 disabled:hover:text-slate-400"
+              title={undoStack.length > 0 ? `Undo ${undoStack[undoStack.length - 1].label || 'last change'}` : 'Nothing to undo'}
+            >
+              <Undo2 size={20} />
+            </button>
+            <button
+              onClick={handleRedo}
+              disabled={redoStack.length === 0}
+              className="text-slate-400 hover:text-slate-600 disabled:opacity-30 disabled:hover:text-slate-400"
+              title={redoStack.length > 0 ? `Redo ${redoStack[redoStack.length - 1].label || 'last change'}` : 'Nothing to redo'}
+            >
+              <Redo2 size={20} />
+            </button>
             <div className="text-xs font-medium px-2 py-1 bg-brand-50 text-brand-700 rounded-md border border-brand-100">
               {settings.baseCurrency}
             </div>
@@ -1213,6 +1617,7 @@ const App: React.FC = () => {
           transaction={editingTransaction}
           categories={settings.categories}
           accounts={settings.accounts}
+          reconciliations={reconciliations}
           onClose={() => setEditingTransaction(null)}
           onDelete={(id) => { handleDeleteTransaction(id); setEditingTransaction(null); }}
           onSave={handleUpdateTransaction}
@@ -1274,6 +1679,8 @@ const App: React.FC = () => {
         onClose={() => setIsDrawerOpen(false)}
         currentView={currentView}
         onNavigate={setCurrentView}
+        pinnedSearches={savedSearches.filter(s => s.pinned)}
+        onOpenSearch={handleOpenSavedSearch}
       />
     </div>
   );
@@ -1,13 +1,26 @@
 import React, { useMemo, useState } from 'react';
-import { Account, Transaction, TransactionType } from '../types';
-import { CreditCard, Wallet, Building2, Banknote, AlertTriangle, CheckCircle2, ChevronRight, ChevronLeft, Calendar, Settings2 } from 'lucide-react';
+import { Account, Transaction, TransactionType, ExchangeRate, Reconciliation, SecurityPrice } from '../types';
+import { CreditCard, Wallet, Building2, Banknote, AlertTriangle, CheckCircle2, ChevronRight, ChevronLeft, Calendar, Settings2, ArrowLeftRight, ListChecks, TrendingUp, Landmark, History } from 'lucide-react';
 import BalanceAdjustmentModal from './BalanceAdjustmentModal';
+import ReconciliationModal from './ReconciliationModal';
+import BalanceHistoryChart from './BalanceHistoryChart';
+import InvestmentHoldings from './InvestmentHoldings';
+import AuditHistoryPanel from './AuditHistoryPanel';
+import { accountBalanceInBase, calculateFxGainLoss, netWorthInBase } from '../services/exchangeRateService';
 
 interface AccountsViewProps {
   accounts: Account[];
   transactions: Transaction[];
+  allTransactions?: Transaction[]; // Unfiltered history, for FX cost basis
+  baseCurrency: string;
+  exchangeRates?: ExchangeRate[];
+  reconciliations?: Reconciliation[];
+  securityPrices?: SecurityPrice[];
   onSelectAccount: (accountId: string) => void;
   onAdjustBalance: (accountId: string, newBalance: number) => void;
+  onReconciliationChanged?: () => void;
+  onRecomputeBalance?: (accountId: string, balance: number) => void;
+  onInvestmentsChanged?: () => void;
   dateFilter: 'month' | 'year' | 'week' | 'custom' | 'all';
   onDateFilterChange: (filter: 'month' | 'year' | 'week' | 'custom' | 'all') => void;
   customStartDate: string;
@@ -25,8 +38,16 @@ const DATE_FILTER_TYPES: Array<'month' | 'year' | 'week' | 'custom' | 'all'> =
 const AccountsView: React.FC<AccountsViewProps> = ({
   accounts,
   transactions,
+  allTransactions = transactions,
+  baseCurrency,
+  exchangeRates = [],
+  reconciliations = [],
+  securityPrices = [],
   onSelectAccount,
   onAdjustBalance,
+  onReconciliationChanged,
+  onRecomputeBalance,
+  onInvestmentsChanged,
   dateFilter,
   onDateFilterChange,
   customStartDate,
@@ -38,6 +59,8 @@ const AccountsView: React.FC<AccountsViewProps> = ({
   currentPeriodLabel
 }) => {
   const [adjustingAccount, setAdjustingAccount] = useState<Account | null>(null);
+  const [reconcilingAccount, setReconcilingAccount] = useState<Account | null>(null);
+  const [historyAccountId, setHistoryAccountId] = useState<string | null>(null);
 
   // Date Filter Type Navigation
   const handlePreviousFilterType = () => {
@@ -84,6 +107,8 @@ const AccountsView: React.FC<AccountsViewProps> = ({
       case 'Credit Card': return <CreditCard size={20} className="text-white" />;
       case 'Bank': return <Building2 size={20} className="text-white" />;
       case 'Cash': return <Banknote size={20} className="text-white" />;
+      case 'Investment': return <TrendingUp size={20} className="text-white" />;
+      case 'Asset': return <Landmark size={20} className="text-white" />;
       default: return <Wallet size={20} className="text-white" />;
     }
   };
@@ -110,7 +135,12 @@ const AccountsView: React.FC<AccountsViewProps> = ({
     return null;
   };
 
-  const totalNetWorth = accounts.reduce((acc, curr) => acc + (curr.balance || 0), 0);
+  const totalNetWorth = netWorthInBase(accounts, baseCurrency, exchangeRates);
+
+  const fxReport = useMemo(
+    () => calculateFxGainLoss(accounts, allTransactions, baseCurrency, exchangeRates),
+    [accounts, allTransactions, baseCurrency, exchangeRates]
+  );
 
   return (
     <div className="space-y-6 pb-24">
@@ -213,7 +243,7 @@ const AccountsView: React.FC<AccountsViewProps> = ({
       <div className="bg-slate-800 rounded-2xl p-6 text-white shadow-lg">
         <h2 className="text-slate-400 text-sm font-medium mb-1">Total Net Worth</h2>
         <div className={`text-3xl font-bold ${totalNetWorth >= 0 ? 'text-white' : 'text-red-300'}`}>
-          {totalNetWorth < 0 ? '-' : ''}${Math.abs(totalNetWorth).toFixed(2)}
+          {totalNetWorth < 0 ? '-' : ''}{baseCurrency} {Math.abs(totalNetWorth).toFixed(2)}
         </div>
       </div>
 
@@ -258,8 +288,13 @@ const AccountsView: React.FC<AccountsViewProps> = ({
                 <div className="text-right space-y-2">
                   <div>
                     <div className={`text-lg font-bold ${acc.balance >= 0 ? 'text-slate-800' : 'text-red-500'}`}>
-                      {acc.balance < 0 ? '-' : ''}${Math.abs(acc.balance).toFixed(2)}
+                      {acc.balance < 0 ? '-' : ''}{acc.currency || baseCurrency} {Math.abs(acc.balance).toFixed(2)}
                     </div>
+                    {acc.currency && acc.currency !== baseCurrency && (
+                      <div className="text-[10px] text-slate-400">
+                        ≈ {baseCurrency} {accountBalanceInBase(acc, baseCurrency, exchangeRates).toFixed(2)}
+                      </div>
+                    )}
                     {acc.type === 'Credit Card' && acc.totalCreditLimit && (
                       <div className="text-[10px] text-slate-400">
                         of ${acc.totalCreditLimit.toLocaleString()} Limit
@@ -276,6 +311,28 @@ const AccountsView: React.FC<AccountsViewProps> = ({
                     <Settings2 size={12} />
                     Adjust
                   </button>
+                  {onReconciliationChanged && (
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        setReconcilingAccount(acc);
+                      }}
+                      className="flex items-center gap-1 px-2 py-1 text-[10px] font-medium text-slate-600 bg-slate-100 hover:bg-slate-200 rounded-lg transition-colors"
+                    >
+                      <ListChecks size={12} />
+                      {reconciliations.some(r => r.accountId === acc.id && r.status === 'IN_PROGRESS') ? 'Resume' : 'Reconcile'}
+                    </button>
+                  )}
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      setHistoryAccountId(historyAccountId === acc.id ? null : acc.id);
+                    }}
+                    className="flex items-center gap-1 px-2 py-1 text-[10px] font-medium text-slate-600 bg-slate-100 hover:bg-slate-200 rounded-lg transition-colors"
+                  >
+                    <History size={12} />
+                    History
+                  </button>
                 </div>
               </div>
 
@@ -323,6 +380,12 @@ const AccountsView: React.FC<AccountsViewProps> = ({
                    </div>
                 )}
               </div>
+
+              {historyAccountId === acc.id && (
+                <div className="mt-4 cursor-default" onClick={(e) => e.stopPropagation()}>
+                  <AuditHistoryPanel entityId={acc.id} refreshKey={acc} defaultOpen />
+                </div>
+              )}
               
               <div className="absolute right-4 top-1/2 -translate-y-1/2 opacity-0 group-hover:opacity-100 transition-opacity text-slate-300">
                 <ChevronRight size={24} />
@@ -332,6 +395,60 @@ const AccountsView: React.FC<AccountsViewProps> = ({
         })}
       </div>
 
+      {/* Investment Holdings */}
+      {onInvestmentsChanged && (
+        <InvestmentHoldings
+          accounts={accounts}
+          transactions={allTransactions}
+          prices={securityPrices}
+          onChanged={onInvestmentsChanged}
+        />
+      )}
+
+      {/* Balance Over Time */}
+      {onRecomputeBalance && accounts.length > 0 && (
+        <BalanceHistoryChart
+          accounts={accounts}
+          transactions={allTransactions}
+          onRecomputeBalance={onRecomputeBalance}
+        />
+      )}
+
+      {/* Unrealized FX Gain/Loss */}
+      {fxReport.length > 0 && (
+        <div className="space-y-3">
+          <h3 className="text-lg font-bold text-slate-800 px-1 flex items-center gap-2">
+            <ArrowLeftRight size={18} className="text-slate-500" />
+            Unrealized FX Gain/Loss
+          </h3>
+          <div className="bg-white rounded-xl shadow-sm border border-slate-100 divide-y divide-slate-100">
+            {fxReport.map(row => (
+              <div key={row.accountId} className="p-4 flex justify-between items-center">
+                <div>
+                  <div className="font-bold text-slate-800">{row.accountName}</div>
+                  <div className="text-xs text-slate-400">
+                    {row.currency} {row.balance.toFixed(2)}
+                    {row.currentRate !== null && <> @ {row.currentRate.toFixed(4)} {baseCurrency}</>}
+                  </div>
+                </div>
+                {row.unrealized === null ? (
+                  <div className="text-xs text-amber-600 font-medium">No {row.currency} rate</div>
+                ) : (
+                  <div className="text-right">
+                    <div className={`font-bold ${row.unrealized >= 0 ? 'text-green-600' : 'text-red-500'}`}>
+                      {row.unrealized >= 0 ? '+' : '-'}{baseCurrency} {Math.abs(row.unrealized).toFixed(2)}
+                    </div>
+                    <div className="text-[10px] text-slate-400">
+                      Cost {baseCurrency} {row.costBasis!.toFixed(2)} → Value {row.marketValue!.toFixed(2)}
+                    </div>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Balance Adjustment Modal */}
       {adjustingAccount && (
         <BalanceAdjustmentModal
@@ -343,6 +460,17 @@ const AccountsView: React.FC<AccountsViewProps> = ({
           onCancel={() => setAdjustingAccount(null)}
         />
       )}
+
+      {/* Statement Reconciliation Modal */}
+      {reconcilingAccount && onReconciliationChanged && (
+        <ReconciliationModal
+          account={reconcilingAccount}
+          transactions={allTransactions}
+          reconciliations={reconciliations}
+          onChanged={onReconciliationChanged}
+          onClose={() => setReconcilingAccount(null)}
+        />
+      )}
     </div>
   );
 };
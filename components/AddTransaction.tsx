@@ -1,14 +1,25 @@
 import React, { useState, useRef } from 'react';
-import { parseTransactions } from '../services/geminiService';
-import { Transaction, TransactionType, AppSettings } from '../types';
-import { Sparkles, ArrowRight, X, Check, Loader2, MessageSquareText, Clipboard, Info, Image as ImageIcon, Banknote, BrainCircuit, Calendar, AlertCircle, CheckCircle2, AlertTriangle, BookmarkPlus, Save } from 'lucide-react';
+import { parseWithSelectedProvider, getParserProvider } from '../services/transactionParserService';
+import { Transaction, TransactionType, AppSettings, StatementColumnMapping, StatementDateFormat, AuditSource } from '../types';
+import { Sparkles, ArrowRight, X, Check, Loader2, MessageSquareText, Clipboard, Info, Image as ImageIcon, Banknote, BrainCircuit, Calendar, AlertCircle, CheckCircle2, AlertTriangle, BookmarkPlus, Save, FileSpreadsheet, CalendarClock } from 'lucide-react';
 import { v4 as uuidv4 } from 'uuid';
 import { parseReceiptLineItems, ReceiptLineItem } from '../services/receiptSplitService';
 import SplitEditorModal, { ItemGroup } from './SplitEditorModal';
 import { batchMatchCheques, getChequeMatchSummary, ChequeMatchResult } from '../services/chequeMatchingService';
+import { learnTemplateFromCorrection } from '../services/templateLearningService';
+import { findMatches, MatchCandidate } from '../services/matchingService';
+import { applyStoredRules } from '../services/rulesEngineService';
+import { NEEDS_REVIEW_TAG } from '../services/ruleBasedParserService';
+import {
+  detectStatementFormat,
+  readCsvHeaders,
+  guessColumnMapping,
+  parseStatement,
+  StatementFormat,
+} from '../services/statementImportService';
 
 interface AddTransactionProps {
-  onAdd: (transactions: Transaction[]) => void;
+  onAdd: (transactions: Transaction[], source?: AuditSource) => void;
   onCancel: () => void;
   settings: AppSettings;
   onUpdateSettings: (settings: AppSettings) => void;
@@ -17,7 +28,8 @@ interface AddTransactionProps {
 }
 
 const AddTransaction: React.FC<AddTransactionProps> = ({ onAdd, onCancel, settings, onUpdateSettings, existingTransactions, onAddRule }) => {
-  const [mode, setMode] = useState<'ai' | 'manual'>('ai');
+  const [mode, setMode] = useState<'ai' | 'manual' | 'import'>('ai');
+  const [previewSource, setPreviewSource] = useState<'text' | 'statement'>('text');
   
   // AI Mode State
   const [inputText, setInputText] = useState('');
@@ -35,6 +47,16 @@ const AddTransaction: React.FC<AddTransactionProps> = ({ onAdd, onCancel, settin
   // Cheque Matching State
   const [chequeMatchResults, setChequeMatchResults] = useState<Map<string, ChequeMatchResult>>(new Map());
 
+  // Scheduled Transaction Matching State
+  const [scheduledMatches, setScheduledMatches] = useState<Map<string, MatchCandidate>>(new Map());
+
+  // Statement Import State
+  const [statementFile, setStatementFile] = useState<{ name: string; content: string; format: StatementFormat } | null>(null);
+  const [statementAccountId, setStatementAccountId] = useState('');
+  const [csvHeaders, setCsvHeaders] = useState<string[]>([]);
+  const [csvMapping, setCsvMapping] = useState<StatementColumnMapping | null>(null);
+  const statementInputRef = useRef<HTMLInputElement>(null);
+
   // Split State
   const [splittingTransaction, setSplittingTransaction] = useState<Transaction | null>(null);
   const [splitLineItems, setSplitLineItems] = useState<ReceiptLineItem[] | null>(null);
@@ -54,6 +76,8 @@ const AddTransaction: React.FC<AddTransactionProps> = ({ onAdd, onCancel, settin
   const [manualDate, setManualDate] = useState(new Date().toISOString().split('T')[0]);
   const [manualTime, setManualTime] = useState(new Date().toTimeString().split(' ')[0].substring(0, 5));
 
+  const parserProvider = getParserProvider(settings.parserProvider);
+
   const isDuplicate = (tx: Partial<Transaction>) => {
     // Strict duplicate check based on Financial constraints:
     // Same Amount, Same Date, Same Time (if present), Same Type.
@@ -66,6 +90,102 @@ const AddTransaction: React.FC<AddTransactionProps> = ({ onAdd, onCancel, settin
     );
   };
 
+  /**
+   * Shared review pipeline for parsed text and imported statements:
+   * drop duplicates, match cheques, look for scheduled payments, then show the review screen.
+   */
+  const buildPreview = async (results: Omit<Transaction, 'id'>[], notices: string[] = []) => {
+    const uniqueResults: Transaction[] = [];
+    let duplicateCount = 0;
+
+    // Step 1: Match cheques before creating transaction objects
+    const chequeMatches = batchMatchCheques(results, settings.scheduledTransactions || []);
+    const chequeMatchMap = new Map<string, ChequeMatchResult>();
+
+    results.forEach((r, index) => {
+      if (!isDuplicate(r)) {
+        // Map accountId: If Gemini returned last4digits, find the actual account UUID
+        let mappedAccountId = r.accountId;
+        if (mappedAccountId && !mappedAccountId.includes('-')) {
+          // It's likely last4digits, not a UUID (UUIDs contain hyphens)
+          const matchedAccount = settings.accounts.find(a =>
+            a.last4Digits === mappedAccountId || a.id === mappedAccountId
+          );
+          mappedAccountId = matchedAccount?.id;
+        }
+
+        const txId = uuidv4();
+        const transaction: Transaction = {
+          ...r,
+          id: txId,
+          accountId: mappedAccountId
+        };
+
+        // Step 2: If this is a cheque, check for match and update status
+        const matchResult = chequeMatches.get(index);
+        if (matchResult && matchResult.matchedScheduledTransaction) {
+          // Auto-link the matched scheduled transaction ID
+          transaction.chequeStatus = 'CLEARED';
+          chequeMatchMap.set(txId, matchResult);
+        } else if (r.isCheque) {
+          // No match found - keep as PENDING
+          transaction.chequeStatus = 'PENDING';
+          if (matchResult) {
+            chequeMatchMap.set(txId, matchResult);
+          }
+        }
+
+        uniqueResults.push(transaction);
+      } else {
+        duplicateCount++;
+      }
+    });
+
+    // Step 3: Run the categorization rules (a split keeps the original id on its first part)
+    const ruledResults = await applyStoredRules(uniqueResults, settings.accounts);
+
+    // Step 4: Look for pending scheduled payments each (non-cheque) transaction may settle
+    const scheduledMatchMap = new Map<string, MatchCandidate>();
+    for (const transaction of ruledResults) {
+      if (chequeMatchMap.get(transaction.id)?.matchedScheduledTransaction) continue;
+      try {
+        const [best] = await findMatches(transaction);
+        if (best) scheduledMatchMap.set(transaction.id, best);
+      } catch (err) {
+        console.error('Failed to match scheduled transactions:', err);
+      }
+    }
+
+    // Step 5: Set match results for display
+    setChequeMatchResults(chequeMatchMap);
+    setScheduledMatches(scheduledMatchMap);
+
+    // Step 6: Display summary
+    const matchSummary = getChequeMatchSummary(chequeMatches);
+    const lines = [...notices];
+
+    if (matchSummary.total > 0) {
+      let chequeLine = `Cheques: ${matchSummary.highConfidence} matched, ${matchSummary.mediumConfidence} partial, ${matchSummary.noMatch} unmatched`;
+      if (matchSummary.hasIssues && matchSummary.warnings.length > 0) {
+        chequeLine += '\n⚠️ ' + matchSummary.warnings[0];
+      }
+      lines.push(chequeLine);
+    }
+
+    if (scheduledMatchMap.size > 0) {
+      lines.push(`${scheduledMatchMap.size} may settle scheduled payments.`);
+    }
+
+    if (duplicateCount > 0) {
+      lines.push(lines.length > 0 ? `Skipped ${duplicateCount} duplicate(s)` : `Skipped ${duplicateCount} duplicate transaction(s).`);
+    }
+
+    setPreviewData(ruledResults);
+    if (lines.length > 0) {
+      setError(lines.join('\n'));
+    }
+  };
+
   // --- AI HANDLERS ---
   const handleAnalyze = async () => {
     if (!inputText.trim() && !selectedImage) return;
@@ -73,83 +193,23 @@ const AddTransaction: React.FC<AddTransactionProps> = ({ onAdd, onCancel, settin
     setIsProcessing(true);
     setError(null);
     try {
-      const results = await parseTransactions(
-        inputText, 
+      const { transactions: results, usedFallback, fallbackReason, templateMatchCount } = await parseWithSelectedProvider(
+        inputText,
         settings,
-        selectedImage?.data, 
+        selectedImage?.data,
         selectedImage?.mimeType
       );
       
-      const uniqueResults: Transaction[] = [];
-      let duplicateCount = 0;
-
-      // Step 1: Match cheques before creating transaction objects
-      const chequeMatches = batchMatchCheques(results, settings.scheduledTransactions || []);
-      const chequeMatchMap = new Map<string, ChequeMatchResult>();
-
-      results.forEach((r, index) => {
-        if (!isDuplicate(r)) {
-          // Map accountId: If Gemini returned last4digits, find the actual account UUID
-          let mappedAccountId = r.accountId;
-          if (mappedAccountId && !mappedAccountId.includes('-')) {
-            // It's likely last4digits, not a UUID (UUIDs contain hyphens)
-            const matchedAccount = settings.accounts.find(a =>
-              a.last4Digits === mappedAccountId || a.id === mappedAccountId
-            );
-            mappedAccountId = matchedAccount?.id;
-          }
-
-          const txId = uuidv4();
-          const transaction: Transaction = {
-            ...r,
-            id: txId,
-            accountId: mappedAccountId
-          };
-
-          // Step 2: If this is a cheque, check for match and update status
-          const matchResult = chequeMatches.get(index);
-          if (matchResult && matchResult.matchedScheduledTransaction) {
-            // Auto-link the matched scheduled transaction ID
-            transaction.chequeStatus = 'CLEARED';
-            chequeMatchMap.set(txId, matchResult);
-          } else if (r.isCheque) {
-            // No match found - keep as PENDING
-            transaction.chequeStatus = 'PENDING';
-            if (matchResult) {
-              chequeMatchMap.set(txId, matchResult);
-            }
-          }
-
-          uniqueResults.push(transaction);
-        } else {
-          duplicateCount++;
-        }
-      });
-
-      // Step 3: Set match results for display
-      setChequeMatchResults(chequeMatchMap);
-
-      // Step 4: Display summary
-      const matchSummary = getChequeMatchSummary(chequeMatches);
-      let statusMessage = '';
-
-      if (matchSummary.total > 0) {
-        statusMessage = `Cheques: ${matchSummary.highConfidence} matched, ${matchSummary.mediumConfidence} partial, ${matchSummary.noMatch} unmatched`;
-        if (matchSummary.hasIssues && matchSummary.warnings.length > 0) {
-          statusMessage += '\n⚠️ ' + matchSummary.warnings[0];
-        }
+      const notices: string[] = [];
+      if (templateMatchCount > 0) {
+        notices.push(`${templateMatchCount} parsed locally from learned templates.`);
       }
-
-      if (duplicateCount > 0) {
-        statusMessage = statusMessage
-          ? `${statusMessage}\nSkipped ${duplicateCount} duplicate(s)`
-          : `Skipped ${duplicateCount} duplicate transaction(s).`;
+      if (usedFallback) {
+        notices.unshift(`${fallbackReason}. Parsed with offline rules - please double-check categories.`);
       }
 
-      setPreviewData(uniqueResults);
-      if (statusMessage) {
-        setError(statusMessage);
-      }
+      setPreviewSource('text');
+      await buildPreview(results, notices);
     } catch (err) {
       setError("We couldn't parse that. Try pasting clearer text or a better image.");
     } finally {
@@ -188,6 +248,110 @@ const AddTransaction: React.FC<AddTransactionProps> = ({ onAdd, onCancel, settin
     }
   };
 
+  // --- STATEMENT IMPORT HANDLERS ---
+  const loadMappingForAccount = (accountId: string, headers: string[]) => {
+    const saved = settings.accounts.find(a => a.id === accountId)?.statementMapping;
+    // Only reuse a saved mapping if this file has the same columns
+    const fits = saved && [saved.date, saved.description, saved.amount, saved.debit, saved.credit]
+      .every(col => !col || headers.includes(col));
+    setCsvMapping(fits ? saved! : guessColumnMapping(headers));
+  };
+
+  const handleStatementFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onloadend = () => {
+      const content = reader.result as string;
+      const format = detectStatementFormat(file.name, content);
+      if (!format) {
+        setError('Unsupported file. Choose a CSV, OFX, QFX or QIF statement.');
+        return;
+      }
+
+      setError(null);
+      setStatementFile({ name: file.name, content, format });
+      if (format === 'csv') {
+        const headers = readCsvHeaders(content);
+        setCsvHeaders(headers);
+        loadMappingForAccount(statementAccountId, headers);
+      } else {
+        setCsvHeaders([]);
+        setCsvMapping(null);
+      }
+    };
+    reader.readAsText(file);
+  };
+
+  const handleStatementAccountChange = (accountId: string) => {
+    setStatementAccountId(accountId);
+    if (statementFile?.format === 'csv') {
+      loadMappingForAccount(accountId, csvHeaders);
+    }
+  };
+
+  const handleMappingChange = (field: keyof StatementColumnMapping, value: string | boolean) => {
+    if (!csvMapping) return;
+    const next: StatementColumnMapping = { ...csvMapping, [field]: value === '' ? undefined : value };
+    // Single amount column and debit/credit columns are mutually exclusive
+    if (field === 'amount' && value) {
+      next.debit = undefined;
+      next.credit = undefined;
+    } else if ((field === 'debit' || field === 'credit') && value) {
+      next.amount = undefined;
+    }
+    setCsvMapping(next);
+  };
+
+  const handleImportStatement = async () => {
+    if (!statementFile) return;
+
+    if (statementFile.format === 'csv') {
+      if (!statementAccountId) {
+        setError('Choose the account this statement belongs to.');
+        return;
+      }
+      if (!csvMapping?.date || !csvMapping.description || (!csvMapping.amount && !csvMapping.debit && !csvMapping.credit)) {
+        setError('Choose which columns hold the date, description and amount.');
+        return;
+      }
+    }
+
+    setIsProcessing(true);
+    setError(null);
+    try {
+      const results = parseStatement(statementFile.content, statementFile.format, settings, {
+        accountId: statementAccountId || undefined,
+        mapping: csvMapping || undefined,
+      });
+
+      if (results.length === 0) {
+        setError('No transactions found in this file. Check the column mapping and date format.');
+        return;
+      }
+
+      // Remember the column mapping for the next statement from this account
+      if (statementFile.format === 'csv' && csvMapping) {
+        onUpdateSettings({
+          ...settings,
+          accounts: settings.accounts.map(a =>
+            a.id === statementAccountId ? { ...a, statementMapping: csvMapping } : a
+          ),
+        });
+      }
+
+      setPreviewSource('statement');
+      await buildPreview(results, [`Imported ${results.length} row(s) from ${statementFile.name}.`]);
+    } catch (err) {
+      console.error('Statement import failed:', err);
+      setError(err instanceof Error ? err.message : "We couldn't read that statement.");
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
   const handleConfirmPreview = () => {
     if (previewData) {
       // Merge receipt images into transactions before submitting
@@ -210,7 +374,7 @@ const AddTransaction: React.FC<AddTransactionProps> = ({ onAdd, onCancel, settin
   };
 
   // --- MANUAL HANDLERS ---
-  const handleManualSubmit = () => {
+  const handleManualSubmit = async () => {
     if (!manualAmount) return;
 
     // Validation for transfers
@@ -251,7 +415,7 @@ const AddTransaction: React.FC<AddTransactionProps> = ({ onAdd, onCancel, settin
        return;
     }
 
-    onAdd([newTxn]);
+    onAdd(await applyStoredRules([newTxn], settings.accounts), 'manual-entry');
   };
 
   // --- SPLIT HANDLERS ---
@@ -331,8 +495,27 @@ const AddTransaction: React.FC<AddTransactionProps> = ({ onAdd, onCancel, settin
     }
   };
 
+  // Fields whose correction is worth learning a template from
+  const hasParsingCorrection = (original: Transaction, corrected: Transaction) =>
+    original.amount !== corrected.amount ||
+    original.merchant !== corrected.merchant ||
+    original.category !== corrected.category ||
+    original.type !== corrected.type ||
+    original.accountId !== corrected.accountId ||
+    original.parsedMeta?.availableBalance !== corrected.parsedMeta?.availableBalance ||
+    original.parsedMeta?.availableCredit !== corrected.parsedMeta?.availableCredit;
+
   const handleSaveInlineEdit = () => {
     if (editingTransaction && editingTransactionId && previewData) {
+      // Learn from the correction so the next message from this sender parses locally
+      const original = previewData.find(tx => tx.id === editingTransactionId);
+      // Statement rows are not SMS/email text, so they never become sender templates
+      if (previewSource === 'text' && original && original.rawText && hasParsingCorrection(original, editingTransaction)) {
+        learnTemplateFromCorrection(original, editingTransaction, settings).catch(err => {
+          console.error('Failed to learn parsing template:', err);
+        });
+      }
+
       const updated = previewData.map(tx =>
         tx.id === editingTransactionId ? editingTransaction : tx
       );
@@ -619,8 +802,20 @@ const AddTransaction: React.FC<AddTransactionProps> = ({ onAdd, onCancel, settin
                         Converted from {t.originalCurrency} {t.originalAmount.toFixed(2)}
                       </div>
                     )}
+                    {t.originalCurrency && t.tags?.includes(NEEDS_REVIEW_TAG) && (
+                      <span className="bg-amber-50 text-amber-700 px-2 py-0.5 rounded font-medium flex items-center gap-1 w-fit">
+                        <AlertTriangle size={12} />
+                        No {t.originalCurrency} rate yet - amount not converted, please check
+                      </span>
+                    )}
                     {t.rawText && <span className="bg-slate-100 px-2 py-0.5 rounded text-slate-500 truncate max-w-[250px]">Src: "{t.rawText}"</span>}
                     {receipt && <span className="bg-green-50 text-green-700 px-2 py-0.5 rounded font-medium">📎 Receipt Attached</span>}
+                    {scheduledMatches.has(t.id) && (
+                      <span className="bg-indigo-50 text-indigo-700 px-2 py-0.5 rounded font-medium flex items-center gap-1 w-fit">
+                        <CalendarClock size={12} />
+                        May settle "{scheduledMatches.get(t.id)!.scheduledTransaction.merchant}" due {scheduledMatches.get(t.id)!.scheduledTransaction.dueDate}
+                      </span>
+                    )}
 
                     {/* Cheque Status Indicator */}
                     {t.isCheque && (
@@ -833,6 +1028,12 @@ const AddTransaction: React.FC<AddTransactionProps> = ({ onAdd, onCancel, settin
            >
              <Banknote size={16} /> Manual Entry
            </button>
+           <button
+             onClick={() => setMode('import')}
+             className={`flex-1 py-2 rounded-lg text-sm font-bold flex items-center justify-center gap-2 transition-all ${mode === 'import' ? 'bg-white shadow text-brand-600' : 'text-slate-500'}`}
+           >
+             <FileSpreadsheet size={16} /> Statement
+           </button>
         </div>
       </div>
 
@@ -899,7 +1100,10 @@ const AddTransaction: React.FC<AddTransactionProps> = ({ onAdd, onCancel, settin
                 </div>
               )}
               
-              <div className="flex justify-end gap-2">
+              <div className="flex justify-end items-center gap-2">
+                 <span className="mr-auto text-[10px] font-semibold text-slate-400 uppercase tracking-wider">
+                   {parserProvider.name}
+                 </span>
                  <button
                    onClick={handlePaste}
                    className="flex items-center gap-1.5 px-3 py-2 bg-white hover:bg-slate-50 text-slate-600 text-xs font-semibold rounded-xl transition-colors shadow-sm border border-slate-100"
@@ -908,13 +1112,15 @@ const AddTransaction: React.FC<AddTransactionProps> = ({ onAdd, onCancel, settin
                    <Clipboard size={16} /> Paste Text
                  </button>
 
-                 <button
-                   onClick={() => fileInputRef.current?.click()}
-                   className="flex items-center gap-1.5 px-3 py-2 bg-white hover:bg-slate-50 text-slate-600 text-xs font-semibold rounded-xl transition-colors shadow-sm border border-slate-100"
-                   title="Upload Image"
-                 >
-                   <ImageIcon size={16} /> Upload Image
-                 </button>
+                 {parserProvider.supportsImages && (
+                   <button
+                     onClick={() => fileInputRef.current?.click()}
+                     className="flex items-center gap-1.5 px-3 py-2 bg-white hover:bg-slate-50 text-slate-600 text-xs font-semibold rounded-xl transition-colors shadow-sm border border-slate-100"
+                     title="Upload Image"
+                   >
+                     <ImageIcon size={16} /> Upload Image
+                   </button>
+                 )}
                  <input
                     type="file"
                     ref={fileInputRef}
@@ -1097,6 +1303,115 @@ const AddTransaction: React.FC<AddTransactionProps> = ({ onAdd, onCancel, settin
         </div>
       )}
 
+      {mode === 'import' && (
+        <div className="flex-1 flex flex-col animate-in fade-in slide-in-from-right-4 duration-300">
+          <div className="flex items-start gap-2 p-3 bg-blue-50 text-blue-700 rounded-lg text-xs mb-4">
+            <Info className="shrink-0 mt-0.5" size={14} />
+            <p>Import a bank statement (CSV, OFX, QFX or QIF). Files are read on this device - nothing is sent to AI.</p>
+          </div>
+
+          <div className="bg-white rounded-2xl p-6 shadow-sm border border-slate-100 space-y-4">
+            <div>
+              <label className="text-xs font-bold text-slate-500 mb-1 block">Account</label>
+              <select
+                value={statementAccountId}
+                onChange={(e) => handleStatementAccountChange(e.target.value)}
+                className="w-full p-3 bg-slate-50 rounded-xl text-sm appearance-none"
+              >
+                <option value="">{statementFile?.format === 'ofx' ? 'Detect from file' : 'Select account'}</option>
+                {settings.accounts.map(a => <option key={a.id} value={a.id}>{a.name}</option>)}
+              </select>
+            </div>
+
+            <button
+              onClick={() => statementInputRef.current?.click()}
+              className="w-full py-4 px-3 bg-slate-50 hover:bg-slate-100 text-slate-600 rounded-xl text-sm font-semibold transition-colors border border-dashed border-slate-300 flex items-center justify-center gap-2"
+            >
+              <FileSpreadsheet size={18} />
+              {statementFile ? `${statementFile.name} (${statementFile.format.toUpperCase()})` : 'Choose Statement File'}
+            </button>
+            <input
+              type="file"
+              ref={statementInputRef}
+              className="hidden"
+              accept=".csv,.ofx,.qfx,.qif,text/csv"
+              onChange={handleStatementFile}
+            />
+
+            {/* CSV Column Mapping */}
+            {statementFile?.format === 'csv' && csvMapping && (
+              <div className="space-y-3 pt-3 border-t border-slate-100">
+                <div className="text-xs font-bold text-slate-500">Column Mapping</div>
+                {([
+                  ['date', 'Date', true],
+                  ['description', 'Description', true],
+                  ['amount', 'Amount (signed)', false],
+                  ['debit', 'Debit / Money Out', false],
+                  ['credit', 'Credit / Money In', false],
+                  ['reference', 'Cheque / Reference', false],
+                ] as [keyof StatementColumnMapping, string, boolean][]).map(([field, label, required]) => (
+                  <div key={field} className="flex items-center gap-3">
+                    <label className="w-32 text-xs font-semibold text-slate-600">{label}</label>
+                    <select
+                      value={(csvMapping[field] as string) || ''}
+                      onChange={(e) => handleMappingChange(field, e.target.value)}
+                      className="flex-1 p-2 bg-slate-50 rounded-lg text-sm appearance-none"
+                    >
+                      {!required && <option value="">—</option>}
+                      {csvHeaders.map(h => <option key={h} value={h}>{h}</option>)}
+                    </select>
+                  </div>
+                ))}
+
+                <div className="flex items-center gap-3">
+                  <label className="w-32 text-xs font-semibold text-slate-600 flex items-center gap-1">
+                    <Calendar size={12} /> Date Format
+                  </label>
+                  <select
+                    value={csvMapping.dateFormat}
+                    onChange={(e) => handleMappingChange('dateFormat', e.target.value as StatementDateFormat)}
+                    className="flex-1 p-2 bg-slate-50 rounded-lg text-sm appearance-none"
+                  >
+                    <option value="DD/MM/YYYY">DD/MM/YYYY</option>
+                    <option value="MM/DD/YYYY">MM/DD/YYYY</option>
+                    <option value="YYYY-MM-DD">YYYY-MM-DD</option>
+                  </select>
+                </div>
+
+                {csvMapping.amount && (
+                  <label className="flex items-center gap-2 text-xs text-slate-600 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={csvMapping.expensesPositive || false}
+                      onChange={(e) => handleMappingChange('expensesPositive', e.target.checked)}
+                      className="rounded"
+                    />
+                    Expenses are positive amounts (credit card statements)
+                  </label>
+                )}
+              </div>
+            )}
+
+            {error && (
+              <div className="p-3 bg-red-50 text-red-600 text-sm rounded-lg flex items-center gap-2">
+                <X size={16} /> {error}
+              </div>
+            )}
+          </div>
+
+          <div className="flex gap-3 mt-6">
+            <button onClick={onCancel} className="py-4 px-6 rounded-xl font-semibold text-slate-500 hover:bg-slate-100 transition-colors">Cancel</button>
+            <button
+              onClick={handleImportStatement}
+              disabled={!statementFile || isProcessing}
+              className="flex-1 py-4 rounded-xl font-bold text-white bg-brand-600 shadow-lg shadow-brand-500/20 flex items-center justify-center gap-2 active:scale-95 transition-transform disabled:opacity-50 disabled:shadow-none"
+            >
+              {isProcessing ? <><Loader2 className="animate-spin" size={20} /> Reading...</> : <><ArrowRight size={20} /> Review Transactions</>}
+            </button>
+          </div>
+        </div>
+      )}
+
       {/* Split Editor Modal */}
       {splittingTransaction && splitLineItems && (
         <SplitEditorModal
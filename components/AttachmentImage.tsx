@@ -0,0 +1,56 @@
+import React, { useEffect, useState } from 'react';
+import { getAttachment } from '../services/indexedDBService';
+
+interface AttachmentImageProps {
+  attachmentId: string;
+  variant?: 'thumbnail' | 'full';
+  alt?: string;
+  className?: string;
+  style?: React.CSSProperties;
+}
+
+/**
+ * Image from the attachments store, loaded when mounted and released when unmounted
+ */
+const AttachmentImage: React.FC<AttachmentImageProps> = ({ attachmentId, variant = 'thumbnail', alt = 'Receipt', className, style }) => {
+  const [url, setUrl] = useState<string | null>(null);
+  const [missing, setMissing] = useState(false);
+
+  useEffect(() => {
+    let objectUrl: string | null = null;
+    let cancelled = false;
+    setUrl(null);
+    setMissing(false);
+
+    getAttachment(attachmentId)
+      .then(attachment => {
+        if (cancelled) return;
+        const blob = variant === 'thumbnail' ? attachment?.thumbnail || attachment?.blob : attachment?.blob;
+        if (!blob) {
+          setMissing(true);
+          return;
+        }
+        objectUrl = URL.createObjectURL(blob);
+        setUrl(objectUrl);
+      })
+      .catch(error => {
+        console.error('Error loading attachment:', error);
+        if (!cancelled) setMissing(true);
+      });
+
+    return () => {
+      cancelled = true;
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+  }, [attachmentId, variant]);
+
+  if (missing) {
+    return <div className={`${className || ''} bg-slate-100 flex items-center justify-center text-[10px] text-slate-400`}>No image</div>;
+  }
+  if (!url) {
+    return <div className={`${className || ''} bg-slate-100 animate-pulse`} />;
+  }
+  return <img src={url} alt={alt} className={className} style={style} />;
+};
+
+export default AttachmentImage;
@@ -0,0 +1,83 @@
+import React, { useEffect, useState } from 'react';
+import { History, ChevronDown, ChevronUp } from 'lucide-react';
+import { AuditEntry } from '../types';
+import { getAuditEntriesForEntity } from '../services/indexedDBService';
+import { AUDIT_SOURCE_LABELS, describeAuditChanges } from '../services/auditService';
+
+interface AuditHistoryPanelProps {
+  entityId: string;
+  refreshKey?: unknown; // Reload when this changes (e.g. the entity was saved)
+  defaultOpen?: boolean;
+}
+
+const ACTION_LABELS: Record<AuditEntry['action'], string> = {
+  create: 'Created',
+  update: 'Changed',
+  delete: 'Deleted',
+};
+
+const AuditHistoryPanel: React.FC<AuditHistoryPanelProps> = ({ entityId, refreshKey, defaultOpen = false }) => {
+  const [open, setOpen] = useState(defaultOpen);
+  const [entries, setEntries] = useState<AuditEntry[] | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    let cancelled = false;
+    getAuditEntriesForEntity(entityId)
+      .then(loaded => {
+        if (!cancelled) setEntries(loaded.reverse()); // Newest first
+      })
+      .catch(error => console.error('Error loading history:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [open, entityId, refreshKey]);
+
+  return (
+    <div className="border border-slate-100 rounded-xl">
+      <button
+        type="button"
+        onClick={() => setOpen(!open)}
+        className="w-full flex items-center justify-between px-4 py-3 text-sm font-medium text-slate-600 hover:text-slate-800"
+      >
+        <span className="flex items-center gap-2">
+          <History size={16} className="text-slate-400" /> History
+        </span>
+        {open ? <ChevronUp size={16} /> : <ChevronDown size={16} />}
+      </button>
+
+      {open && (
+        <div className="px-4 pb-3 space-y-3 max-h-64 overflow-y-auto">
+          {entries === null ? (
+            <p className="text-xs text-slate-400">Loading…</p>
+          ) : entries.length === 0 ? (
+            <p className="text-xs text-slate-400">No recorded changes yet.</p>
+          ) : (
+            entries.map(entry => {
+              const changes = entry.action === 'update' ? describeAuditChanges(entry) : [];
+              return (
+                <div key={entry.id} className="text-xs border-l-2 border-slate-200 pl-3">
+                  <div className="flex justify-between gap-2">
+                    <span className="font-semibold text-slate-700">
+                      {ACTION_LABELS[entry.action]} · {AUDIT_SOURCE_LABELS[entry.source]}
+                    </span>
+                    <span className="text-slate-400 shrink-0">{new Date(entry.timestamp).toLocaleString()}</span>
+                  </div>
+                  {entry.label && <div className="text-slate-500">{entry.label}</div>}
+                  {changes.map(change => (
+                    <div key={change.field} className="text-slate-500 break-all">
+                      <span className="font-medium text-slate-600">{change.field}:</span>{' '}
+                      <span className="line-through text-slate-400">{change.before}</span> → {change.after}
+                    </div>
+                  ))}
+                </div>
+              );
+            })
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AuditHistoryPanel;
@@ -1,15 +1,59 @@
 import React, { useState, useEffect } from 'react';
-import { Upload, Download, X, AlertTriangle, CheckCircle, Loader } from 'lucide-react';
+import { Upload, Download, X, AlertTriangle, CheckCircle, Loader, Lock } from 'lucide-react';
 import { supabase } from '../lib/supabase';
 import {
-  exportToCSV,
+  exportBackup,
   exportReceiptsZip,
   uploadBackup,
   listBackups,
   downloadBackup,
+  isBackupEncrypted,
+  openBackup,
+  BackupFiles,
+  dryRunRestore,
   restoreFromBackup,
   BackupInfo,
 } from '../services/backupService';
+import { RestoreReport, BACKUP_SECTION_NAMES, BackupSectionName } from '../services/backupFormatService';
+import {
+  planMerge,
+  applyMerge,
+  MergePlan,
+  MergeStrategy,
+  DEFAULT_MERGE_STRATEGIES,
+} from '../services/backupMergeService';
+import {
+  hasBackupPassphrase,
+  setBackupPassphrase,
+  BackupPassphraseError,
+  MIN_PASSPHRASE_LENGTH,
+} from '../services/backupCryptoService';
+
+const SECTION_LABELS: Record<BackupSectionName, string> = {
+  transactions: 'Transactions',
+  accounts: 'Accounts',
+  categories: 'Categories',
+  recurringRules: 'Recurring Rules',
+  warranties: 'Warranties',
+  scheduledTransactions: 'Scheduled Payments',
+  savingsGoals: 'Savings Goals',
+  goalContributions: 'Goal Contributions',
+  parsingTemplates: 'Learned Templates',
+  exchangeRates: 'Exchange Rates',
+  budgets: 'Budgets',
+  reconciliations: 'Reconciliations',
+  netWorthSnapshots: 'Net Worth History',
+  securityPrices: 'Security Prices',
+  categorizationRules: 'Categorization Rules',
+  settings: 'Settings',
+};
+
+const STRATEGY_LABELS: Record<MergeStrategy, string> = {
+  'keep-local': 'Keep local',
+  'prefer-backup': 'Prefer backup',
+  newest: 'Newest wins',
+  skip: 'Skip',
+};
 
 interface BackupRestoreModalProps {
   onClose: () => void;
@@ -23,6 +67,18 @@ const BackupRestoreModal: React.FC<BackupRestoreModalProps> = ({ onClose, onRest
   const [success, setSuccess] = useState<string | null>(null);
   const [backups, setBackups] = useState<BackupInfo[]>([]);
   const [selectedBackup, setSelectedBackup] = useState<BackupInfo | null>(null);
+  const [pendingRestore, setPendingRestore] = useState<{ data: string; receiptsBlob: Blob; report: RestoreReport } | null>(null);
+  const [restoreMode, setRestoreMode] = useState<'merge' | 'replace'>('merge');
+  const [mergePlan, setMergePlan] = useState<MergePlan | null>(null);
+  const [mergeStrategies, setMergeStrategies] = useState<Record<BackupSectionName, MergeStrategy>>(DEFAULT_MERGE_STRATEGIES);
+
+  // Encryption
+  const [passphraseSet, setPassphraseSet] = useState(false);
+  const [changingPassphrase, setChangingPassphrase] = useState(false);
+  const [newPassphrase, setNewPassphrase] = useState('');
+  const [confirmPassphrase, setConfirmPassphrase] = useState('');
+  const [encryptedFiles, setEncryptedFiles] = useState<BackupFiles | null>(null);
+  const [restorePassphrase, setRestorePassphrase] = useState('');
 
   const session = supabase.auth.getSession();
 
@@ -30,6 +86,9 @@ const BackupRestoreModal: React.FC<BackupRestoreModalProps> = ({ onClose, onRest
     if (mode === 'restore' || mode === 'backup') {
       loadBackups();
     }
+    if (mode === 'backup') {
+      hasBackupPassphrase().then(setPassphraseSet);
+    }
   }, [mode]);
 
   const loadBackups = async () => {
@@ -63,11 +122,27 @@ const BackupRestoreModal: React.FC<BackupRestoreModalProps> = ({ onClose, onRest
         return;
       }
 
-      const csv = await exportToCSV();
+      if (!passphraseSet || changingPassphrase) {
+        if (newPassphrase.length < MIN_PASSPHRASE_LENGTH) {
+          setError(`Passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters`);
+          return;
+        }
+        if (newPassphrase !== confirmPassphrase) {
+          setError('Passphrases do not match');
+          return;
+        }
+        await setBackupPassphrase(newPassphrase);
+        setPassphraseSet(true);
+        setChangingPassphrase(false);
+        setNewPassphrase('');
+        setConfirmPassphrase('');
+      }
+
+      const data = await exportBackup();
       const receiptsBlob = await exportReceiptsZip();
-      await uploadBackup(session.user.id, csv, receiptsBlob);
+      await uploadBackup(session.user.id, data, receiptsBlob);
 
-      setSuccess('Backup completed successfully!');
+      setSuccess('Encrypted backup completed successfully!');
       setTimeout(() => {
         onClose();
       }, 2000);
@@ -78,21 +153,75 @@ const BackupRestoreModal: React.FC<BackupRestoreModalProps> = ({ onClose, onRest
     }
   };
 
-  const handleRestore = async () => {
+  // Step 1: download (decrypting if needed) and validate without touching local data
+  const handleReviewBackup = async () => {
     if (!selectedBackup) return;
 
-    const confirmed = window.confirm(
-      'This will REPLACE all local data with the selected backup. Current data will be lost. Continue?'
-    );
-    if (!confirmed) return;
+    setLoading(true);
+    setError(null);
+    setSuccess(null);
+
+    try {
+      const files = encryptedFiles || await downloadBackup(selectedBackup.path);
+      if (!encryptedFiles && await isBackupEncrypted(files)) {
+        // Ask for the passphrase, then come back through here
+        setEncryptedFiles(files);
+        return;
+      }
+
+      const { data, receiptsBlob } = await openBackup(files, restorePassphrase);
+      setEncryptedFiles(null);
+      setRestorePassphrase('');
+
+      const report = await dryRunRestore(data);
+      setPendingRestore({ data, receiptsBlob, report });
+      setMergePlan(report.canRestore ? await planMerge(data) : null);
+      setMergeStrategies(DEFAULT_MERGE_STRATEGIES);
+    } catch (err: any) {
+      if (err instanceof BackupPassphraseError) {
+        setRestorePassphrase('');
+      }
+      setError(err.message || 'Failed to read backup');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Step 2 (merge): write only what the chosen strategies allow, in one transaction
+  const handleMerge = async () => {
+    if (!pendingRestore || !mergePlan) return;
 
     setLoading(true);
     setError(null);
     setSuccess(null);
 
     try {
-      const { csv, receiptsBlob } = await downloadBackup(selectedBackup.path);
-      await restoreFromBackup(csv, receiptsBlob);
+      const result = await applyMerge(mergePlan, mergeStrategies, pendingRestore.receiptsBlob);
+      setPendingRestore(null);
+      setMergePlan(null);
+
+      setSuccess(`Merge completed: ${result.added} added, ${result.updated} updated, ${result.undeleted} restored. Reloading app...`);
+      setTimeout(() => {
+        onRestoreComplete();
+      }, 2000);
+    } catch (err: any) {
+      setError(err.message || 'Merge failed');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Step 2 (replace): the user has seen the report - wipe and restore
+  const handleRestore = async () => {
+    if (!pendingRestore) return;
+
+    setLoading(true);
+    setError(null);
+    setSuccess(null);
+
+    try {
+      await restoreFromBackup(pendingRestore.data, pendingRestore.receiptsBlob);
+      setPendingRestore(null);
 
       setSuccess('Restore completed! Reloading app...');
       setTimeout(() => {
@@ -143,7 +272,7 @@ const BackupRestoreModal: React.FC<BackupRestoreModalProps> = ({ onClose, onRest
                 <Upload className="w-6 h-6 text-teal-600" />
                 <div className="text-left">
                   <div className="font-medium text-gray-800">Backup to Cloud</div>
-                  <div className="text-sm text-gray-600">Export data as CSV to Supabase</div>
+                  <div className="text-sm text-gray-600">Export a verified backup to Supabase</div>
                 </div>
               </button>
 
@@ -165,6 +294,57 @@ const BackupRestoreModal: React.FC<BackupRestoreModalProps> = ({ onClose, onRest
               <p className="text-gray-700">
                 This will export all your data (transactions, accounts, categories, receipts) to Supabase Storage.
               </p>
+              {passphraseSet && !changingPassphrase ? (
+                <div className="p-3 bg-gray-50 border border-gray-200 rounded-lg flex items-center justify-between gap-3">
+                  <p className="text-sm text-gray-700 flex items-center gap-2">
+                    <Lock className="w-4 h-4 text-teal-600" />
+                    Encrypted on this device with your backup passphrase
+                  </p>
+                  <button
+                    onClick={() => setChangingPassphrase(true)}
+                    className="text-xs text-teal-700 font-medium hover:underline whitespace-nowrap"
+                  >
+                    Change
+                  </button>
+                </div>
+              ) : (
+                <div className="p-3 bg-amber-50 border border-amber-200 rounded-lg space-y-2">
+                  <p className="text-sm text-amber-800 flex items-center gap-2">
+                    <Lock className="w-4 h-4" />
+                    {passphraseSet ? 'New passphrase (applies to future backups)' : 'Choose a backup passphrase'}
+                  </p>
+                  <p className="text-xs text-amber-700">
+                    Backups are encrypted before upload. The passphrase never leaves this device and
+                    cannot be recovered - without it, backups can't be restored.
+                  </p>
+                  <input
+                    type="password"
+                    value={newPassphrase}
+                    onChange={(e) => setNewPassphrase(e.target.value)}
+                    placeholder={`Passphrase (min ${MIN_PASSPHRASE_LENGTH} characters)`}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                  />
+                  <input
+                    type="password"
+                    value={confirmPassphrase}
+                    onChange={(e) => setConfirmPassphrase(e.target.value)}
+                    placeholder="Confirm passphrase"
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                  />
+                  {changingPassphrase && (
+                    <button
+                      onClick={() => {
+                        setChangingPassphrase(false);
+                        setNewPassphrase('');
+                        setConfirmPassphrase('');
+                      }}
+                      className="text-xs text-gray-600 hover:underline"
+                    >
+                      Keep current passphrase
+                    </button>
+                  )}
+                </div>
+              )}
               {backups.length > 0 && (
                 <div className="p-3 bg-blue-50 border border-blue-200 rounded-lg">
                   <p className="text-sm text-blue-800">
@@ -195,7 +375,231 @@ const BackupRestoreModal: React.FC<BackupRestoreModalProps> = ({ onClose, onRest
             </div>
           )}
 
-          {mode === 'restore' && (
+          {mode === 'restore' && pendingRestore && (
+            <div className="space-y-4">
+              <div className="text-sm text-gray-600">
+                <div>
+                  Backup format v{pendingRestore.report.sourceVersion}
+                  {pendingRestore.report.migrated && ' (will be upgraded)'}
+                  {' · '}App {pendingRestore.report.appVersion}
+                </div>
+                {pendingRestore.report.createdAt && (
+                  <div>Created {new Date(pendingRestore.report.createdAt).toLocaleString()}</div>
+                )}
+              </div>
+
+              {pendingRestore.report.canRestore && (
+                <div className="flex p-1 bg-gray-100 rounded-lg">
+                  {(['merge', 'replace'] as const).map((option) => (
+                    <button
+                      key={option}
+                      onClick={() => setRestoreMode(option)}
+                      className={`flex-1 py-2 text-sm font-medium rounded-md transition ${
+                        restoreMode === option ? 'bg-white shadow text-gray-800' : 'text-gray-500'
+                      }`}
+                    >
+                      {option === 'merge' ? 'Merge with local' : 'Replace everything'}
+                    </button>
+                  ))}
+                </div>
+              )}
+
+              {restoreMode === 'merge' && mergePlan && (
+                <div className="border border-gray-200 rounded-lg divide-y divide-gray-100">
+                  {BACKUP_SECTION_NAMES.map((name) => {
+                    const section = mergePlan.sections[name];
+                    const localNewer = section.conflicts.filter((c) => c.newer === 'local').length;
+                    const backupNewer = section.conflicts.filter((c) => c.newer === 'backup').length;
+                    const hasChanges = section.onlyInBackup.length + section.conflicts.length + section.deletedLocally.length > 0;
+                    return (
+                      <div key={name} className="px-3 py-2 text-sm">
+                        <div className="flex items-center justify-between gap-2">
+                          <span className="text-gray-700">{SECTION_LABELS[name]}</span>
+                          {hasChanges ? (
+                            <select
+                              value={mergeStrategies[name]}
+                              onChange={(e) => setMergeStrategies({ ...mergeStrategies, [name]: e.target.value as MergeStrategy })}
+                              className="text-xs border border-gray-300 rounded px-2 py-1 bg-white"
+                            >
+                              {(Object.keys(STRATEGY_LABELS) as MergeStrategy[]).map((strategy) => (
+                                <option key={strategy} value={strategy}>{STRATEGY_LABELS[strategy]}</option>
+                              ))}
+                            </select>
+                          ) : (
+                            <span className="text-xs text-gray-400">Up to date</span>
+                          )}
+                        </div>
+                        {hasChanges && (
+                          <div className="text-xs text-gray-500 mt-1 flex flex-wrap gap-x-3">
+                            {section.onlyInBackup.length > 0 && <span>{section.onlyInBackup.length} only in backup</span>}
+                            {section.conflicts.length > 0 && (
+                              <span className="text-amber-700">
+                                {section.conflicts.length} changed
+                                {(localNewer > 0 || backupNewer > 0) && ` (${localNewer} newer locally, ${backupNewer} newer in backup)`}
+                              </span>
+                            )}
+                            {section.deletedLocally.length > 0 && <span>{section.deletedLocally.length} deleted locally</span>}
+                            {section.identical > 0 && <span>{section.identical} identical</span>}
+                          </div>
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+
+              {restoreMode === 'replace' && (
+                <div className="border border-gray-200 rounded-lg divide-y divide-gray-100">
+                  {BACKUP_SECTION_NAMES.map((name) => {
+                    const section = pendingRestore.report.sections[name];
+                    return (
+                      <div key={name} className="px-3 py-2 text-sm">
+                        <div className="flex items-center justify-between">
+                          <span className="text-gray-700">{SECTION_LABELS[name]}</span>
+                          <span className={section.invalid.length > 0 || !section.checksumOk ? 'text-amber-700 font-medium' : 'text-gray-800 font-medium'}>
+                            {section.valid}
+                            {section.invalid.length > 0 && ` of ${section.total}`}
+                            {!section.checksumOk && ' · checksum mismatch'}
+                          </span>
+                        </div>
+                        {section.invalid.slice(0, 3).map((issue) => (
+                          <div key={issue.id} className="text-xs text-amber-700 mt-1 truncate">
+                            Skipping {issue.id}: {issue.errors.join(', ')}
+                          </div>
+                        ))}
+                        {section.invalid.length > 3 && (
+                          <div className="text-xs text-amber-700 mt-1">…and {section.invalid.length - 3} more</div>
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+
+              {pendingRestore.report.warnings.length > 0 && (
+                <div className="p-3 bg-amber-50 border border-amber-200 rounded-lg space-y-1">
+                  {pendingRestore.report.warnings.map((warning, index) => (
+                    <p key={index} className="text-xs text-amber-800">{warning}</p>
+                  ))}
+                </div>
+              )}
+
+              {restoreMode === 'merge' && pendingRestore.report.canRestore && (() => {
+                const invalidCount = BACKUP_SECTION_NAMES.reduce((sum, name) => sum + pendingRestore.report.sections[name].invalid.length, 0);
+                return (
+                  <p className="text-sm text-gray-600">
+                    Nothing local will be deleted.
+                    {invalidCount > 0 && ` ${invalidCount} invalid record(s) in the backup will be skipped.`}
+                  </p>
+                );
+              })()}
+
+              {!pendingRestore.report.canRestore ? (
+                <p className="text-sm text-red-700 font-medium">
+                  This backup failed verification and cannot be restored.
+                </p>
+              ) : restoreMode === 'replace' && (
+                <p className="text-sm text-red-700 font-medium">
+                  Restoring will REPLACE all local data with the records above. Current data will be lost.
+                </p>
+              )}
+
+              <div className="flex gap-3">
+                <button
+                  onClick={() => {
+                    setPendingRestore(null);
+                    setMergePlan(null);
+                  }}
+                  disabled={loading}
+                  className="flex-1 px-6 py-3 border border-gray-300 text-gray-700 rounded-lg font-medium hover:bg-gray-50 transition disabled:opacity-50"
+                >
+                  Back
+                </button>
+                {restoreMode === 'merge' ? (
+                  <button
+                    onClick={handleMerge}
+                    disabled={!mergePlan || loading}
+                    className="flex-1 px-6 py-3 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 transition disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+                  >
+                    {loading ? (
+                      <>
+                        <Loader className="w-5 h-5 animate-spin" />
+                        Merging...
+                      </>
+                    ) : (
+                      'Merge into Local Data'
+                    )}
+                  </button>
+                ) : (
+                  <button
+                    onClick={handleRestore}
+                    disabled={!pendingRestore.report.canRestore || loading}
+                    className="flex-1 px-6 py-3 bg-red-600 text-white rounded-lg font-medium hover:bg-red-700 transition disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+                  >
+                    {loading ? (
+                      <>
+                        <Loader className="w-5 h-5 animate-spin" />
+                        Restoring...
+                      </>
+                    ) : (
+                      'Replace Local Data'
+                    )}
+                  </button>
+                )}
+              </div>
+            </div>
+          )}
+
+          {mode === 'restore' && !pendingRestore && encryptedFiles && (
+            <div className="space-y-4">
+              <div className="flex items-start gap-3">
+                <Lock className="w-5 h-5 text-blue-600 flex-shrink-0 mt-0.5" />
+                <p className="text-sm text-gray-700">
+                  This backup is encrypted. Enter the passphrase that was set when it was made.
+                </p>
+              </div>
+              <input
+                type="password"
+                value={restorePassphrase}
+                onChange={(e) => setRestorePassphrase(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter' && restorePassphrase) handleReviewBackup();
+                }}
+                placeholder="Backup passphrase"
+                autoFocus
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg"
+              />
+              <div className="flex gap-3">
+                <button
+                  onClick={() => {
+                    setEncryptedFiles(null);
+                    setRestorePassphrase('');
+                    setError(null);
+                  }}
+                  disabled={loading}
+                  className="flex-1 px-6 py-3 border border-gray-300 text-gray-700 rounded-lg font-medium hover:bg-gray-50 transition disabled:opacity-50"
+                >
+                  Back
+                </button>
+                <button
+                  onClick={handleReviewBackup}
+                  disabled={!restorePassphrase || loading}
+                  className="flex-1 px-6 py-3 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 transition disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+                >
+                  {loading ? (
+                    <>
+                      <Loader className="w-5 h-5 animate-spin" />
+                      Decrypting...
+                    </>
+                  ) : (
+                    'Unlock Backup'
+                  )}
+                </button>
+              </div>
+            </div>
+          )}
+
+          {mode === 'restore' && !pendingRestore && !encryptedFiles && (
             <div className="space-y-4">
               {loading && backups.length === 0 ? (
                 <div className="text-center py-8">
@@ -228,19 +632,19 @@ const BackupRestoreModal: React.FC<BackupRestoreModalProps> = ({ onClose, onRest
                   </div>
 
                   <button
-                    onClick={handleRestore}
+                    onClick={handleReviewBackup}
                     disabled={!selectedBackup || loading}
                     className="w-full px-6 py-3 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 transition disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
                   >
                     {loading ? (
                       <>
                         <Loader className="w-5 h-5 animate-spin" />
-                        Restoring...
+                        Checking backup...
                       </>
                     ) : (
                       <>
                         <Download className="w-5 h-5" />
-                        Restore Selected
+                        Review Selected
                       </>
                     )}
                   </button>
@@ -0,0 +1,148 @@
+import React, { useMemo, useState } from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine } from 'recharts';
+import { History, RotateCcw, CheckCircle2 } from 'lucide-react';
+import { Account, Transaction } from '../types';
+import { buildBalanceLedger, explainBalanceDifference } from '../services/balanceLedgerService';
+
+interface BalanceHistoryChartProps {
+  accounts: Account[];
+  transactions: Transaction[]; // Full history, not the date-filtered list
+  onRecomputeBalance: (accountId: string, balance: number) => void;
+}
+
+const formatDate = (date: string) =>
+  new Date(`${date}T00:00:00`).toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' });
+
+const BalanceHistoryChart: React.FC<BalanceHistoryChartProps> = ({ accounts, transactions, onRecomputeBalance }) => {
+  const [selectedAccountId, setSelectedAccountId] = useState<string>('');
+  const [showExplanation, setShowExplanation] = useState(false);
+
+  const account = accounts.find(a => a.id === selectedAccountId) || accounts[0];
+
+  const ledger = useMemo(
+    () => (account ? buildBalanceLedger(account, transactions) : null),
+    [account, transactions]
+  );
+  const recompute = useMemo(
+    () => (account && ledger ? explainBalanceDifference(account, transactions, ledger) : null),
+    [account, transactions, ledger]
+  );
+
+  if (!account || !ledger || !recompute) return null;
+
+  const corrections = ledger.entries.filter(e => e.correction !== undefined);
+  const inSync = Math.abs(recompute.difference) < 0.01;
+
+  const handleApply = () => {
+    if (!window.confirm(
+      `Set ${account.name} to ${account.currency} ${recompute.derivedBalance.toFixed(2)} (currently ${recompute.storedBalance.toFixed(2)})?`
+    )) return;
+    onRecomputeBalance(account.id, recompute.derivedBalance);
+    setShowExplanation(false);
+  };
+
+  return (
+    <div className="space-y-3">
+      <h3 className="text-lg font-bold text-slate-800 px-1 flex items-center gap-2">
+        <History size={18} className="text-slate-500" />
+        Balance History
+      </h3>
+      <div className="bg-white rounded-xl shadow-sm border border-slate-100 p-4 space-y-4">
+        <select
+          value={account.id}
+          onChange={e => {
+            setSelectedAccountId(e.target.value);
+            setShowExplanation(false);
+          }}
+          className="w-full bg-slate-50 border border-slate-200 rounded-lg px-3 py-2 text-sm"
+        >
+          {accounts.map(a => (
+            <option key={a.id} value={a.id}>{a.name}</option>
+          ))}
+        </select>
+
+        {ledger.daily.length === 0 ? (
+          <p className="text-sm text-slate-500">No transactions recorded for this account yet.</p>
+        ) : (
+          <div className="h-48">
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={ledger.daily}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" />
+                <XAxis dataKey="date" tick={{ fontSize: 10 }} tickFormatter={(d: string) => d.slice(5)} minTickGap={24} />
+                <YAxis tick={{ fontSize: 10 }} width={50} />
+                <Tooltip
+                  formatter={(value: number) => [`${account.currency} ${value.toFixed(2)}`, 'Balance']}
+                  labelFormatter={(label: string) => formatDate(label)}
+                />
+                <ReferenceLine y={0} stroke="#94a3b8" />
+                {corrections.map(e => (
+                  <ReferenceLine key={e.transactionId} x={e.date} stroke="#f59e0b" strokeDasharray="3 3" />
+                ))}
+                <Line type="stepAfter" dataKey="balance" stroke="#6366f1" strokeWidth={2} dot={false} />
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+        )}
+
+        {corrections.length > 0 && (
+          <div className="text-xs text-slate-500">
+            <span className="inline-block w-3 border-t-2 border-dashed border-amber-500 align-middle mr-1" />
+            {corrections.length} reported balance{corrections.length === 1 ? '' : 's'} didn't match the transactions before {corrections.length === 1 ? 'it' : 'them'}.
+          </div>
+        )}
+
+        {inSync ? (
+          <div className="flex items-center gap-2 text-sm text-green-600">
+            <CheckCircle2 size={16} />
+            Stored balance matches history
+          </div>
+        ) : (
+          <div className="space-y-2">
+            <div className="flex items-center justify-between text-sm">
+              <span className="text-slate-600">
+                History says {account.currency} {recompute.derivedBalance.toFixed(2)}
+              </span>
+              <button
+                onClick={() => setShowExplanation(!showExplanation)}
+                className="flex items-center gap-1 px-2 py-1 text-xs font-medium text-brand-600 bg-brand-50 hover:bg-brand-100 rounded-lg transition-colors"
+              >
+                <RotateCcw size={12} />
+                Recompute from history
+              </button>
+            </div>
+
+            {showExplanation && (
+              <div className="bg-slate-50 rounded-lg p-3 space-y-2">
+                <div className="text-xs text-slate-600">
+                  Stored {recompute.storedBalance.toFixed(2)} is off by{' '}
+                  <strong>{recompute.difference > 0 ? '+' : ''}{recompute.difference.toFixed(2)}</strong>:
+                </div>
+                <div className="divide-y divide-slate-200">
+                  {recompute.explanations.map((e, idx) => (
+                    <div key={e.transactionId || idx} className="flex justify-between gap-3 py-1.5 text-xs">
+                      <span className="text-slate-700">
+                        {e.date && <span className="text-slate-400 mr-1">{e.date}</span>}
+                        {e.description}
+                      </span>
+                      <span className="font-semibold text-slate-800 whitespace-nowrap">
+                        {e.amount > 0 ? '+' : ''}{e.amount.toFixed(2)}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+                <button
+                  onClick={handleApply}
+                  className="w-full px-3 py-2 bg-brand-500 text-white text-sm rounded-lg hover:bg-brand-600 transition-colors font-medium"
+                >
+                  Set balance to {account.currency} {recompute.derivedBalance.toFixed(2)}
+                </button>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default BalanceHistoryChart;
@@ -1,5 +1,5 @@
 import React, { useState, useEffect, useCallback, useMemo } from 'react';
-import { ScheduledTransaction, Account, Transaction, TransactionType } from '../types';
+import { ScheduledTransaction, Account, Transaction, TransactionType, RecurringRule, AuditContext } from '../types';
 import { PlusCircle, Calendar, Receipt, CheckCircle2, ChevronDown } from 'lucide-react';
 import { getAllScheduledTransactions } from '../services/indexedDBService';
 import { updateOverdueStatus, getByStatus, getUpcoming } from '../services/scheduledTransactionsService';
@@ -8,11 +8,15 @@ import InsufficientFundsWarning from './InsufficientFundsWarning';
 import { getAllInsufficientFundsWarnings } from '../services/insufficientFundsService';
 import { addChequeToSeries } from '../services/batchChequeService';
 import ManualChequePairingModal from './ManualChequePairingModal';
+import CashFlowForecast from './CashFlowForecast';
+import CreditCardStatements from './CreditCardStatements';
+import LoanAccountCard from './LoanAccountCard';
 
 interface BillsDebtsViewProps {
   accounts: Account[];
   scheduledTransactions: ScheduledTransaction[];
   transactions: Transaction[];
+  recurringRules: RecurringRule[];
   onCreateScheduled: () => void;
   onCreateBatchCheques: () => void;
   onMarkPaid: (scheduledTx: ScheduledTransaction) => void;
@@ -20,12 +24,14 @@ interface BillsDebtsViewProps {
   onViewScheduled: (scheduledTx: ScheduledTransaction) => void;
   onViewTransaction: (tx: Transaction) => void;
   onManualPairing: (scheduledTx: ScheduledTransaction, transactionId: string) => void;
+  onLoanChanged: (audit: AuditContext) => void;
 }
 
 const BillsDebtsView: React.FC<BillsDebtsViewProps> = ({
   accounts,
   scheduledTransactions,
   transactions,
+  recurringRules,
   onCreateScheduled,
   onCreateBatchCheques,
   onMarkPaid,
@@ -33,6 +39,7 @@ const BillsDebtsView: React.FC<BillsDebtsViewProps> = ({
   onViewScheduled,
   onViewTransaction,
   onManualPairing,
+  onLoanChanged,
 }) => {
   const [overdueItems, setOverdueItems] = useState<ScheduledTransaction[]>([]);
   const [upcomingItems, setUpcomingItems] = useState<ScheduledTransaction[]>([]);
@@ -237,6 +244,16 @@ const BillsDebtsView: React.FC<BillsDebtsViewProps> = ({
         </div>
       )}
 
+      {/* Cash-Flow Forecast */}
+      {accounts.length > 0 && (
+        <CashFlowForecast
+          accounts={accounts}
+          scheduledTransactions={scheduledTransactions}
+          recurringRules={recurringRules}
+          transactions={transactions}
+        />
+      )}
+
       {/* Cheque Series Section */}
       {Object.keys(chequeSeries).length > 0 && (
         <div>
@@ -297,48 +314,24 @@ const BillsDebtsView: React.FC<BillsDebtsViewProps> = ({
         </div>
       )}
 
+      {/* Credit Card Statements */}
+      <CreditCardStatements accounts={accounts} transactions={transactions} />
+
       {/* Loan Accounts Section */}
       {loanAccounts.length > 0 && (
         <div>
           <h2 className="text-lg font-bold text-gray-900 mb-3">💰 Loan Accounts</h2>
           <div className="space-y-2">
-            {loanAccounts.map(account => {
-              const principal = account.loanPrincipal || 0;
-              const paid = principal + account.balance; // balance is negative
-              const remaining = -account.balance;
-              const progress = principal > 0 ? Math.min(100, Math.max(0, (paid / principal) * 100)) : 0;
-
-              // Find next payment
-              const nextPayment = upcomingItems.find(
-                st => st.accountId === account.id
-              );
-
-              return (
-                <div key={account.id} className="bg-blue-50 border border-blue-200 rounded-lg p-4">
-                  <div className="font-semibold text-gray-900">{account.name}</div>
-                  <div className="text-sm text-gray-600 mt-1">
-                    Borrowed: {principal} {account.currency}
-                  </div>
-                  <div className="text-sm text-gray-600">
-                    Paid: {paid.toFixed(2)} {account.currency} ({account.loanInstallments ? `${Math.floor((paid / principal) * account.loanInstallments)}/${account.loanInstallments}` : `${progress.toFixed(0)}%`} installments)
-                  </div>
-                  <div className="text-sm font-semibold text-blue-700">
-                    Remaining: {remaining.toFixed(2)} {account.currency}
-                  </div>
-                  <div className="w-full bg-blue-200 rounded-full h-2 mt-2">
-                    <div
-                      className="bg-blue-600 h-2 rounded-full"
-                      style={{ width: `${progress}%` }}
-                    />
-                  </div>
-                  {nextPayment && (
-                    <div className="text-sm text-blue-700 mt-2">
-                      Next: {new Date(nextPayment.dueDate).toLocaleDateString()} - {nextPayment.amount} {nextPayment.currency}
-                    </div>
-                  )}
-                </div>
-              );
-            })}
+            {loanAccounts.map(account => (
+              <LoanAccountCard
+                key={account.id}
+                account={account}
+                accounts={accounts}
+                transactions={transactions}
+                scheduledTransactions={scheduledTransactions}
+                onChanged={onLoanChanged}
+              />
+            ))}
           </div>
         </div>
       )}
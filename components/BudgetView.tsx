@@ -0,0 +1,324 @@
+import React, { useMemo, useState } from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine } from 'recharts';
+import { Plus, Trash2, X, Wallet, Repeat, AlertCircle, ChevronDown, ChevronUp, Edit3 } from 'lucide-react';
+import { v4 as uuidv4 } from 'uuid';
+import { AppSettings, Budget, Frequency, Transaction } from '../types';
+import { calculateAllBudgetStatuses, getBurnDown, BudgetStatus, DEFAULT_ALERT_THRESHOLDS } from '../services/budgetService';
+
+interface BudgetViewProps {
+  settings: AppSettings;
+  budgets: Budget[];
+  transactions: Transaction[];
+  onSaveBudget: (budget: Budget) => void;
+  onDeleteBudget: (id: string) => void;
+}
+
+type BudgetDraft = Partial<Budget> & { target: 'category' | 'account'; thresholds: string };
+
+const PERIOD_LABELS: Record<Frequency, string> = {
+  WEEKLY: 'Weekly',
+  MONTHLY: 'Monthly',
+  YEARLY: 'Yearly',
+};
+
+const barColor = (percent: number) =>
+  percent >= 100 ? '#ef4444' : percent >= 80 ? '#f59e0b' : '#10b981';
+
+const BudgetView: React.FC<BudgetViewProps> = ({ settings, budgets, transactions, onSaveBudget, onDeleteBudget }) => {
+  const [editing, setEditing] = useState<BudgetDraft | null>(null);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const statuses = useMemo(
+    () => calculateAllBudgetStatuses(budgets, transactions, settings),
+    [budgets, transactions, settings]
+  );
+
+  const totals = statuses.reduce(
+    (acc, s) => ({ available: acc.available + s.available, spent: acc.spent + s.spent }),
+    { available: 0, spent: 0 }
+  );
+
+  const openEditor = (status?: BudgetStatus) => {
+    if (!status) {
+      setEditing({
+        target: 'category',
+        period: 'MONTHLY',
+        rollover: false,
+        startDate: new Date().toISOString().split('T')[0],
+        thresholds: DEFAULT_ALERT_THRESHOLDS.join(', '),
+      });
+      return;
+    }
+    // Editing an implicit budget turns it into an explicit one
+    const { budget, isLegacy } = status;
+    setEditing({
+      ...budget,
+      id: isLegacy ? undefined : budget.id,
+      startDate: isLegacy ? status.period.start : budget.startDate,
+      target: budget.categoryId ? 'category' : 'account',
+      thresholds: (budget.alertThresholds || DEFAULT_ALERT_THRESHOLDS).join(', '),
+    });
+  };
+
+  const handleSave = () => {
+    if (!editing) return;
+    const targetId = editing.target === 'category' ? editing.categoryId : editing.accountId;
+    if (!targetId) {
+      alert(`Please choose a ${editing.target}.`);
+      return;
+    }
+    if (!(Number(editing.amount) > 0) && !(Number(editing.incomeAllocationPercent) > 0)) {
+      alert('Set an amount or an income allocation.');
+      return;
+    }
+
+    const thresholds = editing.thresholds.split(',').map(v => parseFloat(v)).filter(v => v > 0);
+    const now = new Date().toISOString();
+    const existing = budgets.find(b => b.id === editing.id);
+    onSaveBudget({
+      id: editing.id || uuidv4(),
+      categoryId: editing.target === 'category' ? targetId : undefined,
+      accountId: editing.target === 'account' ? targetId : undefined,
+      amount: Number(editing.amount) || 0,
+      period: editing.period || 'MONTHLY',
+      rollover: !!editing.rollover,
+      incomeAllocationPercent: Number(editing.incomeAllocationPercent) || undefined,
+      alertThresholds: thresholds.length > 0 ? thresholds.sort((a, b) => a - b) : undefined,
+      startDate: editing.startDate || now.split('T')[0],
+      createdAt: existing?.createdAt || now,
+      updatedAt: existing ? now : undefined,
+    });
+    setEditing(null);
+  };
+
+  const formatMoney = (n: number) => `${settings.baseCurrency} ${n.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+  return (
+    <div className="h-full flex flex-col pb-24">
+      <div className="px-6 py-4 bg-white/80 backdrop-blur-md border-b border-white/30 sticky top-0 z-10">
+        <h2 className="text-2xl font-bold text-slate-800">Budgets</h2>
+      </div>
+
+      <div className="p-6 flex-1 overflow-y-auto space-y-4">
+        {/* Summary */}
+        <div className="bg-emerald-600 rounded-2xl p-6 text-white shadow-lg shadow-emerald-500/20">
+          <div className="flex items-center gap-2 mb-1 opacity-80">
+            <Wallet size={18} />
+            <h2 className="text-sm font-medium">Left to Spend</h2>
+          </div>
+          <div className="text-3xl font-bold">{formatMoney(totals.available - totals.spent)}</div>
+          <div className="text-xs opacity-80 mt-1">
+            {formatMoney(totals.spent)} spent of {formatMoney(totals.available)}
+          </div>
+        </div>
+
+        <button
+          onClick={() => openEditor()}
+          className="w-full py-3 bg-white/60 backdrop-blur-sm border-2 border-dashed border-white/30 rounded-xl text-slate-600 font-bold text-sm flex items-center justify-center gap-2 hover:bg-white/80 hover:border-emerald-300 hover:text-emerald-600 transition-all"
+        >
+          <Plus size={18} /> Add Budget
+        </button>
+
+        {statuses.length === 0 && (
+          <div className="bg-blue-50 p-4 rounded-xl text-xs text-blue-700 flex gap-2">
+            <AlertCircle size={16} className="shrink-0" />
+            <p>No budgets yet. Create one for a category or set a spending limit on an account.</p>
+          </div>
+        )}
+
+        {statuses.map(status => {
+          const expanded = expandedId === status.budget.id;
+          const percent = Math.min(status.percentUsed, 100);
+          return (
+            <div key={status.budget.id} className="bg-white/80 backdrop-blur-md p-5 rounded-2xl shadow-sm border border-white/30">
+              <div className="flex justify-between items-start mb-3">
+                <div onClick={() => openEditor(status)} className="cursor-pointer">
+                  <h3 className="font-bold text-slate-800 flex items-center gap-2">
+                    {status.label}
+                    <Edit3 size={14} className="text-slate-300" />
+                  </h3>
+                  <div className="text-xs text-slate-400 flex items-center gap-1">
+                    {PERIOD_LABELS[status.budget.period]} • {status.budget.accountId ? 'Account limit' : 'Category'}
+                    {status.budget.rollover && <><span>•</span><Repeat size={10} /> Rollover</>}
+                    {status.isLegacy && <span>• from settings</span>}
+                  </div>
+                </div>
+                <div className="text-right">
+                  <div className={`font-bold ${status.remaining < 0 ? 'text-red-600' : 'text-slate-700'}`}>
+                    {formatMoney(status.remaining)}
+                  </div>
+                  <div className="text-[10px] text-slate-400">{status.remaining < 0 ? 'over' : 'left'}</div>
+                </div>
+              </div>
+
+              <div className="h-2 w-full bg-slate-100 rounded-full overflow-hidden">
+                <div
+                  className="h-full rounded-full transition-all duration-500"
+                  style={{ width: `${percent}%`, backgroundColor: barColor(status.percentUsed) }}
+                />
+              </div>
+              <div className="mt-1 flex justify-between text-[10px] font-bold text-slate-400">
+                <span>{formatMoney(status.spent)} of {formatMoney(status.available)}</span>
+                <span>{status.percentUsed.toFixed(0)}%</span>
+              </div>
+
+              {(status.carriedOver !== 0 || status.allocated > 0) && (
+                <div className="mt-2 text-[10px] text-slate-500 space-x-3">
+                  {status.carriedOver !== 0 && (
+                    <span className={status.carriedOver < 0 ? 'text-red-500' : 'text-emerald-600'}>
+                      {status.carriedOver > 0 ? '+' : ''}{status.carriedOver.toFixed(2)} rolled over
+                    </span>
+                  )}
+                  {status.allocated > 0 && (
+                    <span className="text-blue-600">+{status.allocated.toFixed(2)} from income</span>
+                  )}
+                </div>
+              )}
+
+              <button
+                onClick={() => setExpandedId(expanded ? null : status.budget.id)}
+                className="mt-3 w-full flex items-center justify-between text-xs font-bold text-slate-500"
+              >
+                <span>Burn-down ({status.period.start} – {status.period.end})</span>
+                {expanded ? <ChevronUp size={14} /> : <ChevronDown size={14} />}
+              </button>
+
+              {expanded && (
+                <div className="mt-2 h-48">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <LineChart data={getBurnDown(status, transactions, settings)}>
+                      <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" />
+                      <XAxis dataKey="day" tick={{ fontSize: 10 }} />
+                      <YAxis tick={{ fontSize: 10 }} width={40} />
+                      <Tooltip
+                        formatter={(value: number, name: string) => [value.toFixed(2), name === 'ideal' ? 'Ideal' : 'Remaining']}
+                        labelFormatter={(_, payload) => payload?.[0]?.payload?.date || ''}
+                      />
+                      <ReferenceLine y={0} stroke="#94a3b8" />
+                      <Line type="linear" dataKey="ideal" stroke="#cbd5e1" strokeDasharray="4 4" dot={false} />
+                      <Line type="stepAfter" dataKey="remaining" stroke={barColor(status.percentUsed)} strokeWidth={2} dot={false} connectNulls={false} />
+                    </LineChart>
+                  </ResponsiveContainer>
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {/* Edit Budget Modal */}
+      {editing && (
+        <div className="fixed inset-0 z-50 flex items-end sm:items-center justify-center p-4 bg-slate-900/50 backdrop-blur-sm">
+          <div className="bg-white/95 backdrop-blur-md w-full max-w-md rounded-2xl p-5 shadow-xl animate-in slide-in-from-bottom-10">
+            <div className="flex justify-between items-center mb-4 border-b border-slate-100 pb-3">
+              <h3 className="font-bold text-lg">{editing.id ? 'Edit Budget' : 'New Budget'}</h3>
+              <button onClick={() => setEditing(null)}><X size={20} className="text-slate-400" /></button>
+            </div>
+            <div className="space-y-3">
+              <div className="flex p-1 bg-slate-100 rounded-xl">
+                {(['category', 'account'] as const).map(target => (
+                  <button
+                    key={target}
+                    onClick={() => setEditing({ ...editing, target })}
+                    className={`flex-1 py-2 text-sm font-bold rounded-lg transition-all ${editing.target === target ? 'bg-white shadow-sm text-slate-800' : 'text-slate-500'}`}
+                  >
+                    {target === 'category' ? 'Category' : 'Account Limit'}
+                  </button>
+                ))}
+              </div>
+
+              <div>
+                <label className="text-xs font-bold text-slate-500">{editing.target === 'category' ? 'Category' : 'Account'}</label>
+                {editing.target === 'category' ? (
+                  <select className="w-full p-3 bg-slate-50 rounded-xl mt-1 text-sm"
+                    value={editing.categoryId || ''}
+                    onChange={e => setEditing({ ...editing, categoryId: e.target.value })}
+                  >
+                    <option value="">Select...</option>
+                    {settings.categories.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+                  </select>
+                ) : (
+                  <select className="w-full p-3 bg-slate-50 rounded-xl mt-1 text-sm"
+                    value={editing.accountId || ''}
+                    onChange={e => setEditing({ ...editing, accountId: e.target.value })}
+                  >
+                    <option value="">Select...</option>
+                    {settings.accounts.map(a => <option key={a.id} value={a.id}>{a.name}</option>)}
+                  </select>
+                )}
+              </div>
+
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label className="text-xs font-bold text-slate-500">Amount</label>
+                  <input type="number" className="w-full p-3 bg-slate-50 rounded-xl mt-1 text-sm"
+                    value={editing.amount ?? ''}
+                    onChange={e => setEditing({ ...editing, amount: parseFloat(e.target.value) })}
+                    placeholder="0.00"
+                  />
+                </div>
+                <div>
+                  <label className="text-xs font-bold text-slate-500">Period</label>
+                  <select className="w-full p-3 bg-slate-50 rounded-xl mt-1 text-sm"
+                    value={editing.period}
+                    onChange={e => setEditing({ ...editing, period: e.target.value as Frequency })}
+                  >
+                    {(Object.keys(PERIOD_LABELS) as Frequency[]).map(p => <option key={p} value={p}>{PERIOD_LABELS[p]}</option>)}
+                  </select>
+                </div>
+              </div>
+
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label className="text-xs font-bold text-slate-500">% of Income</label>
+                  <input type="number" min="0" max="100" className="w-full p-3 bg-slate-50 rounded-xl mt-1 text-sm"
+                    value={editing.incomeAllocationPercent ?? ''}
+                    onChange={e => setEditing({ ...editing, incomeAllocationPercent: parseFloat(e.target.value) })}
+                    placeholder="Envelope top-up"
+                  />
+                </div>
+                <div>
+                  <label className="text-xs font-bold text-slate-500">Start Date</label>
+                  <input type="date" className="w-full p-3 bg-slate-50 rounded-xl mt-1 text-sm"
+                    value={editing.startDate || ''}
+                    onChange={e => setEditing({ ...editing, startDate: e.target.value })}
+                  />
+                </div>
+              </div>
+
+              <div>
+                <label className="text-xs font-bold text-slate-500">Alert at (% used)</label>
+                <input type="text" className="w-full p-3 bg-slate-50 rounded-xl mt-1 text-sm"
+                  value={editing.thresholds}
+                  onChange={e => setEditing({ ...editing, thresholds: e.target.value })}
+                  placeholder="50, 80, 100"
+                />
+              </div>
+
+              <label className="flex items-center gap-2 text-sm text-slate-600">
+                <input type="checkbox"
+                  checked={!!editing.rollover}
+                  onChange={e => setEditing({ ...editing, rollover: e.target.checked })}
+                />
+                Roll unspent (or overspent) amounts into the next period
+              </label>
+
+              <div className="flex gap-3 pt-2">
+                {editing.id && (
+                  <button onClick={() => { onDeleteBudget(editing.id!); setEditing(null); }} className="p-3 bg-red-50 text-red-500 rounded-xl">
+                    <Trash2 size={20} />
+                  </button>
+                )}
+                <button onClick={handleSave} className="flex-1 bg-emerald-600 text-white font-bold py-3 rounded-xl shadow-lg shadow-emerald-500/20">
+                  Save Budget
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BudgetView;
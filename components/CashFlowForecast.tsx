@@ -0,0 +1,151 @@
+import React, { useMemo, useState } from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine } from 'recharts';
+import { AlertTriangle, TrendingDown } from 'lucide-react';
+import { Account, RecurringRule, ScheduledTransaction, Transaction } from '../types';
+import { forecastCashFlow, getForecastShortfalls, ForecastHorizon } from '../services/forecastService';
+
+interface CashFlowForecastProps {
+  accounts: Account[];
+  scheduledTransactions: ScheduledTransaction[];
+  recurringRules: RecurringRule[];
+  transactions: Transaction[];
+}
+
+const HORIZONS: ForecastHorizon[] = [30, 90, 365];
+
+const formatDate = (date: string) =>
+  new Date(`${date}T00:00:00`).toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' });
+
+const CashFlowForecast: React.FC<CashFlowForecastProps> = ({
+  accounts,
+  scheduledTransactions,
+  recurringRules,
+  transactions,
+}) => {
+  const [horizon, setHorizon] = useState<ForecastHorizon>(30);
+  const [selectedAccountId, setSelectedAccountId] = useState<string>('');
+
+  const forecasts = useMemo(
+    () => forecastCashFlow({ accounts, scheduledTransactions, recurringRules, transactions }, horizon),
+    [accounts, scheduledTransactions, recurringRules, transactions, horizon]
+  );
+  const shortfalls = useMemo(() => getForecastShortfalls(forecasts), [forecasts]);
+
+  if (forecasts.length === 0) return null;
+
+  // Default to the account in most trouble, else the first one
+  const selected = forecasts.find(f => f.accountId === selectedAccountId)
+    || shortfalls[0]
+    || forecasts.find(f => !f.isLiability)
+    || forecasts[0];
+  const alertDate = selected.firstNegativeDate || selected.firstOverLimitDate;
+  const upcomingEvents = [...selected.events].sort((a, b) => a.date.localeCompare(b.date)).slice(0, 8);
+
+  return (
+    <div>
+      <h2 className="text-lg font-bold text-gray-900 mb-3">📈 Cash-Flow Forecast</h2>
+
+      <div className="bg-white border border-gray-200 rounded-lg p-4 space-y-4">
+        <div className="flex gap-2">
+          <select
+            value={selected.accountId}
+            onChange={e => setSelectedAccountId(e.target.value)}
+            className="flex-1 border border-gray-300 rounded-lg px-3 py-2 text-sm"
+          >
+            {forecasts.map(f => (
+              <option key={f.accountId} value={f.accountId}>{f.accountName}</option>
+            ))}
+          </select>
+          <div className="flex bg-gray-100 rounded-lg p-1">
+            {HORIZONS.map(h => (
+              <button
+                key={h}
+                onClick={() => setHorizon(h)}
+                className={`px-3 py-1 text-xs font-medium rounded ${horizon === h ? 'bg-white shadow text-gray-900' : 'text-gray-500'}`}
+              >
+                {h}d
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {alertDate ? (
+          <div className="flex items-start gap-2 bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-700">
+            <AlertTriangle size={16} className="flex-shrink-0 mt-0.5" />
+            <div>
+              {selected.firstNegativeDate
+                ? <>Projected to go negative on <strong>{formatDate(selected.firstNegativeDate)}</strong>.</>
+                : <>Projected to exceed its credit limit on <strong>{formatDate(selected.firstOverLimitDate!)}</strong>.</>}
+              <div className="text-xs mt-0.5">
+                Lowest: {selected.currency} {selected.lowestBalance.toFixed(2)} on {formatDate(selected.lowestDate)}
+              </div>
+            </div>
+          </div>
+        ) : (
+          <div className="text-sm text-gray-600">
+            Stays above zero for the next {horizon} days. Lowest: {selected.currency} {selected.lowestBalance.toFixed(2)} on {formatDate(selected.lowestDate)}.
+          </div>
+        )}
+
+        <div className="h-56">
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart data={selected.points}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+              <XAxis
+                dataKey="date"
+                tick={{ fontSize: 10 }}
+                tickFormatter={(d: string) => d.slice(5)}
+                minTickGap={24}
+              />
+              <YAxis tick={{ fontSize: 10 }} width={50} />
+              <Tooltip
+                formatter={(value: number) => [`${selected.currency} ${value.toFixed(2)}`, 'Balance']}
+                labelFormatter={(label: string) => formatDate(label)}
+              />
+              <ReferenceLine y={0} stroke="#9ca3af" />
+              {alertDate && <ReferenceLine x={alertDate} stroke="#ef4444" strokeDasharray="4 4" />}
+              <Line type="stepAfter" dataKey="balance" stroke="#0ea5e9" strokeWidth={2} dot={false} />
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+
+        <div className="text-xs text-gray-500 flex justify-between">
+          <span>Today: {selected.currency} {selected.startBalance.toFixed(2)}</span>
+          <span>In {horizon} days: {selected.currency} {selected.endBalance.toFixed(2)}</span>
+        </div>
+
+        {upcomingEvents.length > 0 && (
+          <div>
+            <div className="text-xs font-semibold text-gray-700 uppercase mb-1">Coming up</div>
+            <div className="divide-y divide-gray-100">
+              {upcomingEvents.map((event, idx) => (
+                <div key={idx} className="flex justify-between py-1.5 text-sm">
+                  <div>
+                    <span className="text-gray-900">{event.label}</span>
+                    <span className="text-xs text-gray-400 ml-2">{formatDate(event.date)}</span>
+                  </div>
+                  <span className={event.amount < 0 ? 'text-red-600' : 'text-green-600'}>
+                    {event.amount > 0 ? '+' : ''}{event.amount.toFixed(2)}
+                  </span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {shortfalls.length > 1 && (
+          <div className="text-xs text-gray-600 flex items-start gap-1">
+            <TrendingDown size={14} className="text-red-500 flex-shrink-0" />
+            <span>
+              Also at risk: {shortfalls.filter(f => f.accountId !== selected.accountId)
+                .map(f => `${f.accountName} (${formatDate((f.firstNegativeDate || f.firstOverLimitDate)!)})`)
+                .join(', ')}
+            </span>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CashFlowForecast;
@@ -6,6 +6,7 @@ import {
   Smartphone, Plane, Coffee, Gift, Music, Gamepad2,
   BookOpen, GraduationCap, Baby, Dog, Wrench, Wifi, Fuel, Calendar, ChevronLeft, ChevronRight, Plus, X, Pencil, ArrowLeftRight
 } from 'lucide-react';
+import { isGoalDeposit } from '../services/savingsGoalService';
 import { useHoldGesture } from '../hooks/useHoldGesture';
 import { useDoubleTapGesture } from '../hooks/useDoubleTapGesture';
 import CircularProgress from './CircularProgress';
@@ -253,7 +254,7 @@ const CategoriesView: React.FC<CategoriesViewProps> = ({
     const stats: Record<string, number> = {};
 
     (transactions || []).forEach(t => {
-      if (t.type === TransactionType.EXPENSE) {
+      if (t.type === TransactionType.EXPENSE && !isGoalDeposit(t)) {
         stats[t.category] = (stats[t.category] || 0) + t.amount;
       }
     });
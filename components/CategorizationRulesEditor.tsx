@@ -0,0 +1,434 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Plus, X, Trash2, ChevronUp, ChevronDown, Pencil, FlaskConical, Wand2 } from 'lucide-react';
+import { v4 as uuidv4 } from 'uuid';
+import { Account, Category, CategorizationRule, RuleSplit, Transaction, TransactionType } from '../types';
+import { getAllCategorizationRules, saveCategorizationRule, deleteCategorizationRule } from '../services/indexedDBService';
+import { RuleChange, applyRuleChanges, previewRules, validateRule } from '../services/rulesEngineService';
+
+interface CategorizationRulesEditorProps {
+  categories: Category[];
+  accounts: Account[];
+  transactions: Transaction[];
+  onRulesApplied?: () => void; // Reload app data after rules rewrite existing transactions
+}
+
+// Form values are kept as strings so half-typed numbers don't get coerced
+interface RuleDraft {
+  id?: string;
+  name: string;
+  merchantPattern: string;
+  minAmount: string;
+  maxAmount: string;
+  accountId: string;
+  dayOfMonthFrom: string;
+  dayOfMonthTo: string;
+  matchType: string;
+  rawTextContains: string;
+  category: string;
+  addTags: string;
+  setAccountId: string;
+  setType: string;
+  toAccountId: string;
+  split: { category: string; percent: string }[];
+  stopProcessing: boolean;
+}
+
+const emptyDraft = (): RuleDraft => ({
+  name: '',
+  merchantPattern: '',
+  minAmount: '',
+  maxAmount: '',
+  accountId: '',
+  dayOfMonthFrom: '',
+  dayOfMonthTo: '',
+  matchType: '',
+  rawTextContains: '',
+  category: '',
+  addTags: '',
+  setAccountId: '',
+  setType: '',
+  toAccountId: '',
+  split: [],
+  stopProcessing: false,
+});
+
+const toDraft = (rule: CategorizationRule): RuleDraft => {
+  const { conditions: c, actions: a } = rule;
+  const str = (n?: number) => (n === undefined ? '' : String(n));
+  return {
+    id: rule.id,
+    name: rule.name,
+    merchantPattern: c.merchantPattern || '',
+    minAmount: str(c.minAmount),
+    maxAmount: str(c.maxAmount),
+    accountId: c.accountId || '',
+    dayOfMonthFrom: str(c.dayOfMonthFrom),
+    dayOfMonthTo: str(c.dayOfMonthTo),
+    matchType: c.type || '',
+    rawTextContains: c.rawTextContains || '',
+    category: a.category || '',
+    addTags: (a.addTags || []).join(', '),
+    setAccountId: a.accountId || '',
+    setType: a.type || '',
+    toAccountId: a.toAccountId || '',
+    split: (a.split || []).map(s => ({ category: s.category, percent: String(s.percent) })),
+    stopProcessing: !!rule.stopProcessing,
+  };
+};
+
+const num = (s: string) => (s.trim() === '' || isNaN(Number(s)) ? undefined : Number(s));
+const text = (s: string) => s.trim() || undefined;
+
+const fromDraft = (draft: RuleDraft, existing: CategorizationRule | undefined, priority: number): CategorizationRule => {
+  const tags = draft.addTags.split(',').map(t => t.trim()).filter(Boolean);
+  const split: RuleSplit[] = draft.split.map(s => ({ category: s.category, percent: Number(s.percent) || 0 }));
+  const now = new Date().toISOString();
+  return {
+    id: existing?.id || uuidv4(),
+    name: draft.name.trim(),
+    enabled: existing ? existing.enabled : true,
+    priority: existing ? existing.priority : priority,
+    conditions: {
+      merchantPattern: text(draft.merchantPattern),
+      minAmount: num(draft.minAmount),
+      maxAmount: num(draft.maxAmount),
+      accountId: text(draft.accountId),
+      dayOfMonthFrom: num(draft.dayOfMonthFrom),
+      dayOfMonthTo: num(draft.dayOfMonthTo),
+      type: (text(draft.matchType) as TransactionType) || undefined,
+      rawTextContains: text(draft.rawTextContains),
+    },
+    actions: {
+      category: text(draft.category),
+      addTags: tags.length > 0 ? tags : undefined,
+      accountId: text(draft.setAccountId),
+      type: (text(draft.setType) as TransactionType) || undefined,
+      toAccountId: text(draft.toAccountId),
+      split: split.length > 0 ? split : undefined,
+    },
+    stopProcessing: draft.stopProcessing || undefined,
+    createdAt: existing?.createdAt || now,
+    updatedAt: existing ? now : undefined,
+  };
+};
+
+const describeTx = (tx: Transaction) =>
+  `${tx.category}${tx.type === TransactionType.TRANSFER ? ' (transfer)' : ''}${tx.tags?.length ? ` #${tx.tags.join(' #')}` : ''}`;
+
+const inputClass = 'p-2 bg-white border border-slate-200 rounded-lg text-sm w-full';
+
+const CategorizationRulesEditor: React.FC<CategorizationRulesEditorProps> = ({ categories, accounts, transactions, onRulesApplied }) => {
+  const [rules, setRules] = useState<CategorizationRule[]>([]);
+  const [draft, setDraft] = useState<RuleDraft | null>(null);
+  const [preview, setPreview] = useState<{ title: string; changes: RuleChange[] } | null>(null);
+  const [applying, setApplying] = useState(false);
+
+  const sortedRules = useMemo(() => [...rules].sort((a, b) => a.priority - b.priority), [rules]);
+  const accountName = (id?: string) => accounts.find(a => a.id === id)?.name || 'Unknown account';
+
+  useEffect(() => {
+    loadRules();
+  }, []);
+
+  const loadRules = async () => {
+    setRules(await getAllCategorizationRules());
+  };
+
+  const persist = async (updated: CategorizationRule[]) => {
+    for (const rule of updated) await saveCategorizationRule(rule);
+    setRules(prev => [...prev.filter(r => !updated.some(u => u.id === r.id)), ...updated]);
+  };
+
+  const handleSaveDraft = async () => {
+    if (!draft) return;
+    const existing = rules.find(r => r.id === draft.id);
+    const nextPriority = rules.reduce((max, r) => Math.max(max, r.priority), 0) + 1;
+    const rule = fromDraft(draft, existing, nextPriority);
+    const errors = validateRule(rule);
+    if (errors.length > 0) {
+      alert(errors.join('\n'));
+      return;
+    }
+    await persist([rule]);
+    setDraft(null);
+  };
+
+  const handleDelete = async (rule: CategorizationRule) => {
+    if (!window.confirm(`Delete the rule "${rule.name}"?`)) return;
+    await deleteCategorizationRule(rule.id);
+    setRules(prev => prev.filter(r => r.id !== rule.id));
+  };
+
+  // Swap with the neighbour and renumber so priorities stay 1..n
+  const handleMove = async (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= sortedRules.length) return;
+    const ordered = [...sortedRules];
+    [ordered[index], ordered[target]] = [ordered[target], ordered[index]];
+    await persist(ordered.map((r, i) => ({ ...r, priority: i + 1 })));
+  };
+
+  const handleTestDraft = () => {
+    if (!draft) return;
+    const rule = { ...fromDraft(draft, rules.find(r => r.id === draft.id), 0), enabled: true };
+    const errors = validateRule(rule);
+    if (errors.length > 0) {
+      alert(errors.join('\n'));
+      return;
+    }
+    setPreview({ title: `"${rule.name}" against history`, changes: previewRules(transactions, [rule], accounts) });
+  };
+
+  const handlePreviewAll = () => {
+    setPreview({ title: 'All enabled rules against history', changes: previewRules(transactions, rules, accounts) });
+  };
+
+  const handleApplyAll = async () => {
+    const changes = previewRules(transactions, rules, accounts);
+    if (changes.length === 0) {
+      alert('The rules would not change any existing transactions.');
+      return;
+    }
+    if (!window.confirm(`Apply rules to ${changes.length} existing transaction${changes.length === 1 ? '' : 's'}? Account balances are not adjusted.`)) return;
+
+    setApplying(true);
+    try {
+      const count = await applyRuleChanges(changes);
+      setPreview(null);
+      alert(`Updated ${count} transaction${count === 1 ? '' : 's'}.`);
+      onRulesApplied?.();
+    } catch (error) {
+      console.error('Error applying rules:', error);
+      alert('Failed to apply rules.');
+    } finally {
+      setApplying(false);
+    }
+  };
+
+  const update = (patch: Partial<RuleDraft>) => setDraft(prev => (prev ? { ...prev, ...patch } : prev));
+
+  const describeRule = (rule: CategorizationRule) => {
+    const { conditions: c, actions: a } = rule;
+    const when = [
+      c.merchantPattern && `merchant ~ /${c.merchantPattern}/`,
+      (c.minAmount !== undefined || c.maxAmount !== undefined) && `amount ${c.minAmount ?? 0}–${c.maxAmount ?? '∞'}`,
+      c.accountId && `in ${accountName(c.accountId)}`,
+      (c.dayOfMonthFrom !== undefined || c.dayOfMonthTo !== undefined) && `day ${c.dayOfMonthFrom ?? 1}–${c.dayOfMonthTo ?? 31}`,
+      c.type && c.type.toLowerCase(),
+      c.rawTextContains && `text has "${c.rawTextContains}"`,
+    ].filter(Boolean).join(', ');
+    const then = [
+      a.category && a.category,
+      a.addTags?.length && `#${a.addTags.join(' #')}`,
+      a.accountId && `account ${accountName(a.accountId)}`,
+      a.toAccountId ? `transfer to ${accountName(a.toAccountId)}` : a.type && a.type.toLowerCase(),
+      a.split?.length && `split ${a.split.map(s => `${s.percent}% ${s.category}`).join(' / ')}`,
+    ].filter(Boolean).join(', ');
+    return `${when} → ${then}`;
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+        <div className="divide-y divide-slate-50">
+          {sortedRules.length === 0 && (
+            <div className="p-6 text-center text-slate-400 text-sm">
+              No categorization rules yet.
+            </div>
+          )}
+          {sortedRules.map((rule, index) => (
+            <div key={rule.id} className="p-3 flex items-center gap-2">
+              <div className="flex flex-col">
+                <button onClick={() => handleMove(index, -1)} disabled={index === 0} className="text-slate-300 hover:text-slate-600 disabled:opacity-30">
+                  <ChevronUp size={14} />
+                </button>
+                <button onClick={() => handleMove(index, 1)} disabled={index === sortedRules.length - 1} className="text-slate-300 hover:text-slate-600 disabled:opacity-30">
+                  <ChevronDown size={14} />
+                </button>
+              </div>
+              <div className="min-w-0 flex-1">
+                <div className={`font-semibold text-sm ${rule.enabled ? 'text-slate-800' : 'text-slate-400'}`}>
+                  {rule.priority}. {rule.name}
+                  {rule.stopProcessing && <span className="ml-1 text-[10px] font-normal text-slate-400">(stops)</span>}
+                </div>
+                <div className="text-xs text-slate-400 truncate">{describeRule(rule)}</div>
+              </div>
+              <button
+                onClick={() => persist([{ ...rule, enabled: !rule.enabled, updatedAt: new Date().toISOString() }])}
+                className={`relative w-10 h-5 rounded-full transition-colors duration-200 flex-shrink-0 ${
+                  rule.enabled ? 'bg-brand-500' : 'bg-slate-300'
+                }`}
+              >
+                <div
+                  className={`absolute top-0.5 left-0.5 w-4 h-4 bg-white rounded-full shadow transition-transform duration-200 ${
+                    rule.enabled ? 'translate-x-5' : 'translate-x-0'
+                  }`}
+                />
+              </button>
+              <button onClick={() => setDraft(toDraft(rule))} className="p-2 text-slate-300 hover:text-brand-600 rounded-full transition-colors">
+                <Pencil size={16} />
+              </button>
+              <button onClick={() => handleDelete(rule)} className="p-2 text-slate-300 hover:text-red-500 rounded-full transition-colors">
+                <Trash2 size={16} />
+              </button>
+            </div>
+          ))}
+        </div>
+
+        {!draft && (
+          <div className="flex border-t border-slate-100 text-xs font-medium">
+            <button onClick={() => setDraft(emptyDraft())} className="flex-1 py-2 text-brand-600 flex items-center justify-center gap-1 hover:bg-slate-50">
+              <Plus size={14} /> New rule
+            </button>
+            {rules.length > 0 && (
+              <>
+                <button onClick={handlePreviewAll} className="flex-1 py-2 text-slate-500 flex items-center justify-center gap-1 hover:bg-slate-50 border-l border-slate-100">
+                  <FlaskConical size={14} /> Test
+                </button>
+                <button
+                  onClick={handleApplyAll}
+                  disabled={applying}
+                  className="flex-1 py-2 text-slate-500 flex items-center justify-center gap-1 hover:bg-slate-50 border-l border-slate-100 disabled:opacity-50"
+                >
+                  <Wand2 size={14} /> Apply to existing
+                </button>
+              </>
+            )}
+          </div>
+        )}
+      </div>
+
+      {draft && (
+        <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-4 space-y-3">
+          <div className="flex justify-between items-center">
+            <div className="text-xs font-bold text-slate-500 uppercase">{draft.id ? 'Edit Rule' : 'New Rule'}</div>
+            <button onClick={() => { setDraft(null); setPreview(null); }} className="p-1 text-slate-400 hover:text-slate-700">
+              <X size={16} />
+            </button>
+          </div>
+          <input type="text" placeholder="Rule name" className={inputClass} value={draft.name} onChange={(e) => update({ name: e.target.value })} />
+
+          <div className="text-xs font-semibold text-slate-400">When all of these match</div>
+          <div className="grid grid-cols-2 gap-2">
+            <input type="text" placeholder="Merchant regex (e.g. uber|lyft)" className={`${inputClass} col-span-2 font-mono`} value={draft.merchantPattern} onChange={(e) => update({ merchantPattern: e.target.value })} />
+            <input type="number" step="any" placeholder="Min amount" className={inputClass} value={draft.minAmount} onChange={(e) => update({ minAmount: e.target.value })} />
+            <input type="number" step="any" placeholder="Max amount" className={inputClass} value={draft.maxAmount} onChange={(e) => update({ maxAmount: e.target.value })} />
+            <input type="number" min={1} max={31} placeholder="From day of month" className={inputClass} value={draft.dayOfMonthFrom} onChange={(e) => update({ dayOfMonthFrom: e.target.value })} />
+            <input type="number" min={1} max={31} placeholder="To day of month" className={inputClass} value={draft.dayOfMonthTo} onChange={(e) => update({ dayOfMonthTo: e.target.value })} />
+            <select className={inputClass} value={draft.accountId} onChange={(e) => update({ accountId: e.target.value })}>
+              <option value="">Any account</option>
+              {accounts.map(a => <option key={a.id} value={a.id}>{a.name}</option>)}
+            </select>
+            <select className={inputClass} value={draft.matchType} onChange={(e) => update({ matchType: e.target.value })}>
+              <option value="">Any type</option>
+              <option value={TransactionType.EXPENSE}>Expense</option>
+              <option value={TransactionType.INCOME}>Income</option>
+              <option value={TransactionType.TRANSFER}>Transfer</option>
+            </select>
+            <input type="text" placeholder="Original text contains" className={`${inputClass} col-span-2`} value={draft.rawTextContains} onChange={(e) => update({ rawTextContains: e.target.value })} />
+          </div>
+
+          <div className="text-xs font-semibold text-slate-400">Then</div>
+          <div className="grid grid-cols-2 gap-2">
+            <select className={inputClass} value={draft.category} onChange={(e) => update({ category: e.target.value })}>
+              <option value="">Keep category</option>
+              {categories.map(c => <option key={c.id} value={c.name}>{c.name}</option>)}
+            </select>
+            <input type="text" placeholder="Add tags (comma separated)" className={inputClass} value={draft.addTags} onChange={(e) => update({ addTags: e.target.value })} />
+            <select className={inputClass} value={draft.setAccountId} onChange={(e) => update({ setAccountId: e.target.value })}>
+              <option value="">Keep account</option>
+              {accounts.map(a => <option key={a.id} value={a.id}>{a.name}</option>)}
+            </select>
+            <select className={inputClass} value={draft.setType} onChange={(e) => update({ setType: e.target.value })} disabled={!!draft.toAccountId}>
+              <option value="">Keep type</option>
+              <option value={TransactionType.EXPENSE}>Expense</option>
+              <option value={TransactionType.INCOME}>Income</option>
+            </select>
+            <select className={`${inputClass} col-span-2`} value={draft.toAccountId} onChange={(e) => update({ toAccountId: e.target.value })}>
+              <option value="">Not a transfer</option>
+              {accounts.map(a => <option key={a.id} value={a.id}>Transfer to {a.name}</option>)}
+            </select>
+          </div>
+
+          <div className="space-y-2">
+            {draft.split.map((part, i) => (
+              <div key={i} className="flex gap-2">
+                <select
+                  className={inputClass}
+                  value={part.category}
+                  onChange={(e) => update({ split: draft.split.map((p, j) => (j === i ? { ...p, category: e.target.value } : p)) })}
+                >
+                  <option value="">Category</option>
+                  {categories.map(c => <option key={c.id} value={c.name}>{c.name}</option>)}
+                </select>
+                <input
+                  type="number"
+                  step="any"
+                  placeholder="%"
+                  className={`${inputClass} w-24`}
+                  value={part.percent}
+                  onChange={(e) => update({ split: draft.split.map((p, j) => (j === i ? { ...p, percent: e.target.value } : p)) })}
+                />
+                <button onClick={() => update({ split: draft.split.filter((_, j) => j !== i) })} className="p-2 text-slate-300 hover:text-red-500">
+                  <X size={16} />
+                </button>
+              </div>
+            ))}
+            <button
+              onClick={() => update({ split: [...draft.split, { category: '', percent: '' }] })}
+              className="text-xs font-medium text-brand-600 flex items-center gap-1"
+            >
+              <Plus size={12} /> Split by percentage
+            </button>
+          </div>
+
+          <label className="flex items-center gap-2 text-xs text-slate-600">
+            <input type="checkbox" checked={draft.stopProcessing} onChange={(e) => update({ stopProcessing: e.target.checked })} />
+            Stop running lower-priority rules when this one matches
+          </label>
+
+          <div className="flex gap-2">
+            <button onClick={handleTestDraft} className="flex-1 py-2 bg-slate-100 text-slate-700 rounded-lg font-bold text-sm flex items-center justify-center gap-1">
+              <FlaskConical size={14} /> Test against history
+            </button>
+            <button onClick={handleSaveDraft} className="flex-1 py-2 bg-brand-600 text-white rounded-lg font-bold text-sm">
+              Save rule
+            </button>
+          </div>
+        </div>
+      )}
+
+      {preview && (
+        <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-4">
+          <div className="flex justify-between items-center mb-2">
+            <div className="text-xs font-bold text-slate-500 uppercase">{preview.title}</div>
+            <button onClick={() => setPreview(null)} className="p-1 text-slate-400 hover:text-slate-700">
+              <X size={16} />
+            </button>
+          </div>
+          <div className="text-sm text-slate-700 mb-2">
+            Would change {preview.changes.length} of {transactions.length} transaction{transactions.length === 1 ? '' : 's'}.
+          </div>
+          <div className="divide-y divide-slate-50 max-h-64 overflow-y-auto">
+            {preview.changes.slice(0, 20).map(change => (
+              <div key={change.original.id} className="py-1.5 text-xs">
+                <div className="flex justify-between text-slate-700">
+                  <span className="truncate">{change.original.date} · {change.original.merchant}</span>
+                  <span>{change.original.amount.toFixed(2)}</span>
+                </div>
+                <div className="text-slate-400">
+                  {describeTx(change.original)} → {change.result.map(describeTx).join(' + ')}
+                </div>
+              </div>
+            ))}
+          </div>
+          {preview.changes.length > 20 && (
+            <div className="text-xs text-slate-400 mt-1">…and {preview.changes.length - 20} more</div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CategorizationRulesEditor;
@@ -0,0 +1,115 @@
+import React, { useMemo, useState } from 'react';
+import { ChevronDown, ChevronUp } from 'lucide-react';
+import { Account, Transaction } from '../types';
+import { getStatementCycles, hasStatementCycle, projectMinimumOnly } from '../services/creditCardService';
+
+interface CreditCardStatementsProps {
+  accounts: Account[];
+  transactions: Transaction[];
+}
+
+const formatDate = (date: string) =>
+  new Date(`${date}T00:00:00`).toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+
+const CreditCardStatements: React.FC<CreditCardStatementsProps> = ({ accounts, transactions }) => {
+  const [expandedCardId, setExpandedCardId] = useState<string | null>(null);
+
+  const cards = useMemo(
+    () => accounts.filter(hasStatementCycle).map(card => {
+      const cycles = getStatementCycles(card, transactions);
+      const current = cycles[cycles.length - 1];
+      const lastStatement = cycles.length > 1 ? cycles[cycles.length - 2] : null;
+      return {
+        card,
+        cycles,
+        current,
+        lastStatement,
+        projection: lastStatement && lastStatement.statementBalance > 0
+          ? projectMinimumOnly(card, lastStatement.statementBalance)
+          : null,
+      };
+    }),
+    [accounts, transactions]
+  );
+
+  if (cards.length === 0) return null;
+
+  return (
+    <div>
+      <h2 className="text-lg font-bold text-gray-900 mb-3">💳 Card Statements</h2>
+      <div className="space-y-2">
+        {cards.map(({ card, cycles, current, lastStatement, projection }) => (
+          <div key={card.id} className="bg-white border border-gray-200 rounded-lg p-4">
+            <div className="flex justify-between items-start mb-3">
+              <div className="font-semibold text-gray-900">{card.name}</div>
+              {card.apr !== undefined && <div className="text-xs text-gray-500">{card.apr}% APR</div>}
+            </div>
+
+            <div className="grid grid-cols-2 gap-2 mb-2">
+              <div className="bg-gray-50 rounded px-2 py-1">
+                <div className="text-xs text-gray-600">Statement balance</div>
+                <div className="font-semibold text-gray-900">
+                  {lastStatement ? `${lastStatement.statementBalance.toFixed(2)} ${card.currency}` : '—'}
+                </div>
+                {lastStatement && (
+                  <div className="text-[10px] text-gray-500">Closed {formatDate(lastStatement.closeDate)}</div>
+                )}
+              </div>
+              <div className="bg-gray-50 rounded px-2 py-1">
+                <div className="text-xs text-gray-600">Minimum due</div>
+                <div className="font-semibold text-orange-700">
+                  {lastStatement ? `${lastStatement.minimumPayment.toFixed(2)} ${card.currency}` : '—'}
+                </div>
+                {lastStatement && (
+                  <div className="text-[10px] text-gray-500">By {formatDate(lastStatement.dueDate)}</div>
+                )}
+              </div>
+            </div>
+
+            <div className="text-sm text-gray-600">
+              Current cycle: {current.charges.toFixed(2)} {card.currency} spent, closes {formatDate(current.closeDate)}
+            </div>
+
+            {projection && card.apr ? (
+              <div className="text-sm text-red-700 mt-1">
+                Paying only the minimum costs about {projection.monthlyInterest.toFixed(2)} {card.currency} in interest next month
+                {projection.monthsToPayoff !== null
+                  ? ` and ${projection.totalInterest.toFixed(2)} over ${projection.monthsToPayoff} months to clear.`
+                  : ', and the minimum never clears the balance.'}
+              </div>
+            ) : projection && (
+              <div className="text-xs text-gray-500 mt-1">Add the card's APR to estimate interest.</div>
+            )}
+
+            <button
+              onClick={() => setExpandedCardId(expandedCardId === card.id ? null : card.id)}
+              className="flex items-center gap-1 text-xs text-gray-500 mt-2"
+            >
+              {expandedCardId === card.id ? <ChevronUp size={14} /> : <ChevronDown size={14} />}
+              Billing cycles
+            </button>
+            {expandedCardId === card.id && (
+              <div className="mt-2 divide-y divide-gray-100">
+                {[...cycles].reverse().map(cycle => (
+                  <div key={cycle.closeDate} className="py-1.5 text-xs flex justify-between">
+                    <span className="text-gray-700">
+                      {formatDate(cycle.openDate)} – {formatDate(cycle.closeDate)}
+                      {cycle.isOpen && <span className="ml-1 text-blue-600">(open)</span>}
+                    </span>
+                    <span className="text-gray-600">
+                      +{cycle.charges.toFixed(2)} / -{cycle.credits.toFixed(2)}
+                      {cycle.estimatedInterest > 0 && <span className="text-red-600"> / int {cycle.estimatedInterest.toFixed(2)}</span>}
+                      <span className="font-semibold text-gray-900 ml-2">{cycle.statementBalance.toFixed(2)}</span>
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default CreditCardStatements;
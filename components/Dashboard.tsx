@@ -1,16 +1,20 @@
 import React, { useMemo, useState, useEffect } from 'react';
 import { PieChart, Pie, Cell, ResponsiveContainer, Tooltip, BarChart, Bar, XAxis, YAxis, CartesianGrid, Legend } from 'recharts';
-import { Transaction, TransactionType, Account, ScheduledTransaction } from '../types';
+import { Transaction, TransactionType, Account, ScheduledTransaction, ExchangeRate, NetWorthSnapshot } from '../types';
 import { TrendingUp, TrendingDown, Wallet, Calendar, ChevronLeft, ChevronRight, CreditCard, Receipt } from 'lucide-react';
 import { checkAllAccounts, ReconciliationResult } from '../services/reconciliationService';
 import { getByStatus, getUpcoming } from '../services/scheduledTransactionsService';
+import { accountBalanceInBase, convertTransactionsToBase, findMissingRates, netWorthInBase } from '../services/exchangeRateService';
+import { isGoalDeposit } from '../services/savingsGoalService';
 import ReconciliationWarning from './ReconciliationWarning';
+import NetWorthTrendChart from './NetWorthTrendChart';
 
 interface DashboardProps {
   transactions: Transaction[];
   accounts: Account[];
   scheduledTransactions?: ScheduledTransaction[];
   baseCurrency: string;
+  exchangeRates?: ExchangeRate[];
   dateFilter: 'month' | 'year' | 'week' | 'custom' | 'all';
   onDateFilterChange: (filter: 'month' | 'year' | 'week' | 'custom' | 'all') => void;
   customStartDate: string;
@@ -26,6 +30,8 @@ interface DashboardProps {
   onAcceptCalculatedBalance?: (accountId: string, newBalance: number) => void;
   onManualAdjustBalance?: (accountId: string) => void;
   onViewBills?: () => void;
+  netWorthSnapshots?: NetWorthSnapshot[];
+  onRebuildNetWorthHistory?: () => Promise<void>;
 }
 
 const COLORS = ['#0088FE', '#00C49F', '#FFBB28', '#FF8042', '#8884d8', '#82ca9d', '#ffc658'];
@@ -37,10 +43,11 @@ const VIEW_FILTER_TYPES: Array<'all' | 'cash' | 'credit' | 'debt'> =
   ['all', 'cash', 'credit', 'debt'];
 
 const Dashboard: React.FC<DashboardProps> = ({
-  transactions,
+  transactions: rawTransactions,
   accounts,
   scheduledTransactions = [],
   baseCurrency,
+  exchangeRates = [],
   dateFilter,
   onDateFilterChange,
   customStartDate,
@@ -55,8 +62,16 @@ const Dashboard: React.FC<DashboardProps> = ({
   gradientAngle,
   onAcceptCalculatedBalance,
   onManualAdjustBalance,
-  onViewBills
+  onViewBills,
+  netWorthSnapshots = [],
+  onRebuildNetWorthHistory
 }) => {
+  // Stats and charts use base-currency amounts; reconciliation compares raw account figures
+  const transactions = useMemo(
+    () => convertTransactionsToBase(rawTransactions, baseCurrency, exchangeRates),
+    [rawTransactions, baseCurrency, exchangeRates]
+  );
+
   // Dashboard view filter state
   const [viewFilter, setViewFilter] = useState<'all' | 'cash' | 'credit' | 'debt'>('all');
 
@@ -67,7 +82,7 @@ const Dashboard: React.FC<DashboardProps> = ({
 
   useEffect(() => {
     const checkReconciliation = () => {
-      const issues = checkAllAccounts(accounts, transactions);
+      const issues = checkAllAccounts(accounts, rawTransactions);
       setReconciliationIssues(issues);
     };
 
@@ -85,7 +100,7 @@ const Dashboard: React.FC<DashboardProps> = ({
 
     checkReconciliation();
     loadScheduledData();
-  }, [accounts, transactions]);
+  }, [accounts, rawTransactions]);
 
   // Use base currency from settings
   const displayCurrency = baseCurrency;
@@ -110,10 +125,15 @@ const Dashboard: React.FC<DashboardProps> = ({
     });
   }, [transactions, accounts, viewFilter]);
 
-  // Calculate Net Worth from Accounts
+  // Calculate Net Worth from Accounts, converting foreign-currency balances at today's rate
   const totalNetWorth = useMemo(() => {
-    return accounts.reduce((sum, acc) => sum + (acc.balance || 0), 0);
-  }, [accounts]);
+    return netWorthInBase(accounts, baseCurrency, exchangeRates);
+  }, [accounts, baseCurrency, exchangeRates]);
+
+  const missingRates = useMemo(
+    () => findMissingRates(accounts, baseCurrency, exchangeRates),
+    [accounts, baseCurrency, exchangeRates]
+  );
 
   // Calculate Cash Flow (Income vs Expense vs Obligation) for general stats
   const summary = useMemo(() => {
@@ -122,6 +142,7 @@ const Dashboard: React.FC<DashboardProps> = ({
     let obligation = 0;
 
     filteredByPayment.forEach(t => {
+      if (isGoalDeposit(t)) return;
       if (t.type === TransactionType.INCOME) income += t.amount;
       else if (t.type === TransactionType.OBLIGATION) obligation += t.amount;
       else expense += t.amount;
@@ -138,7 +159,7 @@ const Dashboard: React.FC<DashboardProps> = ({
   const categoryData = useMemo(() => {
     const categories: Record<string, number> = {};
     filteredByPayment
-      .filter(t => t.type === TransactionType.EXPENSE)
+      .filter(t => t.type === TransactionType.EXPENSE && !isGoalDeposit(t))
       .forEach(t => {
         categories[t.category] = (categories[t.category] || 0) + t.amount;
       });
@@ -168,8 +189,8 @@ const Dashboard: React.FC<DashboardProps> = ({
   const totalDebt = useMemo(() => {
     return accounts
       .filter(a => a.type === 'Credit Card' && a.balance < 0)
-      .reduce((sum, acc) => sum + Math.abs(acc.balance), 0);
-  }, [accounts]);
+      .reduce((sum, acc) => sum + Math.abs(accountBalanceInBase(acc, baseCurrency, exchangeRates)), 0);
+  }, [accounts, baseCurrency, exchangeRates]);
 
   // Get credit card accounts for debt overview
   const creditCardAccounts = useMemo(() => {
@@ -642,6 +663,11 @@ const Dashboard: React.FC<DashboardProps> = ({
         {/* Amount */}
         <div className={`text-3xl font-bold mb-4 ${totalNetWorth < 0 ? 'text-red-100' : 'text-white'}`}>
           {totalNetWorth < 0 ? '-' : ''}{displayCurrency} {Math.abs(totalNetWorth).toFixed(2)}
+          {missingRates.length > 0 && (
+            <div className="text-[10px] font-medium text-brand-100 mt-1">
+              No exchange rate for {missingRates.join(', ')} - counted 1:1. Add one in Settings.
+            </div>
+          )}
         </div>
 
         {/* Income/Expense Stats */}
@@ -698,6 +724,12 @@ const Dashboard: React.FC<DashboardProps> = ({
       {viewFilter !== 'debt' && (
         <>
 
+      {/* Net Worth Trend */}
+      <NetWorthTrendChart
+        snapshots={netWorthSnapshots}
+        currency={displayCurrency}
+        onRebuild={onRebuildNetWorthHistory}
+      />
 
       {/* Monthly Trends Chart */}
       {monthlyData.length > 0 && (
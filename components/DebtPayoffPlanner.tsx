@@ -0,0 +1,228 @@
+import React, { useMemo, useState } from 'react';
+import { ArrowUp, ArrowDown, CalendarPlus, AlertCircle, TrendingDown } from 'lucide-react';
+import { Account, ScheduledTransaction, Transaction } from '../types';
+import {
+  PAYOFF_STRATEGIES,
+  PayoffStrategy,
+  getDebts,
+  schedulePayoffPlan,
+  simulatePayoff,
+} from '../services/debtPayoffService';
+
+interface DebtPayoffPlannerProps {
+  accounts: Account[];
+  transactions: Transaction[];
+  scheduledTransactions: ScheduledTransaction[];
+  baseCurrency: string;
+  onPaymentsScheduled: () => void;
+}
+
+const formatMonth = (date: string) =>
+  new Date(`${date}T00:00:00`).toLocaleDateString(undefined, { month: 'short', year: 'numeric' });
+
+const DebtPayoffPlanner: React.FC<DebtPayoffPlannerProps> = ({
+  accounts,
+  transactions,
+  scheduledTransactions,
+  baseCurrency,
+  onPaymentsScheduled,
+}) => {
+  const debts = useMemo(() => getDebts(accounts), [accounts]);
+  const minimumTotal = useMemo(() => simulatePayoff(debts, 0, 'SNOWBALL').minimumTotal, [debts]);
+
+  const [budget, setBudget] = useState(() => String(Math.ceil(minimumTotal)));
+  const [strategy, setStrategy] = useState<PayoffStrategy>('AVALANCHE');
+  const [customOrder, setCustomOrder] = useState<string[]>(() => debts.map(d => d.accountId));
+  const [monthsToSchedule, setMonthsToSchedule] = useState('12');
+  const [busy, setBusy] = useState(false);
+
+  const monthlyBudget = parseFloat(budget) || 0;
+  const plans = useMemo(
+    () => PAYOFF_STRATEGIES.map(s => simulatePayoff(debts, monthlyBudget, s.value, customOrder)),
+    [debts, monthlyBudget, customOrder]
+  );
+  const plan = plans.find(p => p.strategy === strategy)!;
+  const orderedDebts = [...debts].sort((a, b) => customOrder.indexOf(a.accountId) - customOrder.indexOf(b.accountId));
+
+  if (debts.length === 0) {
+    return (
+      <div className="bg-white/80 backdrop-blur-md p-6 rounded-xl text-center text-sm text-slate-500">
+        No credit card or loan balances to pay off.
+      </div>
+    );
+  }
+
+  const moveDebt = (accountId: string, direction: -1 | 1) => {
+    setCustomOrder(prev => {
+      const order = prev.filter(id => debts.some(d => d.accountId === id));
+      debts.forEach(d => { if (!order.includes(d.accountId)) order.push(d.accountId); });
+      const i = order.indexOf(accountId);
+      const j = i + direction;
+      if (j < 0 || j >= order.length) return order;
+      [order[i], order[j]] = [order[j], order[i]];
+      return order;
+    });
+  };
+
+  const handleSchedule = async () => {
+    const count = Math.min(parseInt(monthsToSchedule) || 0, plan.months.length);
+    if (count <= 0) return;
+    if (!window.confirm(
+      `Schedule ${count} month${count === 1 ? '' : 's'} of ${PAYOFF_STRATEGIES.find(s => s.value === strategy)?.label} payments? ` +
+      'Payments from an earlier plan that are still pending will be replaced.'
+    )) return;
+
+    setBusy(true);
+    try {
+      const created = await schedulePayoffPlan(plan, debts, accounts, transactions, scheduledTransactions, count);
+      alert(`Scheduled ${created.length} payment${created.length === 1 ? '' : 's'}.`);
+      onPaymentsScheduled();
+    } catch (error) {
+      console.error('Error scheduling payoff plan:', error);
+      alert('Failed to schedule payments.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {/* Budget */}
+      <div className="bg-white/80 backdrop-blur-md p-4 rounded-xl shadow-sm border border-white/40">
+        <label className="text-xs font-bold text-slate-500 uppercase mb-1 block">Monthly debt budget ({baseCurrency})</label>
+        <input
+          type="number"
+          step="50"
+          min="0"
+          value={budget}
+          onChange={(e) => setBudget(e.target.value)}
+          className="w-full p-3 bg-slate-50 border border-slate-200 rounded-xl text-lg font-bold focus:outline-none focus:ring-2 focus:ring-brand-500"
+        />
+        <p className="text-xs text-slate-500 mt-1">Minimum payments add up to {minimumTotal.toFixed(2)}.</p>
+      </div>
+
+      {/* Strategy comparison */}
+      <div className="grid grid-cols-3 gap-2">
+        {plans.map(p => {
+          const info = PAYOFF_STRATEGIES.find(s => s.value === p.strategy)!;
+          return (
+            <button
+              key={p.strategy}
+              onClick={() => setStrategy(p.strategy)}
+              className={`p-3 rounded-xl text-left border transition-all ${strategy === p.strategy ? 'bg-white border-brand-400 shadow' : 'bg-white/60 border-white/40'}`}
+            >
+              <div className="text-sm font-bold text-slate-800">{info.label}</div>
+              <div className="text-[10px] text-slate-400 mb-2">{info.description}</div>
+              {p.feasible ? (
+                <>
+                  <div className="text-xs text-slate-700">{formatMonth(p.payoffDate!)}</div>
+                  <div className="text-[10px] text-red-500">{p.totalInterest.toFixed(0)} interest</div>
+                </>
+              ) : (
+                <div className="text-[10px] text-red-500">Budget too low</div>
+              )}
+            </button>
+          );
+        })}
+      </div>
+
+      {/* Custom order */}
+      {strategy === 'CUSTOM' && (
+        <div className="bg-white/80 backdrop-blur-md rounded-xl border border-white/40 divide-y divide-slate-100">
+          {orderedDebts.map((d, idx) => (
+            <div key={d.accountId} className="flex items-center justify-between px-4 py-2 text-sm">
+              <span className="text-slate-700">{idx + 1}. {d.name}</span>
+              <div className="flex gap-1">
+                <button onClick={() => moveDebt(d.accountId, -1)} disabled={idx === 0} className="p-1 text-slate-400 hover:text-brand-600 disabled:opacity-30">
+                  <ArrowUp size={14} />
+                </button>
+                <button onClick={() => moveDebt(d.accountId, 1)} disabled={idx === orderedDebts.length - 1} className="p-1 text-slate-400 hover:text-brand-600 disabled:opacity-30">
+                  <ArrowDown size={14} />
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {!plan.feasible ? (
+        <div className="bg-red-50 p-4 rounded-xl text-xs text-red-700 flex gap-2">
+          <AlertCircle size={16} className="shrink-0" />
+          <p>
+            {monthlyBudget < plan.minimumTotal
+              ? `The budget doesn't cover the minimum payments (${plan.minimumTotal.toFixed(2)}).`
+              : 'At this budget the debts are never paid off. Try a larger amount.'}
+          </p>
+        </div>
+      ) : (
+        <>
+          {/* Summary */}
+          <div className="bg-white/80 backdrop-blur-md p-4 rounded-xl shadow-sm border border-white/40 space-y-2">
+            <div className="flex items-center gap-2 text-slate-800 font-bold">
+              <TrendingDown size={18} className="text-green-600" />
+              Debt-free by {formatMonth(plan.payoffDate!)}
+            </div>
+            <div className="text-xs text-slate-500">
+              {plan.months.length} months • {plan.totalPaid.toFixed(2)} paid • {plan.totalInterest.toFixed(2)} interest
+            </div>
+            <div className="divide-y divide-slate-100">
+              {debts.map(d => (
+                <div key={d.accountId} className="flex justify-between py-1 text-xs">
+                  <span className="text-slate-700">{d.name} <span className="text-slate-400">({d.apr}%)</span></span>
+                  <span className="text-slate-600">{formatMonth(plan.debtPayoffDates[d.accountId])}</span>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {/* Month-by-month */}
+          <div className="bg-white/80 backdrop-blur-md rounded-xl shadow-sm border border-white/40 overflow-x-auto max-h-80">
+            <table className="w-full text-xs">
+              <thead className="sticky top-0 bg-slate-50 text-slate-500">
+                <tr>
+                  <th className="text-left px-3 py-2">Month</th>
+                  {debts.map(d => <th key={d.accountId} className="text-right px-3 py-2 whitespace-nowrap">{d.name}</th>)}
+                  <th className="text-right px-3 py-2">Left</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100">
+                {plan.months.map(m => (
+                  <tr key={m.month}>
+                    <td className="px-3 py-1.5 text-slate-700 whitespace-nowrap">{formatMonth(m.date)}</td>
+                    {debts.map(d => (
+                      <td key={d.accountId} className="text-right px-3 py-1.5 text-slate-700">
+                        {m.payments[d.accountId] ? m.payments[d.accountId].toFixed(2) : '—'}
+                      </td>
+                    ))}
+                    <td className="text-right px-3 py-1.5 font-semibold text-slate-800">{m.totalBalance.toFixed(2)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {/* Schedule */}
+          <div className="flex gap-2 items-center">
+            <input
+              type="number"
+              min="1"
+              max={plan.months.length}
+              value={monthsToSchedule}
+              onChange={(e) => setMonthsToSchedule(e.target.value)}
+              className="w-20 p-2.5 bg-white border border-slate-200 rounded-xl text-sm text-center"
+            />
+            <button
+              onClick={handleSchedule}
+              disabled={busy}
+              className="flex-1 py-2.5 bg-brand-600 text-white rounded-xl font-bold text-sm flex items-center justify-center gap-2 disabled:opacity-50"
+            >
+              <CalendarPlus size={16} /> Schedule these months' payments
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default DebtPayoffPlanner;
@@ -1,16 +1,23 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { Transaction, TransactionType, Category, Account } from '../types';
-import { X, Save, Trash2, RefreshCw, BookmarkPlus, Loader2, Repeat } from 'lucide-react';
+import { Transaction, TransactionType, Category, Account, Reconciliation } from '../types';
+import { X, Save, Trash2, RefreshCw, BookmarkPlus, Loader2, Repeat, Lock } from 'lucide-react';
 import { parseReceiptLineItems, ReceiptLineItem } from '../services/receiptSplitService';
 import SplitEditorModal, { ItemGroup } from './SplitEditorModal';
 import RecurringBillFormModal from './RecurringBillFormModal';
+import AuditHistoryPanel from './AuditHistoryPanel';
+import AttachmentImage from './AttachmentImage';
+import ReceiptViewer from './ReceiptViewer';
+import { getAttachment, saveAttachments } from '../services/indexedDBService';
+import { blobToDataUrl } from '../services/attachmentService';
 import { RecurringBillFormData } from '../services/transactionToScheduledService';
+import { findLockingReconciliation } from '../services/reconciliationService';
 import { v4 as uuidv4 } from 'uuid';
 
 interface EditTransactionModalProps {
   transaction: Transaction;
   categories: Category[];
   accounts: Account[];
+  reconciliations?: Reconciliation[];
   onSave: (updated: Transaction) => void;
   onDelete: (id: string) => void;
   onClose: () => void;
@@ -22,6 +29,7 @@ const EditTransactionModal: React.FC<EditTransactionModalProps> = ({
   transaction,
   categories,
   accounts,
+  reconciliations = [],
   onSave,
   onDelete,
   onClose,
@@ -35,7 +43,8 @@ const EditTransactionModal: React.FC<EditTransactionModalProps> = ({
     return !!(transaction.originalAmount && transaction.originalAmount !== transaction.amount);
   });
 
-  const [receiptImage, setReceiptImage] = useState<string | undefined>(transaction?.receiptImage);
+  const [attachmentIds, setAttachmentIds] = useState<string[]>(transaction?.attachmentIds || []);
+  const [viewingIndex, setViewingIndex] = useState<number | null>(null);
   const [keepReceipt, setKeepReceipt] = useState<boolean>(transaction?.keepReceipt || false);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
@@ -47,14 +56,17 @@ const EditTransactionModal: React.FC<EditTransactionModalProps> = ({
   // Recurring bill state
   const [showRecurringBillForm, setShowRecurringBillForm] = useState(false);
 
-  const handleReceiptUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (file) {
-      const reader = new FileReader();
-      reader.onloadend = () => {
-        setReceiptImage(reader.result as string);
-      };
-      reader.readAsDataURL(file);
+  // Images are stored right away; they only stay if the transaction is saved with them
+  const handleReceiptUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files: File[] = e.target.files ? Array.from<File>(e.target.files) : [];
+    e.target.value = '';
+    if (files.length === 0) return;
+    try {
+      const ids = await saveAttachments('transaction', transaction.id, files);
+      setAttachmentIds(prev => [...prev, ...ids]);
+    } catch (error) {
+      console.error('Error saving receipt:', error);
+      alert('Failed to add the receipt.');
     }
   };
 
@@ -106,11 +118,32 @@ const EditTransactionModal: React.FC<EditTransactionModalProps> = ({
   };
   // ------------------------------------
 
+  // Editing anything covered by a locked statement reconciliation throws it out of balance
+  const lockingReconciliation = findLockingReconciliation(transaction, reconciliations);
+  const lockingAccountName = lockingReconciliation
+    ? accounts.find(a => a.id === lockingReconciliation.accountId)?.name || 'this account'
+    : '';
+
+  const confirmReconciledChange = (action: string) => {
+    if (!lockingReconciliation) return true;
+    return window.confirm(
+      `This transaction is covered by the ${lockingAccountName} reconciliation to ${lockingReconciliation.statementDate}, which is locked. ` +
+      `${action} it will make that reconciliation no longer match the statement. Continue?`
+    );
+  };
+
+  const handleDelete = () => {
+    if (!confirmReconciledChange('Deleting')) return;
+    onDelete(transaction.id);
+    onClose();
+  };
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
+    if (!confirmReconciledChange('Changing')) return;
     const updatedTransaction: Transaction = {
       ...formData,
-      receiptImage,
+      attachmentIds: attachmentIds.length > 0 ? attachmentIds : undefined,
       keepReceipt,
     };
     onSave(updatedTransaction);
@@ -145,7 +178,7 @@ const EditTransactionModal: React.FC<EditTransactionModalProps> = ({
   };
 
   const handleSplitTransaction = async () => {
-    if (!receiptImage) {
+    if (attachmentIds.length === 0) {
       alert('Please upload a receipt image first');
       return;
     }
@@ -153,7 +186,9 @@ const EditTransactionModal: React.FC<EditTransactionModalProps> = ({
     setIsSplitLoading(true);
 
     try {
-      const [mimeType, base64Data] = receiptImage.split(',');
+      const attachment = await getAttachment(attachmentIds[0]);
+      if (!attachment) throw new Error('Receipt image not found');
+      const [mimeType, base64Data] = (await blobToDataUrl(attachment.blob)).split(',');
       const cleanMimeType = mimeType.match(/:(.*?);/)?.[1] || 'image/jpeg';
 
       // Create a minimal AppSettings object from available data
@@ -165,6 +200,7 @@ const EditTransactionModal: React.FC<EditTransactionModalProps> = ({
         savingsGoals: [],
         warranties: [],
         scheduledTransactions: [],
+        exchangeRates: [],
       };
 
       const result = await parseReceiptLineItems(
@@ -184,6 +220,7 @@ const EditTransactionModal: React.FC<EditTransactionModalProps> = ({
   };
 
   const handleConfirmSplit = (groups: ItemGroup[]) => {
+    if (!confirmReconciledChange('Splitting')) return;
     const groupId = uuidv4();
     const splitTransactions: Transaction[] = [];
 
@@ -198,7 +235,7 @@ const EditTransactionModal: React.FC<EditTransactionModalProps> = ({
         amount: groupAmount,
         merchant: `${formData.merchant} - ${groupDescription}`,
         category: group.category,
-        receiptImage: receiptImage,
+        attachmentIds: attachmentIds.length > 0 ? attachmentIds : undefined,
       });
     });
 
@@ -224,6 +261,12 @@ const EditTransactionModal: React.FC<EditTransactionModalProps> = ({
         </div>
         
         <form onSubmit={handleSubmit} className="p-6 space-y-4 overflow-y-auto">
+          {lockingReconciliation && (
+            <div className="flex items-start gap-2 p-3 bg-amber-50 border border-amber-200 rounded-xl text-xs text-amber-800">
+              <Lock size={14} className="flex-shrink-0 mt-0.5" />
+              <span>Reconciled against the {lockingAccountName} statement of {lockingReconciliation.statementDate}. Changes will unbalance that reconciliation.</span>
+            </div>
+          )}
           {/* Amount Section */}
           <div className="p-4 bg-slate-50 rounded-xl border border-slate-200">
             <div className="flex justify-between items-center mb-2">
@@ -433,19 +476,28 @@ const EditTransactionModal: React.FC<EditTransactionModalProps> = ({
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-2">Receipt</label>
 
-            {receiptImage ? (
-              <div className="relative">
-                <img
-                  src={receiptImage}
-                  alt="Receipt"
-                  className="w-full h-48 object-cover rounded-lg"
-                />
+            {attachmentIds.length > 0 ? (
+              <div className="grid grid-cols-3 gap-2">
+                {attachmentIds.map((id, index) => (
+                  <div key={id} className="relative">
+                    <button type="button" onClick={() => setViewingIndex(index)} className="block w-full">
+                      <AttachmentImage attachmentId={id} className="w-full h-24 object-cover rounded-lg" />
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => setAttachmentIds(prev => prev.filter(a => a !== id))}
+                      className="absolute top-1 right-1 p-1 bg-red-500 text-white rounded-full hover:bg-red-600"
+                    >
+                      <X className="w-3 h-3" />
+                    </button>
+                  </div>
+                ))}
                 <button
                   type="button"
-                  onClick={() => setReceiptImage(undefined)}
-                  className="absolute top-2 right-2 p-2 bg-red-500 text-white rounded-full hover:bg-red-600"
+                  onClick={() => fileInputRef.current?.click()}
+                  className="h-24 border-2 border-dashed border-gray-300 rounded-lg hover:border-teal-500 transition text-gray-600 text-sm"
                 >
-                  <X className="w-4 h-4" />
+                  + Add
                 </button>
               </div>
             ) : (
@@ -462,6 +514,7 @@ const EditTransactionModal: React.FC<EditTransactionModalProps> = ({
               ref={fileInputRef}
               type="file"
               accept="image/*"
+              multiple
               onChange={handleReceiptUpload}
               className="hidden"
             />
@@ -477,10 +530,12 @@ const EditTransactionModal: React.FC<EditTransactionModalProps> = ({
             </label>
           </div>
 
+          <AuditHistoryPanel entityId={transaction.id} />
+
           <div className="pt-4 flex gap-3">
             <button
               type="button"
-              onClick={() => { onDelete(transaction.id); onClose(); }}
+              onClick={handleDelete}
               className="p-4 rounded-xl font-semibold text-red-500 bg-red-50 hover:bg-red-100 transition-colors"
             >
               <Trash2 size={20} />
@@ -488,7 +543,7 @@ const EditTransactionModal: React.FC<EditTransactionModalProps> = ({
             <button
               type="button"
               onClick={handleSplitTransaction}
-              disabled={isSplitLoading || !receiptImage}
+              disabled={isSplitLoading || attachmentIds.length === 0}
               className="px-4 py-3 rounded-xl font-semibold text-brand-600 bg-brand-50 hover:bg-brand-100 transition-colors flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
             >
               {isSplitLoading ? (
@@ -537,6 +592,10 @@ const EditTransactionModal: React.FC<EditTransactionModalProps> = ({
         />
       )}
 
+      {viewingIndex !== null && (
+        <ReceiptViewer attachmentIds={attachmentIds} initialIndex={viewingIndex} onClose={() => setViewingIndex(null)} />
+      )}
+
       {/* Recurring Bill Form Modal */}
       {showRecurringBillForm && (
         <RecurringBillFormModal
@@ -0,0 +1,284 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { TrendingUp, Plus, Upload, X } from 'lucide-react';
+import { Account, InvestmentAction, SecurityPrice, Transaction } from '../types';
+import {
+  INVESTMENT_ACTIONS,
+  getHoldings,
+  importPrices,
+  isInvestmentAccount,
+  parsePriceCsv,
+  recordTrade,
+  savePrice,
+  summarizeHoldings,
+} from '../services/investmentService';
+
+interface InvestmentHoldingsProps {
+  accounts: Account[];
+  transactions: Transaction[];
+  prices: SecurityPrice[];
+  onChanged: () => void; // Reload app data after trades or price updates
+}
+
+const today = () => new Date().toISOString().split('T')[0];
+
+const emptyTrade = () => ({
+  action: 'BUY' as InvestmentAction,
+  symbol: '',
+  quantity: '',
+  unitPrice: '',
+  fees: '',
+  date: today(),
+  cashAccountId: '',
+});
+
+const signed = (n: number) => `${n >= 0 ? '+' : '-'}${Math.abs(n).toFixed(2)}`;
+
+const InvestmentHoldings: React.FC<InvestmentHoldingsProps> = ({ accounts, transactions, prices, onChanged }) => {
+  const [tradingAccountId, setTradingAccountId] = useState<string | null>(null);
+  const [trade, setTrade] = useState(emptyTrade());
+  const [busy, setBusy] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const investmentAccounts = accounts.filter(isInvestmentAccount);
+  const cashAccounts = accounts.filter(a => !isInvestmentAccount(a) && a.type !== 'Loan/BNPL');
+
+  const portfolios = useMemo(
+    () => investmentAccounts.map(account => {
+      const holdings = getHoldings(account, transactions, prices);
+      return { account, holdings, summary: summarizeHoldings(holdings) };
+    }),
+    [investmentAccounts, transactions, prices]
+  );
+
+  if (investmentAccounts.length === 0) return null;
+
+  const openTrade = (accountId: string) => {
+    setTradingAccountId(accountId);
+    setTrade(emptyTrade());
+  };
+
+  const handleSubmitTrade = async (account: Account) => {
+    const quantity = parseFloat(trade.quantity);
+    const unitPrice = parseFloat(trade.unitPrice);
+    if (!trade.symbol.trim() || isNaN(unitPrice) || unitPrice < 0 || (trade.action !== 'DIVIDEND' && !(quantity > 0))) {
+      alert('Enter a symbol, quantity and price.');
+      return;
+    }
+
+    setBusy(true);
+    try {
+      await recordTrade(account, {
+        action: trade.action,
+        symbol: trade.symbol,
+        quantity: quantity || 0,
+        unitPrice,
+        fees: parseFloat(trade.fees) || 0,
+        date: trade.date,
+        cashAccountId: trade.cashAccountId || undefined,
+      }, transactions, prices);
+      setTradingAccountId(null);
+      onChanged();
+    } catch (error) {
+      console.error('Error recording trade:', error);
+      alert(error instanceof Error ? error.message : 'Failed to record the trade.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleUpdatePrice = async (account: Account, symbol: string, current: number | null) => {
+    const input = prompt(`Price of ${symbol} today (${account.currency}):`, current !== null ? String(current) : '');
+    const price = parseFloat(input || '');
+    if (isNaN(price) || price < 0) return;
+
+    try {
+      await savePrice(symbol, price, today(), account.currency);
+      onChanged();
+    } catch (error) {
+      console.error('Error saving price:', error);
+      alert('Failed to save the price.');
+    }
+  };
+
+  const handleImportPrices = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const { prices: imported, skipped } = parsePriceCsv(await file.text());
+      if (imported.length === 0) {
+        alert('No prices found in the file.');
+        return;
+      }
+      const saved = await importPrices(imported);
+      alert(`Imported ${saved} price${saved === 1 ? '' : 's'}${skipped > 0 ? `, skipped ${skipped} row${skipped === 1 ? '' : 's'}` : ''}.`);
+      onChanged();
+    } catch (error) {
+      console.error('Error importing prices:', error);
+      alert(error instanceof Error ? error.message : 'Failed to import prices.');
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex justify-between items-center px-1">
+        <h3 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+          <TrendingUp size={18} className="text-slate-500" />
+          Investments
+        </h3>
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          className="flex items-center gap-1 text-xs font-medium text-slate-500 hover:text-brand-600"
+          title="CSV with symbol, date and price columns"
+        >
+          <Upload size={14} /> Import prices
+        </button>
+        <input ref={fileInputRef} type="file" accept=".csv,text/csv" className="hidden" onChange={handleImportPrices} />
+      </div>
+
+      {portfolios.map(({ account, holdings, summary }) => (
+        <div key={account.id} className="bg-white rounded-xl shadow-sm border border-slate-100">
+          <div className="p-4 flex justify-between items-start">
+            <div>
+              <div className="font-bold text-slate-800">{account.name}</div>
+              <div className="text-xs text-slate-400">{account.type}</div>
+            </div>
+            <div className="text-right">
+              <div className="font-bold text-slate-800">{account.currency} {summary.marketValue.toFixed(2)}</div>
+              {holdings.length > 0 && (
+                <div className={`text-xs ${summary.unrealizedGain >= 0 ? 'text-green-600' : 'text-red-500'}`}>
+                  {signed(summary.unrealizedGain)} unrealized
+                </div>
+              )}
+            </div>
+          </div>
+
+          {holdings.length > 0 && (
+            <>
+              <div className="grid grid-cols-5 gap-1 px-4 py-1 text-[10px] font-semibold text-slate-400 uppercase border-t border-slate-100">
+                <span>Symbol</span>
+                <span className="text-right">Qty</span>
+                <span className="text-right">Avg cost</span>
+                <span className="text-right">Price</span>
+                <span className="text-right">Gain</span>
+              </div>
+              <div className="divide-y divide-slate-50">
+                {holdings.map(h => (
+                  <div key={h.symbol} className={`grid grid-cols-5 gap-1 px-4 py-2 text-xs items-center ${h.quantity === 0 ? 'text-slate-400' : 'text-slate-700'}`}>
+                    <span className="font-semibold">{h.symbol}</span>
+                    <span className="text-right">{h.quantity}</span>
+                    <span className="text-right">{h.averageCost.toFixed(2)}</span>
+                    <button
+                      onClick={() => handleUpdatePrice(account, h.symbol, h.price)}
+                      className="text-right hover:text-brand-600 underline decoration-dotted"
+                      title={h.priceDate ? `${h.priceSource} price from ${h.priceDate}` : 'No price yet'}
+                    >
+                      {h.price !== null ? h.price.toFixed(2) : 'Set'}
+                    </button>
+                    <span className={`text-right ${h.unrealizedGain >= 0 ? 'text-green-600' : 'text-red-500'}`}>
+                      {h.quantity > 0 ? signed(h.unrealizedGain) : '—'}
+                    </span>
+                  </div>
+                ))}
+              </div>
+              <div className="px-4 py-2 text-[11px] text-slate-500 border-t border-slate-100 flex flex-wrap gap-x-4">
+                <span>Cost {summary.costBasis.toFixed(2)}</span>
+                <span>Realized <span className={summary.realizedGain >= 0 ? 'text-green-600' : 'text-red-500'}>{signed(summary.realizedGain)}</span></span>
+                <span>Dividends {summary.dividends.toFixed(2)}</span>
+              </div>
+            </>
+          )}
+
+          {tradingAccountId === account.id ? (
+            <div className="p-4 border-t border-slate-100 space-y-2">
+              <div className="flex justify-between items-center">
+                <div className="flex bg-slate-100 rounded-lg p-0.5 text-xs">
+                  {INVESTMENT_ACTIONS.map(a => (
+                    <button
+                      key={a.value}
+                      onClick={() => setTrade(prev => ({ ...prev, action: a.value }))}
+                      className={`px-3 py-1 rounded-md ${trade.action === a.value ? 'bg-white shadow text-slate-800' : 'text-slate-500'}`}
+                    >
+                      {a.label}
+                    </button>
+                  ))}
+                </div>
+                <button onClick={() => setTradingAccountId(null)} className="p-1 text-slate-400 hover:text-slate-700">
+                  <X size={16} />
+                </button>
+              </div>
+              <div className="grid grid-cols-2 gap-2">
+                <input
+                  type="text"
+                  placeholder="Symbol"
+                  value={trade.symbol}
+                  onChange={(e) => setTrade(prev => ({ ...prev, symbol: e.target.value }))}
+                  className="p-2 bg-slate-50 border border-slate-200 rounded-lg text-sm uppercase"
+                />
+                <input
+                  type="date"
+                  value={trade.date}
+                  onChange={(e) => setTrade(prev => ({ ...prev, date: e.target.value }))}
+                  className="p-2 bg-slate-50 border border-slate-200 rounded-lg text-sm"
+                />
+                {trade.action !== 'DIVIDEND' && (
+                  <input
+                    type="number"
+                    step="any"
+                    placeholder="Quantity"
+                    value={trade.quantity}
+                    onChange={(e) => setTrade(prev => ({ ...prev, quantity: e.target.value }))}
+                    className="p-2 bg-slate-50 border border-slate-200 rounded-lg text-sm"
+                  />
+                )}
+                <input
+                  type="number"
+                  step="any"
+                  placeholder={trade.action === 'DIVIDEND' ? 'Amount received' : 'Price per unit'}
+                  value={trade.unitPrice}
+                  onChange={(e) => setTrade(prev => ({ ...prev, unitPrice: e.target.value }))}
+                  className="p-2 bg-slate-50 border border-slate-200 rounded-lg text-sm"
+                />
+                {trade.action !== 'DIVIDEND' && (
+                  <input
+                    type="number"
+                    step="any"
+                    placeholder="Fees"
+                    value={trade.fees}
+                    onChange={(e) => setTrade(prev => ({ ...prev, fees: e.target.value }))}
+                    className="p-2 bg-slate-50 border border-slate-200 rounded-lg text-sm"
+                  />
+                )}
+                <select
+                  value={trade.cashAccountId}
+                  onChange={(e) => setTrade(prev => ({ ...prev, cashAccountId: e.target.value }))}
+                  className="p-2 bg-slate-50 border border-slate-200 rounded-lg text-sm"
+                >
+                  <option value="">{trade.action === 'BUY' ? 'Paid from…' : 'Paid into…'} (none)</option>
+                  {cashAccounts.map(a => <option key={a.id} value={a.id}>{a.name}</option>)}
+                </select>
+              </div>
+              <button
+                onClick={() => handleSubmitTrade(account)}
+                disabled={busy}
+                className="w-full py-2 bg-brand-600 text-white rounded-lg font-bold text-sm disabled:opacity-50"
+              >
+                Record {INVESTMENT_ACTIONS.find(a => a.value === trade.action)?.label.toLowerCase()}
+              </button>
+            </div>
+          ) : (
+            <button
+              onClick={() => openTrade(account.id)}
+              className="w-full py-2 text-xs font-medium text-brand-600 border-t border-slate-100 flex items-center justify-center gap-1 hover:bg-slate-50 rounded-b-xl"
+            >
+              <Plus size={14} /> Buy, sell or dividend
+            </button>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default InvestmentHoldings;
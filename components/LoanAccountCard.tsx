@@ -0,0 +1,209 @@
+import React, { useState } from 'react';
+import { ChevronDown, ChevronUp, PlusCircle, CalendarClock } from 'lucide-react';
+import { Account, AuditContext, ScheduledTransaction, Transaction } from '../types';
+import {
+  LOAN_INTEREST_METHODS,
+  buildAmortizationSchedule,
+  calculateInstallment,
+  getLoanTerms,
+  recordExtraPayment,
+  syncLoanSchedule,
+} from '../services/loanService';
+import { getPaymentSourceAccount } from '../services/creditCardService';
+import { newAuditContext } from '../services/auditService';
+
+interface LoanAccountCardProps {
+  account: Account;
+  accounts: Account[];
+  transactions: Transaction[];
+  scheduledTransactions: ScheduledTransaction[];
+  onChanged: (audit: AuditContext) => void; // Reload app data (and offer undo) after the schedule or balances change
+}
+
+const LoanAccountCard: React.FC<LoanAccountCardProps> = ({
+  account,
+  accounts,
+  transactions,
+  scheduledTransactions,
+  onChanged,
+}) => {
+  const [showSchedule, setShowSchedule] = useState(false);
+  const [busy, setBusy] = useState(false);
+
+  const terms = getLoanTerms(account);
+  const installments = scheduledTransactions
+    .filter(st => st.loanAccountId === account.id)
+    .sort((a, b) => (a.installmentNumber || 0) - (b.installmentNumber || 0));
+  const nextPayment = installments.find(st => st.status === 'PENDING' || st.status === 'OVERDUE')
+    || scheduledTransactions.find(st => st.accountId === account.id && st.status === 'PENDING');
+
+  const principal = account.loanPrincipal || 0;
+  const paid = principal + account.balance; // balance is negative
+  const remaining = -account.balance;
+  const progress = principal > 0 ? Math.min(100, Math.max(0, (paid / principal) * 100)) : 0;
+  const paidCount = installments.filter(st => st.status === 'PAID').length;
+  const interestPaid = transactions
+    .filter(tx => installments.some(st => st.matchedTransactionId === tx.id))
+    .reduce((sum, tx) => sum + (tx.interestPortion || 0), 0);
+  const interestRemaining = installments
+    .filter(st => st.status === 'PENDING' || st.status === 'OVERDUE')
+    .reduce((sum, st) => sum + (st.interestPortion || 0), 0);
+
+  const payFromAccountId = getPaymentSourceAccount(account, accounts, transactions);
+
+  const handleCreateSchedule = async () => {
+    if (!terms) return;
+    const payFrom = accounts.find(a => a.id === payFromAccountId);
+    if (!window.confirm(
+      `Schedule ${terms.installments} installments of ${account.currency} ${calculateInstallment(terms).toFixed(2)}` +
+      `${payFrom ? ` paid from ${payFrom.name}` : ''}? Installments already due are treated as paid.`
+    )) return;
+
+    setBusy(true);
+    try {
+      const audit = newAuditContext('manual-edit', `Schedule ${account.name}`);
+      await syncLoanSchedule(account, scheduledTransactions, payFromAccountId, audit);
+      onChanged(audit);
+    } catch (error) {
+      console.error('Error creating loan schedule:', error);
+      alert('Failed to create the repayment schedule.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleExtraPayment = async () => {
+    if (!payFromAccountId) {
+      alert('Add a bank account to pay the loan from first.');
+      return;
+    }
+    const input = prompt(`Extra payment towards ${account.name} (${account.currency}):`);
+    const amount = parseFloat(input || '');
+    if (isNaN(amount) || amount <= 0) return;
+
+    setBusy(true);
+    try {
+      const audit = newAuditContext('manual-entry', `Extra payment to ${account.name}`);
+      await recordExtraPayment(account, Math.min(amount, remaining), new Date().toISOString().split('T')[0], payFromAccountId, audit);
+      onChanged(audit);
+    } catch (error) {
+      console.error('Error recording extra payment:', error);
+      alert('Failed to record the extra payment.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  // Preview the original schedule until installments have been created
+  const rows = installments.length > 0
+    ? installments.map(st => ({
+        key: st.id,
+        number: st.installmentNumber,
+        dueDate: st.dueDate,
+        principal: st.principalPortion || 0,
+        interest: st.interestPortion || 0,
+        status: st.status,
+      }))
+    : terms
+      ? buildAmortizationSchedule(terms).map(row => ({ key: String(row.number), ...row, status: undefined }))
+      : [];
+
+  return (
+    <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
+      <div className="flex justify-between items-start">
+        <div className="font-semibold text-gray-900">{account.name}</div>
+        {terms && (
+          <div className="text-xs text-blue-700">
+            {terms.method === 'ZERO' ? '0%' : `${terms.annualRate}% ${LOAN_INTEREST_METHODS.find(m => m.value === terms.method)?.label.toLowerCase()}`}
+          </div>
+        )}
+      </div>
+      <div className="text-sm text-gray-600 mt-1">
+        Borrowed: {principal} {account.currency}
+      </div>
+      <div className="text-sm text-gray-600">
+        Paid: {paid.toFixed(2)} {account.currency} ({installments.length > 0
+          ? `${paidCount}/${installments.length}`
+          : account.loanInstallments ? `${Math.floor((paid / principal) * account.loanInstallments)}/${account.loanInstallments}` : `${progress.toFixed(0)}%`} installments)
+      </div>
+      <div className="text-sm font-semibold text-blue-700">
+        Remaining: {remaining.toFixed(2)} {account.currency}
+      </div>
+      {(interestPaid > 0 || interestRemaining > 0) && (
+        <div className="text-xs text-gray-600">
+          Interest paid {interestPaid.toFixed(2)} • still to pay {interestRemaining.toFixed(2)}
+        </div>
+      )}
+      <div className="w-full bg-blue-200 rounded-full h-2 mt-2">
+        <div
+          className="bg-blue-600 h-2 rounded-full"
+          style={{ width: `${progress}%` }}
+        />
+      </div>
+      {nextPayment && (
+        <div className="text-sm text-blue-700 mt-2">
+          Next: {new Date(nextPayment.dueDate).toLocaleDateString()} - {nextPayment.amount} {nextPayment.currency}
+          {nextPayment.interestPortion !== undefined && (
+            <span className="text-xs text-gray-500 ml-1">
+              ({nextPayment.principalPortion?.toFixed(2)} principal + {nextPayment.interestPortion.toFixed(2)} interest)
+            </span>
+          )}
+        </div>
+      )}
+
+      {terms && (
+        <div className="flex gap-2 mt-3">
+          {installments.length === 0 ? (
+            <button
+              onClick={handleCreateSchedule}
+              disabled={busy}
+              className="flex items-center gap-1 px-3 py-1.5 text-xs font-medium text-white bg-blue-600 hover:bg-blue-700 rounded-lg disabled:opacity-50"
+            >
+              <CalendarClock size={14} /> Create schedule
+            </button>
+          ) : remaining > 0 && (
+            <button
+              onClick={handleExtraPayment}
+              disabled={busy}
+              className="flex items-center gap-1 px-3 py-1.5 text-xs font-medium text-blue-700 bg-white border border-blue-200 hover:bg-blue-100 rounded-lg disabled:opacity-50"
+            >
+              <PlusCircle size={14} /> Extra payment
+            </button>
+          )}
+          <button
+            onClick={() => setShowSchedule(!showSchedule)}
+            className="flex items-center gap-1 px-2 py-1.5 text-xs text-gray-600"
+          >
+            {showSchedule ? <ChevronUp size={14} /> : <ChevronDown size={14} />}
+            {installments.length > 0 ? 'Schedule' : 'Preview schedule'}
+          </button>
+        </div>
+      )}
+
+      {showSchedule && rows.length > 0 && (
+        <div className="mt-2 bg-white rounded-lg border border-blue-100 max-h-64 overflow-y-auto">
+          <div className="grid grid-cols-5 gap-1 px-2 py-1 text-[10px] font-semibold text-gray-500 uppercase border-b border-blue-100">
+            <span>#</span>
+            <span>Due</span>
+            <span className="text-right">Principal</span>
+            <span className="text-right">Interest</span>
+            <span className="text-right">Status</span>
+          </div>
+          {rows.map(row => (
+            <div key={row.key} className="grid grid-cols-5 gap-1 px-2 py-1 text-xs text-gray-700 border-b border-gray-50 last:border-0">
+              <span>{row.number}</span>
+              <span>{row.dueDate}</span>
+              <span className="text-right">{row.principal.toFixed(2)}</span>
+              <span className="text-right">{row.interest.toFixed(2)}</span>
+              <span className={`text-right ${row.status === 'PAID' ? 'text-green-600' : row.status === 'OVERDUE' ? 'text-red-600' : 'text-gray-400'}`}>
+                {row.status ? row.status.toLowerCase() : '—'}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LoanAccountCard;
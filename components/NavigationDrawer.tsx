@@ -8,14 +8,18 @@ import {
   Calendar,
   ChevronRight,
   Receipt,
+  Wallet,
+  Search,
 } from 'lucide-react';
-import { View } from '../types';
+import { SavedSearch, View } from '../types';
 
 interface NavigationDrawerProps {
   isOpen: boolean;
   onClose: () => void;
   currentView: View;
   onNavigate: (view: View) => void;
+  pinnedSearches?: SavedSearch[];
+  onOpenSearch?: (search: SavedSearch) => void;
 }
 
 const NavigationDrawer: React.FC<NavigationDrawerProps> = ({
@@ -23,6 +27,8 @@ const NavigationDrawer: React.FC<NavigationDrawerProps> = ({
   onClose,
   currentView,
   onNavigate,
+  pinnedSearches = [],
+  onOpenSearch,
 }) => {
   // Close on Escape key
   useEffect(() => {
@@ -50,6 +56,12 @@ const NavigationDrawer: React.FC<NavigationDrawerProps> = ({
       label: 'Bills & Debts',
       gradient: 'from-emerald-400 to-teal-600'
     },
+    {
+      view: 'budgets',
+      icon: <Wallet size={20} />,
+      label: 'Budgets',
+      gradient: 'from-lime-400 to-green-600'
+    },
     {
       view: 'categories',
       icon: <Tags size={20} />,
@@ -81,6 +93,11 @@ const NavigationDrawer: React.FC<NavigationDrawerProps> = ({
     onClose();
   };
 
+  const handleSearchClick = (search: SavedSearch) => {
+    onOpenSearch?.(search);
+    onClose();
+  };
+
   // Close on backdrop click
   const handleBackdropClick = (e: React.MouseEvent) => {
     if (e.target === e.currentTarget) {
@@ -117,7 +134,7 @@ const NavigationDrawer: React.FC<NavigationDrawerProps> = ({
         </div>
 
         {/* Menu Items - Gradient Pills */}
-        <div className="p-4 space-y-3 flex-1">
+        <div className="p-4 space-y-3 flex-1 overflow-y-auto">
           {drawerItems.map((item) => (
             <button
               key={item.view}
@@ -130,6 +147,25 @@ const NavigationDrawer: React.FC<NavigationDrawerProps> = ({
               <span className="font-bold text-sm flex-1 text-left">{item.label}</span>
             </button>
           ))}
+
+          {/* Pinned History Searches */}
+          {pinnedSearches.length > 0 && (
+            <div className="pt-3 space-y-1">
+              <div className="px-2 text-xs font-bold text-slate-400 uppercase tracking-wider">Saved Searches</div>
+              {pinnedSearches.map((search) => (
+                <button
+                  key={search.id}
+                  onClick={() => handleSearchClick(search)}
+                  className="w-full flex items-center gap-3 px-4 py-2 rounded-lg text-slate-700 hover:bg-slate-100 transition-colors"
+                  title={search.query}
+                >
+                  <Search size={16} className="text-slate-400 flex-shrink-0" />
+                  <span className="text-sm font-medium flex-1 text-left truncate">{search.name}</span>
+                  <ChevronRight size={14} className="text-slate-300" />
+                </button>
+              ))}
+            </div>
+          )}
         </div>
 
         {/* Settings Button - Bottom Teal Pill */}
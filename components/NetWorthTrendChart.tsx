@@ -0,0 +1,149 @@
+import React, { useMemo, useState } from 'react';
+import { ResponsiveContainer, ComposedChart, BarChart, Bar, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ReferenceLine } from 'recharts';
+import { RefreshCw } from 'lucide-react';
+import { NetWorthSnapshot } from '../types';
+import { ACCOUNT_TYPES, getNetWorthTrend } from '../services/netWorthService';
+
+interface NetWorthTrendChartProps {
+  snapshots: NetWorthSnapshot[];
+  currency: string;
+  onRebuild?: () => Promise<void>;
+}
+
+const TYPE_COLORS: Record<string, string> = {
+  'Bank': '#0088FE',
+  'Cash': '#00C49F',
+  'Wallet': '#FFBB28',
+  'Investment': '#6366f1',
+  'Asset': '#a16207',
+  'Credit Card': '#ef4444',
+  'Loan/BNPL': '#f97316',
+  'Other': '#8884d8',
+};
+
+const formatMonth = (month: string) =>
+  new Date(`${month}-01T00:00:00`).toLocaleDateString(undefined, { month: 'short', year: '2-digit' });
+
+const NetWorthTrendChart: React.FC<NetWorthTrendChartProps> = ({ snapshots, currency, onRebuild }) => {
+  const [breakdown, setBreakdown] = useState<'balance' | 'type'>('balance');
+  const [rebuilding, setRebuilding] = useState(false);
+
+  const trend = useMemo(() => getNetWorthTrend(snapshots), [snapshots]);
+  const chartData = useMemo(
+    () => trend.slice(-12).map(p => ({
+      name: formatMonth(p.month),
+      assets: p.assets,
+      liabilities: -p.liabilities,
+      netWorth: p.netWorth,
+      ...p.byType,
+    })),
+    [trend]
+  );
+  const usedTypes = ACCOUNT_TYPES.filter(t => trend.some(p => p.byType[t] !== 0));
+
+  if (trend.length === 0) return null;
+
+  const handleRebuild = async () => {
+    if (!onRebuild) return;
+    setRebuilding(true);
+    try {
+      await onRebuild();
+    } finally {
+      setRebuilding(false);
+    }
+  };
+
+  const tooltip = (
+    <Tooltip
+      cursor={{ fill: '#f8fafc' }}
+      formatter={(value: number) => `${currency} ${value.toFixed(2)}`}
+      contentStyle={{ borderRadius: '8px', border: 'none', boxShadow: '0 4px 6px -1px rgb(0 0 0 / 0.1)' }}
+    />
+  );
+
+  return (
+    <div className="bg-gradient-to-br from-slate-50 to-white rounded-2xl p-6 shadow-md border border-slate-100">
+      <div className="flex justify-between items-center mb-4">
+        <h3 className="text-lg font-bold text-slate-800">Net Worth Trend</h3>
+        <div className="flex items-center gap-2">
+          <div className="flex bg-slate-100 rounded-lg p-0.5 text-xs">
+            <button
+              onClick={() => setBreakdown('balance')}
+              className={`px-2 py-1 rounded-md ${breakdown === 'balance' ? 'bg-white shadow text-slate-800' : 'text-slate-500'}`}
+            >
+              Assets / Debts
+            </button>
+            <button
+              onClick={() => setBreakdown('type')}
+              className={`px-2 py-1 rounded-md ${breakdown === 'type' ? 'bg-white shadow text-slate-800' : 'text-slate-500'}`}
+            >
+              By type
+            </button>
+          </div>
+          {onRebuild && (
+            <button
+              onClick={handleRebuild}
+              disabled={rebuilding}
+              title="Rebuild history from transactions"
+              className="p-1.5 text-slate-400 hover:text-slate-700 disabled:opacity-50"
+            >
+              <RefreshCw size={14} className={rebuilding ? 'animate-spin' : ''} />
+            </button>
+          )}
+        </div>
+      </div>
+
+      <div className="h-[220px] w-full text-xs">
+        <ResponsiveContainer width="100%" height="100%" minWidth={200} minHeight={220}>
+          {breakdown === 'balance' ? (
+            <ComposedChart data={chartData} stackOffset="sign" margin={{ top: 10, right: 0, left: -20, bottom: 0 }}>
+              <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
+              <XAxis dataKey="name" axisLine={false} tickLine={false} tick={{ fill: '#64748b' }} />
+              <YAxis axisLine={false} tickLine={false} tick={{ fill: '#64748b' }} />
+              {tooltip}
+              <Legend iconType="circle" />
+              <ReferenceLine y={0} stroke="#cbd5e1" />
+              <Bar name="Assets" dataKey="assets" stackId="balance" fill="#10b981" maxBarSize={40} />
+              <Bar name="Liabilities" dataKey="liabilities" stackId="balance" fill="#ef4444" maxBarSize={40} />
+              <Line name="Net worth" dataKey="netWorth" stroke="#1e293b" strokeWidth={2} dot={{ r: 2 }} />
+            </ComposedChart>
+          ) : (
+            <BarChart data={chartData} stackOffset="sign" margin={{ top: 10, right: 0, left: -20, bottom: 0 }}>
+              <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
+              <XAxis dataKey="name" axisLine={false} tickLine={false} tick={{ fill: '#64748b' }} />
+              <YAxis axisLine={false} tickLine={false} tick={{ fill: '#64748b' }} />
+              {tooltip}
+              <Legend iconType="circle" />
+              <ReferenceLine y={0} stroke="#cbd5e1" />
+              {usedTypes.map(type => (
+                <Bar key={type} name={type} dataKey={type} stackId="type" fill={TYPE_COLORS[type]} maxBarSize={40} />
+              ))}
+            </BarChart>
+          )}
+        </ResponsiveContainer>
+      </div>
+
+      {/* Month-over-month changes, newest first */}
+      <div className="mt-4 divide-y divide-slate-100">
+        {[...trend].reverse().slice(0, 6).map(p => (
+          <div key={p.month} className="flex justify-between items-center py-1.5 text-xs">
+            <span className="text-slate-600">
+              {formatMonth(p.month)}
+              {p.source === 'backfilled' && <span className="ml-1 text-slate-400">(estimated)</span>}
+            </span>
+            <span className="flex items-center gap-3">
+              <span className="font-semibold text-slate-800">{currency} {p.netWorth.toFixed(2)}</span>
+              <span className={`w-24 text-right ${p.change === null ? 'text-slate-400' : p.change >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                {p.change === null
+                  ? '—'
+                  : `${p.change >= 0 ? '+' : ''}${p.change.toFixed(0)}${p.changePercent !== null ? ` (${p.changePercent >= 0 ? '+' : ''}${p.changePercent.toFixed(1)}%)` : ''}`}
+              </span>
+            </span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default NetWorthTrendChart;
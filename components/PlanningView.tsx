@@ -1,21 +1,39 @@
 import React, { useState } from 'react';
-import { AppSettings, RecurringRule, SavingsGoal, TransactionType, Frequency } from '../types';
-import { Plus, Trash2, Calendar, AlertCircle, CheckCircle2, PiggyBank, Target, ArrowRight, DollarSign, Edit3, X, Save, TrendingUp } from 'lucide-react';
+import { AppSettings, RecurringRule, SavingsGoal, TransactionType, Frequency, GoalContribution, Transaction, ScheduledTransaction } from '../types';
+import { Plus, Trash2, Calendar, AlertCircle, CheckCircle2, PiggyBank, Target, ArrowRight, DollarSign, Edit3, X, Save, TrendingUp, History, ChevronDown, ChevronUp, CreditCard } from 'lucide-react';
 import { v4 as uuidv4 } from 'uuid';
+import { projectGoalCompletion } from '../services/savingsGoalService';
+import DebtPayoffPlanner from './DebtPayoffPlanner';
 
 interface PlanningViewProps {
   settings: AppSettings;
   onUpdateSettings: (settings: AppSettings) => void;
-  onAddTransaction: (tx: any) => void; // Quick link to add a payment/deposit
+  goalContributions: GoalContribution[];
+  onDeposit: (goalId: string, amount: number, date: string, accountId?: string, recordTransaction?: boolean) => void;
+  transactions: Transaction[];
+  scheduledTransactions: ScheduledTransaction[];
+  onPaymentsScheduled: () => void;
 }
 
-const PlanningView: React.FC<PlanningViewProps> = ({ settings, onUpdateSettings, onAddTransaction }) => {
-  const [activeTab, setActiveTab] = useState<'bills' | 'savings'>('bills');
+const PlanningView: React.FC<PlanningViewProps> = ({
+  settings,
+  onUpdateSettings,
+  goalContributions,
+  onDeposit,
+  transactions,
+  scheduledTransactions,
+  onPaymentsScheduled,
+}) => {
+  const [activeTab, setActiveTab] = useState<'bills' | 'savings' | 'debts'>('bills');
   
   // --- Savings State ---
   const [editingGoal, setEditingGoal] = useState<Partial<SavingsGoal> | null>(null);
   const [depositGoalId, setDepositGoalId] = useState<string | null>(null);
   const [depositAmount, setDepositAmount] = useState('');
+  const [depositAccountId, setDepositAccountId] = useState('');
+  const [depositDate, setDepositDate] = useState(new Date().toISOString().split('T')[0]);
+  const [recordDepositTransaction, setRecordDepositTransaction] = useState(false);
+  const [expandedGoalId, setExpandedGoalId] = useState<string | null>(null);
 
   // --- Bills State ---
   const [editingRule, setEditingRule] = useState<Partial<RecurringRule> | null>(null);
@@ -78,30 +96,20 @@ const PlanningView: React.FC<PlanningViewProps> = ({ settings, onUpdateSettings,
     const amount = parseFloat(depositAmount);
     if (isNaN(amount) || amount <= 0) return;
 
-    // 1. Update Goal Amount
-    const updatedGoals = settings.savingsGoals.map(g => {
-      if (g.id === depositGoalId) {
-        return { ...g, currentAmount: g.currentAmount + amount };
-      }
-      return g;
-    });
-
-    onUpdateSettings({ ...settings, savingsGoals: updatedGoals });
-
-    // 2. Offer to create a transaction record
-    if (window.confirm("Do you want to record this deposit as a Transfer in your history?")) {
-       const goalName = settings.savingsGoals.find(g => g.id === depositGoalId)?.name;
-       onAddTransaction({
-         amount: amount,
-         merchant: `Deposit to ${goalName}`,
-         type: TransactionType.TRANSFER,
-         category: 'Savings',
-         date: new Date().toISOString().split('T')[0]
-       });
-    }
+    // Records the contribution in the goal's ledger (and optionally as a transaction)
+    onDeposit(
+      depositGoalId,
+      amount,
+      depositDate,
+      depositAccountId || undefined,
+      recordDepositTransaction && !!depositAccountId
+    );
 
     setDepositGoalId(null);
     setDepositAmount('');
+    setDepositAccountId('');
+    setDepositDate(new Date().toISOString().split('T')[0]);
+    setRecordDepositTransaction(false);
   };
 
   // --- Bills Handlers ---
@@ -153,6 +161,12 @@ const PlanningView: React.FC<PlanningViewProps> = ({ settings, onUpdateSettings,
            >
              <PiggyBank size={16} /> Savings
            </button>
+           <button
+             onClick={() => setActiveTab('debts')}
+             className={`flex-1 py-2 rounded-lg text-sm font-bold flex items-center justify-center gap-2 transition-all ${activeTab === 'debts' ? 'bg-white/90 shadow text-brand-600' : 'text-slate-600'}`}
+           >
+             <CreditCard size={16} /> Debts
+           </button>
          </div>
       </div>
 
@@ -238,7 +252,12 @@ const PlanningView: React.FC<PlanningViewProps> = ({ settings, onUpdateSettings,
             <div className="space-y-4">
                {settings.savingsGoals.map(goal => {
                  const progress = Math.min(100, (goal.currentAmount / goal.targetAmount) * 100);
-                 
+                 const history = goalContributions
+                   .filter(c => c.goalId === goal.id)
+                   .sort((a, b) => b.date.localeCompare(a.date));
+                 const projection = projectGoalCompletion(goal, history);
+                 const isExpanded = expandedGoalId === goal.id;
+
                  return (
                    <div key={goal.id} className="bg-white/80 backdrop-blur-md p-5 rounded-2xl shadow-sm border border-white/30 relative overflow-hidden">
                       <div className="flex justify-between items-start mb-3">
@@ -276,6 +295,62 @@ const PlanningView: React.FC<PlanningViewProps> = ({ settings, onUpdateSettings,
                       <div className="mt-1 text-right text-[10px] font-bold" style={{ color: goal.color }}>
                          {progress.toFixed(0)}%
                       </div>
+
+                      {/* Projection */}
+                      {projection.remainingAmount > 0 && (
+                        <div className={`mt-3 flex items-start gap-2 text-xs font-semibold px-3 py-2 rounded-lg ${
+                          projection.onTrack === false ? 'bg-amber-50 text-amber-700' : 'bg-slate-50 text-slate-600'
+                        }`}>
+                          <TrendingUp size={14} className="shrink-0 mt-0.5" />
+                          <div>
+                            {projection.projectedCompletionDate ? (
+                              <div>
+                                Projected: {new Date(projection.projectedCompletionDate).toLocaleDateString()}
+                                {' '}(~{settings.baseCurrency} {projection.averageMonthlyContribution.toFixed(0)}/mo)
+                              </div>
+                            ) : (
+                              <div>Make a deposit to see a projected completion date</div>
+                            )}
+                            {projection.onTrack === false && projection.requiredMonthlyForDeadline !== null && (
+                              <div className="font-normal mt-0.5">
+                                Need {settings.baseCurrency} {projection.requiredMonthlyForDeadline.toFixed(0)}/mo to reach it by the deadline
+                              </div>
+                            )}
+                            {projection.onTrack === false && projection.requiredMonthlyForDeadline === null && (
+                              <div className="font-normal mt-0.5">Deadline has passed</div>
+                            )}
+                          </div>
+                        </div>
+                      )}
+
+                      {/* Contribution History */}
+                      {history.length > 0 && (
+                        <div className="mt-3">
+                          <button
+                            onClick={() => setExpandedGoalId(isExpanded ? null : goal.id)}
+                            className="w-full flex items-center justify-between text-xs font-bold text-slate-500"
+                          >
+                            <span className="flex items-center gap-1"><History size={12} /> History ({history.length})</span>
+                            {isExpanded ? <ChevronUp size={14} /> : <ChevronDown size={14} />}
+                          </button>
+                          {isExpanded && (
+                            <div className="mt-2 space-y-1">
+                              {history.map(c => {
+                                const sourceAccount = settings.accounts.find(a => a.id === c.accountId);
+                                return (
+                                  <div key={c.id} className="flex justify-between text-xs py-1.5 border-b border-slate-100 last:border-0">
+                                    <div>
+                                      <div className="font-medium text-slate-700">{c.date}</div>
+                                      {sourceAccount && <div className="text-[10px] text-slate-400">from {sourceAccount.name}</div>}
+                                    </div>
+                                    <div className="font-bold text-emerald-600">+{c.amount.toLocaleString()}</div>
+                                  </div>
+                                );
+                              })}
+                            </div>
+                          )}
+                        </div>
+                      )}
                    </div>
                  );
                })}
@@ -284,6 +359,19 @@ const PlanningView: React.FC<PlanningViewProps> = ({ settings, onUpdateSettings,
         )}
       </div>
 
+      {/* --- DEBTS TAB --- */}
+      {activeTab === 'debts' && (
+        <div className="px-6 pb-6 animate-in fade-in slide-in-from-right-4">
+          <DebtPayoffPlanner
+            accounts={settings.accounts}
+            transactions={transactions}
+            scheduledTransactions={scheduledTransactions}
+            baseCurrency={settings.baseCurrency}
+            onPaymentsScheduled={onPaymentsScheduled}
+          />
+        </div>
+      )}
+
       {/* --- MODALS --- */}
 
       {/* Edit Rule Modal */}
@@ -454,6 +542,34 @@ const PlanningView: React.FC<PlanningViewProps> = ({ settings, onUpdateSettings,
                   placeholder="0.00"
                 />
              </div>
+             <div className="space-y-3 mb-6">
+                <div>
+                   <label className="text-xs font-bold text-slate-500">From Account (Optional)</label>
+                   <select className="w-full p-3 bg-slate-50 rounded-xl mt-1 text-sm focus:ring-2 focus:ring-emerald-500 outline-none"
+                     value={depositAccountId}
+                     onChange={e => setDepositAccountId(e.target.value)}
+                   >
+                     <option value="">Not specified</option>
+                     {settings.accounts.map(a => <option key={a.id} value={a.id}>{a.name}</option>)}
+                   </select>
+                </div>
+                <div>
+                   <label className="text-xs font-bold text-slate-500">Date</label>
+                   <input type="date" className="w-full p-3 bg-slate-50 rounded-xl mt-1 text-sm"
+                     value={depositDate}
+                     onChange={e => setDepositDate(e.target.value)}
+                   />
+                </div>
+                {depositAccountId && (
+                  <label className="flex items-center gap-2 text-xs text-slate-600">
+                    <input type="checkbox"
+                      checked={recordDepositTransaction}
+                      onChange={e => setRecordDepositTransaction(e.target.checked)}
+                    />
+                    Record as a transaction and deduct from account balance
+                  </label>
+                )}
+             </div>
              <div className="flex gap-2">
                 <button onClick={() => setDepositGoalId(null)} className="flex-1 py-3 text-slate-500 font-semibold hover:bg-slate-50 rounded-xl">Cancel</button>
                 <button onClick={handleDeposit} className="flex-1 py-3 bg-emerald-600 text-white font-bold rounded-xl shadow-lg shadow-emerald-500/20">Deposit</button>
@@ -0,0 +1,310 @@
+import React, { useEffect, useState } from 'react';
+import { Plus, X, Trash2, ChevronUp, ChevronDown, Pencil, Archive, Loader2 } from 'lucide-react';
+import { v4 as uuidv4 } from 'uuid';
+import { Account, AuditContext, Category, ReceiptRetentionPolicy, ReceiptRetentionRule, Transaction } from '../types';
+import {
+  RetentionPreview,
+  archiveReceipts,
+  deleteReceipts,
+  formatMegabytes,
+  getRetentionPolicy,
+  previewRetention,
+  saveRetentionPolicy,
+} from '../services/receiptCleanupService';
+import { newAuditContext } from '../services/auditService';
+
+interface ReceiptRetentionEditorProps {
+  categories: Category[];
+  accounts: Account[];
+  transactions: Transaction[];
+  onCleanedUp?: (audit: AuditContext) => void; // Reload app data (and offer undo) after receipts are deleted
+}
+
+// Form values are kept as strings so half-typed numbers don't get coerced
+interface RetentionRuleDraft {
+  id?: string;
+  name: string;
+  category: string;
+  accountId: string;
+  minAmount: string;
+  tag: string;
+  keepDays: string; // Blank = keep forever
+}
+
+const emptyDraft = (): RetentionRuleDraft => ({ name: '', category: '', accountId: '', minAmount: '', tag: '', keepDays: '' });
+
+const toDraft = (rule: ReceiptRetentionRule): RetentionRuleDraft => ({
+  id: rule.id,
+  name: rule.name,
+  category: rule.category || '',
+  accountId: rule.accountId || '',
+  minAmount: rule.minAmount === undefined ? '' : String(rule.minAmount),
+  tag: rule.tag || '',
+  keepDays: rule.keepDays === null ? '' : String(rule.keepDays),
+});
+
+const num = (s: string) => (s.trim() === '' || isNaN(Number(s)) ? undefined : Number(s));
+const days = (s: string) => {
+  const n = num(s);
+  return n === undefined ? null : Math.max(0, Math.round(n));
+};
+const describeDays = (d: number | null) => (d === null ? 'keep forever' : `keep ${d} day${d === 1 ? '' : 's'}`);
+
+const inputClass = 'p-2 bg-white border border-slate-200 rounded-lg text-sm w-full';
+
+const ReceiptRetentionEditor: React.FC<ReceiptRetentionEditorProps> = ({ categories, accounts, transactions, onCleanedUp }) => {
+  const [policy, setPolicy] = useState<ReceiptRetentionPolicy | null>(null);
+  const [defaultDays, setDefaultDays] = useState('');
+  const [draft, setDraft] = useState<RetentionRuleDraft | null>(null);
+  const [preview, setPreview] = useState<RetentionPreview | null>(null);
+  const [cleaning, setCleaning] = useState(false);
+
+  useEffect(() => {
+    getRetentionPolicy()
+      .then(loaded => {
+        setPolicy(loaded);
+        setDefaultDays(loaded.defaultDays === null ? '' : String(loaded.defaultDays));
+      })
+      .catch(error => console.error('Error loading retention policy:', error));
+  }, []);
+
+  useEffect(() => {
+    if (!policy) return;
+    let cancelled = false;
+    previewRetention(transactions, policy)
+      .then(result => {
+        if (!cancelled) setPreview(result);
+      })
+      .catch(error => console.error('Error previewing retention:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [policy, transactions]);
+
+  const accountName = (id: string) => accounts.find(a => a.id === id)?.name || 'Unknown account';
+
+  const persist = async (next: ReceiptRetentionPolicy) => {
+    setPolicy(next);
+    try {
+      await saveRetentionPolicy(next);
+    } catch (error) {
+      console.error('Error saving retention policy:', error);
+      alert('Failed to save retention policy.');
+    }
+  };
+
+  const handleDefaultDaysBlur = () => {
+    if (!policy) return;
+    const next = days(defaultDays);
+    setDefaultDays(next === null ? '' : String(next));
+    if (next !== policy.defaultDays) persist({ ...policy, defaultDays: next });
+  };
+
+  const handleMove = (index: number, direction: -1 | 1) => {
+    if (!policy) return;
+    const rules = [...policy.rules];
+    [rules[index], rules[index + direction]] = [rules[index + direction], rules[index]];
+    persist({ ...policy, rules });
+  };
+
+  const handleDelete = (rule: ReceiptRetentionRule) => {
+    if (!policy || !window.confirm(`Delete retention rule "${rule.name}"?`)) return;
+    persist({ ...policy, rules: policy.rules.filter(r => r.id !== rule.id) });
+  };
+
+  const handleSaveDraft = () => {
+    if (!policy || !draft) return;
+    if (!draft.category && !draft.accountId && !draft.minAmount.trim() && !draft.tag.trim()) {
+      alert('Pick at least one of category, account, minimum amount or tag.');
+      return;
+    }
+    const rule: ReceiptRetentionRule = {
+      id: draft.id || uuidv4(),
+      name: draft.name.trim() || 'Untitled rule',
+      category: draft.category || undefined,
+      accountId: draft.accountId || undefined,
+      minAmount: num(draft.minAmount),
+      tag: draft.tag.trim().replace(/^#/, '') || undefined,
+      keepDays: days(draft.keepDays),
+    };
+    const rules = draft.id ? policy.rules.map(r => (r.id === rule.id ? rule : r)) : [...policy.rules, rule];
+    persist({ ...policy, rules });
+    setDraft(null);
+  };
+
+  const handleCleanUp = async () => {
+    if (!policy || !preview || preview.transactions.length === 0) return;
+    const count = preview.transactions.length;
+    const message = policy.archiveBeforeDelete
+      ? `Download ${count} receipt${count === 1 ? '' : 's'} as a ZIP and then delete them?`
+      : `Delete ${count} receipt${count === 1 ? '' : 's'} (${formatMegabytes(preview.bytes)})?`;
+    if (!window.confirm(message)) return;
+
+    setCleaning(true);
+    try {
+      if (policy.archiveBeforeDelete) {
+        const blob = await archiveReceipts(preview.transactions);
+        const url = URL.createObjectURL(blob);
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = `receipts_archive_${new Date().toISOString().split('T')[0]}.zip`;
+        link.click();
+        URL.revokeObjectURL(url);
+      }
+      const audit = newAuditContext('system', 'Receipt retention cleanup');
+      await deleteReceipts(preview.transactions, audit);
+      onCleanedUp?.(audit);
+    } catch (error) {
+      console.error('Error cleaning up receipts:', error);
+      alert('Failed to clean up receipts.');
+    } finally {
+      setCleaning(false);
+    }
+  };
+
+  const update = (patch: Partial<RetentionRuleDraft>) => setDraft(prev => (prev ? { ...prev, ...patch } : prev));
+
+  const describeRule = (rule: ReceiptRetentionRule) => {
+    const when = [
+      rule.category,
+      rule.accountId && `in ${accountName(rule.accountId)}`,
+      rule.minAmount !== undefined && `amount ≥ ${rule.minAmount}`,
+      rule.tag && `#${rule.tag}`,
+    ].filter(Boolean).join(', ');
+    return `${when} → ${describeDays(rule.keepDays)}`;
+  };
+
+  if (!policy) return null;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2 text-sm text-gray-700">
+        <span className="shrink-0">Keep receipts for</span>
+        <input
+          type="number"
+          min={0}
+          placeholder="forever"
+          className={`${inputClass} w-24`}
+          value={defaultDays}
+          onChange={(e) => setDefaultDays(e.target.value)}
+          onBlur={handleDefaultDaysBlur}
+        />
+        <span className="shrink-0">days unless a rule matches</span>
+      </div>
+
+      <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+        <div className="divide-y divide-slate-50">
+          {policy.rules.length === 0 && (
+            <div className="p-6 text-center text-slate-400 text-sm">
+              No retention rules yet.
+            </div>
+          )}
+          {policy.rules.map((rule, index) => (
+            <div key={rule.id} className="p-3 flex items-center gap-2">
+              <div className="flex flex-col">
+                <button onClick={() => handleMove(index, -1)} disabled={index === 0} className="text-slate-300 hover:text-slate-600 disabled:opacity-30">
+                  <ChevronUp size={14} />
+                </button>
+                <button onClick={() => handleMove(index, 1)} disabled={index === policy.rules.length - 1} className="text-slate-300 hover:text-slate-600 disabled:opacity-30">
+                  <ChevronDown size={14} />
+                </button>
+              </div>
+              <div className="min-w-0 flex-1">
+                <div className="font-semibold text-sm text-slate-800">{index + 1}. {rule.name}</div>
+                <div className="text-xs text-slate-400 truncate">{describeRule(rule)}</div>
+              </div>
+              <button onClick={() => setDraft(toDraft(rule))} className="p-2 text-slate-300 hover:text-brand-600 rounded-full transition-colors">
+                <Pencil size={16} />
+              </button>
+              <button onClick={() => handleDelete(rule)} className="p-2 text-slate-300 hover:text-red-500 rounded-full transition-colors">
+                <Trash2 size={16} />
+              </button>
+            </div>
+          ))}
+        </div>
+
+        {!draft && (
+          <div className="flex border-t border-slate-100 text-xs font-medium">
+            <button onClick={() => setDraft(emptyDraft())} className="flex-1 py-2 text-brand-600 flex items-center justify-center gap-1 hover:bg-slate-50">
+              <Plus size={14} /> New rule
+            </button>
+          </div>
+        )}
+      </div>
+
+      {draft && (
+        <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-4 space-y-3">
+          <div className="flex justify-between items-center">
+            <div className="text-xs font-bold text-slate-500 uppercase">{draft.id ? 'Edit Rule' : 'New Rule'}</div>
+            <button onClick={() => setDraft(null)} className="p-1 text-slate-400 hover:text-slate-700">
+              <X size={16} />
+            </button>
+          </div>
+          <input type="text" placeholder="Rule name" className={inputClass} value={draft.name} onChange={(e) => update({ name: e.target.value })} />
+
+          <div className="text-xs font-semibold text-slate-400">When all of these match</div>
+          <div className="grid grid-cols-2 gap-2">
+            <select className={inputClass} value={draft.category} onChange={(e) => update({ category: e.target.value })}>
+              <option value="">Any category</option>
+              {categories.map(c => <option key={c.id} value={c.name}>{c.name}</option>)}
+            </select>
+            <select className={inputClass} value={draft.accountId} onChange={(e) => update({ accountId: e.target.value })}>
+              <option value="">Any account</option>
+              {accounts.map(a => <option key={a.id} value={a.id}>{a.name}</option>)}
+            </select>
+            <input type="number" step="any" placeholder="Min amount" className={inputClass} value={draft.minAmount} onChange={(e) => update({ minAmount: e.target.value })} />
+            <input type="text" placeholder="Tag" className={inputClass} value={draft.tag} onChange={(e) => update({ tag: e.target.value })} />
+          </div>
+
+          <div className="text-xs font-semibold text-slate-400">Then</div>
+          <div className="flex items-center gap-2 text-sm text-slate-600">
+            <span className="shrink-0">Keep receipts for</span>
+            <input type="number" min={0} placeholder="forever" className={`${inputClass} w-24`} value={draft.keepDays} onChange={(e) => update({ keepDays: e.target.value })} />
+            <span className="shrink-0">days</span>
+          </div>
+
+          <button onClick={handleSaveDraft} className="w-full py-2 bg-brand-600 text-white rounded-lg font-bold text-sm">
+            Save rule
+          </button>
+        </div>
+      )}
+
+      <div className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
+        <div>
+          <p className="font-medium text-gray-800">Archive before deleting</p>
+          <p className="text-sm text-gray-600">Download expiring receipts as a ZIP first. Automatic cleanup is paused while this is on.</p>
+        </div>
+        <button
+          onClick={() => persist({ ...policy, archiveBeforeDelete: !policy.archiveBeforeDelete })}
+          className={`relative inline-flex h-6 w-11 items-center rounded-full transition flex-shrink-0 ${
+            policy.archiveBeforeDelete ? 'bg-green-600' : 'bg-gray-300'
+          }`}
+        >
+          <span
+            className={`inline-block h-4 w-4 transform rounded-full bg-white transition ${
+              policy.archiveBeforeDelete ? 'translate-x-6' : 'translate-x-1'
+            }`}
+          />
+        </button>
+      </div>
+
+      <div className="flex items-center justify-between gap-3 p-3 bg-amber-50 border border-amber-100 rounded-lg">
+        <p className="text-sm text-amber-800">
+          {preview === null
+            ? 'Checking receipts…'
+            : `${preview.transactions.length} receipt${preview.transactions.length === 1 ? '' : 's'} (${formatMegabytes(preview.bytes)}) will be deleted`}
+        </p>
+        <button
+          onClick={handleCleanUp}
+          disabled={cleaning || !preview || preview.transactions.length === 0}
+          className="px-3 py-2 bg-amber-600 text-white rounded-lg text-sm font-medium hover:bg-amber-700 transition disabled:opacity-50 flex items-center gap-1 shrink-0"
+        >
+          {cleaning ? <Loader2 className="w-4 h-4 animate-spin" /> : policy.archiveBeforeDelete ? <Archive className="w-4 h-4" /> : <Trash2 className="w-4 h-4" />}
+          Clean up now
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ReceiptRetentionEditor;
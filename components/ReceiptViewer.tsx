@@ -1,14 +1,32 @@
 import React, { useState } from 'react';
-import { X, ZoomIn, ZoomOut, RotateCw } from 'lucide-react';
+import { X, ZoomIn, ZoomOut, RotateCw, ChevronLeft, ChevronRight } from 'lucide-react';
+import AttachmentImage from './AttachmentImage';
 
 interface ReceiptViewerProps {
-  src: string;
+  src?: string; // An image that isn't saved yet (data URL)
+  attachmentIds?: string[]; // Saved images, loaded one at a time as they're shown
+  initialIndex?: number;
   onClose: () => void;
 }
 
-const ReceiptViewer: React.FC<ReceiptViewerProps> = ({ src, onClose }) => {
+const ReceiptViewer: React.FC<ReceiptViewerProps> = ({ src, attachmentIds = [], initialIndex = 0, onClose }) => {
   const [scale, setScale] = useState(1);
   const [rotation, setRotation] = useState(0);
+  const [index, setIndex] = useState(initialIndex);
+
+  const showPage = (next: number) => {
+    setIndex((next + attachmentIds.length) % attachmentIds.length);
+    setScale(1);
+    setRotation(0);
+  };
+
+  const imageStyle: React.CSSProperties = {
+    transform: `scale(${scale}) rotate(${rotation}deg)`,
+    maxWidth: '100%',
+    width: 'auto',
+    height: 'auto',
+    marginTop: rotation % 180 !== 0 ? '100px' : '0' // Simple fix for rotation layout
+  };
 
   return (
     <div className="fixed inset-0 z-[100] bg-black flex flex-col animate-in fade-in duration-200">
@@ -18,6 +36,14 @@ const ReceiptViewer: React.FC<ReceiptViewerProps> = ({ src, onClose }) => {
             <X size={24} />
          </button>
          <div className="flex gap-4 bg-black/40 backdrop-blur-md rounded-full px-4 py-2">
+            {!src && attachmentIds.length > 1 && (
+              <>
+                <button onClick={() => showPage(index - 1)} className="p-1 hover:text-brand-400 transition-colors"><ChevronLeft size={20} /></button>
+                <span className="text-sm self-center tabular-nums">{index + 1}/{attachmentIds.length}</span>
+                <button onClick={() => showPage(index + 1)} className="p-1 hover:text-brand-400 transition-colors"><ChevronRight size={20} /></button>
+                <div className="w-px bg-white/20"></div>
+              </>
+            )}
             <button onClick={() => setRotation(r => r + 90)} className="p-1 hover:text-brand-400 transition-colors"><RotateCw size={20} /></button>
             <div className="w-px bg-white/20"></div>
             <button onClick={() => setScale(s => Math.max(0.5, s - 0.25))} className="p-1 hover:text-brand-400 transition-colors"><ZoomOut size={20} /></button>
@@ -27,21 +53,24 @@ const ReceiptViewer: React.FC<ReceiptViewerProps> = ({ src, onClose }) => {
 
       {/* Image Container */}
       <div className="flex-1 overflow-auto flex items-start justify-center p-4 pt-24 pb-10 bg-black/90 cursor-grab active:cursor-grabbing">
-         <img 
-           src={src} 
-           alt="Receipt" 
-           className="transition-transform duration-200 shadow-2xl origin-top"
-           style={{ 
-             transform: `scale(${scale}) rotate(${rotation}deg)`, 
-             maxWidth: '100%',
-             width: 'auto',
-             height: 'auto',
-             marginTop: rotation % 180 !== 0 ? '100px' : '0' // Simple fix for rotation layout
-           }}
-         />
+         {src ? (
+           <img
+             src={src}
+             alt="Receipt"
+             className="transition-transform duration-200 shadow-2xl origin-top"
+             style={imageStyle}
+           />
+         ) : attachmentIds[index] ? (
+           <AttachmentImage
+             attachmentId={attachmentIds[index]}
+             variant="full"
+             className="transition-transform duration-200 shadow-2xl origin-top"
+             style={imageStyle}
+           />
+         ) : null}
       </div>
     </div>
   );
 };
 
-export default ReceiptViewer;
\ No newline at end of file
+export default ReceiptViewer;
@@ -0,0 +1,308 @@
+import React, { useMemo, useState } from 'react';
+import { Account, Reconciliation, Transaction } from '../types';
+import { X, Lock, CheckCircle2, Circle, AlertTriangle, History } from 'lucide-react';
+import {
+  calculateReconciliationSummary,
+  cancelReconciliation,
+  getLockedReconciliations,
+  getOpenReconciliation,
+  getReconciliationCandidates,
+  isBalanced,
+  lockReconciliation,
+  reconciliationAmount,
+  startReconciliation,
+  toggleCleared,
+  updateReconciliation,
+} from '../services/reconciliationService';
+
+interface ReconciliationModalProps {
+  account: Account;
+  transactions: Transaction[];
+  reconciliations: Reconciliation[];
+  onChanged: () => void; // Reload app data after the session is saved, locked or cancelled
+  onClose: () => void;
+}
+
+const ReconciliationModal: React.FC<ReconciliationModalProps> = ({
+  account,
+  transactions,
+  reconciliations,
+  onChanged,
+  onClose,
+}) => {
+  const locked = getLockedReconciliations(account.id, reconciliations);
+  const previous = locked[locked.length - 1];
+
+  const [session, setSession] = useState<Reconciliation | null>(() => getOpenReconciliation(account.id, reconciliations));
+  // Local copy so ticks show immediately; the app reloads when the modal closes
+  const [localTransactions, setLocalTransactions] = useState<Transaction[]>(transactions);
+  const [statementDate, setStatementDate] = useState(new Date().toISOString().split('T')[0]);
+  const [closingBalance, setClosingBalance] = useState('');
+  const [openingBalance, setOpeningBalance] = useState('0');
+  const [showHistory, setShowHistory] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [changed, setChanged] = useState(false);
+
+  const candidates = useMemo(
+    () => (session ? getReconciliationCandidates(session, localTransactions) : []),
+    [session, localTransactions]
+  );
+  const summary = session ? calculateReconciliationSummary(session, account, localTransactions) : null;
+
+  const close = () => {
+    if (changed) onChanged();
+    onClose();
+  };
+
+  const handleStart = async () => {
+    const closing = parseFloat(closingBalance);
+    if (!statementDate || isNaN(closing)) {
+      alert('Enter the statement end date and closing balance.');
+      return;
+    }
+    try {
+      const started = await startReconciliation(
+        account.id,
+        statementDate,
+        closing,
+        reconciliations,
+        previous ? undefined : parseFloat(openingBalance) || 0
+      );
+      setSession(started);
+      setChanged(true);
+    } catch (error: any) {
+      alert(error.message || 'Could not start reconciliation');
+    }
+  };
+
+  const handleClosingChange = async (value: string) => {
+    if (!session) return;
+    const closing = parseFloat(value);
+    if (isNaN(closing)) return;
+    setSession(await updateReconciliation(session, { closingBalance: closing }));
+    setChanged(true);
+  };
+
+  const handleToggle = async (tx: Transaction) => {
+    try {
+      const updated = await toggleCleared(tx);
+      setLocalTransactions(prev => prev.map(t => (t.id === updated.id ? updated : t)));
+      setChanged(true);
+    } catch (error: any) {
+      alert(error.message);
+    }
+  };
+
+  const handleLock = async () => {
+    if (!session || !summary) return;
+    if (!isBalanced(summary) && !window.confirm(
+      `The cleared transactions are off by ${account.currency} ${summary.difference.toFixed(2)}. Lock this reconciliation anyway?`
+    )) return;
+
+    setBusy(true);
+    try {
+      await lockReconciliation(session, account, localTransactions);
+      onChanged();
+      onClose();
+    } catch (error) {
+      console.error('Error locking reconciliation:', error);
+      alert('Failed to lock reconciliation.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleCancelSession = async () => {
+    if (!session || !window.confirm('Discard this reconciliation session? Cleared ticks are kept.')) return;
+    await cancelReconciliation(session);
+    setSession(null);
+    setChanged(true);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-md max-h-[90vh] flex flex-col">
+        {/* Header */}
+        <div className="bg-slate-50 px-6 py-4 border-b border-slate-100 flex items-center justify-between rounded-t-2xl">
+          <div>
+            <h2 className="text-lg font-semibold text-slate-900">Reconcile {account.name}</h2>
+            {previous && (
+              <p className="text-xs text-slate-500">
+                Last reconciled to {previous.statementDate} at {account.currency} {previous.closingBalance.toFixed(2)}
+              </p>
+            )}
+          </div>
+          <button onClick={close} className="text-slate-400 hover:text-slate-600 transition-colors">
+            <X size={20} />
+          </button>
+        </div>
+
+        {/* Body */}
+        <div className="flex-1 overflow-y-auto p-6 space-y-4">
+          {!session ? (
+            <>
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-2">Statement End Date *</label>
+                <input
+                  type="date"
+                  value={statementDate}
+                  onChange={(e) => setStatementDate(e.target.value)}
+                  className="w-full bg-slate-50 border border-slate-200 rounded-xl px-4 py-3 text-slate-900 focus:outline-none focus:ring-2 focus:ring-brand-500 focus:border-transparent"
+                />
+              </div>
+              {!previous && (
+                <div>
+                  <label className="block text-sm font-medium text-slate-700 mb-2">Statement Opening Balance</label>
+                  <input
+                    type="number"
+                    step="0.01"
+                    value={openingBalance}
+                    onChange={(e) => setOpeningBalance(e.target.value)}
+                    className="w-full bg-slate-50 border border-slate-200 rounded-xl px-4 py-3 text-slate-900 focus:outline-none focus:ring-2 focus:ring-brand-500 focus:border-transparent"
+                  />
+                  <p className="text-xs text-slate-500 mt-1">Later reconciliations start from the previous closing balance.</p>
+                </div>
+              )}
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-2">Statement Closing Balance *</label>
+                <input
+                  type="number"
+                  step="0.01"
+                  value={closingBalance}
+                  onChange={(e) => setClosingBalance(e.target.value)}
+                  placeholder="0.00"
+                  className="w-full bg-slate-50 border border-slate-200 rounded-xl px-4 py-3 text-slate-900 focus:outline-none focus:ring-2 focus:ring-brand-500 focus:border-transparent"
+                />
+                <p className="text-xs text-slate-500 mt-1">Use a negative amount for money owed on a card or loan.</p>
+              </div>
+            </>
+          ) : (
+            <>
+              {/* Running difference */}
+              <div className={`rounded-xl p-4 border-2 ${isBalanced(summary!) ? 'bg-green-50 border-green-200' : 'bg-amber-50 border-amber-200'}`}>
+                <div className="grid grid-cols-2 gap-2 text-xs text-slate-600">
+                  <div>Statement {session.statementDate}</div>
+                  <div className="text-right">
+                    Closing{' '}
+                    <input
+                      type="number"
+                      step="0.01"
+                      defaultValue={session.closingBalance}
+                      onBlur={(e) => handleClosingChange(e.target.value)}
+                      className="w-24 bg-white border border-slate-200 rounded px-1 py-0.5 text-right"
+                    />
+                  </div>
+                  <div>Opening {summary!.openingBalance.toFixed(2)}</div>
+                  <div className="text-right">Cleared {summary!.clearedTotal >= 0 ? '+' : ''}{summary!.clearedTotal.toFixed(2)}</div>
+                </div>
+                <div className="mt-3 flex items-center justify-between">
+                  <span className="text-sm font-medium text-slate-700">Difference</span>
+                  <span className={`text-xl font-bold ${isBalanced(summary!) ? 'text-green-600' : 'text-amber-700'}`}>
+                    {account.currency} {summary!.difference.toFixed(2)}
+                  </span>
+                </div>
+              </div>
+
+              {/* Transactions to tick off */}
+              <div className="text-xs text-slate-500">
+                {summary!.clearedCount} cleared • {summary!.unclearedCount} uncleared
+              </div>
+              <div className="divide-y divide-slate-100 border border-slate-100 rounded-xl">
+                {candidates.length === 0 && (
+                  <p className="p-4 text-sm text-slate-500">No transactions on or before the statement date.</p>
+                )}
+                {candidates.map(tx => {
+                  const amount = reconciliationAmount(tx, account);
+                  return (
+                    <button
+                      key={tx.id}
+                      onClick={() => handleToggle(tx)}
+                      className="w-full flex items-center gap-3 px-3 py-2 text-left hover:bg-slate-50"
+                    >
+                      {tx.cleared
+                        ? <CheckCircle2 size={18} className="text-green-500 flex-shrink-0" />
+                        : <Circle size={18} className="text-slate-300 flex-shrink-0" />}
+                      <div className="flex-1 min-w-0">
+                        <div className="text-sm text-slate-800 truncate">{tx.merchant}</div>
+                        <div className="text-[10px] text-slate-400">
+                          {tx.date}{tx.chequeNumber ? ` • Cheque #${tx.chequeNumber}` : ''}
+                        </div>
+                      </div>
+                      <span className={`text-sm font-semibold ${amount < 0 ? 'text-red-600' : 'text-green-600'}`}>
+                        {amount > 0 ? '+' : ''}{amount.toFixed(2)}
+                      </span>
+                    </button>
+                  );
+                })}
+              </div>
+            </>
+          )}
+
+          {/* History */}
+          {locked.length > 0 && (
+            <div>
+              <button
+                onClick={() => setShowHistory(!showHistory)}
+                className="flex items-center gap-1 text-xs font-semibold text-slate-500"
+              >
+                <History size={12} /> Past reconciliations ({locked.length})
+              </button>
+              {showHistory && (
+                <div className="mt-2 space-y-1">
+                  {[...locked].reverse().map(r => (
+                    <div key={r.id} className="flex justify-between text-xs py-1.5 border-b border-slate-100 last:border-0">
+                      <span className="flex items-center gap-1 text-slate-700"><Lock size={10} /> {r.statementDate}</span>
+                      <span className="text-slate-600">
+                        {account.currency} {r.closingBalance.toFixed(2)}
+                        {r.difference ? <span className="text-amber-600 ml-1">(off {r.difference.toFixed(2)})</span> : null}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="bg-slate-50 px-6 py-4 border-t border-slate-100 flex gap-3 rounded-b-2xl">
+          {session ? (
+            <>
+              <button
+                onClick={handleCancelSession}
+                className="px-4 py-3 bg-white border border-slate-200 text-slate-700 rounded-xl hover:bg-slate-50 transition-colors font-medium"
+              >
+                Discard
+              </button>
+              <button
+                onClick={handleLock}
+                disabled={busy}
+                className="flex-1 px-4 py-3 bg-brand-500 text-white rounded-xl hover:bg-brand-600 transition-colors font-medium flex items-center justify-center gap-2 disabled:bg-slate-300"
+              >
+                {isBalanced(summary!) ? <Lock size={16} /> : <AlertTriangle size={16} />}
+                Finish & Lock
+              </button>
+            </>
+          ) : (
+            <>
+              <button
+                onClick={close}
+                className="flex-1 px-4 py-3 bg-white border border-slate-200 text-slate-700 rounded-xl hover:bg-slate-50 transition-colors font-medium"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleStart}
+                className="flex-1 px-4 py-3 bg-brand-500 text-white rounded-xl hover:bg-brand-600 transition-colors font-medium"
+              >
+                Start
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ReconciliationModal;
@@ -8,6 +8,7 @@ import {
   canConvertToRecurring,
   previewDueDates
 } from '../services/transactionToScheduledService';
+import { describeRecurrence, getWeekdayPosition, WEEKDAY_NAMES, WEEK_OF_MONTH_OPTIONS } from '../services/recurrenceService';
 
 interface RecurringBillFormModalProps {
   transaction: Transaction;
@@ -19,7 +20,9 @@ const RECURRENCE_PATTERNS: { value: RecurrencePattern; label: string }[] = [
   { value: 'ONCE', label: 'One-time' },
   { value: 'MONTHLY', label: 'Monthly' },
   { value: 'WEEKLY', label: 'Weekly' },
-  { value: 'CUSTOM', label: 'Custom (days)' }
+  { value: 'CUSTOM', label: 'Custom (days)' },
+  { value: 'LAST_BUSINESS_DAY', label: 'Last business day of month' },
+  { value: 'NTH_WEEKDAY', label: 'Nth weekday of month (e.g. 2nd Tuesday)' }
 ];
 
 const RecurringBillFormModal: React.FC<RecurringBillFormModalProps> = ({
@@ -56,11 +59,27 @@ const RecurringBillFormModal: React.FC<RecurringBillFormModalProps> = ({
   };
 
   const previewDates = formData.recurrencePattern !== 'ONCE'
-    ? previewDueDates(formData.firstDueDate, formData.recurrencePattern, formData.recurrenceInterval, 5)
+    ? previewDueDates(formData, 5)
     : [formData.firstDueDate];
 
+  const weekdayPosition = formData.firstDueDate
+    ? getWeekdayPosition(formData.firstDueDate)
+    : { weekday: 1, weekOfMonth: 1 };
+
+  const handlePatternChange = (pattern: RecurrencePattern) => {
+    // Start an Nth-weekday rule from the weekday of the first due date
+    setFormData({
+      ...formData,
+      recurrencePattern: pattern,
+      recurrenceWeekday: pattern === 'NTH_WEEKDAY' ? formData.recurrenceWeekday ?? weekdayPosition.weekday : undefined,
+      recurrenceWeekOfMonth: pattern === 'NTH_WEEKDAY' ? formData.recurrenceWeekOfMonth ?? weekdayPosition.weekOfMonth : undefined,
+    });
+  };
+
   const getIntervalLabel = () => {
     if (formData.recurrencePattern === 'MONTHLY') return 'months';
+    if (formData.recurrencePattern === 'LAST_BUSINESS_DAY') return 'months';
+    if (formData.recurrencePattern === 'NTH_WEEKDAY') return 'months';
     if (formData.recurrencePattern === 'WEEKLY') return 'weeks';
     if (formData.recurrencePattern === 'CUSTOM') return 'days';
     return '';
@@ -132,7 +151,7 @@ const RecurringBillFormModal: React.FC<RecurringBillFormModalProps> = ({
             </label>
             <select
               value={formData.recurrencePattern}
-              onChange={(e) => setFormData({ ...formData, recurrencePattern: e.target.value as RecurrencePattern })}
+              onChange={(e) => handlePatternChange(e.target.value as RecurrencePattern)}
               className="w-full bg-slate-50 border border-slate-200 rounded-xl px-4 py-3 text-slate-900 focus:outline-none focus:ring-2 focus:ring-brand-500 focus:border-transparent"
             >
               {RECURRENCE_PATTERNS.map(pattern => (
@@ -160,6 +179,36 @@ const RecurringBillFormModal: React.FC<RecurringBillFormModalProps> = ({
             </div>
           )}
 
+          {/* Nth weekday selection */}
+          {formData.recurrencePattern === 'NTH_WEEKDAY' && (
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-2">Which</label>
+                <select
+                  value={formData.recurrenceWeekOfMonth ?? weekdayPosition.weekOfMonth}
+                  onChange={(e) => setFormData({ ...formData, recurrenceWeekOfMonth: parseInt(e.target.value) })}
+                  className="w-full bg-slate-50 border border-slate-200 rounded-xl px-4 py-3 text-slate-900 focus:outline-none focus:ring-2 focus:ring-brand-500 focus:border-transparent"
+                >
+                  {WEEK_OF_MONTH_OPTIONS.map(option => (
+                    <option key={option.value} value={option.value}>{option.label}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-2">Weekday</label>
+                <select
+                  value={formData.recurrenceWeekday ?? weekdayPosition.weekday}
+                  onChange={(e) => setFormData({ ...formData, recurrenceWeekday: parseInt(e.target.value) })}
+                  className="w-full bg-slate-50 border border-slate-200 rounded-xl px-4 py-3 text-slate-900 focus:outline-none focus:ring-2 focus:ring-brand-500 focus:border-transparent"
+                >
+                  {WEEKDAY_NAMES.map((name, idx) => (
+                    <option key={idx} value={idx}>{name}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+          )}
+
           {/* First Due Date */}
           <div>
             <label className="block text-sm font-medium text-slate-700 mb-2">
@@ -221,11 +270,20 @@ const RecurringBillFormModal: React.FC<RecurringBillFormModalProps> = ({
                 <Repeat size={12} />
                 Upcoming Due Dates
               </p>
+              <p className="text-xs text-slate-500 mb-2">
+                {describeRecurrence({
+                  dueDate: formData.firstDueDate,
+                  recurrencePattern: formData.recurrencePattern,
+                  recurrenceInterval: formData.recurrenceInterval,
+                  recurrenceWeekday: formData.recurrenceWeekday,
+                  recurrenceWeekOfMonth: formData.recurrenceWeekOfMonth,
+                })}
+              </p>
               <ul className="space-y-1">
                 {previewDates.map((date, idx) => (
                   <li key={idx} className="text-sm text-slate-600 flex items-center gap-2">
                     <CheckCircle size={14} className="text-green-500" />
-                    {new Date(date).toLocaleDateString('en-US', {
+                    {new Date(`${date}T00:00:00`).toLocaleDateString('en-US', {
                       month: 'short',
                       day: 'numeric',
                       year: 'numeric'
@@ -1,6 +1,14 @@
 import React, { useState, useRef } from 'react';
 import { X, Trash2, Upload, Camera, Image as ImageIcon } from 'lucide-react';
 import { ScheduledTransaction, TransactionType, Account, Category, RecurrencePattern } from '../types';
+import {
+  describeRecurrence,
+  expandRecurrence,
+  getWeekdayPosition,
+  WEEKDAY_NAMES,
+  WEEK_OF_MONTH_OPTIONS,
+} from '../services/recurrenceService';
+import AttachmentImage from './AttachmentImage';
 
 interface ScheduledTransactionFormProps {
   onClose: () => void;
@@ -29,8 +37,12 @@ const ScheduledTransactionForm: React.FC<ScheduledTransactionFormProps> = ({
     initialData?.recurrencePattern || 'ONCE'
   );
   const [recurrenceInterval, setRecurrenceInterval] = useState(initialData?.recurrenceInterval || 1);
+  const [recurrenceEndDate, setRecurrenceEndDate] = useState(initialData?.recurrenceEndDate || '');
+  const [recurrenceWeekday, setRecurrenceWeekday] = useState<number | undefined>(initialData?.recurrenceWeekday);
+  const [recurrenceWeekOfMonth, setRecurrenceWeekOfMonth] = useState<number | undefined>(initialData?.recurrenceWeekOfMonth);
   const [notes, setNotes] = useState(initialData?.notes || '');
-  const [chequeImage, setChequeImage] = useState(initialData?.chequeImage || '');
+  const [chequeImage, setChequeImage] = useState(initialData?.chequeImage || ''); // New image, not yet saved
+  const [attachmentIds, setAttachmentIds] = useState<string[] | undefined>(initialData?.attachmentIds);
   const [saving, setSaving] = useState(false);
   const [deleting, setDeleting] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
@@ -43,6 +55,7 @@ const ScheduledTransactionForm: React.FC<ScheduledTransactionFormProps> = ({
     reader.onload = (event) => {
       const base64 = event.target?.result as string;
       setChequeImage(base64);
+      setAttachmentIds(undefined); // Replaces the stored image
     };
     reader.readAsDataURL(file);
 
@@ -52,6 +65,25 @@ const ScheduledTransactionForm: React.FC<ScheduledTransactionFormProps> = ({
     }
   };
 
+  const weekdayPosition = dueDate ? getWeekdayPosition(dueDate) : { weekday: 1, weekOfMonth: 1 };
+  const isRecurring = recurrencePattern !== 'ONCE';
+  const isNthWeekday = recurrencePattern === 'NTH_WEEKDAY';
+
+  // Keep the intended day of a month-end bill while editing one of its clamped occurrences
+  const dayOfMonth = dueDate
+    ? (dueDate === initialData?.dueDate && initialData?.recurrenceDayOfMonth) || Number(dueDate.split('-')[2])
+    : undefined;
+
+  const recurrenceRule = {
+    dueDate,
+    recurrencePattern,
+    recurrenceInterval,
+    recurrenceEndDate: recurrenceEndDate || undefined,
+    recurrenceDayOfMonth: recurrencePattern === 'MONTHLY' ? dayOfMonth : undefined,
+    recurrenceWeekday: isNthWeekday ? recurrenceWeekday ?? weekdayPosition.weekday : undefined,
+    recurrenceWeekOfMonth: isNthWeekday ? recurrenceWeekOfMonth ?? weekdayPosition.weekOfMonth : undefined,
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!merchant || !amount || !dueDate || !accountId) return;
@@ -68,10 +100,15 @@ const ScheduledTransactionForm: React.FC<ScheduledTransactionFormProps> = ({
         accountId,
         dueDate,
         recurrencePattern,
-        recurrenceInterval: recurrencePattern !== 'ONCE' ? recurrenceInterval : undefined,
+        recurrenceInterval: isRecurring ? recurrenceInterval : undefined,
+        recurrenceEndDate: isRecurring ? recurrenceRule.recurrenceEndDate : undefined,
+        recurrenceDayOfMonth: recurrenceRule.recurrenceDayOfMonth,
+        recurrenceWeekday: recurrenceRule.recurrenceWeekday,
+        recurrenceWeekOfMonth: recurrenceRule.recurrenceWeekOfMonth,
         status: 'PENDING',
         notes,
         chequeImage: chequeImage || undefined,
+        attachmentIds,
         isCheque: initialData?.isCheque,
         chequeNumber: initialData?.chequeNumber,
         seriesId: initialData?.seriesId,
@@ -213,13 +250,15 @@ const ScheduledTransactionForm: React.FC<ScheduledTransactionFormProps> = ({
               <option value="MONTHLY">Monthly</option>
               <option value="WEEKLY">Weekly</option>
               <option value="CUSTOM">Custom</option>
+              <option value="LAST_BUSINESS_DAY">Last business day of month</option>
+              <option value="NTH_WEEKDAY">Nth weekday of month</option>
             </select>
           </div>
 
           {recurrencePattern !== 'ONCE' && (
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-1">
-                Interval (Every N {recurrencePattern === 'MONTHLY' ? 'months' : recurrencePattern === 'WEEKLY' ? 'weeks' : 'days'})
+                Interval (Every N {recurrencePattern === 'WEEKLY' ? 'weeks' : recurrencePattern === 'CUSTOM' ? 'days' : 'months'})
               </label>
               <input
                 type="number"
@@ -231,6 +270,56 @@ const ScheduledTransactionForm: React.FC<ScheduledTransactionFormProps> = ({
             </div>
           )}
 
+          {isNthWeekday && (
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Which</label>
+                <select
+                  value={recurrenceRule.recurrenceWeekOfMonth}
+                  onChange={e => setRecurrenceWeekOfMonth(parseInt(e.target.value))}
+                  className="w-full border border-gray-300 rounded-lg px-3 py-2"
+                >
+                  {WEEK_OF_MONTH_OPTIONS.map(option => (
+                    <option key={option.value} value={option.value}>{option.label}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Weekday</label>
+                <select
+                  value={recurrenceRule.recurrenceWeekday}
+                  onChange={e => setRecurrenceWeekday(parseInt(e.target.value))}
+                  className="w-full border border-gray-300 rounded-lg px-3 py-2"
+                >
+                  {WEEKDAY_NAMES.map((name, idx) => (
+                    <option key={idx} value={idx}>{name}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+          )}
+
+          {isRecurring && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">End Date (optional)</label>
+              <input
+                type="date"
+                value={recurrenceEndDate}
+                onChange={e => setRecurrenceEndDate(e.target.value)}
+                className="w-full border border-gray-300 rounded-lg px-3 py-2"
+              />
+            </div>
+          )}
+
+          {isRecurring && dueDate && (
+            <div className="bg-gray-50 border border-gray-200 rounded-lg p-3">
+              <p className="text-xs font-medium text-gray-700">{describeRecurrence(recurrenceRule)}</p>
+              <p className="text-xs text-gray-500 mt-1">
+                Next: {expandRecurrence(recurrenceRule, 5).join(' · ')}
+              </p>
+            </div>
+          )}
+
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-1">Notes</label>
             <textarea
@@ -249,13 +338,22 @@ const ScheduledTransactionForm: React.FC<ScheduledTransactionFormProps> = ({
                 Cheque Image (optional)
               </label>
 
-              {chequeImage ? (
+              {chequeImage || attachmentIds?.length ? (
                 <div className="relative">
-                  <img
-                    src={chequeImage}
-                    alt="Cheque"
-                    className="w-full rounded-lg border border-gray-300 mb-2"
-                  />
+                  {chequeImage ? (
+                    <img
+                      src={chequeImage}
+                      alt="Cheque"
+                      className="w-full rounded-lg border border-gray-300 mb-2"
+                    />
+                  ) : (
+                    <AttachmentImage
+                      attachmentId={attachmentIds![0]}
+                      variant="full"
+                      alt="Cheque"
+                      className="w-full rounded-lg border border-gray-300 mb-2"
+                    />
+                  )}
                   <div className="flex gap-2">
                     <button
                       type="button"
@@ -267,7 +365,7 @@ const ScheduledTransactionForm: React.FC<ScheduledTransactionFormProps> = ({
                     </button>
                     <button
                       type="button"
-                      onClick={() => setChequeImage('')}
+                      onClick={() => { setChequeImage(''); setAttachmentIds(undefined); }}
                       className="px-3 py-2 bg-red-500 text-white rounded-lg text-sm font-medium hover:bg-red-600"
                     >
                       <Trash2 size={16} />
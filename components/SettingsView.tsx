@@ -1,10 +1,19 @@
 import React, { useState, useEffect } from 'react';
-import { AppSettings, Category, Account, AccountType, RecurringRule, TransactionType, Transaction } from '../types';
-import { Plus, X, Save, Trash2, RotateCcw, CreditCard, Wallet, Building2, Banknote, Tag, ArrowRight, RefreshCw, Fingerprint, Cloud, Loader2 } from 'lucide-react';
+import { AppSettings, Category, Account, AccountType, RecurringRule, TransactionType, Transaction, ParsingTemplate, LoanInterestMethod, AuditContext } from '../types';
+import { Plus, X, Save, Trash2, RotateCcw, CreditCard, Wallet, Building2, Banknote, Tag, ArrowRight, RefreshCw, Fingerprint, Cloud, Loader2, MessageSquareText, Download, TrendingUp, Landmark, Receipt } from 'lucide-react';
 import { v4 as uuidv4 } from 'uuid';
 import { isBiometricEnabled, setBiometricEnabled, isBiometricAvailable } from '../services/biometricService';
-import { getSetting, saveSetting } from '../services/indexedDBService';
+import { getSetting, saveSetting, getAllParsingTemplates, saveParsingTemplate, deleteParsingTemplate } from '../services/indexedDBService';
+import { getParserProviders, DEFAULT_PARSER_PROVIDER } from '../services/transactionParserService';
+import { hasBackupPassphrase } from '../services/backupCryptoService';
+import { AutoBackupFailure, getAutoBackupFailure } from '../services/backupService';
+import { exportData, ExportFormat } from '../services/exportService';
+import { createExchangeRate } from '../services/exchangeRateService';
+import { DEFAULT_MINIMUM_PAYMENT } from '../services/creditCardService';
+import { LOAN_INTEREST_METHODS } from '../services/loanService';
 import BackupRestoreModal from './BackupRestoreModal';
+import CategorizationRulesEditor from './CategorizationRulesEditor';
+import ReceiptRetentionEditor from './ReceiptRetentionEditor';
 import { isUnknownTransaction, filterUnknownTransactions } from '../services/unknownTransactionService';
 
 interface SettingsViewProps {
@@ -12,6 +21,8 @@ interface SettingsViewProps {
   onUpdateSettings: (settings: AppSettings, accountReplacements?: { newAccountId: string, replaceAccountId: string | 'ORPHANS' }[]) => void;
   onBack: () => void;
   transactions?: Transaction[]; // Optional: for showing orphan count
+  onRulesApplied?: () => void; // Reload data after categorization rules rewrite transactions
+  onReceiptsCleanedUp?: (audit: AuditContext) => void; // Reload data after receipt retention deletes receipts
 }
 
 const DEFAULT_COLORS = [
@@ -20,9 +31,9 @@ const DEFAULT_COLORS = [
   '#f43f5e', '#64748b'
 ];
 
-const ACCOUNT_TYPES: AccountType[] = ['Bank', 'Credit Card', 'Cash', 'Wallet', 'Other'];
+const ACCOUNT_TYPES: AccountType[] = ['Bank', 'Credit Card', 'Cash', 'Wallet', 'Investment', 'Asset', 'Other'];
 
-const SettingsView: React.FC<SettingsViewProps> = ({ settings, onUpdateSettings, onBack, transactions }) => {
+const SettingsView: React.FC<SettingsViewProps> = ({ settings, onUpdateSettings, onBack, transactions, onRulesApplied, onReceiptsCleanedUp }) => {
   const [localSettings, setLocalSettings] = useState<AppSettings>(JSON.parse(JSON.stringify(settings)));
   const [activeTab, setActiveTab] = useState<'general' | 'categories' | 'accounts' | 'rules' | 'security' | 'backup' | 'developer'>('general');
   const [deletingUnknown, setDeletingUnknown] = useState(false);
@@ -42,6 +53,9 @@ const SettingsView: React.FC<SettingsViewProps> = ({ settings, onUpdateSettings,
     type: TransactionType.EXPENSE
   });
 
+  // Exchange Rate State
+  const [newRate, setNewRate] = useState({ currency: '', rate: '', date: new Date().toISOString().split('T')[0] });
+
   // Security State
   const [biometricEnabled, setBiometricEnabledState] = useState(false);
   const [biometricAvailable, setBiometricAvailable] = useState(false);
@@ -49,26 +63,55 @@ const SettingsView: React.FC<SettingsViewProps> = ({ settings, onUpdateSettings,
   const [dailyAutoBackupEnabled, setDailyAutoBackupEnabled] = useState(false);
   const [lastDailyBackup, setLastDailyBackup] = useState<string | null>(null);
   const [showBackupModal, setShowBackupModal] = useState(false);
+  const [backupPassphraseSet, setBackupPassphraseSet] = useState(true);
+  const [autoBackupFailure, setAutoBackupFailure] = useState<AutoBackupFailure | null>(null);
+  const [exportingFormat, setExportingFormat] = useState<ExportFormat | null>(null);
+
+  // Learned Template State (saved immediately, not via the Save button)
+  const [parsingTemplates, setParsingTemplates] = useState<ParsingTemplate[]>([]);
+  const [expandedTemplateId, setExpandedTemplateId] = useState<string | null>(null);
 
   // Calculate orphaned transactions count
   const orphanedTransactionsCount = transactions?.filter(t => !t.accountId).length || 0;
 
   useEffect(() => {
     loadSecuritySettings();
+    loadParsingTemplates();
   }, []);
 
+  const loadParsingTemplates = async () => {
+    const templates = await getAllParsingTemplates();
+    setParsingTemplates(templates.sort((a, b) => b.hitCount - a.hitCount));
+  };
+
+  const handleUpdateTemplate = async (template: ParsingTemplate) => {
+    await saveParsingTemplate(template);
+    setParsingTemplates(prev => prev.map(t => t.id === template.id ? template : t));
+  };
+
+  const handleDeleteTemplate = async (id: string) => {
+    if (window.confirm("Delete this learned template? Messages from this sender will go to the AI parser again.")) {
+      await deleteParsingTemplate(id);
+      setParsingTemplates(prev => prev.filter(t => t.id !== id));
+    }
+  };
+
   const loadSecuritySettings = async () => {
     const enabled = await isBiometricEnabled();
     const available = await isBiometricAvailable();
     const autoBackup = await getSetting('autoBackupMonthly');
     const dailyBackup = await getSetting('dailyAutoBackupEnabled');
     const lastDaily = await getSetting('lastDailyBackup');
+    const passphraseSet = await hasBackupPassphrase();
+    const failure = await getAutoBackupFailure();
 
     setBiometricEnabledState(enabled);
     setBiometricAvailable(available);
     setAutoBackupMonthly(autoBackup === true);
     setDailyAutoBackupEnabled(dailyBackup === true);
     setLastDailyBackup(lastDaily || null);
+    setBackupPassphraseSet(passphraseSet);
+    setAutoBackupFailure(failure);
   };
 
   const toggleBiometric = async () => {
@@ -83,6 +126,24 @@ const SettingsView: React.FC<SettingsViewProps> = ({ settings, onUpdateSettings,
     setAutoBackupMonthly(newValue);
   };
 
+  const handleExport = async (format: ExportFormat) => {
+    setExportingFormat(format);
+    try {
+      const { fileName, blob } = await exportData(format);
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = fileName;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('Export failed:', error);
+      alert(`Export failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setExportingFormat(null);
+    }
+  };
+
   const toggleDailyAutoBackup = async () => {
     const newValue = !dailyAutoBackupEnabled;
     await saveSetting('dailyAutoBackupEnabled', newValue);
@@ -142,6 +203,14 @@ const SettingsView: React.FC<SettingsViewProps> = ({ settings, onUpdateSettings,
           totalCreditLimit: editingAccount.totalCreditLimit,
           monthlySpendingLimit: editingAccount.monthlySpendingLimit,
           paymentDueDay: editingAccount.paymentDueDay,
+          statementClosingDay: editingAccount.statementClosingDay,
+          apr: editingAccount.apr,
+          minimumPayment: editingAccount.minimumPayment,
+          loanPrincipal: editingAccount.loanPrincipal,
+          loanInstallments: editingAccount.loanInstallments,
+          loanStartDate: editingAccount.loanStartDate,
+          loanInterestRate: editingAccount.loanInterestRate,
+          loanInterestMethod: editingAccount.loanInterestMethod,
           autoUpdateBalance: editingAccount.autoUpdateBalance ?? true,
         };
         newAccounts.push(newAcc);
@@ -200,6 +269,23 @@ const SettingsView: React.FC<SettingsViewProps> = ({ settings, onUpdateSettings,
     setLocalSettings(prev => ({ ...prev, recurringRules: (prev.recurringRules || []).filter(r => r.id !== id) }));
   };
 
+  const handleAddExchangeRate = () => {
+    const rate = parseFloat(newRate.rate);
+    const currency = newRate.currency.trim().toUpperCase();
+    if (!currency || currency === localSettings.baseCurrency || !(rate > 0) || !newRate.date) return;
+
+    const record = createExchangeRate(currency, localSettings.baseCurrency, rate, newRate.date, 'manual');
+    setLocalSettings(prev => ({
+      ...prev,
+      exchangeRates: [...(prev.exchangeRates || []).filter(r => r.id !== record.id), record],
+    }));
+    setNewRate(prev => ({ ...prev, rate: '' }));
+  };
+
+  const handleDeleteExchangeRate = (id: string) => {
+    setLocalSettings(prev => ({ ...prev, exchangeRates: (prev.exchangeRates || []).filter(r => r.id !== id) }));
+  };
+
   const handleSave = () => {
     onUpdateSettings(localSettings, accountReplacements.length > 0 ? accountReplacements : undefined);
     onBack();
@@ -211,6 +297,8 @@ const SettingsView: React.FC<SettingsViewProps> = ({ settings, onUpdateSettings,
       case 'Bank': return <Building2 size={18} />;
       case 'Cash': return <Banknote size={18} />;
       case 'Wallet': return <Wallet size={18} />;
+      case 'Investment': return <TrendingUp size={18} />;
+      case 'Asset': return <Landmark size={18} />;
       default: return <CreditCard size={18} />;
     }
   };
@@ -271,6 +359,73 @@ const SettingsView: React.FC<SettingsViewProps> = ({ settings, onUpdateSettings,
                </p>
             </div>
 
+            {/* Exchange Rates */}
+            <div className="mt-6">
+              <h3 className="text-sm font-bold text-slate-400 uppercase tracking-wider mb-3">Exchange Rates</h3>
+              <div className="bg-white p-4 rounded-xl shadow-sm border border-slate-200 space-y-3">
+                <p className="text-xs text-slate-500">
+                  Used to value foreign-currency accounts in {localSettings.baseCurrency}. Rates from parsed
+                  transactions are learned automatically; a manual rate wins on the same day.
+                </p>
+                <div className="flex gap-2">
+                  <input
+                    type="text"
+                    value={newRate.currency}
+                    onChange={(e) => setNewRate(prev => ({ ...prev, currency: e.target.value }))}
+                    placeholder="EUR"
+                    maxLength={3}
+                    className="w-16 p-2 bg-slate-50 border border-slate-200 rounded-lg text-sm uppercase font-mono focus:ring-2 focus:ring-brand-500 outline-none"
+                  />
+                  <input
+                    type="number"
+                    step="any"
+                    value={newRate.rate}
+                    onChange={(e) => setNewRate(prev => ({ ...prev, rate: e.target.value }))}
+                    placeholder={`1 = ? ${localSettings.baseCurrency}`}
+                    className="flex-1 min-w-0 p-2 bg-slate-50 border border-slate-200 rounded-lg text-sm focus:ring-2 focus:ring-brand-500 outline-none"
+                  />
+                  <input
+                    type="date"
+                    value={newRate.date}
+                    onChange={(e) => setNewRate(prev => ({ ...prev, date: e.target.value }))}
+                    className="p-2 bg-slate-50 border border-slate-200 rounded-lg text-sm focus:ring-2 focus:ring-brand-500 outline-none"
+                  />
+                  <button
+                    onClick={handleAddExchangeRate}
+                    className="p-2 bg-brand-600 text-white rounded-lg active:scale-95 transition-transform"
+                  >
+                    <Plus size={18} />
+                  </button>
+                </div>
+
+                {(localSettings.exchangeRates || []).length === 0 ? (
+                  <div className="text-xs text-slate-400 text-center py-2">No exchange rates yet.</div>
+                ) : (
+                  <div className="divide-y divide-slate-100 max-h-64 overflow-y-auto">
+                    {[...(localSettings.exchangeRates || [])]
+                      .sort((a, b) => a.currency.localeCompare(b.currency) || b.date.localeCompare(a.date))
+                      .map(rate => (
+                        <div key={rate.id} className="flex items-center justify-between py-2 text-sm">
+                          <div>
+                            <span className="font-mono font-semibold text-slate-800">1 {rate.currency}</span>
+                            <span className="text-slate-500"> = {rate.rate} {rate.baseCurrency}</span>
+                            <div className="text-[10px] text-slate-400">
+                              {rate.date} · {rate.source === 'manual' ? 'Manual' : 'Learned'}
+                            </div>
+                          </div>
+                          <button
+                            onClick={() => handleDeleteExchangeRate(rate.id)}
+                            className="p-1.5 text-slate-300 hover:text-red-500 transition-colors"
+                          >
+                            <Trash2 size={16} />
+                          </button>
+                        </div>
+                      ))}
+                  </div>
+                )}
+              </div>
+            </div>
+
             {/* Gradient Background Settings */}
             <div className="mt-6">
               <h3 className="text-sm font-bold text-slate-400 uppercase tracking-wider mb-3">Background Gradient</h3>
@@ -363,8 +518,62 @@ const SettingsView: React.FC<SettingsViewProps> = ({ settings, onUpdateSettings,
             {/* AI Parser Settings */}
             <div className="mt-6">
               <h3 className="text-sm font-bold text-slate-400 uppercase tracking-wider mb-3">AI Parser</h3>
-              <div className="bg-white p-4 rounded-xl shadow-sm border border-slate-200">
-                <div className="flex items-center justify-between">
+              <div className="bg-white p-4 rounded-xl shadow-sm border border-slate-200 space-y-4">
+                {/* Parser Provider */}
+                <div>
+                  <div className="text-sm font-semibold text-slate-700 mb-2">Parser Provider</div>
+                  <div className="space-y-2">
+                    {getParserProviders().map(provider => {
+                      const selected = (localSettings.parserProvider || DEFAULT_PARSER_PROVIDER) === provider.id;
+                      return (
+                        <button
+                          key={provider.id}
+                          onClick={() => setLocalSettings(prev => ({ ...prev, parserProvider: provider.id }))}
+                          className={`w-full text-left p-3 rounded-lg border transition-colors ${
+                            selected ? 'border-brand-500 bg-brand-50' : 'border-slate-200 hover:bg-slate-50'
+                          }`}
+                        >
+                          <div className="flex items-center justify-between">
+                            <span className={`text-sm font-semibold ${selected ? 'text-brand-700' : 'text-slate-700'}`}>{provider.name}</span>
+                            {!provider.requiresNetwork && (
+                              <span className="text-[10px] font-bold px-2 py-0.5 rounded-full bg-emerald-50 text-emerald-600">OFFLINE</span>
+                            )}
+                          </div>
+                          <p className="text-xs text-slate-500 mt-1">{provider.description}</p>
+                        </button>
+                      );
+                    })}
+                  </div>
+                </div>
+
+                {/* Offline Fallback */}
+                {(localSettings.parserProvider || DEFAULT_PARSER_PROVIDER) !== 'offline' && (
+                  <div className="flex items-center justify-between pt-4 border-t border-slate-100">
+                    <div>
+                      <div className="text-sm font-semibold text-slate-700">Offline Fallback</div>
+                      <p className="text-xs text-slate-500 mt-1">
+                        If the provider is unreachable, parse pasted text with the built-in offline rules instead of failing.
+                      </p>
+                    </div>
+                    <button
+                      onClick={() => setLocalSettings(prev => ({
+                        ...prev,
+                        parserFallbackEnabled: prev.parserFallbackEnabled === false ? true : false
+                      }))}
+                      className={`relative w-12 h-6 rounded-full transition-colors duration-200 flex-shrink-0 ml-4 ${
+                        localSettings.parserFallbackEnabled !== false ? 'bg-brand-500' : 'bg-slate-300'
+                      }`}
+                    >
+                      <div
+                        className={`absolute top-0.5 left-0.5 w-5 h-5 bg-white rounded-full shadow transition-transform duration-200 ${
+                          localSettings.parserFallbackEnabled !== false ? 'translate-x-6' : 'translate-x-0'
+                        }`}
+                      />
+                    </button>
+                  </div>
+                )}
+
+                <div className="flex items-center justify-between pt-4 border-t border-slate-100">
                   <div>
                     <div className="text-sm font-semibold text-slate-700">Auto-Balance Discrepancy Detection</div>
                     <p className="text-xs text-slate-500 mt-1">
@@ -636,6 +845,106 @@ const SettingsView: React.FC<SettingsViewProps> = ({ settings, onUpdateSettings,
                   ))}
                 </div>
              </div>
+
+             {/* Categorization Rules (saved immediately, not via the Save button) */}
+             <h3 className="text-sm font-bold text-slate-400 uppercase tracking-wider mb-3 mt-8">Categorization Rules</h3>
+             <div className="mb-4 bg-blue-50 p-4 rounded-xl border border-blue-100 text-xs text-blue-700">
+               <p>Rules run on every parsed, imported or manually entered transaction, top to bottom. A field set by a higher rule is not overwritten by a lower one.</p>
+             </div>
+             <CategorizationRulesEditor
+               categories={localSettings.categories}
+               accounts={localSettings.accounts}
+               transactions={transactions || []}
+               onRulesApplied={onRulesApplied}
+             />
+
+             {/* Learned SMS / Email Templates */}
+             <h3 className="text-sm font-bold text-slate-400 uppercase tracking-wider mb-3 mt-8">Learned Templates</h3>
+             <div className="mb-4 bg-blue-50 p-4 rounded-xl border border-blue-100 text-xs text-blue-700">
+               <p>When you correct a parsed transaction in the review screen, FinSnap learns the message layout. Matching messages are then parsed on-device without calling the AI.</p>
+             </div>
+
+             <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+                <div className="divide-y divide-slate-50">
+                  {parsingTemplates.length === 0 && (
+                    <div className="p-6 text-center text-slate-400 text-sm">
+                      No templates learned yet.
+                    </div>
+                  )}
+                  {parsingTemplates.map(template => (
+                    <div key={template.id} className="p-4">
+                      <div className="flex items-center justify-between gap-2">
+                        <div className="flex items-center gap-3 min-w-0 flex-1">
+                          <div className={`p-2 rounded-lg ${template.enabled ? 'bg-indigo-50 text-indigo-500' : 'bg-slate-100 text-slate-400'}`}>
+                            <MessageSquareText size={16} />
+                          </div>
+                          <div className="min-w-0 flex-1">
+                            <input
+                              type="text"
+                              className="w-full font-semibold text-slate-800 text-sm bg-transparent border-b border-transparent focus:border-brand-300 outline-none"
+                              value={template.sender}
+                              onChange={(e) => setParsingTemplates(prev => prev.map(t => t.id === template.id ? { ...t, sender: e.target.value } : t))}
+                              onBlur={() => handleUpdateTemplate(template)}
+                            />
+                            <button
+                              onClick={() => setExpandedTemplateId(expandedTemplateId === template.id ? null : template.id)}
+                              className="text-xs text-slate-400"
+                            >
+                              Used {template.hitCount} time{template.hitCount !== 1 ? 's' : ''} • {template.category || 'No default category'}
+                            </button>
+                          </div>
+                        </div>
+                        <button
+                          onClick={() => handleUpdateTemplate({ ...template, enabled: !template.enabled })}
+                          className={`relative w-10 h-5 rounded-full transition-colors duration-200 flex-shrink-0 ${
+                            template.enabled ? 'bg-brand-500' : 'bg-slate-300'
+                          }`}
+                        >
+                          <div
+                            className={`absolute top-0.5 left-0.5 w-4 h-4 bg-white rounded-full shadow transition-transform duration-200 ${
+                              template.enabled ? 'translate-x-5' : 'translate-x-0'
+                            }`}
+                          />
+                        </button>
+                        <button
+                          onClick={() => handleDeleteTemplate(template.id)}
+                          className="p-2 text-slate-300 hover:text-red-500 rounded-full transition-colors"
+                        >
+                          <Trash2 size={16} />
+                        </button>
+                      </div>
+
+                      {expandedTemplateId === template.id && (
+                        <div className="mt-3 space-y-2">
+                          <div className="p-2 bg-slate-50 rounded-lg text-xs text-slate-600 font-mono break-words">
+                            {template.sampleText}
+                          </div>
+                          <div className="flex gap-2 items-center">
+                            <label className="text-xs font-semibold text-slate-500">Default category</label>
+                            <select
+                              className="flex-1 p-2 bg-white border border-slate-200 rounded-lg text-xs"
+                              value={template.category || ''}
+                              onChange={(e) => handleUpdateTemplate({ ...template, category: e.target.value || undefined })}
+                            >
+                              <option value="">None</option>
+                              {localSettings.categories.map(c => <option key={c.id} value={c.name}>{c.name}</option>)}
+                            </select>
+                          </div>
+                          {template.merchantAliases && Object.keys(template.merchantAliases).length > 0 && (
+                            <div className="text-xs text-slate-500">
+                              {Object.entries(template.merchantAliases).map(([raw, name]) => (
+                                <div key={raw} className="flex items-center gap-1">
+                                  <span className="font-mono">{raw}</span> <ArrowRight size={10} /> {name}
+                                </div>
+                              ))}
+                            </div>
+                          )}
+                        </div>
+                      )}
+                    </div>
+                  ))}
+                </div>
+             </div>
           </section>
         )}
 
@@ -696,6 +1005,19 @@ const SettingsView: React.FC<SettingsViewProps> = ({ settings, onUpdateSettings,
                   Manage Backups
                 </button>
 
+                {autoBackupFailure && (autoBackupMonthly || dailyAutoBackupEnabled) && (
+                  <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+                    The last auto-backup failed ({new Date(autoBackupFailure.at).toLocaleString()}): {autoBackupFailure.message}
+                  </div>
+                )}
+
+                {!backupPassphraseSet && (autoBackupMonthly || dailyAutoBackupEnabled) && (
+                  <div className="p-3 bg-amber-50 border border-amber-200 rounded-lg text-sm text-amber-800">
+                    Auto-backups are encrypted and will be skipped until you set a backup passphrase.
+                    Open Manage Backups → Backup to Cloud to choose one.
+                  </div>
+                )}
+
                 <div className="flex items-center justify-between p-4 bg-gray-50 rounded-lg">
                   <div>
                     <div className="font-medium text-gray-800">Auto-backup Monthly</div>
@@ -744,6 +1066,54 @@ const SettingsView: React.FC<SettingsViewProps> = ({ settings, onUpdateSettings,
                 </div>
               </div>
             </div>
+
+            <div>
+              <h3 className="text-lg font-semibold text-gray-800 mb-2 flex items-center gap-2">
+                <Download className="w-5 h-5" />
+                Export Data
+              </h3>
+              <p className="text-sm text-gray-600 mb-4">
+                Open your transactions in other finance apps. OFX and QIF export one file per account;
+                hledger and beancount export a double-entry journal.
+              </p>
+
+              <div className="grid grid-cols-2 gap-3">
+                {([
+                  ['ofx', 'OFX'],
+                  ['qif', 'QIF'],
+                  ['hledger', 'hledger'],
+                  ['beancount', 'beancount'],
+                ] as [ExportFormat, string][]).map(([format, label]) => (
+                  <button
+                    key={format}
+                    onClick={() => handleExport(format)}
+                    disabled={exportingFormat !== null}
+                    className="px-4 py-3 bg-gray-50 border border-gray-200 text-gray-800 rounded-lg font-medium hover:bg-gray-100 transition disabled:opacity-50 flex items-center justify-center gap-2"
+                  >
+                    {exportingFormat === format ? <Loader2 className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />}
+                    {label}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <div>
+              <h3 className="text-lg font-semibold text-gray-800 mb-2 flex items-center gap-2">
+                <Receipt className="w-5 h-5" />
+                Receipt Retention
+              </h3>
+              <p className="text-sm text-gray-600 mb-4">
+                Receipt images are deleted once a transaction is older than its retention period. Rules are
+                checked top to bottom and the first match decides; receipts marked "keep" are never deleted.
+              </p>
+
+              <ReceiptRetentionEditor
+                categories={localSettings.categories}
+                accounts={localSettings.accounts}
+                transactions={transactions || []}
+                onCleanedUp={onReceiptsCleanedUp}
+              />
+            </div>
           </div>
         )}
 
@@ -1013,6 +1383,129 @@ const SettingsView: React.FC<SettingsViewProps> = ({ settings, onUpdateSettings,
                                   onChange={(e) => setEditingAccount(prev => ({ ...prev!, paymentDueDay: parseInt(e.target.value) || undefined }))}
                                 />
                             </div>
+                            <div>
+                                <label className="text-[10px] font-bold text-slate-500 mb-1 block">Statement Closing Day</label>
+                                <input 
+                                  type="number" min="1" max="31"
+                                  className="w-full p-2.5 bg-slate-50 border border-slate-200 rounded-xl text-sm focus:outline-none focus:ring-2 focus:ring-brand-500"
+                                  placeholder="Day (1-31)"
+                                  value={editingAccount.statementClosingDay || ''}
+                                  onChange={(e) => setEditingAccount(prev => ({ ...prev!, statementClosingDay: parseInt(e.target.value) || undefined }))}
+                                />
+                            </div>
+                            <div>
+                                <label className="text-[10px] font-bold text-slate-500 mb-1 block">APR (%)</label>
+                                <input 
+                                  type="number" step="0.01" min="0"
+                                  className="w-full p-2.5 bg-slate-50 border border-slate-200 rounded-xl text-sm focus:outline-none focus:ring-2 focus:ring-brand-500"
+                                  placeholder="e.g. 24.99"
+                                  value={editingAccount.apr ?? ''}
+                                  onChange={(e) => setEditingAccount(prev => ({ ...prev!, apr: e.target.value === '' ? undefined : parseFloat(e.target.value) }))}
+                                />
+                            </div>
+                            <div>
+                                <label className="text-[10px] font-bold text-slate-500 mb-1 block">Minimum Payment (% of balance)</label>
+                                <input 
+                                  type="number" step="0.1" min="0"
+                                  className="w-full p-2.5 bg-slate-50 border border-slate-200 rounded-xl text-sm focus:outline-none focus:ring-2 focus:ring-brand-500"
+                                  placeholder={`${DEFAULT_MINIMUM_PAYMENT.percentOfBalance}`}
+                                  value={editingAccount.minimumPayment?.percentOfBalance ?? ''}
+                                  onChange={(e) => setEditingAccount(prev => ({
+                                    ...prev!,
+                                    minimumPayment: {
+                                      ...(prev!.minimumPayment || DEFAULT_MINIMUM_PAYMENT),
+                                      percentOfBalance: parseFloat(e.target.value) || 0,
+                                    },
+                                  }))}
+                                />
+                            </div>
+                            <div>
+                                <label className="text-[10px] font-bold text-slate-500 mb-1 block">Minimum Payment Floor</label>
+                                <input 
+                                  type="number" step="1" min="0"
+                                  className="w-full p-2.5 bg-slate-50 border border-slate-200 rounded-xl text-sm focus:outline-none focus:ring-2 focus:ring-brand-500"
+                                  placeholder={`${DEFAULT_MINIMUM_PAYMENT.floor}`}
+                                  value={editingAccount.minimumPayment?.floor ?? ''}
+                                  onChange={(e) => setEditingAccount(prev => ({
+                                    ...prev!,
+                                    minimumPayment: {
+                                      ...(prev!.minimumPayment || DEFAULT_MINIMUM_PAYMENT),
+                                      floor: parseFloat(e.target.value) || 0,
+                                    },
+                                  }))}
+                                />
+                            </div>
+                            <label className="col-span-2 flex items-center gap-2 text-xs text-slate-600">
+                                <input
+                                  type="checkbox"
+                                  checked={(editingAccount.minimumPayment || DEFAULT_MINIMUM_PAYMENT).includeInterest ?? false}
+                                  onChange={(e) => setEditingAccount(prev => ({
+                                    ...prev!,
+                                    minimumPayment: {
+                                      ...(prev!.minimumPayment || DEFAULT_MINIMUM_PAYMENT),
+                                      includeInterest: e.target.checked,
+                                    },
+                                  }))}
+                                />
+                                Minimum includes the cycle's interest
+                            </label>
+                         </>
+                       )}
+                       {editingAccount.type === 'Loan/BNPL' && (
+                         <>
+                            <div>
+                                <label className="text-[10px] font-bold text-slate-500 mb-1 block">Amount Borrowed</label>
+                                <input 
+                                  type="number" step="100"
+                                  className="w-full p-2.5 bg-slate-50 border border-slate-200 rounded-xl text-sm focus:outline-none focus:ring-2 focus:ring-brand-500"
+                                  placeholder="Principal"
+                                  value={editingAccount.loanPrincipal || ''}
+                                  onChange={(e) => setEditingAccount(prev => ({ ...prev!, loanPrincipal: parseFloat(e.target.value) || undefined }))}
+                                />
+                            </div>
+                            <div>
+                                <label className="text-[10px] font-bold text-slate-500 mb-1 block">Installments</label>
+                                <input 
+                                  type="number" min="1"
+                                  className="w-full p-2.5 bg-slate-50 border border-slate-200 rounded-xl text-sm focus:outline-none focus:ring-2 focus:ring-brand-500"
+                                  placeholder="Months"
+                                  value={editingAccount.loanInstallments || ''}
+                                  onChange={(e) => setEditingAccount(prev => ({ ...prev!, loanInstallments: parseInt(e.target.value) || undefined }))}
+                                />
+                            </div>
+                            <div>
+                                <label className="text-[10px] font-bold text-slate-500 mb-1 block">Start Date</label>
+                                <input 
+                                  type="date"
+                                  className="w-full p-2.5 bg-slate-50 border border-slate-200 rounded-xl text-sm focus:outline-none focus:ring-2 focus:ring-brand-500"
+                                  value={editingAccount.loanStartDate || ''}
+                                  onChange={(e) => setEditingAccount(prev => ({ ...prev!, loanStartDate: e.target.value || undefined }))}
+                                />
+                            </div>
+                            <div>
+                                <label className="text-[10px] font-bold text-slate-500 mb-1 block">Interest Rate (% / year)</label>
+                                <input 
+                                  type="number" step="0.01" min="0"
+                                  className="w-full p-2.5 bg-slate-50 border border-slate-200 rounded-xl text-sm focus:outline-none focus:ring-2 focus:ring-brand-500"
+                                  placeholder="0 for BNPL"
+                                  value={editingAccount.loanInterestRate ?? ''}
+                                  onChange={(e) => setEditingAccount(prev => ({ ...prev!, loanInterestRate: e.target.value === '' ? undefined : parseFloat(e.target.value) }))}
+                                />
+                            </div>
+                            {!!editingAccount.loanInterestRate && (
+                              <div className="col-span-2">
+                                  <label className="text-[10px] font-bold text-slate-500 mb-1 block">Interest Method</label>
+                                  <select
+                                    className="w-full p-2.5 bg-slate-50 border border-slate-200 rounded-xl text-sm focus:outline-none focus:ring-2 focus:ring-brand-500"
+                                    value={editingAccount.loanInterestMethod || 'REDUCING_BALANCE'}
+                                    onChange={(e) => setEditingAccount(prev => ({ ...prev!, loanInterestMethod: e.target.value as LoanInterestMethod }))}
+                                  >
+                                    {LOAN_INTEREST_METHODS.filter(m => m.value !== 'ZERO').map(m => (
+                                      <option key={m.value} value={m.value}>{m.label}</option>
+                                    ))}
+                                  </select>
+                              </div>
+                            )}
                          </>
                        )}
                     </div>
@@ -1042,7 +1535,10 @@ const SettingsView: React.FC<SettingsViewProps> = ({ settings, onUpdateSettings,
 
       {showBackupModal && (
         <BackupRestoreModal
-          onClose={() => setShowBackupModal(false)}
+          onClose={() => {
+            setShowBackupModal(false);
+            hasBackupPassphrase().then(setBackupPassphraseSet);
+          }}
           onRestoreComplete={() => {
             setShowBackupModal(false);
             window.location.reload();
@@ -1,11 +1,30 @@
 import React, { useMemo, useState } from 'react';
-import { Transaction, TransactionType, Account } from '../types';
-import { Search, TrendingDown, TrendingUp, Filter, Pencil, CreditCard, Clock, X, ChevronLeft, ChevronRight, Receipt } from 'lucide-react';
+import { Transaction, TransactionType, Account, SavedSearch, Category, Reconciliation } from '../types';
+import { Search, TrendingDown, TrendingUp, Filter, Pencil, CreditCard, Clock, X, ChevronLeft, ChevronRight, Receipt, Bookmark, Pin, ArrowUp, ArrowDown, HelpCircle, Check, CheckSquare, Tag, Tags, ArrowLeftRight, ImageOff, Wand2, Trash2, Undo2 } from 'lucide-react';
+import { v4 as uuidv4 } from 'uuid';
 import SplitTransactionsModal from './SplitTransactionsModal';
+import { SORT_FIELDS, SortField, filterByQuery, parseSearchQuery, sortTransactions } from '../services/searchQueryService';
+import {
+  BulkChange,
+  convertToTransferPairs,
+  deleteTransactions,
+  discardReceipts,
+  lockedReconciliationsFor,
+  moveToAccount,
+  recategorize,
+  retag,
+  ruleFromSelection,
+  saveRuleFromSelection,
+  setKeepReceipt,
+} from '../services/bulkEditService';
+import { validateRule } from '../services/rulesEngineService';
 
 interface TransactionListProps {
   transactions: Transaction[];
+  allTransactions?: Transaction[]; // Searched instead of `transactions` when the query has its own date term
   accounts?: Account[];
+  categories?: Category[];
+  reconciliations?: Reconciliation[]; // Locked ones make bulk edits ask before changing what they cover
   onDelete: (id: string) => void;
   onEdit: (transaction: Transaction) => void;
   initialFilterAccountId?: string | null;
@@ -19,6 +38,13 @@ interface TransactionListProps {
   onPreviousPeriod: () => void;
   onNextPeriod: () => void;
   currentPeriodLabel: string;
+  searchQuery: string;
+  onSearchQueryChange: (query: string) => void;
+  savedSearches?: SavedSearch[];
+  onSavedSearchesChange?: (searches: SavedSearch[]) => void;
+  onBulkChange?: (change: BulkChange) => Promise<void>;
+  undoLabel?: string | null; // Label of the latest action when it was a bulk edit, offered for undo
+  onUndo?: () => void;
 }
 
 const DATE_FILTER_TYPES: Array<'month' | 'year' | 'week' | 'custom' | 'all'> =
@@ -26,7 +52,10 @@ const DATE_FILTER_TYPES: Array<'month' | 'year' | 'week' | 'custom' | 'all'> =
 
 const TransactionList: React.FC<TransactionListProps> = ({
   transactions,
+  allTransactions,
   accounts = [],
+  categories = [],
+  reconciliations = [],
   onDelete,
   onEdit,
   initialFilterAccountId,
@@ -39,9 +68,26 @@ const TransactionList: React.FC<TransactionListProps> = ({
   onCustomEndDateChange,
   onPreviousPeriod,
   onNextPeriod,
-  currentPeriodLabel
+  currentPeriodLabel,
+  searchQuery,
+  onSearchQueryChange,
+  savedSearches = [],
+  onSavedSearchesChange,
+  onBulkChange,
+  undoLabel,
+  onUndo
 }) => {
-  const [searchTerm, setSearchTerm] = useState('');
+  const [sortField, setSortField] = useState<SortField>('date');
+  const [sortDirection, setSortDirection] = useState<'asc' | 'desc'>('desc');
+  const [showSearchHelp, setShowSearchHelp] = useState(false);
+
+  // Multi-select
+  const [selecting, setSelecting] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [bulkPanel, setBulkPanel] = useState<'category' | 'tags' | 'account' | null>(null);
+  const [bulkValue, setBulkValue] = useState('');
+  const [bulkRemoveTags, setBulkRemoveTags] = useState('');
+  const [bulkBusy, setBulkBusy] = useState(false);
   const [filter, setFilter] = useState<'ALL' | 'INCOME' | 'CASH' | 'CREDIT' | 'OBLIGATION'>('ALL');
   const [viewingSplitGroup, setViewingSplitGroup] = useState<string | null>(null);
 
@@ -69,12 +115,13 @@ const TransactionList: React.FC<TransactionListProps> = ({
     return labels[dateFilter] || 'Month';
   };
 
+  const parsedQuery = useMemo(() => parseSearchQuery(searchQuery), [searchQuery]);
+
   const filteredTransactions = useMemo(() => {
-    return transactions
+    // A query with its own date term searches every transaction, not just the current period
+    const source = parsedQuery.hasDateTerm && allTransactions ? allTransactions : transactions;
+    const matches = filterByQuery(source, parsedQuery, accounts)
       .filter(t => {
-        const matchesSearch = t.merchant.toLowerCase().includes(searchTerm.toLowerCase()) ||
-                              t.category.toLowerCase().includes(searchTerm.toLowerCase());
-
         // Filter logic
         let matchesFilter = true;
         if (filter === 'INCOME') {
@@ -93,24 +140,147 @@ const TransactionList: React.FC<TransactionListProps> = ({
 
         const matchesAccount = !initialFilterAccountId || t.accountId === initialFilterAccountId;
 
-        return matchesSearch && matchesFilter && matchesAccount;
-      })
-      .sort((a, b) => {
-        // Sort by date then time
-        const dateA = new Date(`${a.date}T${a.time || '00:00'}`);
-        const dateB = new Date(`${b.date}T${b.time || '00:00'}`);
-        return dateB.getTime() - dateA.getTime();
+        return matchesFilter && matchesAccount;
       });
-  }, [transactions, searchTerm, filter, initialFilterAccountId]);
+    return sortTransactions(matches, sortField, sortDirection, accounts);
+  }, [transactions, allTransactions, accounts, parsedQuery, filter, initialFilterAccountId, sortField, sortDirection]);
+
+  // Date headers only make sense when sorted by date
+  const groupByDate = sortField === 'date';
 
   const groupedTransactions = useMemo(() => {
     const groups: Record<string, Transaction[]> = {};
     filteredTransactions.forEach(t => {
-      if (!groups[t.date]) groups[t.date] = [];
-      groups[t.date].push(t);
+      const key = groupByDate ? t.date : '';
+      if (!groups[key]) groups[key] = [];
+      groups[key].push(t);
     });
     return groups;
-  }, [filteredTransactions]);
+  }, [filteredTransactions, groupByDate]);
+
+  const handleSaveSearch = () => {
+    if (!onSavedSearchesChange || !searchQuery.trim()) return;
+    const name = prompt('Name this search:', searchQuery.trim());
+    if (!name?.trim()) return;
+    onSavedSearchesChange([
+      ...savedSearches,
+      { id: uuidv4(), name: name.trim(), query: searchQuery.trim(), pinned: false, createdAt: new Date().toISOString() }
+    ]);
+  };
+
+  const handleTogglePin = (search: SavedSearch) => {
+    onSavedSearchesChange?.(savedSearches.map(s => s.id === search.id ? { ...s, pinned: !s.pinned } : s));
+  };
+
+  const handleDeleteSearch = (search: SavedSearch) => {
+    if (window.confirm(`Delete the saved search "${search.name}"?`)) {
+      onSavedSearchesChange?.(savedSearches.filter(s => s.id !== search.id));
+    }
+  };
+
+  // Only what's on screen can be acted on
+  const selectedTransactions = filteredTransactions.filter(t => selectedIds.has(t.id));
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const exitSelecting = () => {
+    setSelecting(false);
+    setSelectedIds(new Set());
+    setBulkPanel(null);
+  };
+
+  const openBulkPanel = (panel: 'category' | 'tags' | 'account') => {
+    setBulkPanel(bulkPanel === panel ? null : panel);
+    setBulkValue('');
+    setBulkRemoveTags('');
+  };
+
+  const runBulkChange = async (change: BulkChange) => {
+    if (!onBulkChange) return;
+    if (change.before.length === 0) {
+      alert('Nothing in the selection needs changing.');
+      return;
+    }
+    // Same guard as a single edit: changing a reconciled transaction breaks the locked statement
+    const locked = lockedReconciliationsFor(change, reconciliations);
+    if (locked.length > 0) {
+      const statements = locked
+        .map(r => `${accounts.find(a => a.id === r.accountId)?.name || 'an account'} to ${r.statementDate}`)
+        .join(', ');
+      const confirmed = window.confirm(
+        `Some of these transactions are covered by locked reconciliations (${statements}). ` +
+        'Changing them will make those reconciliations no longer match their statements. Continue?'
+      );
+      if (!confirmed) return;
+    }
+    setBulkBusy(true);
+    try {
+      await onBulkChange(change);
+      setSelectedIds(new Set());
+      setBulkPanel(null);
+    } finally {
+      setBulkBusy(false);
+    }
+  };
+
+  const handleBulkPanelApply = () => {
+    if (bulkPanel === 'category' && bulkValue) {
+      runBulkChange(recategorize(selectedTransactions, bulkValue));
+    } else if (bulkPanel === 'account') {
+      const account = accounts.find(a => a.id === bulkValue);
+      if (account) runBulkChange(moveToAccount(selectedTransactions, account));
+    } else if (bulkPanel === 'tags') {
+      const split = (text: string) => text.split(',').map(t => t.trim()).filter(Boolean);
+      runBulkChange(retag(selectedTransactions, split(bulkValue), split(bulkRemoveTags)));
+    }
+  };
+
+  const handleBulkTransfer = () => {
+    const { change, unpaired } = convertToTransferPairs(selectedTransactions);
+    if (change.before.length === 0) {
+      alert('No transfer pairs found. Select an outgoing and an incoming transaction with the same amount in different accounts.');
+      return;
+    }
+    if (unpaired > 0 && !window.confirm(`${unpaired} selected transaction(s) have no matching side and will be left as they are. Continue?`)) return;
+    runBulkChange(change);
+  };
+
+  const handleBulkDiscardReceipts = () => {
+    const change = discardReceipts(selectedTransactions);
+    if (change.before.length > 0 && !window.confirm(`Remove the receipt images from ${change.before.length} transaction(s)?`)) return;
+    runBulkChange(change);
+  };
+
+  const handleBulkDelete = () => {
+    if (window.confirm(`Delete ${selectedTransactions.length} transaction(s)? Account balances are not adjusted.`)) {
+      runBulkChange(deleteTransactions(selectedTransactions));
+    }
+  };
+
+  const handleRuleFromSelection = async () => {
+    const name = prompt('Name the new categorization rule:', selectedTransactions[0]?.merchant || '');
+    if (!name?.trim()) return;
+    const rule = ruleFromSelection(selectedTransactions, name.trim());
+    const errors = validateRule(rule);
+    if (errors.length > 0) {
+      alert(errors.join('\n'));
+      return;
+    }
+    try {
+      await saveRuleFromSelection(rule);
+      alert(`Saved "${rule.name}" (sets ${rule.actions.category}). Fine-tune it under Settings → Rules.`);
+    } catch (error) {
+      console.error('Error saving rule:', error);
+      alert('Failed to save the rule.');
+    }
+  };
 
   const getAccountName = (t: Transaction) => {
     if (t.accountId) {
@@ -222,29 +392,97 @@ const TransactionList: React.FC<TransactionListProps> = ({
       <div className="sticky top-0 bg-slate-50/95 backdrop-blur z-10 py-2">
         <div className="flex justify-between items-end mb-4">
            <h2 className="text-2xl font-bold text-slate-800">History</h2>
-           {activeAccount && (
-             <button 
-               onClick={onClearAccountFilter}
-               className="flex items-center gap-1 text-xs bg-slate-200 text-slate-700 px-2 py-1 rounded-full hover:bg-slate-300"
-             >
-               {activeAccount.name} <X size={12} />
-             </button>
-           )}
+           <div className="flex items-center gap-2">
+             {activeAccount && (
+               <button 
+                 onClick={onClearAccountFilter}
+                 className="flex items-center gap-1 text-xs bg-slate-200 text-slate-700 px-2 py-1 rounded-full hover:bg-slate-300"
+               >
+                 {activeAccount.name} <X size={12} />
+               </button>
+             )}
+             {onBulkChange && (
+               <button
+                 onClick={() => (selecting ? exitSelecting() : setSelecting(true))}
+                 className={`flex items-center gap-1 text-xs px-2 py-1 rounded-full ${selecting ? 'bg-brand-600 text-white' : 'bg-slate-200 text-slate-700 hover:bg-slate-300'}`}
+               >
+                 <CheckSquare size={12} /> {selecting ? 'Done' : 'Select'}
+               </button>
+             )}
+           </div>
         </div>
+
+        {undoLabel && onUndo && (
+          <div className="flex items-center justify-between bg-slate-800 text-white text-xs rounded-lg px-3 py-2 mb-3">
+            <span className="truncate">{undoLabel}</span>
+            <button onClick={onUndo} className="flex items-center gap-1 font-bold text-brand-300 hover:text-white">
+              <Undo2 size={12} /> Undo
+            </button>
+          </div>
+        )}
         
         <div className="flex gap-2 mb-4">
           <div className="relative flex-1">
             <Search className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-400" size={18} />
             <input 
               type="text" 
-              placeholder="Search..." 
-              value={searchTerm}
-              onChange={(e) => setSearchTerm(e.target.value)}
-              className="w-full pl-10 pr-4 py-2 bg-white border border-slate-200 rounded-xl text-sm focus:outline-none focus:ring-2 focus:ring-brand-500"
+              placeholder='Search... e.g. amount>200 tag:work' 
+              value={searchQuery}
+              onChange={(e) => onSearchQueryChange(e.target.value)}
+              className="w-full pl-10 pr-16 py-2 bg-white border border-slate-200 rounded-xl text-sm focus:outline-none focus:ring-2 focus:ring-brand-500"
             />
+            <div className="absolute right-2 top-1/2 -translate-y-1/2 flex items-center gap-1">
+              {searchQuery && onSavedSearchesChange && (
+                <button onClick={handleSaveSearch} className="p-1 text-slate-400 hover:text-brand-600" title="Save this search">
+                  <Bookmark size={16} />
+                </button>
+              )}
+              <button onClick={() => setShowSearchHelp(!showSearchHelp)} className="p-1 text-slate-400 hover:text-brand-600" title="Search syntax">
+                <HelpCircle size={16} />
+              </button>
+            </div>
           </div>
         </div>
 
+        {parsedQuery.errors.length > 0 && (
+          <div className="text-xs text-red-500 -mt-2 mb-3 px-1">{parsedQuery.errors.join(' ')}</div>
+        )}
+
+        {showSearchHelp && (
+          <div className="bg-white rounded-xl p-3 mb-4 border border-slate-100 text-xs text-slate-600 space-y-1">
+            <div><code>amount&gt;200</code> <code>amount:50..100</code> <code>merchant:uber</code> <code>category:Groceries</code></div>
+            <div><code>account:"Emirates NBD"</code> <code>tag:work</code> <code>type:income</code> <code>currency:AED</code></div>
+            <div><code>date:2026-01..2026-03</code> <code>date&gt;=2026-02-15</code> (ignores the period above)</div>
+            <div><code>has:receipt|tag|split</code> <code>is:cheque|transfer|split|cleared|reconciled</code> <code>status:pending|cleared</code></div>
+            <div>Put <code>-</code> in front of a term to exclude it. Other words match merchant or category.</div>
+          </div>
+        )}
+
+        {savedSearches.length > 0 && (
+          <div className="flex gap-2 overflow-x-auto mb-3 pb-1">
+            {savedSearches.map(search => (
+              <div
+                key={search.id}
+                className={`flex items-center gap-1 pl-3 pr-1 py-1 rounded-full text-xs whitespace-nowrap border ${
+                  searchQuery === search.query ? 'bg-brand-50 border-brand-200 text-brand-700' : 'bg-white border-slate-200 text-slate-600'
+                }`}
+              >
+                <button onClick={() => onSearchQueryChange(search.query)} title={search.query}>{search.name}</button>
+                <button
+                  onClick={() => handleTogglePin(search)}
+                  className={`p-0.5 ${search.pinned ? 'text-brand-600' : 'text-slate-300 hover:text-slate-500'}`}
+                  title={search.pinned ? 'Unpin from menu' : 'Pin to menu'}
+                >
+                  <Pin size={12} />
+                </button>
+                <button onClick={() => handleDeleteSearch(search)} className="p-0.5 text-slate-300 hover:text-red-500">
+                  <X size={12} />
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+
         {/* Filter Dropdown */}
         <div className="flex items-center gap-2 mb-3">
           <Filter size={14} className="text-slate-400" />
@@ -259,6 +497,21 @@ const TransactionList: React.FC<TransactionListProps> = ({
             <option value="INCOME">Income Only</option>
             <option value="OBLIGATION">Obligations (Bills/Debts)</option>
           </select>
+          <select
+            value={sortField}
+            onChange={(e) => setSortField(e.target.value as SortField)}
+            className="px-3 py-2 bg-white border border-slate-200 rounded-lg text-sm font-medium focus:outline-none focus:ring-2 focus:ring-brand-500 appearance-none"
+            title="Sort by"
+          >
+            {SORT_FIELDS.map(f => <option key={f.value} value={f.value}>{f.label}</option>)}
+          </select>
+          <button
+            onClick={() => setSortDirection(sortDirection === 'asc' ? 'desc' : 'asc')}
+            className="p-2 bg-white border border-slate-200 rounded-lg text-slate-500 hover:text-brand-600"
+            title={sortDirection === 'asc' ? 'Ascending' : 'Descending'}
+          >
+            {sortDirection === 'asc' ? <ArrowUp size={16} /> : <ArrowDown size={16} />}
+          </button>
         </div>
 
         {filteredTransactions.length > 0 && filteredTransactions.length !== transactions.length && (
@@ -266,6 +519,87 @@ const TransactionList: React.FC<TransactionListProps> = ({
             Showing {filteredTransactions.length} of {transactions.length} transactions
           </div>
         )}
+
+        {/* Bulk Actions */}
+        {selecting && (
+          <div className="bg-white rounded-xl p-3 shadow-md border border-slate-100 space-y-2">
+            <div className="flex items-center justify-between text-xs">
+              <span className="font-bold text-slate-700">{selectedTransactions.length} selected</span>
+              <div className="flex gap-3">
+                <button onClick={() => setSelectedIds(new Set(filteredTransactions.map(t => t.id)))} className="text-brand-600 font-medium">
+                  Select all ({filteredTransactions.length})
+                </button>
+                <button onClick={() => setSelectedIds(new Set())} className="text-slate-500">Clear</button>
+              </div>
+            </div>
+
+            <div className={`grid grid-cols-4 gap-1 ${selectedTransactions.length === 0 || bulkBusy ? 'opacity-50 pointer-events-none' : ''}`}>
+              {[
+                { label: 'Category', icon: <Tag size={16} />, onClick: () => openBulkPanel('category'), active: bulkPanel === 'category' },
+                { label: 'Tags', icon: <Tags size={16} />, onClick: () => openBulkPanel('tags'), active: bulkPanel === 'tags' },
+                { label: 'Account', icon: <CreditCard size={16} />, onClick: () => openBulkPanel('account'), active: bulkPanel === 'account' },
+                { label: 'Transfer', icon: <ArrowLeftRight size={16} />, onClick: handleBulkTransfer },
+                { label: 'Keep receipt', icon: <Receipt size={16} />, onClick: () => runBulkChange(setKeepReceipt(selectedTransactions, true)) },
+                { label: 'Drop receipt', icon: <ImageOff size={16} />, onClick: handleBulkDiscardReceipts },
+                { label: 'Make rule', icon: <Wand2 size={16} />, onClick: handleRuleFromSelection },
+                { label: 'Delete', icon: <Trash2 size={16} />, onClick: handleBulkDelete, danger: true },
+              ].map(action => (
+                <button
+                  key={action.label}
+                  onClick={action.onClick}
+                  className={`flex flex-col items-center gap-0.5 py-1.5 rounded-lg text-[10px] font-medium ${
+                    action.active ? 'bg-brand-50 text-brand-600' : action.danger ? 'text-red-500 hover:bg-red-50' : 'text-slate-600 hover:bg-slate-50'
+                  }`}
+                >
+                  {action.icon}
+                  {action.label}
+                </button>
+              ))}
+            </div>
+
+            {bulkPanel && (
+              <div className="flex gap-2">
+                {bulkPanel === 'category' && (
+                  <select value={bulkValue} onChange={(e) => setBulkValue(e.target.value)} className="flex-1 px-3 py-2 bg-slate-50 border border-slate-200 rounded-lg text-sm">
+                    <option value="">Choose category…</option>
+                    {categories.map(c => <option key={c.id} value={c.name}>{c.name}</option>)}
+                  </select>
+                )}
+                {bulkPanel === 'account' && (
+                  <select value={bulkValue} onChange={(e) => setBulkValue(e.target.value)} className="flex-1 px-3 py-2 bg-slate-50 border border-slate-200 rounded-lg text-sm">
+                    <option value="">Choose account…</option>
+                    {accounts.map(a => <option key={a.id} value={a.id}>{a.name}</option>)}
+                  </select>
+                )}
+                {bulkPanel === 'tags' && (
+                  <>
+                    <input
+                      type="text"
+                      placeholder="Add tags"
+                      value={bulkValue}
+                      onChange={(e) => setBulkValue(e.target.value)}
+                      className="flex-1 min-w-0 px-3 py-2 bg-slate-50 border border-slate-200 rounded-lg text-sm"
+                    />
+                    <input
+                      type="text"
+                      placeholder="Remove tags"
+                      value={bulkRemoveTags}
+                      onChange={(e) => setBulkRemoveTags(e.target.value)}
+                      className="flex-1 min-w-0 px-3 py-2 bg-slate-50 border border-slate-200 rounded-lg text-sm"
+                    />
+                  </>
+                )}
+                <button
+                  onClick={handleBulkPanelApply}
+                  disabled={bulkBusy || (bulkPanel === 'tags' ? !bulkValue.trim() && !bulkRemoveTags.trim() : !bulkValue)}
+                  className="px-4 bg-brand-600 text-white rounded-lg text-sm font-bold disabled:opacity-50"
+                >
+                  Apply
+                </button>
+              </div>
+            )}
+          </div>
+        )}
       </div>
 
       <div className="space-y-6">
@@ -274,26 +608,33 @@ const TransactionList: React.FC<TransactionListProps> = ({
             <p>No transactions found</p>
           </div>
         ) : (
-          Object.keys(groupedTransactions).sort((a,b) => new Date(b).getTime() - new Date(a).getTime()).map(date => (
+          // Groups are already in sort order
+          Object.keys(groupedTransactions).map(date => (
             <div key={date}>
-              <h3 className="text-xs font-semibold text-slate-900 uppercase tracking-wider mb-3 px-1 py-1 bg-white/50 rounded-md inline-block">{date}</h3>
+              {date && (
+                <h3 className="text-xs font-semibold text-slate-900 uppercase tracking-wider mb-3 px-1 py-1 bg-white/50 rounded-md inline-block">{date}</h3>
+              )}
               <div className="space-y-3">
                 {groupedTransactions[date].map(t => {
                   const accountDisplay = getAccountName(t);
                   return (
                     <div 
                       key={t.id} 
-                      onClick={() => onEdit(t)}
-                      className="bg-white p-4 rounded-xl shadow-sm border border-slate-50 flex items-center justify-between group cursor-pointer hover:border-brand-200 transition-all active:scale-[0.99]"
+                      onClick={() => (selecting ? toggleSelected(t.id) : onEdit(t))}
+                      className={`bg-white p-4 rounded-xl shadow-sm border flex items-center justify-between group cursor-pointer hover:border-brand-200 transition-all active:scale-[0.99] ${
+                        selectedIds.has(t.id) ? 'border-brand-400 ring-1 ring-brand-400' : 'border-slate-50'
+                      }`}
                     >
                       {/* Left Side: Icon + Text (Allows shrinking) */}
                       <div className="flex items-center gap-3 flex-1 min-w-0">
                         <div className={`w-10 h-10 rounded-full flex items-center justify-center shrink-0 ${
+                          selecting ? (selectedIds.has(t.id) ? 'bg-brand-600 text-white' : 'bg-slate-100 text-slate-300') :
                           t.type === TransactionType.INCOME ? 'bg-green-50 text-green-500' :
                           t.type === TransactionType.OBLIGATION ? 'bg-orange-50 text-orange-500' :
                           'bg-red-50 text-red-500'
                         }`}>
-                          {t.type === TransactionType.INCOME ? <TrendingUp size={18} /> :
+                          {selecting ? <Check size={18} /> :
+                           t.type === TransactionType.INCOME ? <TrendingUp size={18} /> :
                            t.type === TransactionType.OBLIGATION ? <Receipt size={18} /> :
                            <TrendingDown size={18} />}
                         </div>
@@ -302,6 +643,10 @@ const TransactionList: React.FC<TransactionListProps> = ({
                           <div className="text-xs text-slate-500 flex items-center gap-2 flex-wrap">
                             <span className="truncate">{t.category}</span>
 
+                            {!groupByDate && (
+                              <span className="text-slate-400 whitespace-nowrap">{t.date}</span>
+                            )}
+
                             {t.time && (
                               <span className="flex items-center gap-0.5 text-slate-400 whitespace-nowrap">
                                 <Clock size={10} /> {t.time}
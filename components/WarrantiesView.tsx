@@ -3,6 +3,7 @@ import { AppSettings, WarrantyItem } from '../types';
 import { ShieldCheck, ShieldAlert, Plus, Calendar, Camera, X, Trash2, Search, AlertTriangle, FileText, ChevronRight, ScanLine, Image as ImageIcon, Maximize2 } from 'lucide-react';
 import { v4 as uuidv4 } from 'uuid';
 import ReceiptViewer from './ReceiptViewer';
+import AttachmentImage from './AttachmentImage';
 import LiveScanner from './LiveScanner';
 
 interface WarrantiesViewProps {
@@ -16,7 +17,7 @@ const WarrantiesView: React.FC<WarrantiesViewProps> = ({ settings, onUpdateSetti
   const [searchTerm, setSearchTerm] = useState('');
   
   // Viewer & Scanner States
-  const [viewingImage, setViewingImage] = useState<string | null>(null);
+  const [viewingImage, setViewingImage] = useState<{ src?: string; attachmentIds?: string[] } | null>(null);
   const [showScanner, setShowScanner] = useState(false);
   
   const fileInputRef = useRef<HTMLInputElement>(null);
@@ -56,6 +57,7 @@ const WarrantiesView: React.FC<WarrantiesViewProps> = ({ settings, onUpdateSetti
       warrantyDurationMonths: editingItem.warrantyDurationMonths || 12,
       customExpirationDate: editingItem.customExpirationDate,
       receiptImage: editingItem.receiptImage,
+      attachmentIds: editingItem.attachmentIds,
       price: editingItem.price,
       notes: editingItem.notes
     };
@@ -84,7 +86,7 @@ const WarrantiesView: React.FC<WarrantiesViewProps> = ({ settings, onUpdateSetti
     if (file) {
       const reader = new FileReader();
       reader.onloadend = () => {
-        setEditingItem(prev => ({ ...prev, receiptImage: reader.result as string }));
+        setEditingItem(prev => ({ ...prev, receiptImage: reader.result as string, attachmentIds: undefined }));
       };
       reader.readAsDataURL(file);
       // Reset value so onChange fires again if same file selected
@@ -93,7 +95,7 @@ const WarrantiesView: React.FC<WarrantiesViewProps> = ({ settings, onUpdateSetti
   };
 
   const handleScanCapture = (imageData: string) => {
-    setEditingItem(prev => ({ ...prev, receiptImage: imageData }));
+    setEditingItem(prev => ({ ...prev, receiptImage: imageData, attachmentIds: undefined }));
     setShowScanner(false);
   };
 
@@ -131,14 +133,18 @@ const WarrantiesView: React.FC<WarrantiesViewProps> = ({ settings, onUpdateSetti
            <div className="space-y-2">
               <label className="text-xs font-bold text-slate-500 mb-1 block">Receipt / Proof of Purchase</label>
               
-              {editingItem.receiptImage ? (
+              {editingItem.receiptImage || editingItem.attachmentIds?.length ? (
                 <div className="relative w-full h-64 bg-slate-800 rounded-2xl overflow-hidden border border-slate-200 group">
                    {/* We use object-top to show the header of long receipts */}
-                   <img src={editingItem.receiptImage} alt="Receipt" className="w-full h-full object-cover object-top opacity-90" />
+                   {editingItem.receiptImage ? (
+                     <img src={editingItem.receiptImage} alt="Receipt" className="w-full h-full object-cover object-top opacity-90" />
+                   ) : (
+                     <AttachmentImage attachmentId={editingItem.attachmentIds![0]} variant="full" className="w-full h-full object-cover object-top opacity-90" />
+                   )}
                    
                    <div className="absolute inset-0 bg-black/40 flex items-center justify-center opacity-0 group-hover:opacity-100 transition-opacity">
                       <button 
-                        onClick={() => setViewingImage(editingItem.receiptImage!)}
+                        onClick={() => setViewingImage(editingItem.receiptImage ? { src: editingItem.receiptImage } : { attachmentIds: editingItem.attachmentIds })}
                         className="bg-white/20 backdrop-blur-md text-white px-4 py-2 rounded-full font-bold flex items-center gap-2 hover:bg-white/30"
                       >
                          <Maximize2 size={16} /> View Full Receipt
@@ -146,7 +152,7 @@ const WarrantiesView: React.FC<WarrantiesViewProps> = ({ settings, onUpdateSetti
                    </div>
 
                    <button 
-                    onClick={() => setEditingItem(prev => ({ ...prev, receiptImage: undefined }))}
+                    onClick={() => setEditingItem(prev => ({ ...prev, receiptImage: undefined, attachmentIds: undefined }))}
                     className="absolute top-2 right-2 p-2 bg-black/60 text-white rounded-full hover:bg-red-500 transition-colors"
                    >
                      <Trash2 size={16} />
@@ -263,7 +269,7 @@ const WarrantiesView: React.FC<WarrantiesViewProps> = ({ settings, onUpdateSetti
         </div>
 
         {/* Full Screen Viewer */}
-        {viewingImage && <ReceiptViewer src={viewingImage} onClose={() => setViewingImage(null)} />}
+        {viewingImage && <ReceiptViewer {...viewingImage} onClose={() => setViewingImage(null)} />}
         
         {/* Custom Live Scanner */}
         {showScanner && <LiveScanner onCapture={handleScanCapture} onClose={() => setShowScanner(false)} />}
@@ -335,11 +341,11 @@ const WarrantiesView: React.FC<WarrantiesViewProps> = ({ settings, onUpdateSetti
                 <div className="flex gap-4 cursor-pointer" onClick={() => { setEditingItem(item); setIsEditing(true); }}>
                    {/* Thumbnail */}
                    <div className="w-16 h-16 bg-slate-100 rounded-lg shrink-0 overflow-hidden border border-slate-100 flex items-center justify-center relative">
-                      {item.receiptImage ? (
+                      {item.attachmentIds?.length ? (
                         <>
-                           <img src={item.receiptImage} alt={item.name} className="w-full h-full object-cover object-top" />
+                           <AttachmentImage attachmentId={item.attachmentIds[0]} alt={item.name} className="w-full h-full object-cover object-top" />
                            <div 
-                             onClick={(e) => { e.stopPropagation(); setViewingImage(item.receiptImage!); }}
+                             onClick={(e) => { e.stopPropagation(); setViewingImage({ attachmentIds: item.attachmentIds }); }}
                              className="absolute inset-0 bg-black/30 flex items-center justify-center opacity-0 hover:opacity-100 transition-opacity"
                            >
                              <Maximize2 size={16} className="text-white drop-shadow-md" />
@@ -379,7 +385,7 @@ const WarrantiesView: React.FC<WarrantiesViewProps> = ({ settings, onUpdateSetti
          })}
       </div>
 
-      {viewingImage && <ReceiptViewer src={viewingImage} onClose={() => setViewingImage(null)} />}
+      {viewingImage && <ReceiptViewer {...viewingImage} onClose={() => setViewingImage(null)} />}
       
       {showScanner && <LiveScanner onCapture={handleScanCapture} onClose={() => setShowScanner(false)} />}
     </div>
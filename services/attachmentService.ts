@@ -0,0 +1,96 @@
+import { Attachment, AttachmentOwnerType } from '../types';
+import { v4 as uuidv4 } from 'uuid';
+
+/**
+ * Attachments
+ * Receipt and cheque images are stored as Blobs in their own store (see indexedDBService) and
+ * records keep only their ids. Screens still hand new images over as data URLs on
+ * receiptImage / chequeImage; saving moves them into the store. These are the image helpers.
+ */
+
+const THUMBNAIL_SIZE = 240; // Longest side in pixels
+
+export function dataUrlToBlob(dataUrl: string): Blob {
+  const [header, data = ''] = dataUrl.split(',');
+  const mimeType = /data:([^;,]+)/.exec(header)?.[1] || 'image/jpeg';
+  const binary = header.includes(';base64') ? atob(data) : decodeURIComponent(data);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return new Blob([bytes], { type: mimeType });
+}
+
+export function blobToDataUrl(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
+
+/**
+ * Downscaled JPEG of an image; undefined when the browser can't decode it
+ */
+export async function createThumbnail(blob: Blob): Promise<Blob | undefined> {
+  try {
+    const bitmap = await createImageBitmap(blob);
+    const scale = Math.min(1, THUMBNAIL_SIZE / Math.max(bitmap.width, bitmap.height));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(bitmap.width * scale));
+    canvas.height = Math.max(1, Math.round(bitmap.height * scale));
+    canvas.getContext('2d')!.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    bitmap.close();
+    return await new Promise<Blob | undefined>(resolve => canvas.toBlob(b => resolve(b || undefined), 'image/jpeg', 0.7));
+  } catch (error) {
+    console.warn('Could not create thumbnail:', error);
+    return undefined;
+  }
+}
+
+/**
+ * Attachment record for an image (Blob or data URL), thumbnail included
+ */
+export async function createAttachment(ownerType: AttachmentOwnerType, ownerId: string, image: Blob | string): Promise<Attachment> {
+  const blob = typeof image === 'string' ? dataUrlToBlob(image) : image;
+  return {
+    id: uuidv4(),
+    ownerType,
+    ownerId,
+    mimeType: blob.type || 'image/jpeg',
+    size: blob.size,
+    blob,
+    thumbnail: await createThumbnail(blob),
+    createdAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * A record with an optional inline data URL image in field K
+ */
+export type InlineImageOwner<K extends PropertyKey> = { id: string; attachmentIds?: string[] } & { [P in K]?: string };
+
+/**
+ * Move a record's inline data URL image into a new attachment. Returns the record without the
+ * inline field (its id appended to attachmentIds) and the attachment to store alongside it.
+ */
+export async function extractInlineImage<K extends 'receiptImage' | 'chequeImage', T extends InlineImageOwner<K>>(
+  ownerType: AttachmentOwnerType,
+  record: T,
+  field: K
+): Promise<{ record: T; attachment?: Attachment }> {
+  const image: string | undefined = record[field];
+  if (!image) return { record };
+
+  const attachment = await createAttachment(ownerType, record.id, image);
+  const next: T = { ...record, attachmentIds: [...(record.attachmentIds || []), attachment.id] };
+  delete next[field];
+  return { record: next, attachment };
+}
+
+/**
+ * File extension for an attachment's MIME type (receipts ZIP)
+ */
+export function attachmentExtension(mimeType: string): string {
+  const subtype = mimeType.split('/')[1] || 'jpg';
+  return subtype === 'jpeg' ? 'jpg' : subtype;
+}
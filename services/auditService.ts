@@ -0,0 +1,123 @@
+import { Account, AuditContext, AuditEntry, AuditSource, GoalContribution, SavingsGoal, ScheduledTransaction, Transaction } from '../types';
+import { AuditedChanges, applyAuditedChanges, getAuditBatch } from './indexedDBService';
+import { v4 as uuidv4 } from 'uuid';
+
+/**
+ * Audit Log & Undo
+ * Every transaction and account write, and every goal deposit, is logged with before/after
+ * snapshots (see applyAuditedChanges). A user action passes one AuditContext to all of its
+ * writes, so its entries share a batch id; undo writes each entity's earliest "before" back, redo its latest
+ * "after". Undo and redo are logged too, so the history of an entity is never rewritten.
+ * Scheduled transactions are logged where they're written through applyAuditedChanges - loan
+ * schedules, and bills marked paid by a matched payment (with their next occurrence), so undoing
+ * the payment reopens the bill.
+ */
+
+export const AUDIT_SOURCE_LABELS: Record<AuditSource, string> = {
+  'ai-parse': 'Parsed',
+  'manual-entry': 'Added manually',
+  'manual-edit': 'Edited',
+  'bulk-edit': 'Bulk edit',
+  'match-confirm': 'Matched to scheduled',
+  'balance-adjustment': 'Balance adjusted',
+  'auto-balancer': 'Auto-balancer',
+  'restore': 'Restored from backup',
+  'undo': 'Undo',
+  'redo': 'Redo',
+  'system': 'Automatic',
+};
+
+export const UNDO_STACK_LIMIT = 50;
+
+/**
+ * Context for the writes of one user action
+ */
+export function newAuditContext(source: AuditSource, label?: string): AuditContext {
+  return { batchId: uuidv4(), source, label };
+}
+
+/**
+ * Write each entity in the batch back to one side of its change (one IndexedDB transaction):
+ * the state before its first write, or after its last
+ */
+async function replayBatch(batch: AuditContext, side: 'before' | 'after', context: AuditContext): Promise<number> {
+  const edges = new Map<string, AuditEntry>();
+  for (const entry of await getAuditBatch(batch.batchId)) {
+    const key = `${entry.entityType}:${entry.entityId}`;
+    if (side === 'after' || !edges.has(key)) edges.set(key, entry);
+  }
+
+  const planned = {
+    transactions: { saves: [] as Transaction[], deleteIds: [] as string[] },
+    accounts: { saves: [] as Account[], deleteIds: [] as string[] },
+    scheduled_transactions: { saves: [] as ScheduledTransaction[], deleteIds: [] as string[] },
+    savings_goals: { saves: [] as SavingsGoal[], deleteIds: [] as string[] },
+    goal_contributions: { saves: [] as GoalContribution[], deleteIds: [] as string[] },
+  } satisfies AuditedChanges;
+  const plan = <T>(target: { saves: T[]; deleteIds: string[] }, state: T | undefined, id: string) => {
+    if (state) target.saves.push(state);
+    else target.deleteIds.push(id);
+  };
+
+  for (const entry of edges.values()) {
+    switch (entry.entityType) {
+      case 'transaction':
+        plan(planned.transactions, entry[side], entry.entityId);
+        break;
+      case 'account':
+        plan(planned.accounts, entry[side], entry.entityId);
+        break;
+      case 'scheduled':
+        plan(planned.scheduled_transactions, entry[side], entry.entityId);
+        break;
+      case 'goal':
+        plan(planned.savings_goals, entry[side], entry.entityId);
+        break;
+      case 'goalContribution':
+        plan(planned.goal_contributions, entry[side], entry.entityId);
+        break;
+    }
+  }
+
+  await applyAuditedChanges(planned, context);
+  return edges.size;
+}
+
+/**
+ * Put everything a batch changed back as it was. Returns the number of entities restored.
+ */
+export async function undoBatch(batch: AuditContext): Promise<number> {
+  return replayBatch(batch, 'before', newAuditContext('undo', batch.label ? `Undo ${batch.label}` : 'Undo'));
+}
+
+/**
+ * Re-apply a batch that was undone
+ */
+export async function redoBatch(batch: AuditContext): Promise<number> {
+  return replayBatch(batch, 'after', newAuditContext('redo', batch.label ? `Redo ${batch.label}` : 'Redo'));
+}
+
+const HIDDEN_FIELDS = new Set(['id', 'attachmentIds']);
+
+/**
+ * Field-level differences for the history panel
+ */
+export function describeAuditChanges(entry: AuditEntry): { field: string; before: string; after: string }[] {
+  const before: Record<string, unknown> = { ...entry.before };
+  const after: Record<string, unknown> = { ...entry.after };
+  const format = (value: unknown) =>
+    value === undefined || value === null ? '—' : typeof value === 'object' ? JSON.stringify(value) : String(value);
+
+  const fields = Array.from(new Set([...Object.keys(before), ...Object.keys(after)]))
+    .filter(field => !HIDDEN_FIELDS.has(field) && JSON.stringify(before[field]) !== JSON.stringify(after[field]))
+    .map(field => ({ field, before: format(before[field]), after: format(after[field]) }));
+
+  const images = (record: Record<string, unknown>) => {
+    const count = Array.isArray(record.attachmentIds) ? record.attachmentIds.length : 0;
+    return count === 0 ? '—' : `${count} image${count === 1 ? '' : 's'}`;
+  };
+  if (entry.action === 'update' && JSON.stringify(before.attachmentIds || []) !== JSON.stringify(after.attachmentIds || [])) {
+    fields.push({ field: 'receipt', before: images(before), after: images(after) });
+  }
+  return fields;
+}
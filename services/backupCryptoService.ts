@@ -0,0 +1,133 @@
+import { getSetting, saveSetting, deleteSetting } from './indexedDBService';
+
+/**
+ * Backup Encryption Service
+ * Passphrase-based encryption of backup files before they leave the device.
+ *
+ * Key: PBKDF2-SHA256 over the passphrase with a random salt, stored locally as a
+ * non-extractable CryptoKey so unattended (daily/monthly) backups can encrypt
+ * without asking. Neither the passphrase nor the key is ever uploaded.
+ *
+ * File layout: MAGIC (6) | iterations (4, big-endian) | salt (16) | iv (12) | AES-GCM ciphertext
+ */
+
+const MAGIC = new TextEncoder().encode('FSENC1');
+const SALT_BYTES = 16;
+const IV_BYTES = 12;
+const HEADER_BYTES = MAGIC.length + 4 + SALT_BYTES + IV_BYTES;
+const PBKDF2_ITERATIONS = 310000;
+const KEY_SETTING = 'backupEncryptionKey'; // Device-only: in DEVICE_SETTINGS_KEYS, not BACKUP_SETTINGS_KEYS
+export const MIN_PASSPHRASE_LENGTH = 8;
+
+interface StoredBackupKey {
+  key: CryptoKey;
+  salt: Uint8Array;
+  iterations: number;
+  createdAt: string;
+}
+
+/**
+ * Thrown when an encrypted backup can't be opened with the supplied passphrase
+ */
+export class BackupPassphraseError extends Error {
+  constructor(message = 'Wrong passphrase - this backup could not be decrypted.') {
+    super(message);
+    this.name = 'BackupPassphraseError';
+  }
+}
+
+async function deriveKey(passphrase: string, salt: Uint8Array, iterations: number): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(passphrase),
+    'PBKDF2',
+    false,
+    ['deriveKey']
+  );
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false, // Non-extractable - the raw key can't be read back out of IndexedDB
+    ['encrypt', 'decrypt']
+  );
+}
+
+/**
+ * Set (or change) the backup passphrase for this device.
+ * Only affects future backups - existing ones still need the passphrase they were made with.
+ */
+export async function setBackupPassphrase(passphrase: string): Promise<void> {
+  if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+    throw new Error(`Passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters`);
+  }
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+  const key = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+  const stored: StoredBackupKey = { key, salt, iterations: PBKDF2_ITERATIONS, createdAt: new Date().toISOString() };
+  await saveSetting(KEY_SETTING, stored);
+}
+
+export async function hasBackupPassphrase(): Promise<boolean> {
+  return !!(await getSetting(KEY_SETTING));
+}
+
+export async function clearBackupPassphrase(): Promise<void> {
+  await deleteSetting(KEY_SETTING);
+}
+
+/**
+ * Check whether a downloaded backup file is encrypted (older backups are plaintext)
+ */
+export async function isEncryptedBackupFile(file: Blob): Promise<boolean> {
+  if (file.size < HEADER_BYTES) return false;
+  const head = new Uint8Array(await file.slice(0, MAGIC.length).arrayBuffer());
+  return head.every((byte, index) => byte === MAGIC[index]);
+}
+
+/**
+ * Encrypt backup content with this device's backup key
+ */
+export async function encryptBackupFile(content: string | Blob): Promise<Blob> {
+  const stored: StoredBackupKey | undefined = await getSetting(KEY_SETTING);
+  if (!stored) {
+    throw new Error('Set a backup passphrase before backing up');
+  }
+
+  const plaintext = typeof content === 'string'
+    ? new TextEncoder().encode(content)
+    : new Uint8Array(await content.arrayBuffer());
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, stored.key, plaintext);
+
+  const iterations = new Uint8Array(4);
+  new DataView(iterations.buffer).setUint32(0, stored.iterations);
+
+  return new Blob([MAGIC, iterations, stored.salt, iv, new Uint8Array(ciphertext)], { type: 'application/octet-stream' });
+}
+
+/**
+ * Decrypt a backup file with the passphrase it was made with.
+ * Throws BackupPassphraseError if the passphrase is wrong (or the file was tampered with).
+ */
+export async function decryptBackupFile(file: Blob, passphrase: string): Promise<ArrayBuffer> {
+  if (!(await isEncryptedBackupFile(file))) {
+    throw new Error('Backup file is not encrypted');
+  }
+
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  let offset = MAGIC.length;
+  const iterations = new DataView(bytes.buffer, offset, 4).getUint32(0);
+  offset += 4;
+  const salt = bytes.slice(offset, offset + SALT_BYTES);
+  offset += SALT_BYTES;
+  const iv = bytes.slice(offset, offset + IV_BYTES);
+  offset += IV_BYTES;
+
+  const key = await deriveKey(passphrase, salt, iterations);
+  try {
+    return await crypto.subtle.decrypt({ name: 'AES-GCM', iv }, key, bytes.slice(offset));
+  } catch {
+    // AES-GCM authentication fails identically for a wrong key and a corrupted file
+    throw new BackupPassphraseError();
+  }
+}
@@ -0,0 +1,703 @@
+import Papa from 'papaparse';
+import {
+  Transaction,
+  TransactionType,
+  Account,
+  Category,
+  RecurringRule,
+  WarrantyItem,
+  ScheduledTransaction,
+  SavingsGoal,
+  GoalContribution,
+  ParsingTemplate,
+  ExchangeRate,
+  Budget,
+  Reconciliation,
+  NetWorthSnapshot,
+  SecurityPrice,
+  CategorizationRule,
+} from '../types';
+
+/**
+ * Versioned backup format.
+ *
+ * A backup's data file is a JSON document: a manifest (format version, app version,
+ * entity counts and a SHA-256 per section) followed by one array per entity type.
+ * Older backups are brought up to the current version by the MIGRATIONS chain;
+ * version 1 is the legacy flat CSV of {type,id,data_json} rows.
+ */
+
+export const BACKUP_FORMAT = 'finsnap-backup';
+export const BACKUP_FORMAT_VERSION = 2;
+export const APP_VERSION = process.env.APP_VERSION || 'unknown';
+
+/**
+ * Settings store keys that belong in a backup.
+ * Device bookkeeping (lastAutoBackup, lastDailyBackup) is deliberately left out.
+ */
+export const BACKUP_SETTINGS_KEYS = [
+  'baseCurrency',
+  'gradientStartColor',
+  'gradientEndColor',
+  'gradientAngle',
+  'autoBalancerEnabled',
+  'biometricEnabled',
+  'autoBackupMonthly',
+  'dailyAutoBackupEnabled',
+  'parserProvider',
+  'parserFallbackEnabled',
+  'savedSearches',
+  'receiptRetentionPolicy',
+];
+
+export interface BackupSections {
+  transactions: Transaction[];
+  accounts: Account[];
+  categories: Category[];
+  recurringRules: RecurringRule[];
+  warranties: WarrantyItem[];
+  scheduledTransactions: ScheduledTransaction[];
+  savingsGoals: SavingsGoal[];
+  goalContributions: GoalContribution[];
+  parsingTemplates: ParsingTemplate[];
+  exchangeRates: ExchangeRate[];
+  budgets: Budget[];
+  reconciliations: Reconciliation[];
+  netWorthSnapshots: NetWorthSnapshot[];
+  securityPrices: SecurityPrice[];
+  categorizationRules: CategorizationRule[];
+  settings: Record<string, unknown>;
+}
+
+export type BackupSectionName = keyof BackupSections;
+
+export const BACKUP_SECTION_NAMES: BackupSectionName[] = [
+  'transactions',
+  'accounts',
+  'categories',
+  'recurringRules',
+  'warranties',
+  'scheduledTransactions',
+  'savingsGoals',
+  'goalContributions',
+  'parsingTemplates',
+  'exchangeRates',
+  'budgets',
+  'reconciliations',
+  'netWorthSnapshots',
+  'securityPrices',
+  'categorizationRules',
+  'settings',
+];
+
+export interface BackupManifest {
+  format: typeof BACKUP_FORMAT;
+  formatVersion: number;
+  appVersion: string;
+  createdAt: string;
+  sections: Record<BackupSectionName, { count: number; sha256: string }>;
+}
+
+export interface BackupDocument {
+  manifest: BackupManifest;
+  sections: BackupSections;
+}
+
+export interface EntityIssue {
+  id: string;
+  errors: string[];
+}
+
+export interface SectionReport {
+  total: number;
+  valid: number;
+  invalid: EntityIssue[];
+  checksumOk: boolean;
+}
+
+/**
+ * Result of inspecting a backup without touching local data
+ */
+export interface RestoreReport {
+  sourceVersion: number; // Format version the file was written with
+  migrated: boolean;
+  appVersion: string;
+  createdAt: string | null;
+  sections: Record<BackupSectionName, SectionReport>;
+  warnings: string[];
+  canRestore: boolean; // False when the file is corrupt (checksum mismatch) or from a newer app
+}
+
+// ---------- Schemas ----------
+
+type FieldType = 'string' | 'number' | 'boolean' | 'array' | 'object';
+type FieldSpec = FieldType | `${FieldType}?`;
+type EntitySchema = Record<string, FieldSpec>;
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}/;
+
+const SCHEMAS: Record<Exclude<BackupSectionName, 'settings'>, EntitySchema> = {
+  transactions: {
+    id: 'string',
+    amount: 'number',
+    currency: 'string',
+    merchant: 'string',
+    date: 'string',
+    category: 'string',
+    type: 'string',
+    time: 'string?',
+    accountId: 'string?',
+    toAccountId: 'string?',
+    originalAmount: 'number?',
+    originalCurrency: 'string?',
+    exchangeRate: 'number?',
+    tags: 'array?',
+    parsedMeta: 'object?',
+    isTransfer: 'boolean?',
+    goalContributionId: 'string?',
+    investmentAction: 'string?',
+    investmentAccountId: 'string?',
+    symbol: 'string?',
+    quantity: 'number?',
+    unitPrice: 'number?',
+  },
+  accounts: {
+    id: 'string',
+    name: 'string',
+    type: 'string',
+    color: 'string',
+    currency: 'string',
+    balance: 'number',
+    totalCreditLimit: 'number?',
+    paymentDueDay: 'number?',
+    statementClosingDay: 'number?',
+    apr: 'number?',
+    minimumPayment: 'object?',
+    loanInterestRate: 'number?',
+  },
+  categories: {
+    id: 'string',
+    name: 'string',
+    color: 'string',
+    monthlyBudget: 'number?',
+    order: 'number?',
+  },
+  recurringRules: {
+    id: 'string',
+    merchantKeyword: 'string',
+    category: 'string?',
+    dueDay: 'number?',
+    avgAmount: 'number?',
+  },
+  warranties: {
+    id: 'string',
+    name: 'string',
+    purchaseDate: 'string',
+    warrantyDurationMonths: 'number',
+    price: 'number?',
+  },
+  scheduledTransactions: {
+    id: 'string',
+    amount: 'number',
+    currency: 'string',
+    merchant: 'string',
+    category: 'string',
+    type: 'string',
+    dueDate: 'string',
+    status: 'string',
+    recurrenceInterval: 'number?',
+    statementAccountId: 'string?',
+    statementClosingDate: 'string?',
+    minimumDue: 'number?',
+    loanAccountId: 'string?',
+    installmentNumber: 'number?',
+    payToAccountId: 'string?',
+  },
+  savingsGoals: {
+    id: 'string',
+    name: 'string',
+    targetAmount: 'number',
+    currentAmount: 'number',
+    currency: 'string',
+    color: 'string',
+  },
+  goalContributions: {
+    id: 'string',
+    goalId: 'string',
+    amount: 'number',
+    date: 'string',
+  },
+  parsingTemplates: {
+    id: 'string',
+    sender: 'string',
+    pattern: 'string',
+    groups: 'object',
+    sampleText: 'string',
+    enabled: 'boolean',
+    hitCount: 'number',
+    createdAt: 'string',
+  },
+  exchangeRates: {
+    id: 'string',
+    currency: 'string',
+    baseCurrency: 'string',
+    rate: 'number',
+    date: 'string',
+    source: 'string',
+  },
+  budgets: {
+    id: 'string',
+    amount: 'number',
+    period: 'string',
+    rollover: 'boolean',
+    startDate: 'string',
+    incomeAllocationPercent: 'number?',
+    alertThresholds: 'array?',
+  },
+  reconciliations: {
+    id: 'string',
+    accountId: 'string',
+    statementDate: 'string',
+    openingBalance: 'number',
+    closingBalance: 'number',
+    status: 'string',
+    clearedTransactionIds: 'array',
+    difference: 'number?',
+  },
+  netWorthSnapshots: {
+    id: 'string',
+    date: 'string',
+    baseCurrency: 'string',
+    accounts: 'array',
+    assets: 'number',
+    liabilities: 'number',
+    netWorth: 'number',
+    source: 'string',
+  },
+  securityPrices: {
+    id: 'string',
+    symbol: 'string',
+    price: 'number',
+    currency: 'string?',
+    date: 'string',
+    source: 'string',
+  },
+  categorizationRules: {
+    id: 'string',
+    name: 'string',
+    enabled: 'boolean',
+    priority: 'number',
+    conditions: 'object',
+    actions: 'object',
+    stopProcessing: 'boolean?',
+  },
+};
+
+const SETTING_TYPES: Record<string, FieldType> = {
+  baseCurrency: 'string',
+  gradientStartColor: 'string',
+  gradientEndColor: 'string',
+  gradientAngle: 'number',
+  autoBalancerEnabled: 'boolean',
+  biometricEnabled: 'boolean',
+  autoBackupMonthly: 'boolean',
+  dailyAutoBackupEnabled: 'boolean',
+  parserProvider: 'string',
+  parserFallbackEnabled: 'boolean',
+  savedSearches: 'array',
+  receiptRetentionPolicy: 'object',
+};
+
+function typeOf(value: unknown): FieldType | 'null' | 'undefined' | 'other' {
+  if (value === undefined) return 'undefined';
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  const t = typeof value;
+  if (t === 'number') return Number.isFinite(value as number) ? 'number' : 'other';
+  if (t === 'string' || t === 'boolean' || t === 'object') return t;
+  return 'other';
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeOf(value) === 'object';
+}
+
+/**
+ * Identify an entity in a report - by id when it has one, otherwise by its position
+ */
+function entityKey(entity: unknown, index: number): string {
+  return isRecord(entity) && typeof entity.id === 'string' ? entity.id : `#${index + 1}`;
+}
+
+function checkSchema(entity: Record<string, unknown>, schema: EntitySchema): string[] {
+  const errors: string[] = [];
+  for (const [field, spec] of Object.entries(schema)) {
+    const optional = spec.endsWith('?');
+    const expected = spec.replace('?', '') as FieldType;
+    const actual = typeOf(entity[field]);
+    if (actual === 'undefined' || actual === 'null') {
+      if (!optional) errors.push(`missing ${field}`);
+    } else if (actual !== expected) {
+      errors.push(`${field} should be ${expected}, got ${actual}`);
+    }
+  }
+  return errors;
+}
+
+const TRANSACTION_TYPES = Object.values(TransactionType) as string[];
+const SCHEDULED_STATUSES = ['PENDING', 'PAID', 'SKIPPED', 'OVERDUE'];
+const BUDGET_PERIODS = ['WEEKLY', 'MONTHLY', 'YEARLY'];
+const RECONCILIATION_STATUSES = ['IN_PROGRESS', 'LOCKED'];
+
+/**
+ * Field-level checks beyond basic types
+ */
+function checkRules(section: BackupSectionName, entity: Record<string, unknown>): string[] {
+  const errors: string[] = [];
+  switch (section) {
+    case 'transactions':
+      if (typeof entity.type === 'string' && !TRANSACTION_TYPES.includes(entity.type)) errors.push(`unknown type ${entity.type}`);
+      if (typeof entity.date === 'string' && !ISO_DATE.test(entity.date)) errors.push(`date is not ISO (${entity.date})`);
+      break;
+    case 'scheduledTransactions':
+      if (typeof entity.type === 'string' && !TRANSACTION_TYPES.includes(entity.type)) errors.push(`unknown type ${entity.type}`);
+      if (typeof entity.status === 'string' && !SCHEDULED_STATUSES.includes(entity.status)) errors.push(`unknown status ${entity.status}`);
+      if (typeof entity.dueDate === 'string' && !ISO_DATE.test(entity.dueDate)) errors.push(`dueDate is not ISO (${entity.dueDate})`);
+      break;
+    case 'goalContributions':
+      if (typeof entity.date === 'string' && !ISO_DATE.test(entity.date)) errors.push(`date is not ISO (${entity.date})`);
+      break;
+    case 'exchangeRates':
+      if (typeof entity.date === 'string' && !ISO_DATE.test(entity.date)) errors.push(`date is not ISO (${entity.date})`);
+      if (typeof entity.rate === 'number' && entity.rate <= 0) errors.push('rate must be positive');
+      break;
+    case 'budgets':
+      if (!entity.categoryId && !entity.accountId) errors.push('budget has no category or account');
+      if (typeof entity.period === 'string' && !BUDGET_PERIODS.includes(entity.period)) errors.push(`unknown period ${entity.period}`);
+      if (typeof entity.startDate === 'string' && !ISO_DATE.test(entity.startDate)) errors.push(`startDate is not ISO (${entity.startDate})`);
+      break;
+    case 'reconciliations':
+      if (typeof entity.status === 'string' && !RECONCILIATION_STATUSES.includes(entity.status)) errors.push(`unknown status ${entity.status}`);
+      if (typeof entity.statementDate === 'string' && !ISO_DATE.test(entity.statementDate)) errors.push(`statementDate is not ISO (${entity.statementDate})`);
+      break;
+    case 'netWorthSnapshots':
+      if (typeof entity.date === 'string' && !ISO_DATE.test(entity.date)) errors.push(`date is not ISO (${entity.date})`);
+      break;
+    case 'securityPrices':
+      if (typeof entity.date === 'string' && !ISO_DATE.test(entity.date)) errors.push(`date is not ISO (${entity.date})`);
+      if (typeof entity.price === 'number' && entity.price < 0) errors.push('price must not be negative');
+      break;
+    case 'categorizationRules':
+      if (isRecord(entity.conditions) && typeof entity.conditions.merchantPattern === 'string') {
+        try {
+          new RegExp(entity.conditions.merchantPattern);
+        } catch {
+          errors.push('merchantPattern is not a valid regular expression');
+        }
+      }
+      break;
+    case 'parsingTemplates':
+      if (typeof entity.pattern === 'string') {
+        try {
+          new RegExp(entity.pattern);
+        } catch {
+          errors.push('pattern is not a valid regular expression');
+        }
+      }
+      break;
+  }
+  return errors;
+}
+
+/**
+ * Validate a single entity against its section schema. Returns a list of problems (empty = valid).
+ */
+export function validateEntity(section: BackupSectionName, entity: unknown): string[] {
+  if (section === 'settings') return [];
+  if (!isRecord(entity)) return ['not an object'];
+  const errors = checkSchema(entity, SCHEMAS[section]);
+  return errors.length > 0 ? errors : checkRules(section, entity);
+}
+
+function validateSetting(key: string, value: unknown): string[] {
+  const expected = SETTING_TYPES[key];
+  if (!expected) return [`unknown setting`];
+  const actual = typeOf(value);
+  return actual === expected ? [] : [`should be ${expected}, got ${actual}`];
+}
+
+// ---------- Checksums ----------
+
+async function sha256(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest))
+    .map(b => b.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+function sectionCount(sections: BackupSections, name: BackupSectionName): number {
+  const section = sections[name];
+  return Array.isArray(section) ? section.length : Object.keys(section).length;
+}
+
+async function buildManifest(sections: BackupSections, createdAt: string): Promise<BackupManifest> {
+  const entries = await Promise.all(
+    BACKUP_SECTION_NAMES.map(async name => [
+      name,
+      { count: sectionCount(sections, name), sha256: await sha256(JSON.stringify(sections[name])) },
+    ] as const)
+  );
+
+  return {
+    format: BACKUP_FORMAT,
+    formatVersion: BACKUP_FORMAT_VERSION,
+    appVersion: APP_VERSION,
+    createdAt,
+    sections: Object.fromEntries(entries) as BackupManifest['sections'],
+  };
+}
+
+/**
+ * Wrap exported sections in a manifest and serialise the whole document
+ */
+export async function serializeBackup(sections: BackupSections): Promise<string> {
+  const manifest = await buildManifest(sections, new Date().toISOString());
+  const document: BackupDocument = { manifest, sections };
+  return JSON.stringify(document);
+}
+
+// ---------- Migrations ----------
+
+const emptySections = (): BackupSections => ({
+  transactions: [],
+  accounts: [],
+  categories: [],
+  recurringRules: [],
+  warranties: [],
+  scheduledTransactions: [],
+  savingsGoals: [],
+  goalContributions: [],
+  parsingTemplates: [],
+  exchangeRates: [],
+  budgets: [],
+  reconciliations: [],
+  netWorthSnapshots: [],
+  securityPrices: [],
+  categorizationRules: [],
+  settings: {},
+});
+
+// Legacy CSV row types -> section names
+const LEGACY_ROW_TYPES: Record<string, Exclude<BackupSectionName, 'settings'>> = {
+  transaction: 'transactions',
+  account: 'accounts',
+  category: 'categories',
+  recurring_rule: 'recurringRules',
+  warranty: 'warranties',
+  scheduled_transaction: 'scheduledTransactions',
+  savings_goal: 'savingsGoals',
+  goal_contribution: 'goalContributions',
+  parsing_template: 'parsingTemplates',
+  exchange_rate: 'exchangeRates',
+  budget: 'budgets',
+  reconciliation: 'reconciliations',
+  net_worth_snapshot: 'netWorthSnapshots',
+  security_price: 'securityPrices',
+  categorization_rule: 'categorizationRules',
+};
+
+interface LegacyBackupRow {
+  type: string;
+  id: string;
+  data_json: string;
+}
+
+/**
+ * Each migration takes a document at version N (the key) and returns version N + 1.
+ * Version 1 documents are the raw CSV text.
+ */
+const MIGRATIONS: Record<number, (input: unknown, warnings: string[]) => unknown> = {
+  1: (csv, warnings) => {
+    if (typeof csv !== 'string') throw new Error('Legacy backup is not CSV text');
+    const parsed = Papa.parse<LegacyBackupRow>(csv, { header: true, skipEmptyLines: true });
+    if (parsed.errors.length > 0) {
+      throw new Error(`CSV parsing failed: ${parsed.errors[0].message}`);
+    }
+
+    const entities: Partial<Record<Exclude<BackupSectionName, 'settings'>, unknown[]>> = {};
+    const settings: Record<string, unknown> = {};
+    for (const row of parsed.data) {
+      let data: unknown;
+      try {
+        data = JSON.parse(row.data_json);
+      } catch {
+        warnings.push(`Skipped unreadable ${row.type} row ${row.id}`);
+        continue;
+      }
+
+      if (row.type === 'setting') {
+        settings[row.id] = data;
+      } else if (LEGACY_ROW_TYPES[row.type]) {
+        const name = LEGACY_ROW_TYPES[row.type];
+        if (!entities[name]) entities[name] = [];
+        entities[name].push(data);
+      } else {
+        warnings.push(`Skipped unknown row type "${row.type}"`);
+      }
+    }
+    return { sections: { ...entities, settings } };
+  },
+};
+
+function detectVersion(content: string): { version: number; input: unknown } {
+  const trimmed = content.trim();
+  if (!trimmed.startsWith('{')) {
+    return { version: 1, input: content };
+  }
+
+  let document: unknown;
+  try {
+    document = JSON.parse(trimmed);
+  } catch (error) {
+    throw new Error(`Backup file is not valid JSON: ${error instanceof Error ? error.message : error}`);
+  }
+  if (
+    !isRecord(document) ||
+    !isRecord(document.manifest) ||
+    document.manifest.format !== BACKUP_FORMAT ||
+    typeof document.manifest.formatVersion !== 'number'
+  ) {
+    throw new Error('Backup file has no recognisable manifest');
+  }
+  return { version: document.manifest.formatVersion, input: document };
+}
+
+/**
+ * Pull the sections out of a migrated document, checking each has the right shape.
+ * The entities inside are still unchecked - inspectBackup validates them one by one.
+ */
+function readSections(document: unknown): BackupSections {
+  const raw = isRecord(document) && isRecord(document.sections) ? document.sections : {};
+  for (const name of BACKUP_SECTION_NAMES) {
+    const section = raw[name];
+    if (section === undefined) continue;
+    if (name === 'settings' ? !isRecord(section) : !Array.isArray(section)) {
+      throw new Error(`Backup section ${name} is damaged`);
+    }
+  }
+  return { ...emptySections(), ...raw } as BackupSections;
+}
+
+/**
+ * The manifest of a current-version document (detectVersion has already checked it exists)
+ */
+function readManifest(document: unknown): BackupManifest | undefined {
+  if (!isRecord(document) || !isRecord(document.manifest) || !isRecord(document.manifest.sections)) return undefined;
+  return document.manifest as unknown as BackupManifest;
+}
+
+export interface ParsedBackup {
+  document: BackupDocument;
+  report: RestoreReport;
+}
+
+/**
+ * Parse a backup data file of any supported version, migrate it forward and
+ * validate every entity. Nothing is written - this is the dry run shown before restoring.
+ */
+export async function inspectBackup(content: string): Promise<ParsedBackup> {
+  const { version, input } = detectVersion(content);
+  const warnings: string[] = [];
+
+  if (version > BACKUP_FORMAT_VERSION) {
+    throw new Error(
+      `This backup was made by a newer version of FinSnap (format v${version}). Update the app to restore it.`
+    );
+  }
+
+  let current = input;
+  for (let v = version; v < BACKUP_FORMAT_VERSION; v++) {
+    const migrate = MIGRATIONS[v];
+    if (!migrate) throw new Error(`No migration from backup format v${v}`);
+    current = migrate(current, warnings);
+  }
+
+  const sections = readSections(current);
+
+  // Checksums only exist for files that were written with a manifest
+  const original = version === BACKUP_FORMAT_VERSION ? readManifest(current) : undefined;
+  const manifest = original || await buildManifest(sections, new Date().toISOString());
+
+  const report: RestoreReport = {
+    sourceVersion: version,
+    migrated: version < BACKUP_FORMAT_VERSION,
+    appVersion: original?.appVersion || 'unknown',
+    createdAt: original?.createdAt || null,
+    sections: {} as RestoreReport['sections'],
+    warnings,
+    canRestore: true,
+  };
+
+  for (const name of BACKUP_SECTION_NAMES) {
+    const expected = manifest.sections?.[name];
+    // A section added after the file was written has no manifest entry - fine as long as it is empty
+    const checksumOk = !original || (expected
+      ? expected.sha256 === await sha256(JSON.stringify(sections[name]))
+      : sectionCount(sections, name) === 0);
+    if (!checksumOk) {
+      report.canRestore = false;
+      warnings.push(`Checksum mismatch in ${name} - the file is damaged or was edited`);
+    }
+    if (expected && expected.count !== sectionCount(sections, name)) {
+      warnings.push(`${name}: manifest lists ${expected.count} but file contains ${sectionCount(sections, name)}`);
+    }
+
+    const invalid: EntityIssue[] = [];
+    if (name === 'settings') {
+      for (const [key, value] of Object.entries(sections.settings)) {
+        const errors = validateSetting(key, value);
+        if (errors.length > 0) invalid.push({ id: key, errors });
+      }
+    } else {
+      const entities: unknown[] = sections[name];
+      entities.forEach((entity, index) => {
+        const errors = validateEntity(name, entity);
+        if (errors.length > 0) invalid.push({ id: entityKey(entity, index), errors });
+      });
+    }
+
+    const total = sectionCount(sections, name);
+    report.sections[name] = { total, valid: total - invalid.length, invalid, checksumOk };
+  }
+
+  // Dangling references won't break the restore, but are worth knowing about
+  const accountIds = new Set(sections.accounts.map(a => a?.id));
+  const orphaned = sections.transactions.filter(t => t?.accountId && !accountIds.has(t.accountId)).length;
+  if (orphaned > 0) warnings.push(`${orphaned} transaction(s) reference accounts that are not in the backup`);
+
+  const goalIds = new Set(sections.savingsGoals.map(g => g?.id));
+  const orphanedContributions = sections.goalContributions.filter(c => c && !goalIds.has(c.goalId)).length;
+  if (orphanedContributions > 0) warnings.push(`${orphanedContributions} goal contribution(s) reference missing goals`);
+
+  return { document: { manifest, sections }, report };
+}
+
+/**
+ * Drop entities that failed validation so only clean records are written
+ */
+export function validEntities<K extends BackupSectionName>(
+  document: BackupDocument,
+  report: RestoreReport,
+  name: K
+): BackupSections[K] {
+  const invalidIds = new Set(report.sections[name].invalid.map(i => i.id));
+  const section: unknown[] | Record<string, unknown> = document.sections[name];
+  if (!Array.isArray(section)) {
+    return Object.fromEntries(
+      Object.entries(section).filter(([key]) => !invalidIds.has(key))
+    ) as BackupSections[K];
+  }
+  return section.filter(
+    (entity, index) => !invalidIds.has(entityKey(entity, index))
+  ) as BackupSections[K];
+}
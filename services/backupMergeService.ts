@@ -0,0 +1,448 @@
+import { StoreNames, StoreValue } from 'idb';
+import { Attachment, AttachmentOwnerType, AuditEntry, Transaction } from '../types';
+import {
+  FinSnapDB,
+  initDB,
+  getAllTransactions,
+  getAllAccounts,
+  getAllCategories,
+  getAllRecurringRules,
+  getAllWarranties,
+  getAllScheduledTransactions,
+  getAllSavingsGoals,
+  getAllGoalContributions,
+  getAllParsingTemplates,
+  getAllExchangeRates,
+  getAllBudgets,
+  getAllReconciliations,
+  getAllNetWorthSnapshots,
+  getAllSecurityPrices,
+  getAllCategorizationRules,
+  getAllDeletedRecords,
+  getSetting,
+  buildAuditEntry,
+} from './indexedDBService';
+import { newAuditContext } from './auditService';
+import {
+  BACKUP_SECTION_NAMES,
+  BACKUP_SETTINGS_KEYS,
+  BackupSectionName,
+  BackupSections,
+  RestoreReport,
+  inspectBackup,
+  validEntities,
+} from './backupFormatService';
+import { extractReceipts, receiptImagesFor } from './backupService';
+import { InlineImageOwner, createAttachment } from './attachmentService';
+
+/**
+ * How to resolve one entity type when merging a backup into local data.
+ * - keep-local:    add what's only in the backup; local wins conflicts; local deletions stick
+ * - prefer-backup: add what's only in the backup; backup wins conflicts; deleted records come back
+ * - newest:        like keep-local, but a conflict goes to whichever side was modified last (when known)
+ * - skip:          leave this entity type untouched
+ */
+export type MergeStrategy = 'keep-local' | 'prefer-backup' | 'newest' | 'skip';
+
+type EntitySectionName = Exclude<BackupSectionName, 'settings'>;
+
+// Settings are key/value pairs - wrapped so they plan like any other entity
+interface SettingEntry {
+  id: string;
+  value: unknown;
+}
+
+type SectionEntity<N extends BackupSectionName> = N extends EntitySectionName ? BackupSections[N][number] : SettingEntry;
+type MergeEntity = SectionEntity<BackupSectionName>;
+
+export interface MergeConflict<T extends MergeEntity = MergeEntity> {
+  local: T;
+  backup: T;
+  matchedBy: 'id' | 'fingerprint';
+  newer: 'local' | 'backup' | 'unknown';
+}
+
+export interface SectionMergePlan<T extends MergeEntity = MergeEntity> {
+  onlyInBackup: T[];
+  deletedLocally: T[]; // In the backup, but deleted on this device since
+  conflicts: MergeConflict<T>[];
+  identical: number;
+  onlyLocal: number; // Always kept - merging never deletes
+}
+
+export interface MergePlan {
+  report: RestoreReport;
+  sections: { [N in BackupSectionName]: SectionMergePlan<SectionEntity<N>> };
+}
+
+export interface MergeResult {
+  added: number;
+  updated: number;
+  undeleted: number;
+}
+
+const STORE_NAMES = {
+  transactions: 'transactions',
+  accounts: 'accounts',
+  categories: 'categories',
+  recurringRules: 'recurring_rules',
+  warranties: 'warranties',
+  scheduledTransactions: 'scheduled_transactions',
+  savingsGoals: 'savings_goals',
+  goalContributions: 'goal_contributions',
+  parsingTemplates: 'parsing_templates',
+  exchangeRates: 'exchange_rates',
+  budgets: 'budgets',
+  reconciliations: 'reconciliations',
+  netWorthSnapshots: 'net_worth_snapshots',
+  securityPrices: 'security_prices',
+  categorizationRules: 'categorization_rules',
+} as const satisfies Record<EntitySectionName, StoreNames<FinSnapDB>>;
+
+// Images are carried in the receipts ZIP, so they never count as a difference
+const IGNORED_FIELDS = ['receiptImage', 'chequeImage', 'attachmentIds'];
+
+type ImageField = 'receiptImage' | 'chequeImage';
+
+// Receipt ZIP key prefix, attachment owner type and legacy inline field for sections with images
+const ATTACHMENTS: Partial<Record<EntitySectionName, { prefix: string; ownerType: AttachmentOwnerType; field: ImageField }>> = {
+  transactions: { prefix: 'transaction', ownerType: 'transaction', field: 'receiptImage' },
+  warranties: { prefix: 'warranty', ownerType: 'warranty', field: 'receiptImage' },
+  scheduledTransactions: { prefix: 'cheque', ownerType: 'scheduled', field: 'chequeImage' },
+};
+
+export const DEFAULT_MERGE_STRATEGIES: Record<BackupSectionName, MergeStrategy> = {
+  transactions: 'keep-local',
+  accounts: 'keep-local',
+  categories: 'keep-local',
+  recurringRules: 'keep-local',
+  warranties: 'keep-local',
+  scheduledTransactions: 'newest',
+  savingsGoals: 'keep-local',
+  goalContributions: 'keep-local',
+  parsingTemplates: 'newest',
+  exchangeRates: 'newest',
+  budgets: 'newest',
+  reconciliations: 'keep-local',
+  netWorthSnapshots: 'newest',
+  securityPrices: 'newest',
+  categorizationRules: 'newest',
+  settings: 'keep-local',
+};
+
+/**
+ * Identify a transaction by its content rather than its id, so the same
+ * purchase entered on two devices (or re-parsed from SMS) is treated as one.
+ */
+export function transactionFingerprint(tx: Pick<Transaction, 'date' | 'amount' | 'merchant' | 'type' | 'accountId'>): string {
+  return [
+    tx.date,
+    Number(tx.amount).toFixed(2),
+    (tx.merchant || '').trim().toLowerCase().replace(/\s+/g, ' '),
+    tx.type,
+    tx.accountId || '',
+  ].join('|');
+}
+
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+  if (value && typeof value === 'object') {
+    return `{${Object.entries(value)
+      .filter(([key, field]) => !IGNORED_FIELDS.includes(key) && field !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+      .map(([key, field]) => `${JSON.stringify(key)}:${stableStringify(field)}`)
+      .join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+function sameContent(local: MergeEntity, backup: MergeEntity, ignoreId = false): boolean {
+  if (ignoreId) {
+    const { id: _l, ...localRest } = local;
+    const { id: _b, ...backupRest } = backup;
+    return stableStringify(localRest) === stableStringify(backupRest);
+  }
+  return stableStringify(local) === stableStringify(backup);
+}
+
+// The timestamps entity types may carry - every entity has an id, so any of them fits
+interface Timestamped {
+  id: string;
+  createdAt?: string;
+  updatedAt?: string;
+  lockedAt?: string;
+  lastUsedAt?: string;
+}
+
+// Last-modified timestamp where the entity type records one
+function modifiedAt(section: BackupSectionName, entity: Timestamped): string | undefined {
+  switch (section) {
+    case 'scheduledTransactions':
+      return entity.updatedAt || entity.createdAt;
+    case 'goalContributions':
+      return entity.createdAt;
+    case 'parsingTemplates':
+      return entity.lastUsedAt || entity.createdAt;
+    case 'exchangeRates':
+      return entity.createdAt;
+    case 'budgets':
+      return entity.updatedAt || entity.createdAt;
+    case 'reconciliations':
+      return entity.updatedAt || entity.lockedAt || entity.createdAt;
+    case 'netWorthSnapshots':
+      return entity.updatedAt || entity.createdAt;
+    case 'securityPrices':
+      return entity.createdAt;
+    case 'categorizationRules':
+      return entity.updatedAt || entity.createdAt;
+    default:
+      return undefined;
+  }
+}
+
+function whichIsNewer(section: BackupSectionName, local: Timestamped, backup: Timestamped): MergeConflict['newer'] {
+  const localTime = modifiedAt(section, local);
+  const backupTime = modifiedAt(section, backup);
+  if (!localTime || !backupTime || localTime === backupTime) return 'unknown';
+  return localTime > backupTime ? 'local' : 'backup';
+}
+
+/**
+ * Match backup entities to local ones by id - or, when a fingerprint is given, by content for
+ * local entities no backup entity claims by id.
+ */
+function planSection<T extends MergeEntity>(
+  section: BackupSectionName,
+  localItems: T[],
+  backupItems: T[],
+  deletedIds: Set<string>,
+  fingerprint?: (item: T) => string
+): SectionMergePlan<T> {
+  const plan: SectionMergePlan<T> = { onlyInBackup: [], deletedLocally: [], conflicts: [], identical: 0, onlyLocal: 0 };
+  const localById = new Map(localItems.map(item => [item.id, item]));
+  const matchedLocalIds = new Set<string>();
+
+  // Local entities not claimed by id, grouped by fingerprint (duplicates are consumed one at a time)
+  const localByFingerprint = new Map<string, T[]>();
+  if (fingerprint) {
+    const backupIds = new Set(backupItems.map(item => item.id));
+    for (const item of localItems) {
+      if (backupIds.has(item.id)) continue;
+      const key = fingerprint(item);
+      localByFingerprint.set(key, [...(localByFingerprint.get(key) || []), item]);
+    }
+  }
+
+  for (const backup of backupItems) {
+    let local = localById.get(backup.id);
+    let matchedBy: MergeConflict['matchedBy'] = 'id';
+
+    if (!local && fingerprint) {
+      const candidates = localByFingerprint.get(fingerprint(backup));
+      if (candidates && candidates.length > 0) {
+        local = candidates.shift();
+        matchedBy = 'fingerprint';
+      }
+    }
+
+    if (local) {
+      matchedLocalIds.add(local.id);
+      if (sameContent(local, backup, matchedBy === 'fingerprint')) {
+        plan.identical++;
+      } else {
+        plan.conflicts.push({ local, backup, matchedBy, newer: whichIsNewer(section, local, backup) });
+      }
+    } else if (section !== 'settings' && deletedIds.has(`${STORE_NAMES[section]}:${backup.id}`)) {
+      plan.deletedLocally.push(backup);
+    } else {
+      plan.onlyInBackup.push(backup);
+    }
+  }
+
+  plan.onlyLocal = localItems.filter(item => !matchedLocalIds.has(item.id)).length;
+  return plan;
+}
+
+/**
+ * Compare a backup with local data without writing anything.
+ * Entities that fail validation are left out of the plan (they're listed in plan.report).
+ */
+export async function planMerge(data: string): Promise<MergePlan> {
+  const { document, report } = await inspectBackup(data);
+  if (!report.canRestore) {
+    throw new Error(`Backup failed verification: ${report.warnings.join('; ')}`);
+  }
+
+  const deletedIds = new Set((await getAllDeletedRecords()).map(r => `${r.storeName}:${r.id}`));
+  const entities = async <T extends MergeEntity>(name: EntitySectionName, local: Promise<T[]>, backup: T[]) =>
+    planSection(name, await local, backup, deletedIds);
+
+  const localSettings: SettingEntry[] = [];
+  for (const key of BACKUP_SETTINGS_KEYS) {
+    const value = await getSetting(key);
+    if (value !== undefined) localSettings.push({ id: key, value });
+  }
+  const backupSettings = Object.entries(validEntities(document, report, 'settings')).map(([id, value]) => ({ id, value }));
+
+  const sections: MergePlan['sections'] = {
+    // Transactions also match by content, so the same purchase entered on two devices merges
+    transactions: planSection<Transaction>(
+      'transactions',
+      await getAllTransactions(),
+      validEntities(document, report, 'transactions'),
+      deletedIds,
+      transactionFingerprint
+    ),
+    accounts: await entities('accounts', getAllAccounts(), validEntities(document, report, 'accounts')),
+    categories: await entities('categories', getAllCategories(), validEntities(document, report, 'categories')),
+    recurringRules: await entities('recurringRules', getAllRecurringRules(), validEntities(document, report, 'recurringRules')),
+    warranties: await entities('warranties', getAllWarranties(), validEntities(document, report, 'warranties')),
+    scheduledTransactions: await entities('scheduledTransactions', getAllScheduledTransactions(), validEntities(document, report, 'scheduledTransactions')),
+    savingsGoals: await entities('savingsGoals', getAllSavingsGoals(), validEntities(document, report, 'savingsGoals')),
+    goalContributions: await entities('goalContributions', getAllGoalContributions(), validEntities(document, report, 'goalContributions')),
+    parsingTemplates: await entities('parsingTemplates', getAllParsingTemplates(), validEntities(document, report, 'parsingTemplates')),
+    exchangeRates: await entities('exchangeRates', getAllExchangeRates(), validEntities(document, report, 'exchangeRates')),
+    budgets: await entities('budgets', getAllBudgets(), validEntities(document, report, 'budgets')),
+    reconciliations: await entities('reconciliations', getAllReconciliations(), validEntities(document, report, 'reconciliations')),
+    netWorthSnapshots: await entities('netWorthSnapshots', getAllNetWorthSnapshots(), validEntities(document, report, 'netWorthSnapshots')),
+    securityPrices: await entities('securityPrices', getAllSecurityPrices(), validEntities(document, report, 'securityPrices')),
+    categorizationRules: await entities('categorizationRules', getAllCategorizationRules(), validEntities(document, report, 'categorizationRules')),
+    settings: planSection('settings', localSettings, backupSettings, new Set()),
+  };
+
+  return { report, sections };
+}
+
+function conflictWinner(conflict: MergeConflict, strategy: MergeStrategy): 'local' | 'backup' {
+  if (strategy === 'prefer-backup') return 'backup';
+  if (strategy === 'newest' && conflict.newer === 'backup') return 'backup';
+  return 'local';
+}
+
+/**
+ * Apply a merge plan with the chosen per-type strategies.
+ * Every write happens in a single IndexedDB transaction, so a failure leaves local data untouched.
+ */
+export async function applyMerge(
+  plan: MergePlan,
+  strategies: Record<BackupSectionName, MergeStrategy>,
+  receiptsBlob: Blob
+): Promise<MergeResult> {
+  // Read the ZIP and build the attachments first - awaiting anything but IndexedDB inside the
+  // transaction would auto-commit it
+  const receiptFiles = await extractReceipts(receiptsBlob);
+  const result: MergeResult = { added: 0, updated: 0, undeleted: 0 };
+
+  const attachmentsByOwner = new Map<string, Attachment[]>(); // `${section}:${ownerId}`
+  for (const [section, config] of Object.entries(ATTACHMENTS) as [EntitySectionName, NonNullable<typeof ATTACHMENTS[EntitySectionName]>][]) {
+    const strategy = strategies[section];
+    if (strategy === 'skip') continue;
+    const sectionPlan: SectionMergePlan = plan.sections[section];
+    const owners = [
+      ...sectionPlan.onlyInBackup.map(backup => ({ backup, ownerId: backup.id })),
+      ...(strategy === 'prefer-backup' ? sectionPlan.deletedLocally.map(backup => ({ backup, ownerId: backup.id })) : []),
+      ...sectionPlan.conflicts
+        .filter(conflict => conflictWinner(conflict, strategy) === 'backup')
+        .map(conflict => ({ backup: conflict.backup, ownerId: conflict.local.id })),
+    ];
+    for (const { backup, ownerId } of owners) {
+      const owner: InlineImageOwner<ImageField> = backup;
+      const images = owner[config.field] ? [owner[config.field]] : receiptImagesFor(receiptFiles, config.prefix, backup.id);
+      if (images.length === 0) continue;
+      attachmentsByOwner.set(`${section}:${ownerId}`, await Promise.all(images.map(image => createAttachment(config.ownerType, ownerId, image))));
+    }
+  }
+
+  const db = await initDB();
+  const storeNames: StoreNames<FinSnapDB>[] = [...Object.values(STORE_NAMES), 'settings', 'deleted_records', 'audit_log', 'attachments'];
+  const tx = db.transaction(storeNames, 'readwrite');
+  const audit = newAuditContext('restore', 'Merge from backup');
+
+  // Point the record at its images from the ZIP, or keep the local ones when the backup has none
+  const withAttachment = async <T extends InlineImageOwner<ImageField>>(section: EntitySectionName, backup: T, ownerId: string, local?: T): Promise<T> => {
+    const config = ATTACHMENTS[section];
+    if (!config) return backup;
+    const record: T = { ...backup };
+    delete record[config.field];
+    delete record.attachmentIds;
+    const attachments = attachmentsByOwner.get(`${section}:${ownerId}`);
+    if (attachments) {
+      for (const attachment of attachments) {
+        await tx.objectStore('attachments').put(attachment);
+      }
+      return { ...record, attachmentIds: attachments.map(a => a.id) };
+    }
+    return local?.attachmentIds ? { ...record, attachmentIds: local.attachmentIds } : record;
+  };
+
+  const putIn = <S extends StoreNames<FinSnapDB>>(storeName: S) => async (entity: StoreValue<FinSnapDB, S>) => {
+    await tx.objectStore(storeName).put(entity);
+  };
+
+  // Transactions and accounts are audited, so a merge can be reviewed like any other edit
+  const putAudited = <S extends 'transactions' | 'accounts'>(
+    storeName: S,
+    entryFor: (before: StoreValue<FinSnapDB, S> | undefined, after: StoreValue<FinSnapDB, S>) => AuditEntry | null
+  ) => async (entity: StoreValue<FinSnapDB, S>) => {
+    const store = tx.objectStore(storeName);
+    const before = await store.get(entity.id);
+    await store.put(entity);
+    const entry = entryFor(before, entity);
+    if (entry) await tx.objectStore('audit_log').add(entry);
+  };
+
+  const mergeSection = async <T extends MergeEntity>(
+    name: BackupSectionName,
+    sectionPlan: SectionMergePlan<T>,
+    put: (entity: T) => Promise<void>
+  ) => {
+    const strategy = strategies[name];
+    if (strategy === 'skip') return;
+    const prepare = (backup: T, ownerId: string, local?: T) =>
+      name === 'settings' ? Promise.resolve(backup) : withAttachment(name, backup, ownerId, local);
+
+    for (const backup of sectionPlan.onlyInBackup) {
+      await put(await prepare(backup, backup.id));
+      result.added++;
+    }
+
+    if (strategy === 'prefer-backup' && name !== 'settings') {
+      for (const backup of sectionPlan.deletedLocally) {
+        await put(await prepare(backup, backup.id));
+        await tx.objectStore('deleted_records').delete(`${STORE_NAMES[name]}:${backup.id}`);
+        result.undeleted++;
+      }
+    }
+
+    for (const conflict of sectionPlan.conflicts) {
+      if (conflictWinner(conflict, strategy) !== 'backup') continue;
+      // Keep the local id for fingerprint matches so references to it stay valid
+      await put({ ...(await prepare(conflict.backup, conflict.local.id, conflict.local)), id: conflict.local.id });
+      result.updated++;
+    }
+  };
+
+  const { sections } = plan;
+  await mergeSection('transactions', sections.transactions, putAudited('transactions', (before, after) => buildAuditEntry(audit, 'transaction', before, after)));
+  await mergeSection('accounts', sections.accounts, putAudited('accounts', (before, after) => buildAuditEntry(audit, 'account', before, after)));
+  await mergeSection('categories', sections.categories, putIn('categories'));
+  await mergeSection('recurringRules', sections.recurringRules, putIn('recurring_rules'));
+  await mergeSection('warranties', sections.warranties, putIn('warranties'));
+  await mergeSection('scheduledTransactions', sections.scheduledTransactions, putIn('scheduled_transactions'));
+  await mergeSection('savingsGoals', sections.savingsGoals, putIn('savings_goals'));
+  await mergeSection('goalContributions', sections.goalContributions, putIn('goal_contributions'));
+  await mergeSection('parsingTemplates', sections.parsingTemplates, putIn('parsing_templates'));
+  await mergeSection('exchangeRates', sections.exchangeRates, putIn('exchange_rates'));
+  await mergeSection('budgets', sections.budgets, putIn('budgets'));
+  await mergeSection('reconciliations', sections.reconciliations, putIn('reconciliations'));
+  await mergeSection('netWorthSnapshots', sections.netWorthSnapshots, putIn('net_worth_snapshots'));
+  await mergeSection('securityPrices', sections.securityPrices, putIn('security_prices'));
+  await mergeSection('categorizationRules', sections.categorizationRules, putIn('categorization_rules'));
+  await mergeSection('settings', sections.settings, async setting => {
+    await tx.objectStore('settings').put(setting.value, setting.id);
+  });
+
+  await tx.done;
+  console.log(`Merge restore: ${result.added} added, ${result.updated} updated, ${result.undeleted} restored`);
+  return result;
+}
@@ -1,6 +1,6 @@
-import Papa from 'papaparse';
 import JSZip from 'jszip';
 import { supabase } from '../lib/supabase';
+import { AttachmentOwnerType } from '../types';
 import {
   getAllTransactions,
   getAllAccounts,
@@ -8,6 +8,15 @@ import {
   getAllRecurringRules,
   getAllWarranties,
   getAllScheduledTransactions,
+  getAllSavingsGoals,
+  getAllGoalContributions,
+  getAllParsingTemplates,
+  getAllExchangeRates,
+  getAllBudgets,
+  getAllReconciliations,
+  getAllNetWorthSnapshots,
+  getAllSecurityPrices,
+  getAllCategorizationRules,
   getSetting,
   saveTransaction,
   saveAccount,
@@ -15,97 +24,72 @@ import {
   saveRecurringRule,
   saveWarranty,
   saveScheduledTransaction,
+  saveSavingsGoal,
+  saveGoalContribution,
+  saveParsingTemplate,
+  saveExchangeRate,
+  saveBudget,
+  saveReconciliation,
+  saveNetWorthSnapshot,
+  saveSecurityPrice,
+  saveCategorizationRule,
   saveSetting,
+  deleteSetting,
   clearAllData,
+  getAttachments,
+  saveAttachments,
 } from './indexedDBService';
-import { Transaction, Account, Category, RecurringRule, WarrantyItem, ScheduledTransaction } from '../types';
-
-interface BackupRow {
-  type: string;
-  id: string;
-  data_json: string;
-}
-
-export async function exportToCSV(): Promise<string> {
-  const rows: BackupRow[] = [];
-
-  // Export transactions
-  const transactions = await getAllTransactions();
-  for (const tx of transactions) {
-    rows.push({
-      type: 'transaction',
-      id: tx.id,
-      data_json: JSON.stringify(tx),
-    });
-  }
-
-  // Export accounts
-  const accounts = await getAllAccounts();
-  for (const acc of accounts) {
-    rows.push({
-      type: 'account',
-      id: acc.id,
-      data_json: JSON.stringify(acc),
-    });
-  }
-
-  // Export categories
-  const categories = await getAllCategories();
-  for (const cat of categories) {
-    rows.push({
-      type: 'category',
-      id: cat.id,
-      data_json: JSON.stringify(cat),
-    });
-  }
-
-  // Export recurring rules
-  const rules = await getAllRecurringRules();
-  for (const rule of rules) {
-    rows.push({
-      type: 'recurring_rule',
-      id: rule.id,
-      data_json: JSON.stringify(rule),
-    });
-  }
-
-  // Export warranties
-  const warranties = await getAllWarranties();
-  for (const warranty of warranties) {
-    rows.push({
-      type: 'warranty',
-      id: warranty.id,
-      data_json: JSON.stringify(warranty),
-    });
-  }
-
-  // Export scheduled transactions
-  const scheduledTransactions = await getAllScheduledTransactions();
-  for (const scheduled of scheduledTransactions) {
-    rows.push({
-      type: 'scheduled_transaction',
-      id: scheduled.id,
-      data_json: JSON.stringify(scheduled),
-    });
-  }
+import {
+  BACKUP_SETTINGS_KEYS,
+  BackupSections,
+  RestoreReport,
+  inspectBackup,
+  serializeBackup,
+  validEntities,
+} from './backupFormatService';
+import { newAuditContext } from './auditService';
+import { attachmentExtension } from './attachmentService';
+import { encryptBackupFile, decryptBackupFile, isEncryptedBackupFile, BackupPassphraseError } from './backupCryptoService';
 
-  // Export settings
-  const settingsKeys = ['baseCurrency', 'gradientStartColor', 'gradientEndColor', 'gradientAngle', 'biometricEnabled', 'autoBackupMonthly'];
-  for (const key of settingsKeys) {
+/**
+ * Export all local data as a versioned backup document (see backupFormatService).
+ * Images are left out here - they travel in the receipts ZIP.
+ */
+export async function exportBackup(): Promise<string> {
+  const settings: Record<string, unknown> = {};
+  for (const key of BACKUP_SETTINGS_KEYS) {
     const value = await getSetting(key);
     if (value !== undefined) {
-      rows.push({
-        type: 'setting',
-        id: key,
-        data_json: JSON.stringify(value),
-      });
+      settings[key] = value;
     }
   }
 
-  const csv = Papa.unparse(rows);
-  return csv;
+  const sections: BackupSections = {
+    transactions: (await getAllTransactions()).map(({ receiptImage, attachmentIds, ...tx }) => tx),
+    accounts: await getAllAccounts(),
+    categories: await getAllCategories(),
+    recurringRules: await getAllRecurringRules(),
+    warranties: (await getAllWarranties()).map(({ receiptImage, attachmentIds, ...warranty }) => warranty),
+    scheduledTransactions: (await getAllScheduledTransactions()).map(({ chequeImage, attachmentIds, ...scheduled }) => scheduled),
+    savingsGoals: await getAllSavingsGoals(),
+    goalContributions: await getAllGoalContributions(),
+    parsingTemplates: await getAllParsingTemplates(),
+    exchangeRates: await getAllExchangeRates(),
+    budgets: await getAllBudgets(),
+    reconciliations: await getAllReconciliations(),
+    netWorthSnapshots: await getAllNetWorthSnapshots(),
+    securityPrices: await getAllSecurityPrices(),
+    categorizationRules: await getAllCategorizationRules(),
+    settings,
+  };
+
+  return serializeBackup(sections);
 }
 
+/**
+ * ZIP of every attachment. The first image of a record is named `<prefix>_<id>` (the name older
+ * versions used for their single image), later ones `<prefix>_<id>_<n>`.
+ */
 export async function exportReceiptsZip(): Promise<Blob> {
   const zip = new JSZip();
   const receiptsFolder = zip.folder('receipts');
@@ -114,50 +98,90 @@ export async function exportReceiptsZip(): Promise<Blob> {
     throw new Error('Failed to create receipts folder in ZIP');
   }
 
-  // Export transaction receipts
-  const transactions = await getAllTransactions();
-  for (const tx of transactions) {
-    if (tx.receiptImage) {
-      // Convert base64 to binary
-      const base64Data = tx.receiptImage.split(',')[1] || tx.receiptImage;
-      const mimeMatch = tx.receiptImage.match(/data:([^;]+);/);
-      const ext = mimeMatch ? mimeMatch[1].split('/')[1] : 'jpg';
-
-      receiptsFolder.file(`transaction_${tx.id}.${ext}`, base64Data, { base64: true });
+  const addImages = async (prefix: string, records: { id: string; attachmentIds?: string[] }[]) => {
+    for (const record of records) {
+      if (!record.attachmentIds?.length) continue;
+      const attachments = await getAttachments(record.attachmentIds);
+      attachments.forEach((attachment, index) => {
+        const name = index === 0 ? `${prefix}_${record.id}` : `${prefix}_${record.id}_${index + 1}`;
+        receiptsFolder.file(`${name}.${attachmentExtension(attachment.mimeType)}`, attachment.blob);
+      });
     }
+  };
+
+  // Transaction receipts, warranty receipts and cheque images
+  await addImages('transaction', await getAllTransactions());
+  await addImages('warranty', await getAllWarranties());
+  await addImages('cheque', await getAllScheduledTransactions());
+
+  const blob = await zip.generateAsync({ type: 'blob' });
+  return blob;
+}
+
+const MAX_BACKUPS_PER_USER = 5;
+const DATA_FILE = 'data.json';
+const LEGACY_DATA_FILE = 'data.csv'; // Format v1 backups
+
+/**
+ * Download a backup folder's data file, falling back to the legacy CSV name
+ */
+async function downloadDataFile(folderPath: string): Promise<Blob> {
+  const { data: jsonData } = await supabase.storage
+    .from('backups')
+    .download(`${folderPath}/${DATA_FILE}`);
+
+  if (jsonData) {
+    return jsonData;
   }
 
-  // Export warranty receipts
-  const warranties = await getAllWarranties();
-  for (const warranty of warranties) {
-    if (warranty.receiptImage) {
-      const base64Data = warranty.receiptImage.split(',')[1] || warranty.receiptImage;
-      const mimeMatch = warranty.receiptImage.match(/data:([^;]+);/);
-      const ext = mimeMatch ? mimeMatch[1].split('/')[1] : 'jpg';
+  const { data: csvData, error: csvError } = await supabase.storage
+    .from('backups')
+    .download(`${folderPath}/${LEGACY_DATA_FILE}`);
 
-      receiptsFolder.file(`warranty_${warranty.id}.${ext}`, base64Data, { base64: true });
-    }
+  if (csvError || !csvData) {
+    throw new Error(`Failed to download backup data: ${csvError?.message || 'No data'}`);
   }
 
-  // Export cheque images
-  const scheduledTransactions = await getAllScheduledTransactions();
-  for (const scheduled of scheduledTransactions) {
-    if (scheduled.chequeImage) {
-      const base64Data = scheduled.chequeImage.split(',')[1] || scheduled.chequeImage;
-      const mimeMatch = scheduled.chequeImage.match(/data:([^;]+);/);
-      const ext = mimeMatch ? mimeMatch[1].split('/')[1] : 'jpg';
+  return csvData;
+}
 
-      receiptsFolder.file(`cheque_${scheduled.id}.${ext}`, base64Data, { base64: true });
-    }
+/**
+ * Raw files of a downloaded backup - encrypted unless the backup predates encryption
+ */
+export interface BackupFiles {
+  data: Blob;
+  receiptsBlob: Blob;
+}
+
+export async function isBackupEncrypted(files: BackupFiles): Promise<boolean> {
+  return isEncryptedBackupFile(files.data);
+}
+
+/**
+ * Decrypt (when needed) a downloaded backup into restorable content.
+ * Throws BackupPassphraseError if the passphrase is missing or wrong.
+ */
+export async function openBackup(files: BackupFiles, passphrase?: string): Promise<{ data: string; receiptsBlob: Blob }> {
+  if (!(await isEncryptedBackupFile(files.data))) {
+    return { data: await files.data.text(), receiptsBlob: files.receiptsBlob };
+  }
+  if (!passphrase) {
+    throw new BackupPassphraseError('This backup is encrypted. Enter its passphrase to restore it.');
   }
 
-  const blob = await zip.generateAsync({ type: 'blob' });
-  return blob;
+  const data = new TextDecoder().decode(await decryptBackupFile(files.data, passphrase));
+  const receiptsBlob = (await isEncryptedBackupFile(files.receiptsBlob))
+    ? new Blob([await decryptBackupFile(files.receiptsBlob, passphrase)], { type: 'application/zip' })
+    : files.receiptsBlob;
+
+  return { data, receiptsBlob };
 }
 
-const MAX_BACKUPS_PER_USER = 5;
+export async function uploadBackup(userId: string, data: string, receiptsBlob: Blob): Promise<void> {
+  // Encrypt both files on the device before anything is uploaded (or old backups are pruned)
+  const dataFile = await encryptBackupFile(data);
+  const receiptsFile = await encryptBackupFile(receiptsBlob);
 
-export async function uploadBackup(userId: string, csv: string, receiptsBlob: Blob): Promise<void> {
   // Check existing backups and enforce limit
   const existingBackups = await listBackups(userId);
 
@@ -171,20 +195,19 @@ export async function uploadBackup(userId: string, csv: string, receiptsBlob: Bl
   const timestamp = Date.now();
   const folderPath = `backups/${userId}/${timestamp}`;
 
-  // Upload CSV
-  const csvFile = new Blob([csv], { type: 'text/csv' });
-  const { error: csvError } = await supabase.storage
+  // Upload backup document
+  const { error: dataError } = await supabase.storage
     .from('backups')
-    .upload(`${folderPath}/data.csv`, csvFile);
+    .upload(`${folderPath}/${DATA_FILE}`, dataFile);
 
-  if (csvError) {
-    throw new Error(`Failed to upload CSV: ${csvError.message}`);
+  if (dataError) {
+    throw new Error(`Failed to upload backup data: ${dataError.message}`);
   }
 
   // Upload receipts ZIP
   const { error: zipError } = await supabase.storage
     .from('backups')
-    .upload(`${folderPath}/receipts.zip`, receiptsBlob);
+    .upload(`${folderPath}/receipts.zip`, receiptsFile);
 
   if (zipError) {
     throw new Error(`Failed to upload receipts: ${zipError.message}`);
@@ -227,17 +250,8 @@ export async function listBackups(userId: string): Promise<BackupInfo[]> {
   return backups;
 }
 
-export async function downloadBackup(backupPath: string): Promise<{ csv: string; receiptsBlob: Blob }> {
-  // Download CSV
-  const { data: csvData, error: csvError } = await supabase.storage
-    .from('backups')
-    .download(`${backupPath}/data.csv`);
-
-  if (csvError || !csvData) {
-    throw new Error(`Failed to download CSV: ${csvError?.message}`);
-  }
-
-  const csv = await csvData.text();
+export async function downloadBackup(backupPath: string): Promise<BackupFiles> {
+  const data = await downloadDataFile(backupPath);
 
   // Download receipts ZIP
   const { data: zipData, error: zipError } = await supabase.storage
@@ -248,17 +262,17 @@ export async function downloadBackup(backupPath: string): Promise<{ csv: string;
     throw new Error(`Failed to download receipts: ${zipError?.message}`);
   }
 
-  return { csv, receiptsBlob: zipData };
+  return { data, receiptsBlob: zipData };
 }
 
 export async function deleteBackup(backupPath: string): Promise<void> {
-  // Delete both files in the backup folder
-  const { error: csvError } = await supabase.storage
+  // Delete the data file (either format) and receipts in the backup folder
+  const { error: dataError } = await supabase.storage
     .from('backups')
-    .remove([`${backupPath}/data.csv`]);
+    .remove([`${backupPath}/${DATA_FILE}`, `${backupPath}/${LEGACY_DATA_FILE}`]);
 
-  if (csvError) {
-    console.error(`Failed to delete CSV: ${csvError.message}`);
+  if (dataError) {
+    console.error(`Failed to delete backup data: ${dataError.message}`);
   }
 
   const { error: zipError } = await supabase.storage
@@ -272,16 +286,10 @@ export async function deleteBackup(backupPath: string): Promise<void> {
   console.log(`Deleted backup: ${backupPath}`);
 }
 
-export async function restoreFromBackup(csv: string, receiptsBlob: Blob): Promise<void> {
-  console.log('Starting restore from backup...');
-
-  // Parse CSV
-  const parsed = Papa.parse<BackupRow>(csv, { header: true });
-  if (parsed.errors.length > 0) {
-    throw new Error(`CSV parsing failed: ${parsed.errors[0].message}`);
-  }
-
-  // Extract receipts from ZIP
+/**
+ * Unpack the receipts ZIP into data URLs keyed by `<kind>_<id>` (e.g. transaction_abc)
+ */
+export async function extractReceipts(receiptsBlob: Blob): Promise<{ [key: string]: string }> {
   const zip = await JSZip.loadAsync(receiptsBlob);
   const receiptFiles: { [key: string]: string } = {};
 
@@ -292,74 +300,136 @@ export async function restoreFromBackup(csv: string, receiptsBlob: Blob): Promis
       const file = zip.files[filename];
       if (!file.dir) {
         const base64 = await file.async('base64');
-        const ext = filename.split('.').pop();
-        const mimeType = ext === 'png' ? 'image/png' : 'image/jpeg';
+        const ext = filename.split('.').pop()?.toLowerCase();
+        const mimeType = ext === 'png' || ext === 'gif' || ext === 'webp' ? `image/${ext}` : 'image/jpeg';
         const dataUrl = `data:${mimeType};base64,${base64}`;
 
-        const key = filename.replace('receipts/', '').replace(/\.(jpg|png|gif|webp)$/, '');
+        const key = filename.replace('receipts/', '').replace(/\.(jpg|jpeg|png|gif|webp)$/, '');
         receiptFiles[key] = dataUrl;
       }
     }
   }
 
+  return receiptFiles;
+}
+
+/**
+ * Images extracted from a receipts ZIP for one record, in order
+ */
+export function receiptImagesFor(receiptFiles: { [key: string]: string }, prefix: string, id: string): string[] {
+  const images: string[] = [];
+  if (receiptFiles[`${prefix}_${id}`]) images.push(receiptFiles[`${prefix}_${id}`]);
+  for (let n = 2; receiptFiles[`${prefix}_${id}_${n}`]; n++) {
+    images.push(receiptFiles[`${prefix}_${id}_${n}`]);
+  }
+  return images;
+}
+
+/**
+ * Dry run: parse, migrate and validate a backup without touching local data.
+ * Show the report to the user before calling restoreFromBackup.
+ */
+export async function dryRunRestore(data: string): Promise<RestoreReport> {
+  const { report } = await inspectBackup(data);
+  return report;
+}
+
+/**
+ * Replace all local data with the contents of a backup.
+ * Entities that fail validation are skipped; a damaged file is rejected before anything is cleared.
+ */
+export async function restoreFromBackup(data: string, receiptsBlob: Blob): Promise<RestoreReport> {
+  console.log('Starting restore from backup...');
+
+  const { document, report } = await inspectBackup(data);
+  if (!report.canRestore) {
+    throw new Error(`Backup failed verification: ${report.warnings.join('; ')}`);
+  }
+
+  // Extract receipts before clearing so a bad ZIP can't leave us with an empty database
+  const receiptFiles = await extractReceipts(receiptsBlob);
+
   // Clear existing data
   await clearAllData();
 
-  // Restore data
-  for (const row of parsed.data) {
-    try {
-      const data = JSON.parse(row.data_json);
-
-      switch (row.type) {
-        case 'transaction': {
-          const tx = data as Transaction;
-          // Restore receipt if exists
-          const receiptKey = `transaction_${tx.id}`;
-          if (receiptFiles[receiptKey]) {
-            tx.receiptImage = receiptFiles[receiptKey];
-          }
-          await saveTransaction(tx);
-          break;
-        }
-        case 'account':
-          await saveAccount(data as Account);
-          break;
-        case 'category':
-          await saveCategory(data as Category);
-          break;
-        case 'recurring_rule':
-          await saveRecurringRule(data as RecurringRule);
-          break;
-        case 'warranty': {
-          const warranty = data as WarrantyItem;
-          // Restore receipt if exists
-          const receiptKey = `warranty_${warranty.id}`;
-          if (receiptFiles[receiptKey]) {
-            warranty.receiptImage = receiptFiles[receiptKey];
-          }
-          await saveWarranty(warranty);
-          break;
-        }
-        case 'scheduled_transaction': {
-          const scheduled = data as ScheduledTransaction;
-          // Restore cheque image if exists
-          const chequeKey = `cheque_${scheduled.id}`;
-          if (receiptFiles[chequeKey]) {
-            scheduled.chequeImage = receiptFiles[chequeKey];
-          }
-          await saveScheduledTransaction(scheduled);
-          break;
-        }
-        case 'setting':
-          await saveSetting(row.id, data);
-          break;
+  // Store a record's images from the ZIP and point the record at them
+  const withImages = async <T extends { id: string; attachmentIds?: string[] }>(ownerType: AttachmentOwnerType, prefix: string, record: T): Promise<T> => {
+    const { attachmentIds: _stale, ...rest } = record;
+    const ids = await saveAttachments(ownerType, record.id, receiptImagesFor(receiptFiles, prefix, record.id));
+    return (ids.length > 0 ? { ...rest, attachmentIds: ids } : rest) as T;
+  };
+
+  const restore = async <T extends { id: string }>(label: string, items: T[], save: (item: T) => Promise<void>) => {
+    for (const item of items) {
+      try {
+        await save(item);
+      } catch (err) {
+        console.error(`Failed to restore ${label} ${item.id}:`, err);
       }
+    }
+  };
+
+  const audit = newAuditContext('restore', 'Restore from backup');
+  await restore('account', validEntities(document, report, 'accounts'), (account) => saveAccount(account, audit));
+  await restore('category', validEntities(document, report, 'categories'), saveCategory);
+  await restore('recurring rule', validEntities(document, report, 'recurringRules'), saveRecurringRule);
+  await restore('transaction', validEntities(document, report, 'transactions'), async (tx) =>
+    saveTransaction(await withImages('transaction', 'transaction', tx), audit)
+  );
+  await restore('warranty', validEntities(document, report, 'warranties'), async (warranty) =>
+    saveWarranty(await withImages('warranty', 'warranty', warranty))
+  );
+  await restore('scheduled transaction', validEntities(document, report, 'scheduledTransactions'), async (scheduled) =>
+    saveScheduledTransaction(await withImages('scheduled', 'cheque', scheduled))
+  );
+  await restore('savings goal', validEntities(document, report, 'savingsGoals'), saveSavingsGoal);
+  await restore('goal contribution', validEntities(document, report, 'goalContributions'), saveGoalContribution);
+  await restore('parsing template', validEntities(document, report, 'parsingTemplates'), saveParsingTemplate);
+  await restore('exchange rate', validEntities(document, report, 'exchangeRates'), saveExchangeRate);
+  await restore('budget', validEntities(document, report, 'budgets'), saveBudget);
+  await restore('reconciliation', validEntities(document, report, 'reconciliations'), saveReconciliation);
+  await restore('net worth snapshot', validEntities(document, report, 'netWorthSnapshots'), saveNetWorthSnapshot);
+  await restore('security price', validEntities(document, report, 'securityPrices'), saveSecurityPrice);
+  await restore('categorization rule', validEntities(document, report, 'categorizationRules'), saveCategorizationRule);
+
+  for (const [key, value] of Object.entries(validEntities(document, report, 'settings'))) {
+    try {
+      await saveSetting(key, value);
     } catch (err) {
-      console.error(`Failed to restore ${row.type} ${row.id}:`, err);
+      console.error(`Failed to restore setting ${key}:`, err);
     }
   }
 
   console.log('Restore completed successfully');
+  return report;
+}
+
+export interface AutoBackupFailure {
+  at: string; // ISO timestamp
+  message: string;
+}
+
+const AUTO_BACKUP_FAILURE_KEY = 'lastAutoBackupFailure'; // Device-only (DEVICE_SETTINGS_KEYS)
+
+/**
+ * Unattended backups can't throw at anyone, so their last failure is kept for Settings to show
+ * until a later backup succeeds
+ */
+export async function recordAutoBackupFailure(error: unknown): Promise<AutoBackupFailure> {
+  const failure: AutoBackupFailure = {
+    at: new Date().toISOString(),
+    message: error instanceof Error ? error.message : String(error),
+  };
+  await saveSetting(AUTO_BACKUP_FAILURE_KEY, failure);
+  return failure;
+}
+
+export async function clearAutoBackupFailure(): Promise<void> {
+  await deleteSetting(AUTO_BACKUP_FAILURE_KEY);
+}
+
+export async function getAutoBackupFailure(): Promise<AutoBackupFailure | null> {
+  return (await getSetting(AUTO_BACKUP_FAILURE_KEY)) || null;
 }
 
 export async function shouldAutoBackup(): Promise<boolean> {
@@ -391,35 +461,38 @@ export async function markAutoBackupComplete(): Promise<void> {
  * Uploads a daily auto-backup to Supabase Storage
  * Overwrites the previous daily backup (single backup per user)
  */
-export async function uploadDailyBackup(userId: string, csv: string, receiptsBlob: Blob): Promise<void> {
+export async function uploadDailyBackup(userId: string, data: string, receiptsBlob: Blob): Promise<void> {
   const folderPath = `backups/${userId}/daily`;
 
+  // Encrypt both files on the device before anything is uploaded
+  const dataFile = await encryptBackupFile(data);
+  const receiptsFile = await encryptBackupFile(receiptsBlob);
+
   // Delete existing daily backup files first (to ensure clean overwrite)
   try {
     await supabase.storage
       .from('backups')
-      .remove([`${folderPath}/data.csv`, `${folderPath}/receipts.zip`]);
+      .remove([`${folderPath}/${DATA_FILE}`, `${folderPath}/${LEGACY_DATA_FILE}`, `${folderPath}/receipts.zip`]);
   } catch (error) {
     // Ignore errors if files don't exist
     console.log('No existing daily backup to delete (this is normal for first backup)');
   }
 
-  // Upload CSV
-  const csvFile = new Blob([csv], { type: 'text/csv' });
-  const { error: csvError } = await supabase.storage
+  // Upload backup document
+  const { error: dataError } = await supabase.storage
     .from('backups')
-    .upload(`${folderPath}/data.csv`, csvFile, {
+    .upload(`${folderPath}/${DATA_FILE}`, dataFile, {
       upsert: true, // Overwrite if exists
     });
 
-  if (csvError) {
-    throw new Error(`Failed to upload daily backup CSV: ${csvError.message}`);
+  if (dataError) {
+    throw new Error(`Failed to upload daily backup data: ${dataError.message}`);
   }
 
   // Upload receipts ZIP
   const { error: zipError } = await supabase.storage
     .from('backups')
-    .upload(`${folderPath}/receipts.zip`, receiptsBlob, {
+    .upload(`${folderPath}/receipts.zip`, receiptsFile, {
       upsert: true, // Overwrite if exists
     });
 
@@ -433,19 +506,10 @@ export async function uploadDailyBackup(userId: string, csv: string, receiptsBlo
 /**
  * Downloads the daily auto-backup from Supabase Storage
  */
-export async function downloadDailyBackup(userId: string): Promise<{ csv: string; receiptsBlob: Blob }> {
+export async function downloadDailyBackup(userId: string): Promise<BackupFiles> {
   const folderPath = `backups/${userId}/daily`;
 
-  // Download CSV
-  const { data: csvData, error: csvError } = await supabase.storage
-    .from('backups')
-    .download(`${folderPath}/data.csv`);
-
-  if (csvError || !csvData) {
-    throw new Error(`Failed to download daily backup CSV: ${csvError?.message || 'No data'}`);
-  }
-
-  const csv = await csvData.text();
+  const data = await downloadDataFile(folderPath);
 
   // Download receipts ZIP
   const { data: zipData, error: zipError } = await supabase.storage
@@ -456,7 +520,7 @@ export async function downloadDailyBackup(userId: string): Promise<{ csv: string
     throw new Error(`Failed to download daily backup receipts: ${zipError?.message || 'No data'}`);
   }
 
-  return { csv, receiptsBlob: zipData };
+  return { data, receiptsBlob: zipData };
 }
 
 /**
@@ -0,0 +1,247 @@
+import { Account, Transaction, TransactionType } from '../types';
+import { reconciliationAmount } from './reconciliationService';
+
+/**
+ * Balance Ledger
+ * Account balances are stored as a single mutable number, so this service replays an account's
+ * transactions to derive what the balance was after each one and at the end of each day.
+ * Parsed balance snapshots (parsedMeta) pin the running balance to what the bank reported.
+ */
+
+export interface LedgerEntry {
+  transactionId: string;
+  date: string;
+  time?: string;
+  label: string;
+  delta: number; // Effect on the balance, in the account's currency
+  balance: number; // Running balance after this transaction
+  snapshot?: number; // Balance reported by the bank with this transaction
+  correction?: number; // Snapshot minus the running balance before it was applied
+}
+
+export interface DailyBalance {
+  date: string;
+  balance: number; // Closing balance for the day
+}
+
+export interface BalanceLedger {
+  accountId: string;
+  currency: string;
+  anchor: 'snapshot' | 'stored'; // What the opening balance was derived from
+  openingBalance: number;
+  entries: LedgerEntry[];
+  daily: DailyBalance[];
+  derivedBalance: number;
+  storedBalance: number;
+}
+
+export type BalanceExplanationKind = 'NOT_APPLIED' | 'CURRENCY' | 'UNTRACKED';
+
+export interface BalanceExplanation {
+  kind: BalanceExplanationKind;
+  amount: number; // Contribution to stored minus derived balance
+  description: string;
+  transactionId?: string;
+  date?: string;
+}
+
+export interface BalanceRecompute {
+  storedBalance: number;
+  derivedBalance: number;
+  difference: number; // Stored minus derived
+  explanations: BalanceExplanation[];
+}
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+const toISO = (d: Date) =>
+  `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+
+const parseISO = (date: string) => {
+  const [y, m, d] = date.split('-').map(Number);
+  return new Date(y, m - 1, d);
+};
+
+const sortKey = (tx: Transaction) => `${tx.date} ${tx.time || '00:00'}`;
+
+/**
+ * Balance reported with a transaction, if it carries one for this account
+ */
+export function getSnapshotBalance(tx: Transaction, account: Account): number | undefined {
+  if (tx.accountId !== account.id || !tx.parsedMeta) return undefined;
+  if (tx.parsedMeta.availableBalance !== undefined) return tx.parsedMeta.availableBalance;
+  if (tx.parsedMeta.availableCredit !== undefined && account.totalCreditLimit) {
+    return -(account.totalCreditLimit - tx.parsedMeta.availableCredit);
+  }
+  return undefined;
+}
+
+/**
+ * How App applies a transaction to the stored balance when it is added
+ * (base-currency amount, and only expenses, income and two-sided transfers move it)
+ */
+function appliedDelta(tx: Transaction, account: Account): number {
+  if (tx.type === TransactionType.TRANSFER && tx.accountId && tx.toAccountId) {
+    if (tx.accountId === account.id) return -tx.amount;
+    if (tx.toAccountId === account.id) return tx.amount;
+    return 0;
+  }
+  if (tx.accountId !== account.id) return 0;
+  if (tx.type === TransactionType.EXPENSE) return -tx.amount;
+  if (tx.type === TransactionType.INCOME) return tx.amount;
+  return 0;
+}
+
+/**
+ * Replay an account's transactions oldest first.
+ * The opening balance is back-solved from the first parsed snapshot, or from the stored balance
+ * when the account has never reported one.
+ */
+export function buildBalanceLedger(account: Account, transactions: Transaction[]): BalanceLedger {
+  const accountTxs = transactions
+    .filter(tx => tx.accountId === account.id || tx.toAccountId === account.id)
+    .sort((a, b) => sortKey(a).localeCompare(sortKey(b)));
+
+  const deltas = accountTxs.map(tx => reconciliationAmount(tx, account));
+  const snapshots = accountTxs.map(tx => getSnapshotBalance(tx, account));
+  const firstSnapshot = snapshots.findIndex(s => s !== undefined);
+
+  const anchor: BalanceLedger['anchor'] = firstSnapshot >= 0 ? 'snapshot' : 'stored';
+  const openingBalance = round2(firstSnapshot >= 0
+    ? snapshots[firstSnapshot]! - deltas.slice(0, firstSnapshot + 1).reduce((s, d) => s + d, 0)
+    : account.balance - deltas.reduce((s, d) => s + d, 0));
+
+  let running = openingBalance;
+  const entries: LedgerEntry[] = accountTxs.map((tx, i) => {
+    running = round2(running + deltas[i]);
+    const entry: LedgerEntry = {
+      transactionId: tx.id,
+      date: tx.date,
+      time: tx.time,
+      label: tx.merchant,
+      delta: deltas[i],
+      balance: running,
+    };
+
+    const snapshot = snapshots[i];
+    if (snapshot !== undefined) {
+      entry.snapshot = snapshot;
+      const correction = round2(snapshot - running);
+      if (Math.abs(correction) >= 0.01) entry.correction = correction;
+      running = snapshot;
+      entry.balance = snapshot;
+    }
+    return entry;
+  });
+
+  return {
+    accountId: account.id,
+    currency: account.currency,
+    anchor,
+    openingBalance,
+    entries,
+    daily: buildDailyBalances(entries),
+    derivedBalance: running,
+    storedBalance: account.balance,
+  };
+}
+
+/**
+ * One closing balance per calendar day from the first transaction to today (or the last
+ * transaction, if it is in the future)
+ */
+function buildDailyBalances(entries: LedgerEntry[]): DailyBalance[] {
+  if (entries.length === 0) return [];
+
+  const closing = new Map<string, number>();
+  entries.forEach(e => closing.set(e.date, e.balance));
+
+  const today = toISO(new Date());
+  const lastDate = entries[entries.length - 1].date > today ? entries[entries.length - 1].date : today;
+  const daily: DailyBalance[] = [];
+  const cursor = parseISO(entries[0].date);
+  let balance = entries[0].balance;
+
+  while (toISO(cursor) <= lastDate) {
+    const date = toISO(cursor);
+    if (closing.has(date)) balance = closing.get(date)!;
+    daily.push({ date, balance });
+    cursor.setDate(cursor.getDate() + 1);
+  }
+  return daily;
+}
+
+/**
+ * Balance at the end of a given day according to the ledger
+ */
+export function getBalanceOn(ledger: BalanceLedger, date: string): number {
+  let balance = ledger.openingBalance;
+  for (const entry of ledger.entries) {
+    if (entry.date > date) break;
+    balance = entry.balance;
+  }
+  return balance;
+}
+
+/**
+ * Compare the stored balance with the one rebuilt from history and attribute the difference.
+ * Only transactions after the last snapshot matter: App resets the stored balance to each
+ * snapshot, so anything applied differently before one has already been overwritten.
+ */
+export function explainBalanceDifference(
+  account: Account,
+  transactions: Transaction[],
+  ledger: BalanceLedger = buildBalanceLedger(account, transactions)
+): BalanceRecompute {
+  const difference = round2(ledger.storedBalance - ledger.derivedBalance);
+  const explanations: BalanceExplanation[] = [];
+
+  // Without a snapshot the opening balance is solved from the stored one, so they always agree
+  if (ledger.anchor === 'stored') {
+    return { storedBalance: ledger.storedBalance, derivedBalance: ledger.derivedBalance, difference, explanations };
+  }
+
+  const lastSnapshot = ledger.entries.map(e => e.snapshot !== undefined).lastIndexOf(true);
+  const byId = new Map(transactions.map(tx => [tx.id, tx]));
+
+  ledger.entries.slice(lastSnapshot + 1).forEach(entry => {
+    const tx = byId.get(entry.transactionId)!;
+    const applied = appliedDelta(tx, account);
+    const gap = round2(applied - entry.delta);
+    if (Math.abs(gap) < 0.01) return;
+
+    if (applied === 0) {
+      explanations.push({
+        kind: 'NOT_APPLIED',
+        amount: gap,
+        transactionId: tx.id,
+        date: tx.date,
+        description: `${tx.merchant} (${tx.type.toLowerCase()}) was never applied to the stored balance`,
+      });
+    } else {
+      explanations.push({
+        kind: 'CURRENCY',
+        amount: gap,
+        transactionId: tx.id,
+        date: tx.date,
+        description: `${tx.merchant} was applied as ${Math.abs(applied).toFixed(2)} instead of ${Math.abs(entry.delta).toFixed(2)} ${account.currency}`,
+      });
+    }
+  });
+
+  const residual = round2(difference - explanations.reduce((s, e) => s + e.amount, 0));
+  if (Math.abs(residual) >= 0.01) {
+    explanations.push({
+      kind: 'UNTRACKED',
+      amount: residual,
+      description: 'Changed outside the transaction history, e.g. a transaction edited or deleted after it was applied',
+    });
+  }
+
+  return {
+    storedBalance: ledger.storedBalance,
+    derivedBalance: ledger.derivedBalance,
+    difference,
+    explanations,
+  };
+}
@@ -0,0 +1,275 @@
+import { AppSettings, Budget, Frequency, Transaction, TransactionType } from '../types';
+
+/**
+ * Budget Engine
+ * Works out how much of each budget is available and spent per period (weekly, monthly, yearly),
+ * carrying unspent or overspent amounts forward when rollover is on, and topping envelopes up
+ * from income. Category.monthlyBudget and Account.monthlySpendingLimit still count as plain
+ * monthly budgets when no explicit budget covers that category or account.
+ */
+
+export const DEFAULT_ALERT_THRESHOLDS = [50, 80, 100];
+
+export interface BudgetPeriodRange {
+  start: string; // ISO date, inclusive
+  end: string; // ISO date, inclusive
+}
+
+export interface BudgetStatus {
+  budget: Budget;
+  label: string; // Category or account name
+  period: BudgetPeriodRange;
+  base: number; // budget.amount
+  allocated: number; // Envelope top-up from this period's income
+  carriedOver: number; // Rollover from earlier periods (negative = overspent)
+  available: number; // base + allocated + carriedOver
+  spent: number;
+  remaining: number;
+  percentUsed: number;
+  isLegacy: boolean; // Derived from Category.monthlyBudget / Account.monthlySpendingLimit
+}
+
+export interface BudgetAlert {
+  budgetId: string;
+  label: string;
+  threshold: number;
+  percentUsed: number;
+  remaining: number;
+}
+
+export interface BurnDownPoint {
+  date: string;
+  day: number;
+  remaining: number | null; // Null for days still to come
+  ideal: number;
+}
+
+const toISO = (d: Date) =>
+  `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+
+const parseISO = (date: string) => {
+  const [y, m, d] = date.split('-').map(Number);
+  return new Date(y, m - 1, d);
+};
+
+const todayISO = () => toISO(new Date());
+
+/**
+ * The period of the given kind containing a date. Weeks start on Monday.
+ */
+export function getPeriodRange(period: Frequency, date: string): BudgetPeriodRange {
+  const d = parseISO(date);
+  switch (period) {
+    case 'WEEKLY': {
+      const start = new Date(d);
+      start.setDate(d.getDate() - ((d.getDay() + 6) % 7));
+      const end = new Date(start);
+      end.setDate(start.getDate() + 6);
+      return { start: toISO(start), end: toISO(end) };
+    }
+    case 'YEARLY':
+      return { start: `${d.getFullYear()}-01-01`, end: `${d.getFullYear()}-12-31` };
+    case 'MONTHLY':
+    default:
+      return {
+        start: toISO(new Date(d.getFullYear(), d.getMonth(), 1)),
+        end: toISO(new Date(d.getFullYear(), d.getMonth() + 1, 0)),
+      };
+  }
+}
+
+function nextPeriodStart(range: BudgetPeriodRange): string {
+  const end = parseISO(range.end);
+  end.setDate(end.getDate() + 1);
+  return toISO(end);
+}
+
+/**
+ * Explicit budgets plus the implicit monthly ones from category and account settings
+ */
+export function getEffectiveBudgets(budgets: Budget[], settings: AppSettings): { budget: Budget; isLegacy: boolean }[] {
+  const result = budgets.map(budget => ({ budget, isLegacy: false }));
+  const covered = new Set(budgets.map(b => b.categoryId || `account:${b.accountId}`));
+  const epoch = '2000-01-01';
+
+  for (const category of settings.categories) {
+    if (category.monthlyBudget && !covered.has(category.id)) {
+      result.push({
+        budget: { id: `legacy-category-${category.id}`, categoryId: category.id, amount: category.monthlyBudget, period: 'MONTHLY', rollover: false, startDate: epoch, createdAt: epoch },
+        isLegacy: true,
+      });
+    }
+  }
+  for (const account of settings.accounts) {
+    if (account.monthlySpendingLimit && !covered.has(`account:${account.id}`)) {
+      result.push({
+        budget: { id: `legacy-account-${account.id}`, accountId: account.id, amount: account.monthlySpendingLimit, period: 'MONTHLY', rollover: false, startDate: epoch, createdAt: epoch },
+        isLegacy: true,
+      });
+    }
+  }
+  return result;
+}
+
+export function getBudgetLabel(budget: Budget, settings: AppSettings): string {
+  if (budget.categoryId) {
+    return settings.categories.find(c => c.id === budget.categoryId)?.name || 'Deleted category';
+  }
+  return settings.accounts.find(a => a.id === budget.accountId)?.name || 'Deleted account';
+}
+
+/**
+ * Whether a transaction counts against a budget. Transfers never do.
+ */
+function countsAgainst(tx: Transaction, budget: Budget, categoryName: string | undefined): boolean {
+  if (tx.type !== TransactionType.EXPENSE && tx.type !== TransactionType.OBLIGATION) return false;
+  if (tx.isTransfer) return false;
+  if (budget.categoryId) return tx.category === categoryName;
+  return tx.accountId === budget.accountId;
+}
+
+function sumBetween(transactions: Transaction[], range: BudgetPeriodRange, predicate: (tx: Transaction) => boolean): number {
+  return transactions
+    .filter(tx => tx.date >= range.start && tx.date <= range.end && predicate(tx))
+    .reduce((sum, tx) => sum + tx.amount, 0);
+}
+
+/**
+ * Budget status for the period containing `date`, walking forward from the budget's
+ * start so rollover accumulates across every earlier period.
+ */
+export function calculateBudgetStatus(
+  budget: Budget,
+  transactions: Transaction[],
+  settings: AppSettings,
+  date: string = todayISO(),
+  isLegacy = false
+): BudgetStatus {
+  const categoryName = budget.categoryId ? settings.categories.find(c => c.id === budget.categoryId)?.name : undefined;
+  const isSpend = (tx: Transaction) => countsAgainst(tx, budget, categoryName);
+  const isIncome = (tx: Transaction) => tx.type === TransactionType.INCOME && !tx.isTransfer;
+  const allocationFor = (range: BudgetPeriodRange) =>
+    budget.incomeAllocationPercent ? sumBetween(transactions, range, isIncome) * budget.incomeAllocationPercent / 100 : 0;
+
+  const target = getPeriodRange(budget.period, date);
+  let carriedOver = 0;
+
+  if (budget.rollover) {
+    let range = getPeriodRange(budget.period, budget.startDate);
+    while (range.start < target.start) {
+      const available = budget.amount + allocationFor(range) + carriedOver;
+      carriedOver = available - sumBetween(transactions, range, isSpend);
+      range = getPeriodRange(budget.period, nextPeriodStart(range));
+    }
+  }
+
+  const allocated = allocationFor(target);
+  const available = budget.amount + allocated + carriedOver;
+  const spent = sumBetween(transactions, target, isSpend);
+
+  return {
+    budget,
+    label: getBudgetLabel(budget, settings),
+    period: target,
+    base: budget.amount,
+    allocated,
+    carriedOver,
+    available,
+    spent,
+    remaining: available - spent,
+    percentUsed: available > 0 ? (spent / available) * 100 : spent > 0 ? 100 : 0,
+    isLegacy,
+  };
+}
+
+export function calculateAllBudgetStatuses(
+  budgets: Budget[],
+  transactions: Transaction[],
+  settings: AppSettings,
+  date?: string
+): BudgetStatus[] {
+  return getEffectiveBudgets(budgets, settings).map(({ budget, isLegacy }) =>
+    calculateBudgetStatus(budget, transactions, settings, date, isLegacy)
+  );
+}
+
+/**
+ * Thresholds newly crossed by adding transactions - compares each affected budget's
+ * usage before and after, so an alert fires once per threshold per period.
+ */
+export function checkBudgetAlerts(
+  budgets: Budget[],
+  existingTransactions: Transaction[],
+  newTransactions: Transaction[],
+  settings: AppSettings
+): BudgetAlert[] {
+  const alerts: BudgetAlert[] = [];
+  const effective = getEffectiveBudgets(budgets, settings);
+  const allTransactions = [...existingTransactions, ...newTransactions];
+
+  for (const { budget, isLegacy } of effective) {
+    // Each new expense is checked in its own period (a bulk import can span several)
+    const categoryName = budget.categoryId ? settings.categories.find(c => c.id === budget.categoryId)?.name : undefined;
+    const dates = new Set(
+      newTransactions.filter(tx => countsAgainst(tx, budget, categoryName)).map(tx => getPeriodRange(budget.period, tx.date).start)
+    );
+
+    for (const periodStart of dates) {
+      const before = calculateBudgetStatus(budget, existingTransactions, settings, periodStart, isLegacy);
+      const after = calculateBudgetStatus(budget, allTransactions, settings, periodStart, isLegacy);
+      const crossed = (budget.alertThresholds || DEFAULT_ALERT_THRESHOLDS)
+        .filter(t => before.percentUsed < t && after.percentUsed >= t);
+      if (crossed.length === 0) continue;
+
+      alerts.push({
+        budgetId: budget.id,
+        label: after.label,
+        threshold: Math.max(...crossed),
+        percentUsed: after.percentUsed,
+        remaining: after.remaining,
+      });
+    }
+  }
+
+  return alerts;
+}
+
+export function formatBudgetAlerts(alerts: BudgetAlert[], currency: string): string {
+  return alerts
+    .map(a => a.threshold >= 100
+      ? `🚨 ${a.label}: over budget by ${currency} ${Math.abs(a.remaining).toFixed(2)}`
+      : `⚠️ ${a.label}: ${a.percentUsed.toFixed(0)}% used (${currency} ${a.remaining.toFixed(2)} left)`)
+    .join('\n');
+}
+
+/**
+ * Day-by-day remaining budget for the current period, with the straight-line "ideal" burn.
+ */
+export function getBurnDown(status: BudgetStatus, transactions: Transaction[], settings: AppSettings, today: string = todayISO()): BurnDownPoint[] {
+  const { budget, period, available } = status;
+  const categoryName = budget.categoryId ? settings.categories.find(c => c.id === budget.categoryId)?.name : undefined;
+  const spendByDay = new Map<string, number>();
+  for (const tx of transactions) {
+    if (tx.date < period.start || tx.date > period.end || !countsAgainst(tx, budget, categoryName)) continue;
+    spendByDay.set(tx.date, (spendByDay.get(tx.date) || 0) + tx.amount);
+  }
+
+  const points: BurnDownPoint[] = [];
+  const start = parseISO(period.start);
+  const days = Math.round((parseISO(period.end).getTime() - start.getTime()) / 86400000) + 1;
+  let remaining = available;
+
+  for (let i = 0; i < days; i++) {
+    const day = new Date(start);
+    day.setDate(start.getDate() + i);
+    const iso = toISO(day);
+    remaining -= spendByDay.get(iso) || 0;
+    points.push({
+      date: iso,
+      day: i + 1,
+      remaining: iso <= today ? Number(remaining.toFixed(2)) : null,
+      ideal: Number((available - (available * (i + 1)) / days).toFixed(2)),
+    });
+  }
+  return points;
+}
@@ -0,0 +1,174 @@
+import { Account, AuditContext, CategorizationRule, Reconciliation, Transaction, TransactionType } from '../types';
+import { applyTransactionChanges, getAllCategorizationRules, saveCategorizationRule } from './indexedDBService';
+import { findLockingReconciliation } from './reconciliationService';
+import { v4 as uuidv4 } from 'uuid';
+
+/**
+ * Bulk Edit
+ * Multi-select actions for the History view. Each action is built as a BulkChange holding the
+ * transactions before and after and written in a single IndexedDB transaction under one audit
+ * batch, so it undoes as a unit. Like single edits, bulk edits leave account balances alone.
+ */
+
+export interface BulkChange {
+  id: string;
+  label: string; // e.g. "Recategorize 12 transactions"
+  before: Transaction[]; // Originals of every changed or deleted transaction
+  after: Transaction[]; // Saved versions (empty for a delete)
+  deletedIds: string[];
+  createdAt: string;
+}
+
+const plural = (n: number) => `${n} transaction${n === 1 ? '' : 's'}`;
+
+/**
+ * Change built by applying `update` to each transaction; unchanged ones are dropped
+ */
+function buildChange(label: string, transactions: Transaction[], update: (tx: Transaction) => Transaction): BulkChange {
+  const before: Transaction[] = [];
+  const after: Transaction[] = [];
+  for (const tx of transactions) {
+    const updated = update(tx);
+    if (JSON.stringify(updated) !== JSON.stringify(tx)) {
+      before.push(tx);
+      after.push(updated);
+    }
+  }
+  return { id: uuidv4(), label: `${label} ${plural(after.length)}`, before, after, deletedIds: [], createdAt: new Date().toISOString() };
+}
+
+export function recategorize(transactions: Transaction[], category: string): BulkChange {
+  return buildChange('Recategorize', transactions, tx => ({ ...tx, category }));
+}
+
+export function retag(transactions: Transaction[], add: string[], remove: string[]): BulkChange {
+  const removed = new Set(remove.map(t => t.toLowerCase()));
+  return buildChange('Retag', transactions, tx => {
+    const tags = Array.from(new Set([...(tx.tags || []).filter(t => !removed.has(t.toLowerCase())), ...add]));
+    return { ...tx, tags: tags.length > 0 ? tags : undefined };
+  });
+}
+
+export function moveToAccount(transactions: Transaction[], account: Account): BulkChange {
+  return buildChange('Move', transactions, tx => ({ ...tx, accountId: account.id, account: account.name }));
+}
+
+export function setKeepReceipt(transactions: Transaction[], keep: boolean): BulkChange {
+  return buildChange(keep ? 'Keep receipts on' : 'Let receipts expire on', transactions.filter(tx => tx.attachmentIds?.length), tx => ({ ...tx, keepReceipt: keep }));
+}
+
+export function discardReceipts(transactions: Transaction[]): BulkChange {
+  return buildChange('Discard receipts on', transactions.filter(tx => tx.attachmentIds?.length), tx => ({ ...tx, attachmentIds: undefined, keepReceipt: undefined }));
+}
+
+export function deleteTransactions(transactions: Transaction[]): BulkChange {
+  return {
+    id: uuidv4(),
+    label: `Delete ${plural(transactions.length)}`,
+    before: transactions,
+    after: [],
+    deletedIds: transactions.map(tx => tx.id),
+    createdAt: new Date().toISOString(),
+  };
+}
+
+const TRANSFER_PAIR_WINDOW_DAYS = 7;
+
+/**
+ * Pair each outflow with an inflow of the same amount into a different account (closest date
+ * within a week). Each transaction is used at most once.
+ */
+export function findTransferPairs(transactions: Transaction[]): { outflow: Transaction; inflow: Transaction }[] {
+  const DAY = 86400000;
+  const outflows = transactions.filter(tx => tx.type === TransactionType.EXPENSE || tx.type === TransactionType.OBLIGATION);
+  const inflows = transactions.filter(tx => tx.type === TransactionType.INCOME);
+  const paired = new Set<string>();
+  const pairs: { outflow: Transaction; inflow: Transaction }[] = [];
+
+  for (const out of outflows) {
+    const partner = inflows
+      .filter(inc => !paired.has(inc.id) && inc.accountId !== out.accountId && Math.abs(inc.amount - out.amount) < 0.01)
+      .map(inc => ({ inc, gap: Math.abs(new Date(inc.date).getTime() - new Date(out.date).getTime()) }))
+      .filter(c => c.gap <= TRANSFER_PAIR_WINDOW_DAYS * DAY)
+      .sort((a, b) => a.gap - b.gap)[0]?.inc;
+    if (partner) {
+      paired.add(partner.id);
+      pairs.push({ outflow: out, inflow: partner });
+    }
+  }
+  return pairs;
+}
+
+/**
+ * Flag both sides of each transfer pair (see findTransferPairs), the same shape as a parsed ATM
+ * withdrawal. Transactions without a partner are left alone and counted in `unpaired`.
+ */
+export function convertToTransferPairs(transactions: Transaction[]): { change: BulkChange; unpaired: number } {
+  const paired = new Set(findTransferPairs(transactions).flatMap(pair => [pair.outflow.id, pair.inflow.id]));
+  const change = buildChange('Mark as transfers', transactions.filter(tx => paired.has(tx.id)), tx => ({ ...tx, isTransfer: true }));
+  return { change, unpaired: transactions.length - paired.size };
+}
+
+/**
+ * Locked statement reconciliations a change would throw out of balance: those covering any
+ * transaction it changes or deletes, as it was or as it will be (a move can land in one)
+ */
+export function lockedReconciliationsFor(change: BulkChange, reconciliations: Reconciliation[]): Reconciliation[] {
+  const locking = new Map<string, Reconciliation>();
+  for (const tx of [...change.before, ...change.after]) {
+    const reconciliation = findLockingReconciliation(tx, reconciliations);
+    if (reconciliation) locking.set(reconciliation.id, reconciliation);
+  }
+  return [...locking.values()];
+}
+
+/**
+ * Write a change (one IndexedDB transaction)
+ */
+export async function applyBulkChange(change: BulkChange, audit: AuditContext): Promise<void> {
+  await applyTransactionChanges(change.after, change.deletedIds, audit);
+}
+
+const escapeRegex = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const mostCommon = (values: string[]) => {
+  const counts = new Map<string, number>();
+  values.forEach(v => counts.set(v, (counts.get(v) || 0) + 1));
+  return [...counts.entries()].sort((a, b) => b[1] - a[1])[0]?.[0];
+};
+
+/**
+ * Draft categorization rule covering the selection: its merchants as the pattern, the shared
+ * type and account as conditions, and the most common category as the action
+ */
+export function ruleFromSelection(transactions: Transaction[], name: string): CategorizationRule {
+  const merchants = Array.from(new Set(transactions.map(tx => tx.merchant.trim()).filter(Boolean)));
+  const types = new Set(transactions.map(tx => tx.type));
+  const accountIds = new Set(transactions.map(tx => tx.accountId));
+
+  return {
+    id: uuidv4(),
+    name,
+    enabled: true,
+    priority: 0, // Set when saved
+    conditions: {
+      merchantPattern: merchants.length > 0 ? `^(${merchants.map(escapeRegex).join('|')})$` : undefined,
+      type: types.size === 1 ? [...types][0] : undefined,
+      accountId: accountIds.size === 1 ? [...accountIds][0] : undefined,
+    },
+    actions: {
+      category: mostCommon(transactions.map(tx => tx.category)),
+    },
+    createdAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Save a rule below the existing ones
+ */
+export async function saveRuleFromSelection(rule: CategorizationRule): Promise<CategorizationRule> {
+  const rules = await getAllCategorizationRules();
+  const saved = { ...rule, priority: rules.reduce((max, r) => Math.max(max, r.priority), 0) + 1 };
+  await saveCategorizationRule(saved);
+  return saved;
+}
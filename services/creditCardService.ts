@@ -0,0 +1,256 @@
+import { Account, MinimumPaymentRule, ScheduledTransaction, Transaction, TransactionType } from '../types';
+import { saveScheduledTransaction } from './indexedDBService';
+import { buildBalanceLedger, getBalanceOn, BalanceLedger } from './balanceLedgerService';
+import { v4 as uuidv4 } from 'uuid';
+
+/**
+ * Credit Card Statements
+ * Splits a card's history into billing cycles that close on statementClosingDay, works out each
+ * statement balance and minimum payment, and estimates the interest charged when only the
+ * minimum is paid. Amounts owed are positive here, unlike Account.balance (negative = debt).
+ */
+
+export const DEFAULT_MINIMUM_PAYMENT: MinimumPaymentRule = { percentOfBalance: 1, floor: 25, includeInterest: true };
+
+// Days from statement close to due date when the card has no paymentDueDay
+const DEFAULT_GRACE_DAYS = 21;
+
+// Stop the minimum-only payoff simulation after this many months
+const MAX_PAYOFF_MONTHS = 600;
+
+export interface StatementCycle {
+  accountId: string;
+  openDate: string; // First day of the cycle
+  closeDate: string; // Statement date
+  dueDate: string;
+  isOpen: boolean; // Current cycle, not closed yet
+  previousBalance: number; // Owed at the previous statement
+  charges: number; // Purchases and fees in the cycle
+  credits: number; // Payments and refunds in the cycle
+  estimatedInterest: number; // Interest on the part of the previous statement left unpaid
+  statementBalance: number; // Owed at close (or today, for the open cycle)
+  minimumPayment: number;
+  transactions: Transaction[];
+}
+
+export interface MinimumOnlyProjection {
+  monthlyInterest: number; // Interest charged next cycle if only the minimum is paid
+  monthsToPayoff: number | null; // null when the minimum never covers the interest
+  totalInterest: number;
+}
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+const toISO = (d: Date) =>
+  `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+
+const parseISO = (date: string) => {
+  const [y, m, d] = date.split('-').map(Number);
+  return new Date(y, m - 1, d);
+};
+
+const addDays = (date: string, days: number) => {
+  const d = parseISO(date);
+  d.setDate(d.getDate() + days);
+  return toISO(d);
+};
+
+const clampDay = (year: number, month: number, day: number) =>
+  new Date(year, month, Math.min(day, new Date(year, month + 1, 0).getDate()));
+
+const daysBetween = (from: string, to: string) =>
+  Math.round((parseISO(to).getTime() - parseISO(from).getTime()) / 86400000);
+
+export function hasStatementCycle(account: Account): boolean {
+  return account.type === 'Credit Card' && !!account.statementClosingDay;
+}
+
+/**
+ * Statement date of the cycle that contains `date`
+ */
+export function getClosingDateFor(account: Account, date: string): string {
+  const d = parseISO(date);
+  const closingDay = account.statementClosingDay!;
+  const thisMonth = toISO(clampDay(d.getFullYear(), d.getMonth(), closingDay));
+  return date <= thisMonth ? thisMonth : toISO(clampDay(d.getFullYear(), d.getMonth() + 1, closingDay));
+}
+
+function previousClosingDate(account: Account, closeDate: string): string {
+  const close = parseISO(closeDate);
+  return toISO(clampDay(close.getFullYear(), close.getMonth() - 1, account.statementClosingDay!));
+}
+
+/**
+ * Payment due date for a statement: the next paymentDueDay after it closes
+ */
+export function getDueDateFor(account: Account, closeDate: string): string {
+  if (!account.paymentDueDay) return addDays(closeDate, DEFAULT_GRACE_DAYS);
+  const close = parseISO(closeDate);
+  const sameMonth = toISO(clampDay(close.getFullYear(), close.getMonth(), account.paymentDueDay));
+  return sameMonth > closeDate ? sameMonth : toISO(clampDay(close.getFullYear(), close.getMonth() + 1, account.paymentDueDay));
+}
+
+/**
+ * Minimum due on a statement balance: the greater of the percentage (plus interest) and the floor,
+ * but never more than the balance itself
+ */
+export function calculateMinimumPayment(account: Account, statementBalance: number, interest: number = 0): number {
+  if (statementBalance <= 0) return 0;
+  const rule = account.minimumPayment || DEFAULT_MINIMUM_PAYMENT;
+  const percentage = statementBalance * (rule.percentOfBalance / 100) + (rule.includeInterest ? interest : 0);
+  return round2(Math.min(statementBalance, Math.max(rule.floor, percentage)));
+}
+
+/**
+ * Interest on a carried balance over a number of days, using the daily periodic rate
+ */
+export function estimateInterest(account: Account, carriedBalance: number, days: number): number {
+  if (!account.apr || carriedBalance <= 0 || days <= 0) return 0;
+  return round2(carriedBalance * (account.apr / 100 / 365) * days);
+}
+
+/**
+ * The card's last `count` billing cycles, oldest first; the final one is the open cycle
+ */
+export function getStatementCycles(
+  account: Account,
+  transactions: Transaction[],
+  count: number = 6,
+  today: string = toISO(new Date()),
+  ledger: BalanceLedger = buildBalanceLedger(account, transactions)
+): StatementCycle[] {
+  if (!hasStatementCycle(account)) return [];
+
+  // Walk back from the open cycle; the extra date is where the oldest cycle opens
+  const closeDates = [getClosingDateFor(account, today)];
+  while (closeDates.length < count + 1) {
+    closeDates.unshift(previousClosingDate(account, closeDates[0]));
+  }
+
+  const cycles: StatementCycle[] = [];
+  for (let i = 1; i < closeDates.length; i++) {
+    const openDate = addDays(closeDates[i - 1], 1);
+    const closeDate = closeDates[i];
+    const isOpen = closeDate >= today;
+    const previousBalance = round2(Math.max(0, -getBalanceOn(ledger, closeDates[i - 1])));
+
+    const cycleTxs = transactions.filter(tx =>
+      (tx.accountId === account.id || tx.toAccountId === account.id) && tx.date >= openDate && tx.date <= closeDate
+    );
+    const entries = ledger.entries.filter(e => e.date >= openDate && e.date <= closeDate);
+    const charges = round2(entries.filter(e => e.delta < 0).reduce((s, e) => s - e.delta, 0));
+    const credits = round2(entries.filter(e => e.delta > 0).reduce((s, e) => s + e.delta, 0));
+
+    // Interest accrues from the previous due date on whatever was left of that statement
+    const previousDue = getDueDateFor(account, closeDates[i - 1]);
+    const paidByDue = entries.filter(e => e.delta > 0 && e.date <= previousDue).reduce((s, e) => s + e.delta, 0);
+    const estimatedInterest = estimateInterest(
+      account,
+      previousBalance - paidByDue,
+      daysBetween(previousDue, isOpen ? today : closeDate)
+    );
+
+    const statementBalance = round2(Math.max(0, -getBalanceOn(ledger, isOpen ? today : closeDate)));
+    cycles.push({
+      accountId: account.id,
+      openDate,
+      closeDate,
+      dueDate: getDueDateFor(account, closeDate),
+      isOpen,
+      previousBalance,
+      charges,
+      credits,
+      estimatedInterest,
+      statementBalance,
+      minimumPayment: calculateMinimumPayment(account, statementBalance, estimatedInterest),
+      transactions: cycleTxs,
+    });
+  }
+  return cycles;
+}
+
+/**
+ * What happens if only the minimum is paid on a statement and nothing else is charged
+ */
+export function projectMinimumOnly(account: Account, statementBalance: number): MinimumOnlyProjection {
+  const monthlyInterest = estimateInterest(account, statementBalance - calculateMinimumPayment(account, statementBalance), 30);
+
+  let balance = statementBalance;
+  let totalInterest = 0;
+  let months = 0;
+  while (balance > 0.005 && months < MAX_PAYOFF_MONTHS) {
+    const interest = estimateInterest(account, balance, 30);
+    const payment = calculateMinimumPayment(account, balance + interest, interest);
+    if (payment <= interest && interest > 0) {
+      return { monthlyInterest, monthsToPayoff: null, totalInterest: round2(totalInterest) };
+    }
+    totalInterest += interest;
+    balance = round2(balance + interest - payment);
+    months++;
+  }
+
+  return {
+    monthlyInterest,
+    monthsToPayoff: balance > 0.005 ? null : months,
+    totalInterest: round2(totalInterest),
+  };
+}
+
+/**
+ * Account that pays a credit card or loan: the source of the latest transfer into it,
+ * otherwise the first bank account in the same currency
+ */
+export function getPaymentSourceAccount(debt: Account, accounts: Account[], transactions: Transaction[]): string | undefined {
+  let latest: Transaction | undefined;
+  for (const tx of transactions) {
+    if (tx.toAccountId !== debt.id || !tx.accountId || tx.accountId === debt.id) continue;
+    if (!latest || tx.date > latest.date) latest = tx;
+  }
+  if (latest) return latest.accountId;
+  return accounts.find(a => a.type === 'Bank' && a.currency === debt.currency)?.id;
+}
+
+/**
+ * Schedule the payment of each card's latest closed statement, once per statement.
+ * Returns the scheduled transactions that were created.
+ */
+export async function generateStatementPayments(
+  accounts: Account[],
+  transactions: Transaction[],
+  scheduled: ScheduledTransaction[],
+  today: string = toISO(new Date())
+): Promise<ScheduledTransaction[]> {
+  const created: ScheduledTransaction[] = [];
+
+  for (const card of accounts.filter(hasStatementCycle)) {
+    const cycles = getStatementCycles(card, transactions, 2, today);
+    const closed = cycles.find(c => !c.isOpen);
+    if (!closed || closed.statementBalance <= 0) continue;
+
+    const exists = scheduled.some(st => st.statementAccountId === card.id && st.statementClosingDate === closed.closeDate);
+    if (exists) continue;
+
+    const now = new Date().toISOString();
+    const payment: ScheduledTransaction = {
+      id: uuidv4(),
+      amount: closed.statementBalance,
+      currency: card.currency,
+      merchant: `${card.name} statement`,
+      category: 'Credit Card Payment',
+      type: TransactionType.OBLIGATION,
+      accountId: getPaymentSourceAccount(card, accounts, transactions),
+      dueDate: closed.dueDate,
+      status: 'PENDING',
+      statementAccountId: card.id,
+      statementClosingDate: closed.closeDate,
+      minimumDue: closed.minimumPayment,
+      notes: `Statement closed ${closed.closeDate}. Minimum due ${card.currency} ${closed.minimumPayment.toFixed(2)}.`,
+      createdAt: now,
+      updatedAt: now,
+    };
+    await saveScheduledTransaction(payment);
+    created.push(payment);
+  }
+
+  return created;
+}
@@ -4,7 +4,7 @@
  */
 
 import { getSetting, saveSetting } from './indexedDBService';
-import { exportToCSV, exportReceiptsZip, uploadDailyBackup } from './backupService';
+import { exportBackup, exportReceiptsZip, uploadDailyBackup, recordAutoBackupFailure, clearAutoBackupFailure } from './backupService';
 
 // Type for the scheduler timeout ID
 let schedulerTimeout: NodeJS.Timeout | null = null;
@@ -36,20 +36,23 @@ async function performDailyBackup(userId: string): Promise<void> {
     console.log('Starting daily auto-backup...');
 
     // Export data
-    const csv = await exportToCSV();
+    const data = await exportBackup();
     const receiptsBlob = await exportReceiptsZip();
 
     // Upload to daily backup path (overwrites previous)
-    await uploadDailyBackup(userId, csv, receiptsBlob);
+    await uploadDailyBackup(userId, data, receiptsBlob);
 
     // Save timestamp of last backup
     const now = new Date().toISOString();
     await saveSetting('lastDailyBackup', now);
+    await clearAutoBackupFailure();
 
     console.log(`Daily auto-backup completed successfully at ${now}`);
   } catch (error) {
     console.error('Daily auto-backup failed:', error);
-    // Don't throw - just log and try again tomorrow
+    // Don't throw - record it for Settings, tell the user, and try again tomorrow
+    const failure = await recordAutoBackupFailure(error);
+    alert(`Daily auto-backup failed: ${failure.message}`);
   } finally {
     isBackupInProgress = false;
   }
@@ -0,0 +1,293 @@
+import { Account, AuditContext, ScheduledTransaction, Transaction, TransactionType } from '../types';
+import { getAllAccounts, saveAccount, saveScheduledTransaction, deleteScheduledTransaction } from './indexedDBService';
+import { calculateMinimumPayment, getPaymentSourceAccount } from './creditCardService';
+import { alreadyAppliedToAccount, calculateInstallment, getLoanTerms } from './loanService';
+import { v4 as uuidv4 } from 'uuid';
+
+/**
+ * Debt Payoff Planner
+ * Simulates paying down every liability account (credit cards and loans with a negative balance)
+ * from a fixed monthly budget. Every debt gets its minimum; whatever is left goes to one debt at a
+ * time in strategy order, and freed-up minimums roll into the next one.
+ */
+
+export type PayoffStrategy = 'SNOWBALL' | 'AVALANCHE' | 'CUSTOM';
+
+export const PAYOFF_STRATEGIES: { value: PayoffStrategy; label: string; description: string }[] = [
+  { value: 'SNOWBALL', label: 'Snowball', description: 'Smallest balance first' },
+  { value: 'AVALANCHE', label: 'Avalanche', description: 'Highest interest rate first' },
+  { value: 'CUSTOM', label: 'Custom', description: 'Your own order' },
+];
+
+// Give up on plans that would run longer than this
+const MAX_MONTHS = 600;
+
+export interface Debt {
+  accountId: string;
+  name: string;
+  currency: string;
+  balance: number; // Owed, positive
+  apr: number; // Percent
+  paymentDay: number; // Day of month payments fall on
+  account: Account;
+}
+
+export interface PayoffMonth {
+  month: number; // 1-based
+  date: string; // Month the payments are made in (YYYY-MM-01)
+  payments: Record<string, number>;
+  interest: Record<string, number>;
+  balances: Record<string, number>; // After this month's payments
+  totalPaid: number;
+  totalBalance: number;
+}
+
+export interface PayoffPlan {
+  strategy: PayoffStrategy;
+  monthlyBudget: number;
+  minimumTotal: number; // Sum of the first month's minimums
+  feasible: boolean; // Budget covers the minimums and the plan finishes
+  months: PayoffMonth[];
+  payoffDate: string | null;
+  debtPayoffDates: Record<string, string>;
+  totalInterest: number;
+  totalPaid: number;
+}
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+const toISO = (d: Date) =>
+  `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+
+const parseISO = (date: string) => {
+  const [y, m, d] = date.split('-').map(Number);
+  return new Date(y, m - 1, d);
+};
+
+const monthStart = (from: string, offset: number) => {
+  const d = parseISO(from);
+  return toISO(new Date(d.getFullYear(), d.getMonth() + offset, 1));
+};
+
+const isLiability = (account: Account) => account.type === 'Credit Card' || account.type === 'Loan/BNPL';
+
+/**
+ * Liability accounts that currently owe money
+ */
+export function getDebts(accounts: Account[]): Debt[] {
+  return accounts
+    .filter(a => isLiability(a) && a.balance < 0)
+    .map(a => ({
+      accountId: a.id,
+      name: a.name,
+      currency: a.currency,
+      balance: round2(-a.balance),
+      apr: (a.type === 'Credit Card' ? a.apr : a.loanInterestRate) || 0,
+      paymentDay: a.type === 'Credit Card'
+        ? a.paymentDueDay || 1
+        : a.loanStartDate ? parseISO(a.loanStartDate).getDate() : 1,
+      account: a,
+    }));
+}
+
+/**
+ * Minimum payment on a debt this month: the card's minimum rule, or the loan's installment
+ */
+export function minimumPaymentFor(debt: Debt, balance: number, interest: number): number {
+  if (balance <= 0) return 0;
+  if (debt.account.type === 'Credit Card') return calculateMinimumPayment(debt.account, balance, interest);
+  const terms = getLoanTerms(debt.account);
+  return round2(Math.min(balance, terms ? calculateInstallment(terms) : 0));
+}
+
+/**
+ * Order in which extra money is thrown at debts. Snowball re-sorts by the current balance each month.
+ */
+export function orderDebts(
+  debts: Debt[],
+  balances: Record<string, number>,
+  strategy: PayoffStrategy,
+  customOrder: string[] = []
+): Debt[] {
+  const sorted = [...debts];
+  switch (strategy) {
+    case 'SNOWBALL':
+      return sorted.sort((a, b) => balances[a.accountId] - balances[b.accountId]);
+    case 'AVALANCHE':
+      return sorted.sort((a, b) => b.apr - a.apr || balances[a.accountId] - balances[b.accountId]);
+    default: {
+      const rank = (d: Debt) => {
+        const i = customOrder.indexOf(d.accountId);
+        return i === -1 ? customOrder.length : i;
+      };
+      return sorted.sort((a, b) => rank(a) - rank(b));
+    }
+  }
+}
+
+/**
+ * Month-by-month payoff simulation. Interest is charged monthly at APR / 12 before payments.
+ */
+export function simulatePayoff(
+  debts: Debt[],
+  monthlyBudget: number,
+  strategy: PayoffStrategy,
+  customOrder: string[] = [],
+  startDate: string = toISO(new Date())
+): PayoffPlan {
+  const balances: Record<string, number> = {};
+  debts.forEach(d => { balances[d.accountId] = d.balance; });
+
+  const plan: PayoffPlan = {
+    strategy,
+    monthlyBudget,
+    minimumTotal: round2(debts.reduce((s, d) => {
+      const interest = d.balance * d.apr / 1200;
+      return s + minimumPaymentFor(d, d.balance + interest, interest);
+    }, 0)),
+    feasible: true,
+    months: [],
+    payoffDate: null,
+    debtPayoffDates: {},
+    totalInterest: 0,
+    totalPaid: 0,
+  };
+
+  if (debts.length === 0) return plan;
+  if (monthlyBudget < plan.minimumTotal) {
+    plan.feasible = false;
+    return plan;
+  }
+
+  for (let month = 1; month <= MAX_MONTHS; month++) {
+    const open = debts.filter(d => balances[d.accountId] > 0.005);
+    if (open.length === 0) break;
+
+    const date = monthStart(startDate, month);
+    const payments: Record<string, number> = {};
+    const interest: Record<string, number> = {};
+
+    // Interest, then minimums
+    let available = monthlyBudget;
+    for (const d of open) {
+      interest[d.accountId] = round2(balances[d.accountId] * d.apr / 1200);
+      balances[d.accountId] = round2(balances[d.accountId] + interest[d.accountId]);
+      const minimum = Math.min(available, minimumPaymentFor(d, balances[d.accountId], interest[d.accountId]));
+      payments[d.accountId] = minimum;
+      balances[d.accountId] = round2(balances[d.accountId] - minimum);
+      available = round2(available - minimum);
+    }
+
+    // Everything left goes to the debts in strategy order
+    for (const d of orderDebts(open, balances, strategy, customOrder)) {
+      if (available <= 0) break;
+      const extra = Math.min(available, balances[d.accountId]);
+      payments[d.accountId] = round2(payments[d.accountId] + extra);
+      balances[d.accountId] = round2(balances[d.accountId] - extra);
+      available = round2(available - extra);
+    }
+
+    for (const d of open) {
+      if (balances[d.accountId] <= 0.005 && !plan.debtPayoffDates[d.accountId]) {
+        plan.debtPayoffDates[d.accountId] = date;
+      }
+    }
+
+    const totalPaid = round2(Object.values(payments).reduce((s, p) => s + p, 0));
+    const monthInterest = Object.values(interest).reduce((s, i) => s + i, 0);
+    plan.totalInterest = round2(plan.totalInterest + monthInterest);
+    plan.totalPaid = round2(plan.totalPaid + totalPaid);
+    plan.months.push({
+      month,
+      date,
+      payments,
+      interest,
+      balances: { ...balances },
+      totalPaid,
+      totalBalance: round2(Object.values(balances).reduce((s, b) => s + Math.max(0, b), 0)),
+    });
+  }
+
+  const finished = debts.every(d => plan.debtPayoffDates[d.accountId]);
+  plan.feasible = finished;
+  plan.payoffDate = finished ? plan.months[plan.months.length - 1].date : null;
+  return plan;
+}
+
+const isOpen = (st: ScheduledTransaction) => st.status === 'PENDING' || st.status === 'OVERDUE';
+
+/**
+ * Debt account an open scheduled payment goes to, whichever generator created it
+ */
+const paymentTarget = (st: ScheduledTransaction) => st.payToAccountId || st.statementAccountId || st.loanAccountId;
+
+/**
+ * Turn the first `monthCount` months of a plan into scheduled payments, replacing any earlier plan.
+ * Statement payments and loan installments already scheduled for a debt in the same month are
+ * subtracted so nothing is paid twice. Returns the created payments.
+ */
+export async function schedulePayoffPlan(
+  plan: PayoffPlan,
+  debts: Debt[],
+  accounts: Account[],
+  transactions: Transaction[],
+  scheduled: ScheduledTransaction[],
+  monthCount: number = 12
+): Promise<ScheduledTransaction[]> {
+  for (const st of scheduled.filter(st => st.payoffPlanId && isOpen(st))) {
+    await deleteScheduledTransaction(st.id);
+  }
+
+  const planId = uuidv4();
+  const existing = scheduled.filter(st => !st.payoffPlanId && isOpen(st));
+  const now = new Date().toISOString();
+  const created: ScheduledTransaction[] = [];
+
+  for (const month of plan.months.slice(0, monthCount)) {
+    for (const debt of debts) {
+      const planned = month.payments[debt.accountId] || 0;
+      const alreadyScheduled = existing
+        .filter(st => paymentTarget(st) === debt.accountId && st.dueDate.slice(0, 7) === month.date.slice(0, 7))
+        .reduce((s, st) => s + st.amount, 0);
+      const amount = round2(planned - alreadyScheduled);
+      if (amount <= 0) continue;
+
+      const d = parseISO(month.date);
+      const lastDay = new Date(d.getFullYear(), d.getMonth() + 1, 0).getDate();
+      const payment: ScheduledTransaction = {
+        id: uuidv4(),
+        amount,
+        currency: debt.currency,
+        merchant: `${debt.name} payoff (${PAYOFF_STRATEGIES.find(s => s.value === plan.strategy)?.label})`,
+        category: debt.account.type === 'Credit Card' ? 'Credit Card Payment' : 'Loan Payment',
+        type: TransactionType.OBLIGATION,
+        accountId: getPaymentSourceAccount(debt.account, accounts, transactions),
+        dueDate: toISO(new Date(d.getFullYear(), d.getMonth(), Math.min(debt.paymentDay, lastDay))),
+        status: 'PENDING',
+        payToAccountId: debt.accountId,
+        payoffPlanId: planId,
+        createdAt: now,
+        updatedAt: now,
+      };
+      await saveScheduledTransaction(payment);
+      created.push(payment);
+    }
+  }
+
+  return created;
+}
+
+/**
+ * Credit the debt account when a plan or statement payment is matched to a transaction from
+ * another account. Call after markAsPaid. (Loan installments go through recordLoanPayment.)
+ */
+export async function recordDebtPayment(st: ScheduledTransaction, tx: Transaction, audit?: AuditContext): Promise<void> {
+  const targetId = st.payToAccountId || st.statementAccountId;
+  if (!targetId) return;
+
+  const debt = (await getAllAccounts()).find(a => a.id === targetId);
+  if (!debt) return;
+
+  const paid = tx.originalCurrency === debt.currency && tx.originalAmount !== undefined ? tx.originalAmount : tx.amount;
+  await saveAccount({ ...debt, balance: round2(debt.balance + paid - alreadyAppliedToAccount(tx, debt.id)) }, audit);
+}
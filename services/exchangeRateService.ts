@@ -0,0 +1,236 @@
+import { Account, ExchangeRate, Transaction, TransactionType } from '../types';
+import { getAllExchangeRates, saveExchangeRate } from './indexedDBService';
+
+/**
+ * Exchange Rate Service
+ * Converts foreign-currency balances and transactions into the base currency using a local,
+ * dated rate table. Rates are entered manually or learned from parsed transactions.
+ */
+
+export interface FxGainLoss {
+  accountId: string;
+  accountName: string;
+  currency: string;
+  balance: number; // In the account's currency
+  currentRate: number | null;
+  marketValue: number | null; // Balance at today's rate, in base currency
+  costBasis: number | null; // What the balance cost in base currency when it came in
+  unrealized: number | null; // marketValue - costBasis
+}
+
+const today = () => new Date().toISOString().split('T')[0];
+
+export const exchangeRateId = (currency: string, baseCurrency: string, date: string) =>
+  `${currency.toUpperCase()}:${baseCurrency.toUpperCase()}:${date}`;
+
+/**
+ * Build a rate record (not saved)
+ */
+export function createExchangeRate(
+  currency: string,
+  baseCurrency: string,
+  rate: number,
+  date: string,
+  source: ExchangeRate['source']
+): ExchangeRate {
+  return {
+    id: exchangeRateId(currency, baseCurrency, date),
+    currency: currency.toUpperCase(),
+    baseCurrency: baseCurrency.toUpperCase(),
+    rate,
+    date,
+    source,
+    createdAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Rate for converting `currency` into `baseCurrency` on a date.
+ * Uses the latest rate on or before the date, falling back to the earliest later rate;
+ * a rate stored the other way round is inverted. Returns null when the pair is unknown.
+ */
+export function getRateOn(
+  rates: ExchangeRate[],
+  currency: string,
+  baseCurrency: string,
+  date: string = today()
+): number | null {
+  if (!currency || currency.toUpperCase() === baseCurrency.toUpperCase()) return 1;
+
+  const from = currency.toUpperCase();
+  const to = baseCurrency.toUpperCase();
+  const candidates = rates
+    .filter(r => r.rate > 0 && (
+      (r.currency === from && r.baseCurrency === to) || (r.currency === to && r.baseCurrency === from)
+    ))
+    .sort((a, b) => a.date.localeCompare(b.date) || (a.source === b.source ? 0 : a.source === 'manual' ? 1 : -1));
+  if (candidates.length === 0) return null;
+
+  // Manual entries sort after learned ones on the same day, so they win
+  const onOrBefore = candidates.filter(r => r.date <= date);
+  const chosen = onOrBefore.length > 0 ? onOrBefore[onOrBefore.length - 1] : candidates[0];
+  return chosen.currency === from ? chosen.rate : 1 / chosen.rate;
+}
+
+/**
+ * Convert an amount into the base currency at the dated rate.
+ * Unknown pairs are returned unconverted - use findMissingRates to warn about them.
+ */
+export function toBaseCurrency(
+  amount: number,
+  currency: string,
+  baseCurrency: string,
+  rates: ExchangeRate[],
+  date?: string
+): number {
+  const rate = getRateOn(rates, currency, baseCurrency, date);
+  return rate === null ? amount : amount * rate;
+}
+
+/**
+ * Account balance in the base currency (balances are held in the account's own currency)
+ */
+export function accountBalanceInBase(account: Account, baseCurrency: string, rates: ExchangeRate[], date?: string): number {
+  return toBaseCurrency(account.balance || 0, account.currency || baseCurrency, baseCurrency, rates, date);
+}
+
+export function netWorthInBase(accounts: Account[], baseCurrency: string, rates: ExchangeRate[], date?: string): number {
+  return accounts.reduce((sum, acc) => sum + accountBalanceInBase(acc, baseCurrency, rates, date), 0);
+}
+
+/**
+ * Currencies used by accounts that have no rate to the base currency
+ */
+export function findMissingRates(accounts: Account[], baseCurrency: string, rates: ExchangeRate[]): string[] {
+  const missing = new Set<string>();
+  for (const acc of accounts) {
+    if (acc.currency && getRateOn(rates, acc.currency, baseCurrency) === null) missing.add(acc.currency.toUpperCase());
+  }
+  return [...missing];
+}
+
+/**
+ * A transaction was never really converted if the parser left amount equal to originalAmount
+ */
+const isUnconverted = (tx: Transaction) =>
+  tx.originalAmount !== undefined && tx.amount === tx.originalAmount && (!tx.exchangeRate || tx.exchangeRate === 1);
+
+/**
+ * Transaction amount in the base currency. Rows the parser could not convert are
+ * converted here at the rate for the transaction date; everything else is already in base.
+ */
+export function transactionAmountInBase(tx: Transaction, baseCurrency: string, rates: ExchangeRate[]): number {
+  if (!tx.originalCurrency || tx.originalCurrency === baseCurrency || !isUnconverted(tx)) return tx.amount;
+  return toBaseCurrency(tx.originalAmount!, tx.originalCurrency, baseCurrency, rates, tx.date);
+}
+
+/**
+ * Copy of the transactions with amounts in the base currency, for totals and charts
+ */
+export function convertTransactionsToBase(transactions: Transaction[], baseCurrency: string, rates: ExchangeRate[]): Transaction[] {
+  if (rates.length === 0) return transactions;
+  return transactions.map(tx => {
+    const amount = transactionAmountInBase(tx, baseCurrency, rates);
+    return amount === tx.amount ? tx : { ...tx, amount, exchangeRate: amount / tx.originalAmount! };
+  });
+}
+
+/**
+ * Rates implied by transactions that were genuinely converted (one per currency per day).
+ * Never replaces a manual rate.
+ */
+export function learnRatesFromTransactions(
+  transactions: Transaction[],
+  baseCurrency: string,
+  existing: ExchangeRate[]
+): ExchangeRate[] {
+  const existingById = new Map(existing.map(r => [r.id, r]));
+  const learned = new Map<string, ExchangeRate>();
+
+  for (const tx of transactions) {
+    if (!tx.originalCurrency || tx.originalCurrency.toUpperCase() === baseCurrency.toUpperCase()) continue;
+    if (!tx.originalAmount || isUnconverted(tx)) continue;
+
+    const rate = tx.exchangeRate && tx.exchangeRate !== 1 ? tx.exchangeRate : tx.amount / tx.originalAmount;
+    if (!Number.isFinite(rate) || rate <= 0) continue;
+
+    const record = createExchangeRate(tx.originalCurrency, baseCurrency, Number(rate.toFixed(6)), tx.date, 'learned');
+    const current = existingById.get(record.id);
+    if (current?.source === 'manual' || current?.rate === record.rate) continue;
+    learned.set(record.id, record);
+  }
+
+  return [...learned.values()];
+}
+
+/**
+ * Learn and save rates from newly added transactions. Returns the rates that were saved.
+ */
+export async function recordLearnedRates(transactions: Transaction[], baseCurrency: string): Promise<ExchangeRate[]> {
+  const learned = learnRatesFromTransactions(transactions, baseCurrency, await getAllExchangeRates());
+  for (const rate of learned) {
+    await saveExchangeRate(rate);
+  }
+  return learned;
+}
+
+/**
+ * Unrealized FX gain/loss for each foreign-currency account.
+ * Cost basis values every inflow/outflow at the rate on its date, and the opening balance
+ * (balance not explained by transactions) at the earliest known rate.
+ */
+export function calculateFxGainLoss(
+  accounts: Account[],
+  transactions: Transaction[],
+  baseCurrency: string,
+  rates: ExchangeRate[]
+): FxGainLoss[] {
+  return accounts
+    .filter(acc => acc.currency && acc.currency.toUpperCase() !== baseCurrency.toUpperCase())
+    .map(acc => {
+      const currency = acc.currency.toUpperCase();
+      const currentRate = getRateOn(rates, currency, baseCurrency);
+      const result: FxGainLoss = {
+        accountId: acc.id,
+        accountName: acc.name,
+        currency,
+        balance: acc.balance || 0,
+        currentRate,
+        marketValue: currentRate === null ? null : (acc.balance || 0) * currentRate,
+        costBasis: null,
+        unrealized: null,
+      };
+      if (currentRate === null) return result;
+
+      let foreignFlow = 0;
+      let baseFlow = 0;
+      let firstDate: string | undefined;
+      for (const tx of transactions) {
+        const sign = accountSign(tx, acc.id);
+        if (sign === 0) continue;
+
+        // Foreign amount as it hit the account, and what it was worth in base currency at the time
+        const rateThen = getRateOn(rates, currency, baseCurrency, tx.date) ?? currentRate;
+        const foreign = tx.originalCurrency?.toUpperCase() === currency && tx.originalAmount !== undefined
+          ? tx.originalAmount
+          : transactionAmountInBase(tx, baseCurrency, rates) / rateThen;
+        foreignFlow += sign * foreign;
+        baseFlow += sign * foreign * rateThen;
+        if (!firstDate || tx.date < firstDate) firstDate = tx.date;
+      }
+
+      const opening = result.balance - foreignFlow;
+      const openingRate = getRateOn(rates, currency, baseCurrency, firstDate || '0000-01-01') ?? currentRate;
+      result.costBasis = opening * openingRate + baseFlow;
+      result.unrealized = result.marketValue! - result.costBasis;
+      return result;
+    });
+}
+
+// +1 money into the account, -1 money out, 0 not this account
+function accountSign(tx: Transaction, accountId: string): number {
+  if (tx.toAccountId === accountId && tx.accountId !== accountId) return 1;
+  if (tx.accountId !== accountId) return 0;
+  if (tx.toAccountId) return -1;
+  return tx.type === TransactionType.INCOME ? 1 : -1;
+}
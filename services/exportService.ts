@@ -0,0 +1,449 @@
+import JSZip from 'jszip';
+import { Transaction, TransactionType, Account } from '../types';
+import { getAllTransactions, getAllAccounts, getSetting } from './indexedDBService';
+import { findTransferPairs } from './bulkEditService';
+
+/**
+ * Export Service
+ * Writes transactions in formats other finance tools can read:
+ * OFX and QIF (one file per account) and a double-entry plain-text ledger (hledger or beancount).
+ * Backups (backupService) remain the only lossless format - these exports are for interoperability.
+ */
+
+export type ExportFormat = 'ofx' | 'qif' | 'hledger' | 'beancount';
+
+export interface ExportData {
+  transactions: Transaction[];
+  accounts: Account[];
+  baseCurrency: string;
+}
+
+export interface ExportFile {
+  fileName: string;
+  blob: Blob;
+}
+
+const UNASSIGNED_ACCOUNT = 'Assets:Unassigned';
+const TRANSFER_CLEARING_ACCOUNT = 'Equity:Transfers';
+
+const pad = (n: number) => n.toString().padStart(2, '0');
+
+const isOutflow = (tx: Transaction) =>
+  tx.type === TransactionType.EXPENSE || tx.type === TransactionType.OBLIGATION;
+
+const isTransferTx = (tx: Transaction) =>
+  tx.type === TransactionType.TRANSFER || tx.isTransfer === true;
+
+const byDate = (a: Transaction, b: Transaction) =>
+  a.date.localeCompare(b.date) || (a.time || '').localeCompare(b.time || '');
+
+const safeFileName = (name: string) => name.replace(/[^\w.-]+/g, '_').replace(/^_+|_+$/g, '') || 'account';
+
+/**
+ * Signed amount of a transaction from one account's point of view (negative = money out)
+ */
+function signedAmountFor(tx: Transaction, accountId: string): number {
+  if (tx.toAccountId === accountId && tx.accountId !== accountId) return tx.amount;
+  if (tx.type === TransactionType.TRANSFER) return -tx.amount;
+  return isOutflow(tx) ? -tx.amount : tx.amount;
+}
+
+function transactionsForAccount(transactions: Transaction[], accountId: string): Transaction[] {
+  return transactions
+    .filter(tx => tx.accountId === accountId || tx.toAccountId === accountId)
+    .sort(byDate);
+}
+
+// ---------- OFX ----------
+
+const escapeOfx = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+const ofxDate = (date: string) => date.replace(/-/g, '');
+
+function ofxTransactionType(tx: Transaction, amount: number): string {
+  if (tx.isCheque) return 'CHECK';
+  if (isTransferTx(tx)) return 'XFER';
+  return amount < 0 ? 'DEBIT' : 'CREDIT';
+}
+
+/**
+ * Write one account's transactions as an OFX 1.02 bank or credit card statement.
+ * Amounts are in the base currency; foreign rows carry ORIGCURRENCY with the rate used.
+ */
+export function toOfx(account: Account, transactions: Transaction[], baseCurrency: string): string {
+  const rows = transactionsForAccount(transactions, account.id);
+  const isCard = account.type === 'Credit Card';
+  const now = new Date();
+  const today = `${now.getFullYear()}${pad(now.getMonth() + 1)}${pad(now.getDate())}`;
+  const start = rows.length > 0 ? ofxDate(rows[0].date) : today;
+  const end = rows.length > 0 ? ofxDate(rows[rows.length - 1].date) : today;
+
+  const entries = rows.map(tx => {
+    const amount = signedAmountFor(tx, account.id);
+    const lines = [
+      '<STMTTRN>',
+      `<TRNTYPE>${ofxTransactionType(tx, amount)}`,
+      `<DTPOSTED>${ofxDate(tx.date)}`,
+      `<TRNAMT>${amount.toFixed(2)}`,
+      `<FITID>${tx.id}`,
+    ];
+    if (tx.isCheque && tx.chequeNumber) lines.push(`<CHECKNUM>${escapeOfx(tx.chequeNumber)}`);
+    lines.push(`<NAME>${escapeOfx(tx.merchant.slice(0, 32))}`);
+    lines.push(`<MEMO>${escapeOfx(tx.category)}`);
+    if (tx.originalCurrency && tx.originalCurrency !== baseCurrency && tx.exchangeRate) {
+      lines.push('<ORIGCURRENCY>', `<CURRATE>${tx.exchangeRate}`, `<CURSYM>${tx.originalCurrency}`, '</ORIGCURRENCY>');
+    }
+    lines.push('</STMTTRN>');
+    return lines.join('\n');
+  });
+
+  const accountFrom = isCard
+    ? `<CCACCTFROM>\n<ACCTID>${escapeOfx(account.last4Digits || account.id)}\n</CCACCTFROM>`
+    : `<BANKACCTFROM>\n<BANKID>FINSNAP\n<ACCTID>${escapeOfx(account.last4Digits || account.id)}\n<ACCTTYPE>CHECKING\n</BANKACCTFROM>`;
+  const [msgSet, stmtWrapper, stmtResponse] = isCard
+    ? ['CREDITCARDMSGSRSV1', 'CCSTMTTRNRS', 'CCSTMTRS']
+    : ['BANKMSGSRSV1', 'STMTTRNRS', 'STMTRS'];
+
+  return [
+    'OFXHEADER:100',
+    'DATA:OFXSGML',
+    'VERSION:102',
+    'SECURITY:NONE',
+    'ENCODING:USASCII',
+    'CHARSET:1252',
+    'COMPRESSION:NONE',
+    'OLDFILEUID:NONE',
+    'NEWFILEUID:NONE',
+    '',
+    '<OFX>',
+    '<SIGNONMSGSRSV1>',
+    '<SONRS>',
+    '<STATUS>\n<CODE>0\n<SEVERITY>INFO\n</STATUS>',
+    `<DTSERVER>${today}`,
+    '<LANGUAGE>ENG',
+    '</SONRS>',
+    '</SIGNONMSGSRSV1>',
+    `<${msgSet}>`,
+    `<${stmtWrapper}>`,
+    `<TRNUID>${account.id}`,
+    '<STATUS>\n<CODE>0\n<SEVERITY>INFO\n</STATUS>',
+    `<${stmtResponse}>`,
+    `<CURDEF>${baseCurrency}`,
+    accountFrom,
+    '<BANKTRANLIST>',
+    `<DTSTART>${start}`,
+    `<DTEND>${end}`,
+    ...entries,
+    '</BANKTRANLIST>',
+    '<LEDGERBAL>',
+    `<BALAMT>${account.balance.toFixed(2)}`,
+    `<DTASOF>${today}`,
+    '</LEDGERBAL>',
+    `</${stmtResponse}>`,
+    `</${stmtWrapper}>`,
+    `</${msgSet}>`,
+    '</OFX>',
+    '',
+  ].join('\n');
+}
+
+// ---------- QIF ----------
+
+function qifAccountType(account: Account): string {
+  switch (account.type) {
+    case 'Credit Card': return 'CCard';
+    case 'Cash':
+    case 'Wallet': return 'Cash';
+    case 'Loan/BNPL': return 'Oth L';
+    case 'Investment': return 'Invst';
+    case 'Asset': return 'Oth A';
+    default: return 'Bank';
+  }
+}
+
+/**
+ * Write one account's transactions as QIF. Dates are MM/DD/YYYY, transfers use the [Account] category form.
+ */
+export function toQif(account: Account, transactions: Transaction[], accounts: Account[], baseCurrency: string): string {
+  const lines = [`!Type:${qifAccountType(account)}`];
+
+  for (const tx of transactionsForAccount(transactions, account.id)) {
+    const [year, month, day] = tx.date.split('-');
+    const amount = signedAmountFor(tx, account.id);
+    const otherAccountId = tx.accountId === account.id ? tx.toAccountId : tx.accountId;
+    const otherAccount = isTransferTx(tx) ? accounts.find(a => a.id === otherAccountId) : undefined;
+
+    lines.push(`D${month}/${day}/${year}`);
+    lines.push(`T${amount.toFixed(2)}`);
+    if (tx.chequeStatus === 'CLEARED') lines.push('CX');
+    if (tx.isCheque && tx.chequeNumber) lines.push(`N${tx.chequeNumber}`);
+    lines.push(`P${tx.merchant}`);
+    if (tx.originalCurrency && tx.originalCurrency !== baseCurrency && tx.originalAmount !== undefined) {
+      lines.push(`M${tx.originalCurrency} ${tx.originalAmount.toFixed(2)} @ ${tx.exchangeRate ?? ''}`.trim());
+    }
+    lines.push(otherAccount ? `L[${otherAccount.name}]` : `L${tx.category}`);
+    lines.push('^');
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+// ---------- Ledger (hledger / beancount) ----------
+
+type LedgerDialect = 'hledger' | 'beancount';
+
+/**
+ * Ledger account name for an app account, e.g. "Assets:Bank:Emirates NBD" or "Liabilities:CreditCard:Visa"
+ */
+function ledgerAccountName(account: Account | undefined, dialect: LedgerDialect): string {
+  if (!account) return UNASSIGNED_ACCOUNT;
+  const root = account.type === 'Credit Card' || account.type === 'Loan/BNPL' ? 'Liabilities' : 'Assets';
+  return ledgerName([root, account.type, account.name], dialect);
+}
+
+function ledgerCategoryName(tx: Transaction, dialect: LedgerDialect): string {
+  const root = tx.type === TransactionType.INCOME ? 'Income' : 'Expenses';
+  return ledgerName([root, tx.category || 'Uncategorized'], dialect);
+}
+
+/**
+ * Join account path segments. Beancount only allows capitalised letter/digit/dash components;
+ * hledger allows spaces but treats two in a row as the end of the account name.
+ */
+function ledgerName(segments: string[], dialect: LedgerDialect): string {
+  return segments
+    .map(segment => {
+      if (dialect === 'hledger') {
+        return segment.replace(/:/g, '-').replace(/\s+/g, ' ').trim() || 'Other';
+      }
+      const cleaned = segment
+        .split(/[^A-Za-z0-9]+/)
+        .filter(Boolean)
+        .map(word => word[0].toUpperCase() + word.slice(1))
+        .join('-');
+      return /^[A-Z0-9]/.test(cleaned) ? cleaned : `X${cleaned || 'Other'}`;
+    })
+    .join(':');
+}
+
+const quote = (value: string) => `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+
+/**
+ * What the positive posting holds: the original amount and currency for foreign rows, else the base amount
+ */
+function postedValue(tx: Transaction, baseCurrency: string): { amount: number; currency: string } {
+  if (tx.originalCurrency && tx.originalCurrency !== baseCurrency && tx.originalAmount !== undefined) {
+    return { amount: tx.originalAmount, currency: tx.originalCurrency };
+  }
+  return { amount: tx.amount, currency: baseCurrency };
+}
+
+/**
+ * Posting amount, with the original currency and a total-price annotation for foreign rows:
+ * "50.00 USD @@ 183.50 AED"
+ */
+function postingAmount(tx: Transaction, sign: 1 | -1, baseCurrency: string): string {
+  const { amount, currency } = postedValue(tx, baseCurrency);
+  return currency === baseCurrency
+    ? `${(sign * amount).toFixed(2)} ${baseCurrency}`
+    : `${(sign * amount).toFixed(2)} ${currency} @@ ${tx.amount.toFixed(2)} ${baseCurrency}`;
+}
+
+interface LedgerEntry {
+  tx: Transaction;
+  debit: string; // Account receiving the money (positive posting)
+  credit: string; // Account the money comes from (balancing posting)
+  inflow?: Transaction; // The other half of a transfer recorded as an outflow row plus an inflow row
+}
+
+/**
+ * Transfer rows with no destination account - candidates to pair up (goal deposits have no other side)
+ */
+const isOneSidedTransfer = (tx: Transaction) =>
+  isTransferTx(tx) && !tx.toAccountId && !!tx.accountId && !tx.goalContributionId;
+
+/**
+ * One entry per transaction, except a transfer saved as two rows (money out of one account and
+ * into another, e.g. a parsed ATM withdrawal), which becomes a single entry between the two accounts.
+ */
+function toLedgerEntries(transactions: Transaction[], accountsById: Map<string, Account>, dialect: LedgerDialect): LedgerEntry[] {
+  const inflowFor = new Map<string, Transaction>();
+  for (const { outflow, inflow } of findTransferPairs(transactions.filter(isOneSidedTransfer))) {
+    inflowFor.set(outflow.id, inflow);
+  }
+  const pairedInflows = new Set([...inflowFor.values()].map(tx => tx.id));
+
+  return [...transactions]
+    .sort(byDate)
+    .filter(tx => !pairedInflows.has(tx.id))
+    .map(tx => {
+      const inflow = inflowFor.get(tx.id);
+      if (!inflow) return toLedgerEntry(tx, accountsById, dialect);
+      return {
+        tx,
+        debit: ledgerAccountName(accountsById.get(inflow.accountId), dialect),
+        credit: ledgerAccountName(accountsById.get(tx.accountId), dialect),
+        inflow,
+      };
+    });
+}
+
+function toLedgerEntry(tx: Transaction, accountsById: Map<string, Account>, dialect: LedgerDialect): LedgerEntry {
+  const account = ledgerAccountName(tx.accountId ? accountsById.get(tx.accountId) : undefined, dialect);
+
+  // Transfers become one entry with two postings; goal deposits etc. without a destination go to a clearing account
+  if (isTransferTx(tx)) {
+    const destination = tx.toAccountId
+      ? ledgerAccountName(accountsById.get(tx.toAccountId), dialect)
+      : TRANSFER_CLEARING_ACCOUNT;
+    return tx.type === TransactionType.INCOME && !tx.toAccountId
+      ? { tx, debit: account, credit: destination }
+      : { tx, debit: destination, credit: account };
+  }
+
+  const category = ledgerCategoryName(tx, dialect);
+  return isOutflow(tx)
+    ? { tx, debit: category, credit: account }
+    : { tx, debit: account, credit: category };
+}
+
+/**
+ * Net balance left in the transfer clearing account, per commodity
+ */
+function clearingBalances(entries: LedgerEntry[], baseCurrency: string): Map<string, number> {
+  const balances = new Map<string, number>();
+  const add = (currency: string, amount: number) => balances.set(currency, (balances.get(currency) || 0) + amount);
+  for (const { tx, debit, credit } of entries) {
+    if (debit === TRANSFER_CLEARING_ACCOUNT) {
+      const { amount, currency } = postedValue(tx, baseCurrency);
+      add(currency, amount);
+    }
+    if (credit === TRANSFER_CLEARING_ACCOUNT) add(baseCurrency, -tx.amount);
+  }
+  return balances;
+}
+
+const nextDay = (date: string) => {
+  const day = new Date(`${date.slice(0, 10)}T00:00:00Z`);
+  day.setUTCDate(day.getUTCDate() + 1);
+  return day.toISOString().split('T')[0];
+};
+
+/**
+ * Write all transactions as a double-entry journal. Every entry has exactly two postings that balance.
+ */
+export function toLedger(data: ExportData, dialect: LedgerDialect): string {
+  const accountsById = new Map(data.accounts.map(a => [a.id, a]));
+  const entries = toLedgerEntries(data.transactions, accountsById, dialect);
+  const lines: string[] = [
+    `; FinSnap export - ${new Date().toISOString()}`,
+    `; ${data.transactions.length} transactions in ${entries.length} entries, amounts in ${data.baseCurrency}`,
+    '',
+  ];
+
+  if (dialect === 'beancount') {
+    // Beancount requires every account to be opened before it is used
+    const firstUse = new Map<string, string>();
+    for (const { tx, debit, credit } of entries) {
+      for (const name of [debit, credit]) {
+        if (!firstUse.has(name) || firstUse.get(name)! > tx.date) firstUse.set(name, tx.date);
+      }
+    }
+    lines.push(`option "operating_currency" ${quote(data.baseCurrency)}`, '');
+    [...firstUse.entries()]
+      .sort(([a], [b]) => a.localeCompare(b))
+      .forEach(([name, date]) => lines.push(`${date} open ${name}`));
+    lines.push('');
+  } else {
+    data.accounts.forEach(a => lines.push(`account ${ledgerAccountName(a, dialect)}`));
+    lines.push('');
+  }
+
+  for (const { tx, debit, credit, inflow } of entries) {
+    const flag = tx.isCheque && tx.chequeStatus !== 'CLEARED' ? '!' : '*';
+    const note = tx.category && !isTransferTx(tx) ? tx.category : '';
+    lines.push(dialect === 'beancount'
+      ? `${tx.date} ${flag} ${quote(tx.merchant)} ${quote(note)}`
+      : `${tx.date} ${flag} ${tx.merchant}${note ? ` | ${note}` : ''}`);
+    if (tx.isCheque && tx.chequeNumber) {
+      lines.push(dialect === 'beancount' ? `  cheque: ${quote(tx.chequeNumber)}` : `  ; cheque: ${tx.chequeNumber}`);
+    }
+    if (dialect === 'beancount') {
+      lines.push(`  finsnap-id: ${quote(tx.id)}`);
+      if (inflow) lines.push(`  finsnap-pair-id: ${quote(inflow.id)}`);
+    } else {
+      lines.push(`  ; finsnap-id: ${tx.id}`);
+      if (inflow) lines.push(`  ; finsnap-pair-id: ${inflow.id}`);
+    }
+    lines.push(`  ${debit}  ${postingAmount(tx, 1, data.baseCurrency)}`);
+    lines.push(`  ${credit}  ${(-tx.amount).toFixed(2)} ${data.baseCurrency}`);
+    lines.push('');
+  }
+
+  // Paired transfers never touch the clearing account, so what's left there is the one-sided
+  // transfers. Assert it, so `hledger check` / `bean-check` fail if a pair didn't balance out.
+  const balances = clearingBalances(entries, data.baseCurrency);
+  if (balances.size > 0) {
+    const lastDate = entries[entries.length - 1].tx.date;
+    const total = (amount: number) => (Math.round(amount * 100) / 100 || 0).toFixed(2);
+    if (dialect === 'beancount') {
+      // Beancount checks a balance at the start of its date
+      balances.forEach((amount, currency) =>
+        lines.push(`${nextDay(lastDate)} balance ${TRANSFER_CLEARING_ACCOUNT}  ${total(amount)} ${currency}`));
+    } else {
+      lines.push(`${lastDate} * Transfer clearing check`);
+      balances.forEach((amount, currency) =>
+        lines.push(`  ${TRANSFER_CLEARING_ACCOUNT}  0 ${currency} = ${total(amount)} ${currency}`));
+    }
+    lines.push('');
+  }
+
+  return lines.join('\n');
+}
+
+// ---------- Files ----------
+
+async function loadExportData(): Promise<ExportData> {
+  const [transactions, accounts, baseCurrency] = await Promise.all([
+    getAllTransactions(),
+    getAllAccounts(),
+    getSetting('baseCurrency'),
+  ]);
+  return { transactions, accounts, baseCurrency: baseCurrency || 'USD' };
+}
+
+/**
+ * Build the export file for a format from local data.
+ * OFX and QIF are one file per account, bundled in a ZIP; ledger formats are a single journal.
+ */
+export async function exportData(format: ExportFormat): Promise<ExportFile> {
+  const data = await loadExportData();
+  const stamp = new Date().toISOString().split('T')[0];
+
+  if (format === 'hledger' || format === 'beancount') {
+    const extension = format === 'hledger' ? 'journal' : 'beancount';
+    return {
+      fileName: `finsnap-${stamp}.${extension}`,
+      blob: new Blob([toLedger(data, format)], { type: 'text/plain' }),
+    };
+  }
+
+  const zip = new JSZip();
+  for (const account of data.accounts) {
+    if (!data.transactions.some(tx => tx.accountId === account.id || tx.toAccountId === account.id)) continue;
+    const content = format === 'ofx'
+      ? toOfx(account, data.transactions, data.baseCurrency)
+      : toQif(account, data.transactions, data.accounts, data.baseCurrency);
+    zip.file(`${safeFileName(account.name)}.${format}`, content);
+  }
+
+  if (Object.keys(zip.files).length === 0) {
+    throw new Error('No account transactions to export');
+  }
+
+  return {
+    fileName: `finsnap-${format}-${stamp}.zip`,
+    blob: await zip.generateAsync({ type: 'blob' }),
+  };
+}
@@ -0,0 +1,368 @@
+import { Account, RecurringRule, ScheduledTransaction, Transaction, TransactionType } from '../types';
+import { getNextDueDate, isRecurring } from './recurrenceService';
+import { getPaymentSourceAccount } from './creditCardService';
+
+/**
+ * Cash-Flow Forecast
+ * Simulates each account's balance day by day from today, applying pending scheduled
+ * transactions (and their future recurrences), recurring bills from RecurringRule.avgAmount,
+ * credit card payments on paymentDueDay (or their generated statement payments) and the account's
+ * historical day-to-day average.
+ * Balances are in each account's own currency, like Account.balance.
+ */
+
+export type ForecastHorizon = 30 | 90 | 365;
+
+export type ForecastSource = 'scheduled' | 'recurring' | 'card-payment' | 'average';
+
+export interface ForecastEvent {
+  date: string;
+  accountId: string;
+  amount: number; // Signed: + money in, - money out
+  label: string;
+  source: ForecastSource;
+}
+
+export interface ForecastPoint {
+  date: string;
+  balance: number;
+}
+
+export interface AccountForecast {
+  accountId: string;
+  accountName: string;
+  currency: string;
+  isLiability: boolean; // Credit cards and loans are expected to sit below zero
+  startBalance: number;
+  endBalance: number;
+  lowestBalance: number;
+  lowestDate: string;
+  firstNegativeDate: string | null; // First day an asset account drops below zero
+  firstOverLimitDate: string | null; // First day a credit card goes past its limit
+  points: ForecastPoint[];
+  events: ForecastEvent[];
+}
+
+export interface ForecastInput {
+  accounts: Account[];
+  scheduledTransactions: ScheduledTransaction[];
+  recurringRules: RecurringRule[];
+  transactions: Transaction[];
+}
+
+export interface ForecastOptions {
+  includeAverages?: boolean; // Add the historical daily average (default true)
+  averageWindowDays?: number; // History used for the average (default 90)
+  today?: string; // For testing
+}
+
+const toISO = (d: Date) =>
+  `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+
+const parseISO = (date: string) => {
+  const [y, m, d] = date.split('-').map(Number);
+  return new Date(y, m - 1, d);
+};
+
+const addDays = (date: string, days: number) => {
+  const d = parseISO(date);
+  d.setDate(d.getDate() + days);
+  return toISO(d);
+};
+
+const clampDay = (year: number, month: number, day: number) =>
+  new Date(year, month, Math.min(day, new Date(year, month + 1, 0).getDate()));
+
+const isLiabilityAccount = (account: Account) => account.type === 'Credit Card' || account.type === 'Loan/BNPL';
+
+const matchesKeyword = (text: string | undefined, keyword: string) =>
+  !!text && !!keyword && text.toLowerCase().includes(keyword.toLowerCase());
+
+/**
+ * Sign of a scheduled or recurring item from the account's point of view
+ */
+const flowSign = (type: TransactionType | undefined) => (type === TransactionType.INCOME ? 1 : -1);
+
+/**
+ * Amount of a historical transaction in the account's currency
+ */
+function amountInAccountCurrency(tx: Transaction, account: Account): number {
+  if (tx.originalCurrency && tx.originalCurrency === account.currency && tx.originalAmount !== undefined) {
+    return tx.originalAmount;
+  }
+  return tx.amount;
+}
+
+// ---------- Events ----------
+
+/**
+ * Pending and overdue scheduled transactions, plus future occurrences of recurring ones
+ * that haven't been materialized yet. Overdue items are assumed to go out today.
+ */
+function scheduledEvents(scheduled: ScheduledTransaction[], today: string, end: string): ForecastEvent[] {
+  const events: ForecastEvent[] = [];
+
+  for (const st of scheduled) {
+    if (st.status !== 'PENDING' && st.status !== 'OVERDUE') continue;
+    if (!st.accountId) continue;
+
+    const amount = flowSign(st.type) * st.amount;
+    let date: string | null = st.dueDate;
+    while (date && date <= end) {
+      events.push({
+        date: date < today ? today : date,
+        accountId: st.accountId,
+        amount,
+        label: st.isCheque && st.chequeNumber ? `${st.merchant} (cheque #${st.chequeNumber})` : st.merchant,
+        source: 'scheduled',
+      });
+      // A card or payoff-plan payment also brings the debt back up; a loan installment only by its principal
+      if (st.statementAccountId || st.payToAccountId) {
+        events.push({
+          date: date < today ? today : date,
+          accountId: (st.statementAccountId || st.payToAccountId)!,
+          amount: st.amount,
+          label: st.merchant,
+          source: 'card-payment',
+        });
+      } else if (st.loanAccountId) {
+        events.push({
+          date: date < today ? today : date,
+          accountId: st.loanAccountId,
+          amount: st.principalPortion ?? st.amount,
+          label: st.merchant,
+          source: 'scheduled',
+        });
+      }
+      date = isRecurring(st) ? getNextDueDate(st, date) : null;
+    }
+  }
+
+  return events;
+}
+
+/**
+ * Account a recurring rule is usually paid from: the account of its most recent matching transaction
+ */
+function accountForRule(rule: RecurringRule, transactions: Transaction[]): string | undefined {
+  let latest: Transaction | undefined;
+  for (const tx of transactions) {
+    if (!tx.accountId || !matchesKeyword(tx.merchant, rule.merchantKeyword)) continue;
+    if (!latest || tx.date > latest.date) latest = tx;
+  }
+  return latest?.accountId;
+}
+
+/**
+ * Due dates of a recurring rule between today and end
+ */
+function ruleDueDates(rule: RecurringRule, today: string, end: string): string[] {
+  const dates: string[] = [];
+  const frequency = rule.frequency || 'MONTHLY';
+
+  if (frequency === 'MONTHLY') {
+    if (!rule.dueDay) return dates;
+    const start = parseISO(today);
+    for (let i = 0; ; i++) {
+      const date = toISO(clampDay(start.getFullYear(), start.getMonth() + i, rule.dueDay));
+      if (date > end) break;
+      if (date >= today) dates.push(date);
+    }
+    return dates;
+  }
+
+  // Weekly and yearly bills are projected from the last time they were paid
+  if (!rule.lastPaidDate) return dates;
+  let date = rule.lastPaidDate;
+  while (date <= end) {
+    if (frequency === 'WEEKLY') {
+      date = addDays(date, 7);
+    } else {
+      const d = parseISO(date);
+      date = toISO(clampDay(d.getFullYear() + 1, d.getMonth(), rule.dueDay || d.getDate()));
+    }
+    if (date >= today && date <= end) dates.push(date);
+  }
+  return dates;
+}
+
+/**
+ * Bills known only from RecurringRule.avgAmount. Rules already covered by a scheduled
+ * transaction for the same merchant are left out so they aren't counted twice.
+ */
+function recurringRuleEvents(input: ForecastInput, today: string, end: string): ForecastEvent[] {
+  const events: ForecastEvent[] = [];
+  const pending = input.scheduledTransactions.filter(st => st.status === 'PENDING' || st.status === 'OVERDUE');
+
+  for (const rule of input.recurringRules) {
+    if (!rule.avgAmount || rule.type === TransactionType.TRANSFER) continue;
+    if (pending.some(st => matchesKeyword(st.merchant, rule.merchantKeyword))) continue;
+
+    const accountId = accountForRule(rule, input.transactions);
+    if (!accountId) continue;
+
+    for (const date of ruleDueDates(rule, today, end)) {
+      events.push({
+        date,
+        accountId,
+        amount: flowSign(rule.type) * rule.avgAmount,
+        label: rule.merchantKeyword,
+        source: 'recurring',
+      });
+    }
+  }
+
+  return events;
+}
+
+/**
+ * Average net daily flow per account over the recent window, leaving out transfers,
+ * obligations, paid scheduled items and anything a recurring rule already forecasts.
+ */
+export function calculateDailyAverages(
+  input: ForecastInput,
+  today: string,
+  windowDays: number = 90
+): Map<string, number> {
+  const since = addDays(today, -windowDays);
+  const keywords = input.recurringRules.filter(r => r.avgAmount).map(r => r.merchantKeyword);
+  const scheduledIds = new Set(input.scheduledTransactions.map(st => st.matchedTransactionId).filter(Boolean));
+  const totals = new Map<string, number>();
+
+  for (const tx of input.transactions) {
+    if (!tx.accountId || tx.date < since || tx.date >= today) continue;
+    if (tx.isTransfer || tx.type === TransactionType.TRANSFER || tx.type === TransactionType.OBLIGATION) continue;
+    if (scheduledIds.has(tx.id)) continue;
+    if (keywords.some(k => matchesKeyword(tx.merchant, k))) continue;
+
+    const account = input.accounts.find(a => a.id === tx.accountId);
+    if (!account) continue;
+    const signed = (tx.type === TransactionType.INCOME ? 1 : -1) * amountInAccountCurrency(tx, account);
+    totals.set(tx.accountId, (totals.get(tx.accountId) || 0) + signed);
+  }
+
+  const averages = new Map<string, number>();
+  totals.forEach((total, accountId) => averages.set(accountId, total / windowDays));
+  return averages;
+}
+
+// ---------- Simulation ----------
+
+/**
+ * Day-by-day projected balance for every account over the horizon
+ */
+export function forecastCashFlow(
+  input: ForecastInput,
+  horizonDays: ForecastHorizon | number = 30,
+  options: ForecastOptions = {}
+): AccountForecast[] {
+  const today = options.today || toISO(new Date());
+  const end = addDays(today, horizonDays);
+
+  const events = [
+    ...scheduledEvents(input.scheduledTransactions, today, end),
+    ...recurringRuleEvents(input, today, end),
+  ];
+  const eventsByDay = new Map<string, ForecastEvent[]>();
+  for (const event of events) {
+    const list = eventsByDay.get(event.date) || [];
+    list.push(event);
+    eventsByDay.set(event.date, list);
+  }
+
+  const averages = options.includeAverages === false
+    ? new Map<string, number>()
+    : calculateDailyAverages(input, today, options.averageWindowDays);
+
+  const cards = input.accounts
+    .filter(a => a.type === 'Credit Card' && a.paymentDueDay)
+    .map(card => ({ card, sourceId: getPaymentSourceAccount(card, input.accounts, input.transactions) }));
+
+  // Months where a generated statement payment already covers the card
+  const statementPaymentMonths = new Set(
+    input.scheduledTransactions
+      .filter(st => st.statementAccountId && (st.status === 'PENDING' || st.status === 'OVERDUE'))
+      .map(st => `${st.statementAccountId}|${(st.dueDate < today ? today : st.dueDate).slice(0, 7)}`)
+  );
+
+  const balances = new Map(input.accounts.map(a => [a.id, a.balance || 0]));
+  const forecasts = new Map<string, AccountForecast>(input.accounts.map(a => [a.id, {
+    accountId: a.id,
+    accountName: a.name,
+    currency: a.currency,
+    isLiability: isLiabilityAccount(a),
+    startBalance: a.balance || 0,
+    endBalance: a.balance || 0,
+    lowestBalance: a.balance || 0,
+    lowestDate: today,
+    firstNegativeDate: null,
+    firstOverLimitDate: null,
+    points: [],
+    events: [],
+  }]));
+
+  const apply = (event: ForecastEvent) => {
+    const forecast = forecasts.get(event.accountId);
+    if (!forecast) return;
+    balances.set(event.accountId, (balances.get(event.accountId) || 0) + event.amount);
+    forecast.events.push(event);
+  };
+
+  for (let date = today; date <= end; date = addDays(date, 1)) {
+    // Known items first, so cheques clear in the order they fall due
+    for (const event of eventsByDay.get(date) || []) apply(event);
+
+    // Credit cards are paid off in full on their due day
+    const day = parseISO(date);
+    for (const { card, sourceId } of cards) {
+      const dueDay = clampDay(day.getFullYear(), day.getMonth(), card.paymentDueDay!).getDate();
+      const owed = -(balances.get(card.id) || 0);
+      if (day.getDate() !== dueDay || owed <= 0) continue;
+      if (statementPaymentMonths.has(`${card.id}|${date.slice(0, 7)}`)) continue;
+
+      apply({ date, accountId: card.id, amount: owed, label: `${card.name} payment`, source: 'card-payment' });
+      if (sourceId) {
+        apply({ date, accountId: sourceId, amount: -owed, label: `${card.name} payment`, source: 'card-payment' });
+      }
+    }
+
+    // Everyday spending and income not tied to a schedule
+    if (date > today) {
+      averages.forEach((perDay, accountId) => {
+        if (forecasts.has(accountId)) balances.set(accountId, (balances.get(accountId) || 0) + perDay);
+      });
+    }
+
+    for (const account of input.accounts) {
+      const forecast = forecasts.get(account.id)!;
+      const balance = Number((balances.get(account.id) || 0).toFixed(2));
+      forecast.points.push({ date, balance });
+
+      if (balance < forecast.lowestBalance) {
+        forecast.lowestBalance = balance;
+        forecast.lowestDate = date;
+      }
+      if (!forecast.isLiability && balance < 0 && !forecast.firstNegativeDate) {
+        forecast.firstNegativeDate = date;
+      }
+      if (account.type === 'Credit Card' && account.totalCreditLimit && -balance > account.totalCreditLimit && !forecast.firstOverLimitDate) {
+        forecast.firstOverLimitDate = date;
+      }
+    }
+  }
+
+  return input.accounts.map(a => {
+    const forecast = forecasts.get(a.id)!;
+    forecast.endBalance = forecast.points[forecast.points.length - 1]?.balance ?? forecast.startBalance;
+    return forecast;
+  });
+}
+
+/**
+ * Accounts projected to go negative (or over their credit limit), earliest first
+ */
+export function getForecastShortfalls(forecasts: AccountForecast[]): AccountForecast[] {
+  return forecasts
+    .filter(f => f.firstNegativeDate || f.firstOverLimitDate)
+    .sort((a, b) => (a.firstNegativeDate || a.firstOverLimitDate)!.localeCompare((b.firstNegativeDate || b.firstOverLimitDate)!));
+}
@@ -1,7 +1,15 @@
 import { openDB, DBSchema, IDBPDatabase } from 'idb';
-import { Transaction, Account, Category, RecurringRule, WarrantyItem, ScheduledTransaction } from '../types';
+import { v4 as uuidv4 } from 'uuid';
+import { Transaction, Account, Category, RecurringRule, WarrantyItem, ScheduledTransaction, SavingsGoal, GoalContribution, ParsingTemplate, ExchangeRate, Budget, Reconciliation, NetWorthSnapshot, SecurityPrice, CategorizationRule, AuditContext, AuditEntry, AuditEntityType, AuditedEntities, Attachment, AttachmentOwnerType } from '../types';
+import { InlineImageOwner, createAttachment, extractInlineImage } from './attachmentService';
 
-interface FinSnapDB extends DBSchema {
+export interface DeletedRecord {
+  storeName: string;
+  id: string;
+  deletedAt: string; // ISO timestamp
+}
+
+export interface FinSnapDB extends DBSchema {
   transactions: {
     key: string;
     value: Transaction;
@@ -32,10 +40,64 @@ interface FinSnapDB extends DBSchema {
     value: ScheduledTransaction;
     indexes: { 'dueDate': string; 'status': string; 'seriesId': string; 'accountId': string };
   };
+  savings_goals: {
+    key: string;
+    value: SavingsGoal;
+  };
+  goal_contributions: {
+    key: string;
+    value: GoalContribution;
+    indexes: { 'goalId': string; 'date': string };
+  };
+  parsing_templates: {
+    key: string;
+    value: ParsingTemplate;
+  };
+  exchange_rates: {
+    key: string;
+    value: ExchangeRate;
+    indexes: { 'currency': string; 'date': string };
+  };
+  budgets: {
+    key: string;
+    value: Budget;
+  };
+  reconciliations: {
+    key: string;
+    value: Reconciliation;
+    indexes: { 'accountId': string };
+  };
+  net_worth_snapshots: {
+    key: string; // Date YYYY-MM-DD
+    value: NetWorthSnapshot;
+  };
+  security_prices: {
+    key: string;
+    value: SecurityPrice;
+    indexes: { 'symbol': string; 'date': string };
+  };
+  categorization_rules: {
+    key: string;
+    value: CategorizationRule;
+  };
+  audit_log: {
+    key: string;
+    value: AuditEntry;
+    indexes: { 'entityId': string; 'batchId': string; 'timestamp': string };
+  };
+  attachments: {
+    key: string;
+    value: Attachment;
+    indexes: { 'ownerId': string };
+  };
+  deleted_records: {
+    key: string; // `${storeName}:${id}`
+    value: DeletedRecord;
+  };
 }
 
 const DB_NAME = 'finsnap_db';
-const DB_VERSION = 3; // Incremented for toAccountId index
+const DB_VERSION = 14; // Incremented for attachments store
 
 let dbInstance: IDBPDatabase<FinSnapDB> | null = null;
 
@@ -89,6 +151,77 @@ export async function initDB(): Promise<IDBPDatabase<FinSnapDB>> {
         schedStore.createIndex('accountId', 'accountId');
       }
 
+      // Savings goals store
+      if (!db.objectStoreNames.contains('savings_goals')) {
+        db.createObjectStore('savings_goals', { keyPath: 'id' });
+      }
+
+      // Goal contributions store (deposit ledger per goal)
+      if (!db.objectStoreNames.contains('goal_contributions')) {
+        const contribStore = db.createObjectStore('goal_contributions', { keyPath: 'id' });
+        contribStore.createIndex('goalId', 'goalId');
+        contribStore.createIndex('date', 'date');
+      }
+
+      // Parsing templates store (learned from user corrections)
+      if (!db.objectStoreNames.contains('parsing_templates')) {
+        db.createObjectStore('parsing_templates', { keyPath: 'id' });
+      }
+
+      // Exchange rates store (manual entries and rates learned from parsed transactions)
+      if (!db.objectStoreNames.contains('exchange_rates')) {
+        const rateStore = db.createObjectStore('exchange_rates', { keyPath: 'id' });
+        rateStore.createIndex('currency', 'currency');
+        rateStore.createIndex('date', 'date');
+      }
+
+      // Budgets store (category / account budgets with rollover)
+      if (!db.objectStoreNames.contains('budgets')) {
+        db.createObjectStore('budgets', { keyPath: 'id' });
+      }
+
+      // Reconciliations store (statement reconciliation sessions and locked records)
+      if (!db.objectStoreNames.contains('reconciliations')) {
+        const reconStore = db.createObjectStore('reconciliations', { keyPath: 'id' });
+        reconStore.createIndex('accountId', 'accountId');
+      }
+
+      // Net worth snapshots store (daily per-account balances for the trend chart)
+      if (!db.objectStoreNames.contains('net_worth_snapshots')) {
+        db.createObjectStore('net_worth_snapshots', { keyPath: 'id' });
+      }
+
+      // Security prices store (manual and CSV-imported prices for investment holdings)
+      if (!db.objectStoreNames.contains('security_prices')) {
+        const priceStore = db.createObjectStore('security_prices', { keyPath: 'id' });
+        priceStore.createIndex('symbol', 'symbol');
+        priceStore.createIndex('date', 'date');
+      }
+
+      // Categorization rules store (deterministic rules applied after parsing and on manual entry)
+      if (!db.objectStoreNames.contains('categorization_rules')) {
+        db.createObjectStore('categorization_rules', { keyPath: 'id' });
+      }
+
+      // Audit log (append-only before/after snapshots of audited writes - see applyAuditedChanges)
+      if (!db.objectStoreNames.contains('audit_log')) {
+        const auditStore = db.createObjectStore('audit_log', { keyPath: 'id' });
+        auditStore.createIndex('entityId', 'entityId');
+        auditStore.createIndex('batchId', 'batchId');
+        auditStore.createIndex('timestamp', 'timestamp');
+      }
+
+      // Attachments store (receipt and cheque images as Blobs, with thumbnails)
+      if (!db.objectStoreNames.contains('attachments')) {
+        const attachmentStore = db.createObjectStore('attachments', { keyPath: 'id' });
+        attachmentStore.createIndex('ownerId', 'ownerId');
+      }
+
+      // Deletion tombstones, so a merge restore can tell "deleted here" from "never had it"
+      if (!db.objectStoreNames.contains('deleted_records')) {
+        db.createObjectStore('deleted_records');
+      }
+
       // Settings store (key-value pairs)
       if (!db.objectStoreNames.contains('settings')) {
         db.createObjectStore('settings');
@@ -110,14 +243,20 @@ export async function getTransaction(id: string): Promise<Transaction | undefine
   return db.get('transactions', id);
 }
 
-export async function saveTransaction(transaction: Transaction): Promise<void> {
-  const db = await initDB();
-  await db.put('transactions', transaction);
+export async function saveTransaction(transaction: Transaction, audit?: AuditContext): Promise<void> {
+  await applyAuditedChanges({ transactions: { saves: [transaction] } }, audit);
 }
 
-export async function deleteTransaction(id: string): Promise<void> {
-  const db = await initDB();
-  await db.delete('transactions', id);
+export async function deleteTransaction(id: string, audit?: AuditContext): Promise<void> {
+  await applyAuditedChanges({ transactions: { deleteIds: [id] } }, audit);
+}
+
+/**
+ * Save and delete several transactions in one IndexedDB transaction, so either all of the
+ * changes land or none do.
+ */
+export async function applyTransactionChanges(saves: Transaction[], deleteIds: string[], audit?: AuditContext): Promise<void> {
+  await applyAuditedChanges({ transactions: { saves, deleteIds } }, audit);
 }
 
 export async function clearTransactions(): Promise<void> {
@@ -133,14 +272,12 @@ export async function getAllAccounts(): Promise<Account[]> {
   return db.getAll('accounts');
 }
 
-export async function saveAccount(account: Account): Promise<void> {
-  const db = await initDB();
-  await db.put('accounts', account);
+export async function saveAccount(account: Account, audit?: AuditContext): Promise<void> {
+  await applyAuditedChanges({ accounts: { saves: [account] } }, audit);
 }
 
-export async function deleteAccount(id: string): Promise<void> {
-  const db = await initDB();
-  await db.delete('accounts', id);
+export async function deleteAccount(id: string, audit?: AuditContext): Promise<void> {
+  await applyAuditedChanges({ accounts: { deleteIds: [id] } }, audit);
 }
 
 export async function clearAccounts(): Promise<void> {
@@ -172,6 +309,7 @@ export async function saveCategory(category: Category): Promise<void> {
 export async function deleteCategory(id: string): Promise<void> {
   const db = await initDB();
   await db.delete('categories', id);
+  await recordDeletion('categories', id);
 }
 
 export async function clearCategories(): Promise<void> {
@@ -195,6 +333,7 @@ export async function saveRecurringRule(rule: RecurringRule): Promise<void> {
 export async function deleteRecurringRule(id: string): Promise<void> {
   const db = await initDB();
   await db.delete('recurring_rules', id);
+  await recordDeletion('recurring_rules', id);
 }
 
 export async function clearRecurringRules(): Promise<void> {
@@ -211,13 +350,18 @@ export async function getAllWarranties(): Promise<WarrantyItem[]> {
 }
 
 export async function saveWarranty(warranty: WarrantyItem): Promise<void> {
+  const { record, attachment } = await extractInlineImage('warranty', warranty, 'receiptImage');
   const db = await initDB();
-  await db.put('warranties', warranty);
+  const tx = db.transaction(['warranties', 'attachments'], 'readwrite');
+  if (attachment) await tx.objectStore('attachments').put(attachment);
+  await tx.objectStore('warranties').put(record);
+  await tx.done;
 }
 
 export async function deleteWarranty(id: string): Promise<void> {
   const db = await initDB();
   await db.delete('warranties', id);
+  await recordDeletion('warranties', id);
 }
 
 export async function clearWarranties(): Promise<void> {
@@ -243,10 +387,18 @@ export async function deleteSetting(key: string): Promise<void> {
   await db.delete('settings', key);
 }
 
+/**
+ * Settings that belong to this device rather than to the user's data. They are never part of a
+ * backup and survive clearSettings, so a restore can't drop the backup encryption key.
+ */
+export const DEVICE_SETTINGS_KEYS = ['backupEncryptionKey', 'lastAutoBackupFailure'];
+
 export async function clearSettings(): Promise<void> {
   const db = await initDB();
   const tx = db.transaction('settings', 'readwrite');
-  await tx.store.clear();
+  for (const key of await tx.store.getAllKeys()) {
+    if (!DEVICE_SETTINGS_KEYS.includes(String(key))) await tx.store.delete(key);
+  }
   await tx.done;
 }
 
@@ -262,13 +414,18 @@ export async function getScheduledTransaction(id: string): Promise<ScheduledTran
 }
 
 export async function saveScheduledTransaction(scheduledTransaction: ScheduledTransaction): Promise<void> {
+  const { record, attachment } = await extractInlineImage('scheduled', scheduledTransaction, 'chequeImage');
   const db = await initDB();
-  await db.put('scheduled_transactions', scheduledTransaction);
+  const tx = db.transaction(['scheduled_transactions', 'attachments'], 'readwrite');
+  if (attachment) await tx.objectStore('attachments').put(attachment);
+  await tx.objectStore('scheduled_transactions').put(record);
+  await tx.done;
 }
 
 export async function deleteScheduledTransaction(id: string): Promise<void> {
   const db = await initDB();
   await db.delete('scheduled_transactions', id);
+  await recordDeletion('scheduled_transactions', id);
 }
 
 export async function getScheduledTransactionsByStatus(status: string): Promise<ScheduledTransaction[]> {
@@ -290,6 +447,462 @@ export async function clearScheduledTransactions(): Promise<void> {
   await tx.done;
 }
 
+// Savings Goals
+export async function getAllSavingsGoals(): Promise<SavingsGoal[]> {
+  const db = await initDB();
+  return db.getAll('savings_goals');
+}
+
+export async function saveSavingsGoal(goal: SavingsGoal): Promise<void> {
+  const db = await initDB();
+  await db.put('savings_goals', goal);
+}
+
+export async function deleteSavingsGoal(id: string): Promise<void> {
+  const db = await initDB();
+  await db.delete('savings_goals', id);
+  await recordDeletion('savings_goals', id);
+}
+
+export async function clearSavingsGoals(): Promise<void> {
+  const db = await initDB();
+  const tx = db.transaction('savings_goals', 'readwrite');
+  await tx.store.clear();
+  await tx.done;
+}
+
+// Goal Contributions
+export async function getAllGoalContributions(): Promise<GoalContribution[]> {
+  const db = await initDB();
+  return db.getAll('goal_contributions');
+}
+
+export async function getGoalContributionsByGoal(goalId: string): Promise<GoalContribution[]> {
+  const db = await initDB();
+  const index = db.transaction('goal_contributions').store.index('goalId');
+  return index.getAll(goalId);
+}
+
+export async function saveGoalContribution(contribution: GoalContribution): Promise<void> {
+  const db = await initDB();
+  await db.put('goal_contributions', contribution);
+}
+
+export async function deleteGoalContribution(id: string): Promise<void> {
+  const db = await initDB();
+  await db.delete('goal_contributions', id);
+  await recordDeletion('goal_contributions', id);
+}
+
+export async function clearGoalContributions(): Promise<void> {
+  const db = await initDB();
+  const tx = db.transaction('goal_contributions', 'readwrite');
+  await tx.store.clear();
+  await tx.done;
+}
+
+// Parsing Templates
+export async function getAllParsingTemplates(): Promise<ParsingTemplate[]> {
+  const db = await initDB();
+  return db.getAll('parsing_templates');
+}
+
+export async function saveParsingTemplate(template: ParsingTemplate): Promise<void> {
+  const db = await initDB();
+  await db.put('parsing_templates', template);
+}
+
+export async function deleteParsingTemplate(id: string): Promise<void> {
+  const db = await initDB();
+  await db.delete('parsing_templates', id);
+  await recordDeletion('parsing_templates', id);
+}
+
+export async function clearParsingTemplates(): Promise<void> {
+  const db = await initDB();
+  const tx = db.transaction('parsing_templates', 'readwrite');
+  await tx.store.clear();
+  await tx.done;
+}
+
+// Exchange Rates
+export async function getAllExchangeRates(): Promise<ExchangeRate[]> {
+  const db = await initDB();
+  return db.getAll('exchange_rates');
+}
+
+export async function saveExchangeRate(rate: ExchangeRate): Promise<void> {
+  const db = await initDB();
+  await db.put('exchange_rates', rate);
+}
+
+export async function deleteExchangeRate(id: string): Promise<void> {
+  const db = await initDB();
+  await db.delete('exchange_rates', id);
+  await recordDeletion('exchange_rates', id);
+}
+
+export async function clearExchangeRates(): Promise<void> {
+  const db = await initDB();
+  const tx = db.transaction('exchange_rates', 'readwrite');
+  await tx.store.clear();
+  await tx.done;
+}
+
+// Budgets
+export async function getAllBudgets(): Promise<Budget[]> {
+  const db = await initDB();
+  return db.getAll('budgets');
+}
+
+export async function saveBudget(budget: Budget): Promise<void> {
+  const db = await initDB();
+  await db.put('budgets', budget);
+}
+
+export async function deleteBudget(id: string): Promise<void> {
+  const db = await initDB();
+  await db.delete('budgets', id);
+  await recordDeletion('budgets', id);
+}
+
+export async function clearBudgets(): Promise<void> {
+  const db = await initDB();
+  const tx = db.transaction('budgets', 'readwrite');
+  await tx.store.clear();
+  await tx.done;
+}
+
+// Reconciliations
+export async function getAllReconciliations(): Promise<Reconciliation[]> {
+  const db = await initDB();
+  return db.getAll('reconciliations');
+}
+
+export async function saveReconciliation(reconciliation: Reconciliation): Promise<void> {
+  const db = await initDB();
+  await db.put('reconciliations', reconciliation);
+}
+
+export async function deleteReconciliation(id: string): Promise<void> {
+  const db = await initDB();
+  await db.delete('reconciliations', id);
+  await recordDeletion('reconciliations', id);
+}
+
+export async function clearReconciliations(): Promise<void> {
+  const db = await initDB();
+  const tx = db.transaction('reconciliations', 'readwrite');
+  await tx.store.clear();
+  await tx.done;
+}
+
+// Net worth snapshots
+export async function getAllNetWorthSnapshots(): Promise<NetWorthSnapshot[]> {
+  const db = await initDB();
+  return db.getAll('net_worth_snapshots');
+}
+
+export async function saveNetWorthSnapshot(snapshot: NetWorthSnapshot): Promise<void> {
+  const db = await initDB();
+  await db.put('net_worth_snapshots', snapshot);
+}
+
+export async function clearNetWorthSnapshots(): Promise<void> {
+  const db = await initDB();
+  const tx = db.transaction('net_worth_snapshots', 'readwrite');
+  await tx.store.clear();
+  await tx.done;
+}
+
+// Security prices
+export async function getAllSecurityPrices(): Promise<SecurityPrice[]> {
+  const db = await initDB();
+  return db.getAll('security_prices');
+}
+
+export async function saveSecurityPrice(price: SecurityPrice): Promise<void> {
+  const db = await initDB();
+  await db.put('security_prices', price);
+}
+
+export async function deleteSecurityPrice(id: string): Promise<void> {
+  const db = await initDB();
+  await db.delete('security_prices', id);
+  await recordDeletion('security_prices', id);
+}
+
+export async function clearSecurityPrices(): Promise<void> {
+  const db = await initDB();
+  const tx = db.transaction('security_prices', 'readwrite');
+  await tx.store.clear();
+  await tx.done;
+}
+
+// Categorization rules
+export async function getAllCategorizationRules(): Promise<CategorizationRule[]> {
+  const db = await initDB();
+  return db.getAll('categorization_rules');
+}
+
+export async function saveCategorizationRule(rule: CategorizationRule): Promise<void> {
+  const db = await initDB();
+  await db.put('categorization_rules', rule);
+}
+
+export async function deleteCategorizationRule(id: string): Promise<void> {
+  const db = await initDB();
+  await db.delete('categorization_rules', id);
+  await recordDeletion('categorization_rules', id);
+}
+
+export async function clearCategorizationRules(): Promise<void> {
+  const db = await initDB();
+  const tx = db.transaction('categorization_rules', 'readwrite');
+  await tx.store.clear();
+  await tx.done;
+}
+
+// Audit Log
+type AuditedStore = 'transactions' | 'accounts' | 'scheduled_transactions' | 'savings_goals' | 'goal_contributions';
+
+export type AuditedChanges = { [S in AuditedStore]?: { saves?: FinSnapDB[S]['value'][]; deleteIds?: string[] } };
+
+/**
+ * Audit entry for one write; null when nothing actually changed
+ */
+export function buildAuditEntry<E extends AuditEntityType>(
+  audit: AuditContext,
+  entityType: E,
+  before: AuditedEntities[E] | undefined,
+  after: AuditedEntities[E] | undefined
+): AuditEntry<E> | null {
+  if (!before && !after) return null;
+  if (before && after && JSON.stringify(before) === JSON.stringify(after)) return null;
+  return {
+    id: uuidv4(),
+    batchId: audit.batchId,
+    entityType,
+    entityId: (after || before)!.id,
+    action: !before ? 'create' : !after ? 'delete' : 'update',
+    before,
+    after,
+    source: audit.source,
+    label: audit.label,
+    timestamp: new Date().toISOString(),
+  };
+}
+
+/**
+ * Write transaction, account, scheduled transaction and savings goal changes together with their
+ * audit entries in one IndexedDB transaction. Saving something that was deleted clears its tombstone; inline
+ * receipt and cheque images are moved into the attachments store. Writes without a context are logged as 'system' in a
+ * batch of their own.
+ */
+export async function applyAuditedChanges(changes: AuditedChanges, audit?: AuditContext): Promise<void> {
+  const context: AuditContext = audit || { batchId: uuidv4(), source: 'system' };
+
+  // Thumbnails are async, so images are prepared before the IndexedDB transaction opens
+  const attachments: Attachment[] = [];
+  if (changes.transactions?.saves) {
+    const extracted = await Promise.all(changes.transactions.saves.map(t => extractInlineImage('transaction', t, 'receiptImage')));
+    extracted.forEach(e => e.attachment && attachments.push(e.attachment));
+    changes = { ...changes, transactions: { ...changes.transactions, saves: extracted.map(e => e.record) } };
+  }
+  if (changes.scheduled_transactions?.saves) {
+    const extracted = await Promise.all(changes.scheduled_transactions.saves.map(st => extractInlineImage('scheduled', st, 'chequeImage')));
+    extracted.forEach(e => e.attachment && attachments.push(e.attachment));
+    changes = { ...changes, scheduled_transactions: { ...changes.scheduled_transactions, saves: extracted.map(e => e.record) } };
+  }
+
+  const db = await initDB();
+  const tx = db.transaction(
+    ['transactions', 'accounts', 'scheduled_transactions', 'savings_goals', 'goal_contributions', 'deleted_records', 'audit_log', 'attachments'],
+    'readwrite'
+  );
+  const auditLog = tx.objectStore('audit_log');
+  const deletions = tx.objectStore('deleted_records');
+  const deletedAt = new Date().toISOString();
+
+  for (const attachment of attachments) {
+    await tx.objectStore('attachments').put(attachment);
+  }
+
+  // entryFor ties each store to the entity type its audit entries carry
+  const writeStore = async <S extends AuditedStore>(
+    storeName: S,
+    entryFor: (before: FinSnapDB[S]['value'] | undefined, after: FinSnapDB[S]['value'] | undefined) => AuditEntry | null
+  ) => {
+    const { saves = [], deleteIds = [] } = changes[storeName] || {};
+    const store = tx.objectStore(storeName);
+    const log = async (before: FinSnapDB[S]['value'] | undefined, after: FinSnapDB[S]['value'] | undefined) => {
+      const entry = entryFor(before, after);
+      if (entry) await auditLog.add(entry);
+    };
+
+    for (const entity of saves) {
+      const before = await store.get(entity.id);
+      await store.put(entity);
+      await deletions.delete(`${storeName}:${entity.id}`);
+      await log(before, entity);
+    }
+    for (const id of deleteIds) {
+      const before = await store.get(id);
+      await store.delete(id);
+      await deletions.put({ storeName, id, deletedAt }, `${storeName}:${id}`);
+      await log(before, undefined);
+    }
+  };
+
+  await writeStore('transactions', (before, after) => buildAuditEntry(context, 'transaction', before, after));
+  await writeStore('accounts', (before, after) => buildAuditEntry(context, 'account', before, after));
+  await writeStore('scheduled_transactions', (before, after) => buildAuditEntry(context, 'scheduled', before, after));
+  await writeStore('savings_goals', (before, after) => buildAuditEntry(context, 'goal', before, after));
+  await writeStore('goal_contributions', (before, after) => buildAuditEntry(context, 'goalContribution', before, after));
+
+  await tx.done;
+}
+
+export async function getAuditEntriesForEntity(entityId: string): Promise<AuditEntry[]> {
+  const db = await initDB();
+  const entries = await db.getAllFromIndex('audit_log', 'entityId', entityId);
+  return entries.sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+}
+
+export async function getAuditBatch(batchId: string): Promise<AuditEntry[]> {
+  const db = await initDB();
+  const entries = await db.getAllFromIndex('audit_log', 'batchId', batchId);
+  return entries.sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+}
+
+/**
+ * Only for a full reset - restores and other clears keep the log
+ */
+export async function clearAuditLog(): Promise<void> {
+  const db = await initDB();
+  const tx = db.transaction('audit_log', 'readwrite');
+  await tx.store.clear();
+  await tx.done;
+}
+
+// Attachments
+export async function getAttachment(id: string): Promise<Attachment | undefined> {
+  const db = await initDB();
+  return db.get('attachments', id);
+}
+
+/**
+ * Attachments in the order of `ids` (missing ones are skipped)
+ */
+export async function getAttachments(ids: string[]): Promise<Attachment[]> {
+  const db = await initDB();
+  const found = await Promise.all(ids.map(id => db.get('attachments', id)));
+  return found.filter((a): a is Attachment => !!a);
+}
+
+/**
+ * Store new images for a record and return their ids. The record itself isn't touched - add
+ * the ids to its attachmentIds and save it (images nothing refers to are swept on startup).
+ */
+export async function saveAttachments(ownerType: AttachmentOwnerType, ownerId: string, images: (Blob | string)[]): Promise<string[]> {
+  const attachments = await Promise.all(images.map(image => createAttachment(ownerType, ownerId, image)));
+  const db = await initDB();
+  const tx = db.transaction('attachments', 'readwrite');
+  for (const attachment of attachments) {
+    await tx.store.put(attachment);
+  }
+  await tx.done;
+  return attachments.map(a => a.id);
+}
+
+/**
+ * Delete attachments no transaction, warranty or scheduled transaction refers to. Deleting or
+ * editing a record leaves its images in place so undo can bring them back; this runs on startup,
+ * after the undo stack is gone and the inline image migration has finished.
+ */
+export async function deleteOrphanedAttachments(): Promise<number> {
+  const db = await initDB();
+  // Records and attachment keys are read in one transaction so a write in between (a record
+  // saved together with its new attachment) can't make that attachment look orphaned
+  const snapshot = db.transaction(['transactions', 'warranties', 'scheduled_transactions', 'attachments'], 'readonly');
+  const referenced = new Set<string>();
+  for (const storeName of ['transactions', 'warranties', 'scheduled_transactions'] as const) {
+    const records: { attachmentIds?: string[] }[] = await snapshot.objectStore(storeName).getAll();
+    records.forEach(r => r.attachmentIds?.forEach(id => referenced.add(id)));
+  }
+  const orphans = (await snapshot.objectStore('attachments').getAllKeys()).filter(id => !referenced.has(id));
+  await snapshot.done;
+
+  const tx = db.transaction('attachments', 'readwrite');
+  for (const id of orphans) {
+    await tx.store.delete(id);
+  }
+  await tx.done;
+  return orphans.length;
+}
+
+const ATTACHMENTS_MIGRATED_KEY = 'attachmentsMigrated';
+
+/**
+ * One-time move of the base64 images older versions kept inline in each record
+ */
+export async function migrateInlineImages(): Promise<number> {
+  if (await getSetting(ATTACHMENTS_MIGRATED_KEY)) return 0;
+
+  const db = await initDB();
+  let moved = 0;
+  const migrate = async <K extends 'receiptImage' | 'chequeImage', T extends InlineImageOwner<K>>(
+    records: T[],
+    ownerType: AttachmentOwnerType,
+    field: K,
+    save: (record: T, attachment: Attachment) => Promise<void>
+  ) => {
+    for (const original of records.filter(r => r[field])) {
+      const { record, attachment } = await extractInlineImage(ownerType, original, field);
+      await save(record, attachment!);
+      moved++;
+    }
+  };
+  const saveWith = <S extends 'transactions' | 'warranties' | 'scheduled_transactions'>(storeName: S) =>
+    async (record: FinSnapDB[S]['value'], attachment: Attachment) => {
+      const tx = db.transaction([storeName, 'attachments'], 'readwrite');
+      await tx.objectStore('attachments').put(attachment);
+      await tx.objectStore(storeName).put(record);
+      await tx.done;
+    };
+
+  await migrate(await db.getAll('transactions'), 'transaction', 'receiptImage', saveWith('transactions'));
+  await migrate(await db.getAll('warranties'), 'warranty', 'receiptImage', saveWith('warranties'));
+  await migrate(await db.getAll('scheduled_transactions'), 'scheduled', 'chequeImage', saveWith('scheduled_transactions'));
+  await saveSetting(ATTACHMENTS_MIGRATED_KEY, true);
+  return moved;
+}
+
+export async function clearAttachments(): Promise<void> {
+  const db = await initDB();
+  const tx = db.transaction('attachments', 'readwrite');
+  await tx.store.clear();
+  await tx.done;
+}
+
+// Deletion tombstones
+export async function recordDeletion(storeName: string, id: string): Promise<void> {
+  const db = await initDB();
+  await db.put('deleted_records', { storeName, id, deletedAt: new Date().toISOString() }, `${storeName}:${id}`);
+}
+
+export async function getAllDeletedRecords(): Promise<DeletedRecord[]> {
+  const db = await initDB();
+  return db.getAll('deleted_records');
+}
+
+export async function clearDeletedRecords(): Promise<void> {
+  const db = await initDB();
+  const tx = db.transaction('deleted_records', 'readwrite');
+  await tx.store.clear();
+  await tx.done;
+}
+
 // Clear all data
 export async function clearAllData(): Promise<void> {
   await clearTransactions();
@@ -298,5 +911,16 @@ export async function clearAllData(): Promise<void> {
   await clearRecurringRules();
   await clearWarranties();
   await clearScheduledTransactions();
+  await clearSavingsGoals();
+  await clearGoalContributions();
+  await clearParsingTemplates();
+  await clearExchangeRates();
+  await clearBudgets();
+  await clearReconciliations();
+  await clearNetWorthSnapshots();
+  await clearSecurityPrices();
+  await clearCategorizationRules();
+  await clearAttachments();
+  await clearDeletedRecords();
   await clearSettings();
 }
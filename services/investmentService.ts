@@ -0,0 +1,348 @@
+import Papa from 'papaparse';
+import { Account, InvestmentAction, SecurityPrice, Transaction, TransactionType } from '../types';
+import { getAllAccounts, saveAccount, saveSecurityPrice, saveTransaction } from './indexedDBService';
+import { parseStatementAmount, parseStatementDate } from './statementImportService';
+import { v4 as uuidv4 } from 'uuid';
+
+/**
+ * Investments
+ * Investment and Asset accounts hold securities (shares, funds, gold, property) built up from
+ * BUY / SELL / DIVIDEND transactions. Holdings use average cost; prices come from manual entries
+ * or a CSV price file, and the account balance is kept at the holdings' market value so it
+ * counts towards net worth.
+ */
+
+export const INVESTMENT_ACTIONS: { value: InvestmentAction; label: string }[] = [
+  { value: 'BUY', label: 'Buy' },
+  { value: 'SELL', label: 'Sell' },
+  { value: 'DIVIDEND', label: 'Dividend' },
+];
+
+export interface RealizedGain {
+  transactionId: string;
+  date: string;
+  symbol: string;
+  quantity: number;
+  proceeds: number; // After fees
+  costBasis: number; // Average cost of the units sold
+  gain: number;
+}
+
+export interface Holding {
+  accountId: string;
+  symbol: string;
+  quantity: number;
+  costBasis: number; // Total cost of the units still held, fees included
+  averageCost: number;
+  price: number | null; // Latest known price per unit
+  priceDate: string | null;
+  priceSource: SecurityPrice['source'] | 'trade' | null; // 'trade' = last buy/sell price
+  marketValue: number; // quantity × price, or cost basis when no price is known
+  unrealizedGain: number;
+  unrealizedPercent: number | null;
+  realized: RealizedGain[];
+  dividends: number;
+}
+
+export interface InvestmentSummary {
+  marketValue: number;
+  costBasis: number;
+  unrealizedGain: number;
+  realizedGain: number;
+  dividends: number;
+}
+
+export interface TradeInput {
+  action: InvestmentAction;
+  symbol: string;
+  quantity: number; // Ignored for dividends
+  unitPrice: number; // Dividend: the total amount received
+  fees?: number;
+  date: string;
+  cashAccountId?: string; // Account the money comes from / goes to
+}
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+// Quantities can be fractional (fund units, grams)
+const round6 = (n: number) => Math.round(n * 1e6) / 1e6;
+
+const today = () => new Date().toISOString().split('T')[0];
+
+export const normalizeSymbol = (symbol: string) => symbol.trim().toUpperCase();
+
+export const securityPriceId = (symbol: string, date: string) => `${normalizeSymbol(symbol)}:${date}`;
+
+export const isInvestmentAccount = (account: Account) => account.type === 'Investment' || account.type === 'Asset';
+
+const investmentTransactionsFor = (accountId: string, transactions: Transaction[]) =>
+  transactions
+    .filter(tx => tx.investmentAccountId === accountId && tx.investmentAction && tx.symbol)
+    .sort((a, b) => `${a.date} ${a.time || '00:00'}`.localeCompare(`${b.date} ${b.time || '00:00'}`));
+
+/**
+ * Latest price on or before a date
+ */
+export function getLatestPrice(prices: SecurityPrice[], symbol: string, date: string = today()): SecurityPrice | null {
+  const key = normalizeSymbol(symbol);
+  let latest: SecurityPrice | null = null;
+  for (const p of prices) {
+    if (p.symbol !== key || p.date > date) continue;
+    if (!latest || p.date > latest.date || (p.date === latest.date && p.source === 'manual')) latest = p;
+  }
+  return latest;
+}
+
+/**
+ * Replay an account's trades into holdings. Selling takes units out at the average cost, so the
+ * realized gain is proceeds less that cost. Fully sold positions are kept for their gains.
+ */
+export function getHoldings(
+  account: Account,
+  transactions: Transaction[],
+  prices: SecurityPrice[],
+  date: string = today()
+): Holding[] {
+  const bySymbol = new Map<string, Holding & { lastTradePrice: number | null; lastTradeDate: string | null }>();
+
+  for (const tx of investmentTransactionsFor(account.id, transactions)) {
+    if (tx.date > date) break;
+    const symbol = normalizeSymbol(tx.symbol!);
+    let h = bySymbol.get(symbol);
+    if (!h) {
+      h = {
+        accountId: account.id, symbol, quantity: 0, costBasis: 0, averageCost: 0,
+        price: null, priceDate: null, priceSource: null, marketValue: 0, unrealizedGain: 0,
+        unrealizedPercent: null, realized: [], dividends: 0, lastTradePrice: null, lastTradeDate: null,
+      };
+      bySymbol.set(symbol, h);
+    }
+
+    const quantity = tx.quantity || 0;
+    const fees = tx.fees || 0;
+    switch (tx.investmentAction) {
+      case 'BUY':
+        h.quantity = round6(h.quantity + quantity);
+        h.costBasis = round2(h.costBasis + quantity * (tx.unitPrice || 0) + fees);
+        break;
+      case 'SELL': {
+        const sold = Math.min(quantity, h.quantity);
+        const cost = h.quantity > 0 ? round2(h.costBasis * (sold / h.quantity)) : 0;
+        const proceeds = round2(sold * (tx.unitPrice || 0) - fees);
+        h.realized.push({ transactionId: tx.id, date: tx.date, symbol, quantity: sold, proceeds, costBasis: cost, gain: round2(proceeds - cost) });
+        h.quantity = round6(h.quantity - sold);
+        h.costBasis = h.quantity > 0 ? round2(h.costBasis - cost) : 0;
+        break;
+      }
+      case 'DIVIDEND':
+        h.dividends = round2(h.dividends + tx.amount);
+        break;
+    }
+    if (tx.investmentAction !== 'DIVIDEND' && tx.unitPrice) {
+      h.lastTradePrice = tx.unitPrice;
+      h.lastTradeDate = tx.date;
+    }
+  }
+
+  return Array.from(bySymbol.values()).map(({ lastTradePrice, lastTradeDate, ...h }) => {
+    const quoted = getLatestPrice(prices, h.symbol, date);
+    const useTrade = lastTradePrice !== null && (!quoted || (lastTradeDate! > quoted.date));
+    const price = useTrade ? lastTradePrice : quoted?.price ?? null;
+    const marketValue = price !== null ? round2(h.quantity * price) : h.costBasis;
+    return {
+      ...h,
+      averageCost: h.quantity > 0 ? round2(h.costBasis / h.quantity) : 0,
+      price,
+      priceDate: useTrade ? lastTradeDate : quoted?.date ?? null,
+      priceSource: useTrade ? 'trade' : quoted?.source ?? null,
+      marketValue,
+      unrealizedGain: round2(marketValue - h.costBasis),
+      unrealizedPercent: h.costBasis > 0 ? round2(((marketValue - h.costBasis) / h.costBasis) * 100) : null,
+    };
+  });
+}
+
+/**
+ * Totals across holdings. Realized gains and dividends can be limited to a date range.
+ */
+export function summarizeHoldings(holdings: Holding[], from?: string, to?: string): InvestmentSummary {
+  const inRange = (date: string) => (!from || date >= from) && (!to || date <= to);
+  return {
+    marketValue: round2(holdings.reduce((s, h) => s + h.marketValue, 0)),
+    costBasis: round2(holdings.reduce((s, h) => s + h.costBasis, 0)),
+    unrealizedGain: round2(holdings.reduce((s, h) => s + h.unrealizedGain, 0)),
+    realizedGain: round2(holdings.reduce((s, h) => s + h.realized.filter(r => inRange(r.date)).reduce((t, r) => t + r.gain, 0), 0)),
+    dividends: round2(holdings.reduce((s, h) => s + h.dividends, 0)),
+  };
+}
+
+/**
+ * Set each investment account that has holdings to their market value. Accounts without any
+ * trades keep their manually entered balance. Returns the accounts that changed.
+ */
+export async function revalueInvestmentAccounts(
+  accounts: Account[],
+  transactions: Transaction[],
+  prices: SecurityPrice[]
+): Promise<Account[]> {
+  const updated: Account[] = [];
+  for (const account of accounts.filter(isInvestmentAccount)) {
+    const holdings = getHoldings(account, transactions, prices);
+    if (holdings.length === 0) continue;
+
+    const value = summarizeHoldings(holdings).marketValue;
+    if (Math.abs(value - account.balance) < 0.005) continue;
+    const revalued = { ...account, balance: value };
+    await saveAccount(revalued);
+    updated.push(revalued);
+  }
+  return updated;
+}
+
+/**
+ * Record a buy, sell or dividend. Buys and sells are transfers between the cash account and the
+ * investment account; dividends are income into the cash account (or the investment account).
+ * The cash account's balance is updated here; the investment account is revalued afterwards.
+ */
+export async function recordTrade(account: Account, trade: TradeInput, transactions: Transaction[], prices: SecurityPrice[]): Promise<Transaction> {
+  const symbol = normalizeSymbol(trade.symbol);
+  if (!symbol) throw new Error('Symbol is required');
+  if (trade.action !== 'DIVIDEND' && !(trade.quantity > 0)) throw new Error('Quantity must be positive');
+
+  if (trade.action === 'SELL') {
+    const held = getHoldings(account, transactions, prices, trade.date).find(h => h.symbol === symbol)?.quantity || 0;
+    if (trade.quantity > held + 1e-6) throw new Error(`Only ${held} ${symbol} held on ${trade.date}`);
+  }
+
+  const accounts = await getAllAccounts();
+  const cash = trade.cashAccountId ? accounts.find(a => a.id === trade.cashAccountId) : undefined;
+  const fees = trade.fees || 0;
+  const gross = trade.action === 'DIVIDEND' ? trade.unitPrice : trade.quantity * trade.unitPrice;
+  const amount = round2(trade.action === 'BUY' ? gross + fees : gross - fees);
+
+  const base = {
+    id: uuidv4(),
+    amount,
+    currency: account.currency,
+    date: trade.date,
+    account: (cash || account).name,
+    investmentAction: trade.action,
+    investmentAccountId: account.id,
+    symbol,
+    fees: fees || undefined,
+  };
+
+  let tx: Transaction;
+  if (trade.action === 'BUY') {
+    tx = {
+      ...base,
+      merchant: `Buy ${trade.quantity} ${symbol}`,
+      category: 'Investments',
+      type: TransactionType.TRANSFER,
+      accountId: cash?.id,
+      toAccountId: account.id,
+      isTransfer: true,
+      quantity: trade.quantity,
+      unitPrice: trade.unitPrice,
+    };
+  } else if (trade.action === 'SELL') {
+    tx = {
+      ...base,
+      merchant: `Sell ${trade.quantity} ${symbol}`,
+      category: 'Investments',
+      type: TransactionType.TRANSFER,
+      accountId: account.id,
+      toAccountId: cash?.id,
+      isTransfer: true,
+      quantity: trade.quantity,
+      unitPrice: trade.unitPrice,
+    };
+  } else {
+    tx = {
+      ...base,
+      merchant: `${symbol} dividend`,
+      category: 'Dividends',
+      type: TransactionType.INCOME,
+      accountId: (cash || account).id,
+    };
+  }
+
+  await saveTransaction(tx);
+  if (cash) {
+    const delta = trade.action === 'BUY' ? -amount : amount;
+    await saveAccount({ ...cash, balance: round2(cash.balance + delta) });
+  }
+
+  const all = [...transactions, tx];
+  await revalueInvestmentAccounts((await getAllAccounts()).filter(a => a.id === account.id), all, prices);
+  return tx;
+}
+
+/**
+ * Save a manually entered price
+ */
+export async function savePrice(symbol: string, price: number, date: string, currency?: string): Promise<SecurityPrice> {
+  const record: SecurityPrice = {
+    id: securityPriceId(symbol, date),
+    symbol: normalizeSymbol(symbol),
+    price,
+    currency,
+    date,
+    source: 'manual',
+    createdAt: new Date().toISOString(),
+  };
+  await saveSecurityPrice(record);
+  return record;
+}
+
+/**
+ * Read a price file with symbol, date and price columns (currency optional). Header names are
+ * matched loosely ("Ticker", "Close", "Date"); dates may be YYYY-MM-DD or DD/MM/YYYY.
+ */
+export function parsePriceCsv(content: string): { prices: SecurityPrice[]; skipped: number } {
+  const parsed = Papa.parse<Record<string, string>>(content, {
+    header: true,
+    skipEmptyLines: true,
+    transformHeader: h => h.trim().toLowerCase(),
+  });
+  const headers = parsed.meta.fields || [];
+  const find = (pattern: RegExp) => headers.find(h => pattern.test(h));
+  const symbolCol = find(/symbol|ticker|code|asset/);
+  const dateCol = find(/date/);
+  const priceCol = find(/price|close|value|nav/);
+  const currencyCol = find(/currency|ccy/);
+  if (!symbolCol || !priceCol) throw new Error('The price file needs a symbol and a price column');
+
+  const now = new Date().toISOString();
+  const prices: SecurityPrice[] = [];
+  let skipped = 0;
+  for (const record of parsed.data) {
+    const symbol = normalizeSymbol(record[symbolCol] || '');
+    const price = parseStatementAmount(record[priceCol]);
+    const date = dateCol ? parseStatementDate(record[dateCol] || '', 'DD/MM/YYYY') : today();
+    if (!symbol || price === null || price < 0 || !date) {
+      skipped++;
+      continue;
+    }
+    prices.push({
+      id: securityPriceId(symbol, date),
+      symbol,
+      price,
+      currency: currencyCol ? record[currencyCol]?.trim().toUpperCase() || undefined : undefined,
+      date,
+      source: 'csv',
+      createdAt: now,
+    });
+  }
+  return { prices, skipped };
+}
+
+/**
+ * Save imported prices. Returns how many were saved.
+ */
+export async function importPrices(prices: SecurityPrice[]): Promise<number> {
+  for (const price of prices) {
+    await saveSecurityPrice(price);
+  }
+  return prices.length;
+}
@@ -0,0 +1,285 @@
+import { Account, AuditContext, LoanInterestMethod, ScheduledTransaction, Transaction, TransactionType } from '../types';
+import { getAllAccounts, getAllScheduledTransactions, applyAuditedChanges } from './indexedDBService';
+import { v4 as uuidv4 } from 'uuid';
+
+/**
+ * Loan Amortization
+ * Builds monthly repayment schedules for Loan/BNPL accounts and keeps the remaining installments
+ * (ScheduledTransactions with loanAccountId) in step with the outstanding balance. Each payment is
+ * split into principal, which reduces the loan balance, and interest, which is a cost.
+ */
+
+export const LOAN_INTEREST_METHODS: { value: LoanInterestMethod; label: string }[] = [
+  { value: 'REDUCING_BALANCE', label: 'Reducing balance' },
+  { value: 'FLAT', label: 'Flat rate' },
+  { value: 'ZERO', label: '0% (BNPL)' },
+];
+
+// Safety cap on generated installments when a loan has fallen far behind
+const MAX_INSTALLMENTS = 1200;
+
+export interface LoanTerms {
+  principal: number;
+  annualRate: number; // Percent
+  installments: number;
+  startDate: string;
+  method: LoanInterestMethod;
+}
+
+export interface AmortizationRow {
+  number: number; // 1-based installment number
+  dueDate: string;
+  payment: number;
+  principal: number;
+  interest: number;
+  balance: number; // Outstanding after this installment
+}
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+const toISO = (d: Date) =>
+  `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+
+const parseISO = (date: string) => {
+  const [y, m, d] = date.split('-').map(Number);
+  return new Date(y, m - 1, d);
+};
+
+/**
+ * Terms of a Loan/BNPL account, or null if principal, installments or start date are missing
+ */
+export function getLoanTerms(account: Account): LoanTerms | null {
+  if (account.type !== 'Loan/BNPL' || !account.loanPrincipal || !account.loanInstallments || !account.loanStartDate) {
+    return null;
+  }
+  const annualRate = account.loanInterestRate || 0;
+  return {
+    principal: account.loanPrincipal,
+    annualRate,
+    installments: account.loanInstallments,
+    startDate: account.loanStartDate,
+    method: annualRate === 0 ? 'ZERO' : account.loanInterestMethod || 'REDUCING_BALANCE',
+  };
+}
+
+/**
+ * Installment n falls n months after the start date, on the same day (clamped to short months)
+ */
+export function installmentDueDate(terms: LoanTerms, n: number): string {
+  const start = parseISO(terms.startDate);
+  const year = start.getFullYear();
+  const month = start.getMonth() + n;
+  const lastDay = new Date(year, month + 1, 0).getDate();
+  return toISO(new Date(year, month, Math.min(start.getDate(), lastDay)));
+}
+
+/**
+ * Regular installment amount for the original terms
+ */
+export function calculateInstallment(terms: LoanTerms): number {
+  const { principal, installments } = terms;
+  switch (terms.method) {
+    case 'REDUCING_BALANCE': {
+      const r = terms.annualRate / 100 / 12;
+      return round2((principal * r) / (1 - Math.pow(1 + r, -installments)));
+    }
+    case 'FLAT':
+      return round2((principal + principal * (terms.annualRate / 100) * (installments / 12)) / installments);
+    default:
+      return round2(principal / installments);
+  }
+}
+
+/**
+ * Remaining installments from `fromNumber` on, starting at an outstanding balance. The regular
+ * installment amount is kept, so a balance below plan (extra or early payments) ends sooner.
+ */
+export function continueSchedule(terms: LoanTerms, outstanding: number, fromNumber: number): AmortizationRow[] {
+  const payment = calculateInstallment(terms);
+  const monthlyRate = terms.annualRate / 100 / 12;
+  const principalPerInstallment = terms.principal / terms.installments;
+  const flatInterest = terms.principal * (terms.annualRate / 100) / 12;
+
+  const rows: AmortizationRow[] = [];
+  let balance = round2(outstanding);
+  let n = fromNumber;
+
+  while (balance > 0.005 && rows.length < MAX_INSTALLMENTS) {
+    let interest = 0;
+    let principal = principalPerInstallment;
+    if (terms.method === 'REDUCING_BALANCE') {
+      interest = round2(balance * monthlyRate);
+      principal = payment - interest;
+    } else if (terms.method === 'FLAT') {
+      interest = round2(flatInterest);
+    }
+
+    // Fold rounding leftovers into the final installment
+    principal = round2(Math.min(balance, principal));
+    if (balance - principal < 1) principal = balance;
+
+    balance = round2(balance - principal);
+    rows.push({ number: n, dueDate: installmentDueDate(terms, n), payment: round2(principal + interest), principal, interest, balance });
+    n++;
+  }
+  return rows;
+}
+
+/**
+ * Full schedule for the original terms
+ */
+export function buildAmortizationSchedule(terms: LoanTerms): AmortizationRow[] {
+  return continueSchedule(terms, terms.principal, 1);
+}
+
+const isOpen = (st: ScheduledTransaction) => st.status === 'PENDING' || st.status === 'OVERDUE';
+
+/**
+ * Rebuild a loan's unpaid installments from its current balance. Paid and skipped installments are
+ * left alone; open ones are updated in place by installment number, and any beyond the new end
+ * are removed. Returns the writes without making them.
+ */
+export function planLoanSchedule(
+  loan: Account,
+  scheduled: ScheduledTransaction[],
+  payFromAccountId?: string,
+  today: string = toISO(new Date())
+): { saves: ScheduledTransaction[]; deleteIds: string[] } {
+  const terms = getLoanTerms(loan);
+  if (!terms) return { saves: [], deleteIds: [] };
+
+  const installments = scheduled.filter(st => st.loanAccountId === loan.id);
+  const open = installments.filter(isOpen);
+  const settled = installments.filter(st => !isOpen(st));
+
+  // Last installment already dealt with
+  let lastNumber: number;
+  if (settled.length > 0) {
+    lastNumber = Math.max(...settled.map(st => st.installmentNumber || 0));
+  } else if (open.length > 0) {
+    lastNumber = Math.min(...open.map(st => st.installmentNumber || 1)) - 1;
+  } else {
+    lastNumber = buildAmortizationSchedule(terms).filter(row => row.dueDate < today).length;
+  }
+
+  const outstanding = loan.balance < 0 ? -loan.balance : lastNumber === 0 ? terms.principal : 0;
+  const rows = continueSchedule(terms, outstanding, lastNumber + 1);
+  const accountId = payFromAccountId ?? open[0]?.accountId;
+  const now = new Date().toISOString();
+
+  const saves: ScheduledTransaction[] = [];
+  for (const row of rows) {
+    const existing = open.find(st => st.installmentNumber === row.number);
+    const installment: ScheduledTransaction = {
+      ...(existing || {
+        id: uuidv4(),
+        currency: loan.currency,
+        category: 'Loan Payment',
+        type: TransactionType.OBLIGATION,
+        status: 'PENDING' as const,
+        loanAccountId: loan.id,
+        installmentNumber: row.number,
+        createdAt: now,
+      }),
+      merchant: `${loan.name} installment ${row.number}/${lastNumber + rows.length}`,
+      accountId: existing?.accountId ?? accountId,
+      amount: row.payment,
+      dueDate: row.dueDate,
+      principalPortion: row.principal,
+      interestPortion: row.interest,
+      updatedAt: now,
+    };
+    saves.push(installment);
+  }
+
+  const deleteIds = open.filter(st => !rows.some(row => row.number === st.installmentNumber)).map(st => st.id);
+  return { saves, deleteIds };
+}
+
+/**
+ * Rebuild a loan's unpaid installments (see planLoanSchedule). Returns the open installments.
+ */
+export async function syncLoanSchedule(
+  loan: Account,
+  scheduled: ScheduledTransaction[],
+  payFromAccountId?: string,
+  audit?: AuditContext
+): Promise<ScheduledTransaction[]> {
+  const planned = planLoanSchedule(loan, scheduled, payFromAccountId);
+  await applyAuditedChanges({ scheduled_transactions: planned }, audit);
+  return planned.saves;
+}
+
+/**
+ * What App already did to a debt account's own balance when it saved the transaction
+ */
+export function alreadyAppliedToAccount(tx: Transaction, accountId: string): number {
+  if (tx.type === TransactionType.TRANSFER && tx.accountId && tx.toAccountId === accountId) return tx.amount;
+  if (tx.accountId !== accountId) return 0;
+  if (tx.type === TransactionType.EXPENSE) return -tx.amount;
+  if (tx.type === TransactionType.INCOME) return tx.amount;
+  return 0;
+}
+
+/**
+ * Split a transaction matched to an installment into principal and interest, bring the loan's
+ * balance down by the principal, and rebuild the rest of the schedule - all in one write. Call
+ * after markAsPaid.
+ */
+export async function recordLoanPayment(installment: ScheduledTransaction, tx: Transaction, audit?: AuditContext): Promise<void> {
+  if (!installment.loanAccountId) return;
+
+  const loan = (await getAllAccounts()).find(a => a.id === installment.loanAccountId);
+  if (!loan) return;
+
+  const paid = tx.originalCurrency === loan.currency && tx.originalAmount !== undefined ? tx.originalAmount : tx.amount;
+  const interest = round2(Math.min(paid, installment.interestPortion || 0));
+  const principal = round2(paid - interest);
+
+  const updatedLoan: Account = { ...loan, balance: round2(loan.balance + principal - alreadyAppliedToAccount(tx, loan.id)) };
+  await applyAuditedChanges({
+    transactions: { saves: [{ ...tx, principalPortion: principal, interestPortion: interest }] },
+    accounts: { saves: [updatedLoan] },
+    scheduled_transactions: planLoanSchedule(updatedLoan, await getAllScheduledTransactions()),
+  }, audit);
+}
+
+/**
+ * Pay down principal outside the schedule (a transfer into the loan) and shorten the schedule.
+ * The transfer, both balances and the schedule are written together as one undo step.
+ */
+export async function recordExtraPayment(
+  loan: Account,
+  amount: number,
+  date: string,
+  fromAccountId: string,
+  audit?: AuditContext
+): Promise<void> {
+  const accounts = await getAllAccounts();
+  const from = accounts.find(a => a.id === fromAccountId);
+  const current = accounts.find(a => a.id === loan.id) || loan;
+  if (!from) throw new Error('Paying account not found');
+
+  const tx: Transaction = {
+    id: uuidv4(),
+    amount,
+    currency: loan.currency,
+    merchant: `${loan.name} extra payment`,
+    date,
+    category: 'Loan Payment',
+    type: TransactionType.TRANSFER,
+    accountId: from.id,
+    toAccountId: loan.id,
+    account: from.name,
+    isTransfer: true,
+    principalPortion: amount,
+    interestPortion: 0,
+  };
+  const updatedLoan: Account = { ...current, balance: round2(current.balance + amount) };
+
+  await applyAuditedChanges({
+    transactions: { saves: [tx] },
+    accounts: { saves: [{ ...from, balance: round2(from.balance - amount) }, updatedLoan] },
+    scheduled_transactions: planLoanSchedule(updatedLoan, await getAllScheduledTransactions()),
+  }, audit);
+}
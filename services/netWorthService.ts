@@ -0,0 +1,185 @@
+import { Account, AccountType, ExchangeRate, NetWorthAccountBalance, NetWorthSnapshot, Transaction } from '../types';
+import { getAllNetWorthSnapshots, saveNetWorthSnapshot } from './indexedDBService';
+import { accountBalanceInBase, toBaseCurrency } from './exchangeRateService';
+import { buildBalanceLedger, getBalanceOn } from './balanceLedgerService';
+
+/**
+ * Net Worth History
+ * Account balances are only kept as current values, so today's per-account balances are
+ * snapshotted whenever they change (one snapshot per day). Months before the first snapshot
+ * are backfilled by replaying transactions backwards from the current balances.
+ */
+
+export const ACCOUNT_TYPES: AccountType[] = ['Bank', 'Cash', 'Wallet', 'Investment', 'Asset', 'Credit Card', 'Loan/BNPL', 'Other'];
+
+export interface NetWorthPoint {
+  month: string; // YYYY-MM
+  date: string; // Snapshot the month is represented by (the last one in the month)
+  assets: number;
+  liabilities: number; // Positive
+  netWorth: number;
+  byType: Record<AccountType, number>; // Net balance per account type, in base currency
+  change: number | null; // Net worth change since the previous month
+  changePercent: number | null;
+  source: NetWorthSnapshot['source'];
+}
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+const toISO = (d: Date) =>
+  `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+
+const parseISO = (date: string) => {
+  const [y, m, d] = date.split('-').map(Number);
+  return new Date(y, m - 1, d);
+};
+
+const monthEnd = (date: string) => {
+  const d = parseISO(date);
+  return toISO(new Date(d.getFullYear(), d.getMonth() + 1, 0));
+};
+
+function totals(balances: NetWorthAccountBalance[]) {
+  const assets = balances.filter(b => b.balanceInBase > 0).reduce((s, b) => s + b.balanceInBase, 0);
+  const liabilities = -balances.filter(b => b.balanceInBase < 0).reduce((s, b) => s + b.balanceInBase, 0);
+  return { assets: round2(assets), liabilities: round2(liabilities), netWorth: round2(assets - liabilities) };
+}
+
+/**
+ * Snapshot of the accounts' current balances
+ */
+export function buildSnapshot(
+  accounts: Account[],
+  baseCurrency: string,
+  rates: ExchangeRate[],
+  date: string = toISO(new Date())
+): NetWorthSnapshot {
+  const balances = accounts.map(a => ({
+    accountId: a.id,
+    type: a.type,
+    currency: a.currency,
+    balance: round2(a.balance || 0),
+    balanceInBase: round2(accountBalanceInBase(a, baseCurrency, rates, date)),
+  }));
+  return {
+    id: date,
+    date,
+    baseCurrency,
+    accounts: balances,
+    ...totals(balances),
+    source: 'recorded',
+    createdAt: new Date().toISOString(),
+  };
+}
+
+const sameBalances = (a: NetWorthSnapshot, b: NetWorthSnapshot) =>
+  a.baseCurrency === b.baseCurrency &&
+  a.accounts.length === b.accounts.length &&
+  a.accounts.every(x => b.accounts.some(y => y.accountId === x.accountId && y.balanceInBase === x.balanceInBase));
+
+/**
+ * Record today's balances, replacing today's earlier snapshot if anything changed.
+ * Returns the saved snapshot, or null when nothing changed.
+ */
+export async function recordNetWorthSnapshot(
+  accounts: Account[],
+  baseCurrency: string,
+  rates: ExchangeRate[],
+  existing: NetWorthSnapshot[]
+): Promise<NetWorthSnapshot | null> {
+  const snapshot = buildSnapshot(accounts, baseCurrency, rates);
+  const previous = existing.find(s => s.id === snapshot.id);
+  if (previous && previous.source === 'recorded' && sameBalances(previous, snapshot)) return null;
+
+  const saved: NetWorthSnapshot = previous
+    ? { ...snapshot, createdAt: previous.createdAt, updatedAt: snapshot.createdAt }
+    : snapshot;
+  await saveNetWorthSnapshot(saved);
+  return saved;
+}
+
+/**
+ * Rebuild month-end snapshots from the first transaction up to last month. Each account's
+ * balance on a date is its current balance less everything the ledger says happened since,
+ * so the history always lands on today's figures. Recorded snapshots are never overwritten.
+ */
+export async function backfillNetWorthHistory(
+  accounts: Account[],
+  transactions: Transaction[],
+  baseCurrency: string,
+  rates: ExchangeRate[],
+  today: string = toISO(new Date())
+): Promise<NetWorthSnapshot[]> {
+  const dated = transactions.filter(tx => tx.date).map(tx => tx.date).sort();
+  if (accounts.length === 0 || dated.length === 0) return [];
+
+  const existing = await getAllNetWorthSnapshots();
+  const recorded = new Set(existing.filter(s => s.source === 'recorded').map(s => s.id));
+
+  const ledgers = accounts.map(account => {
+    const ledger = buildBalanceLedger(account, transactions);
+    return { account, ledger, offset: account.balance - ledger.derivedBalance };
+  });
+
+  const created: NetWorthSnapshot[] = [];
+  const now = new Date().toISOString();
+  for (let date = monthEnd(dated[0]); date < today; date = monthEnd(toISO(new Date(parseISO(date).getTime() + 86400000)))) {
+    if (recorded.has(date)) continue;
+
+    const balances = ledgers.map(({ account, ledger, offset }) => {
+      const balance = round2(getBalanceOn(ledger, date) + offset);
+      return {
+        accountId: account.id,
+        type: account.type,
+        currency: account.currency,
+        balance,
+        balanceInBase: round2(toBaseCurrency(balance, account.currency || baseCurrency, baseCurrency, rates, date)),
+      };
+    });
+    const snapshot: NetWorthSnapshot = {
+      id: date,
+      date,
+      baseCurrency,
+      accounts: balances,
+      ...totals(balances),
+      source: 'backfilled',
+      createdAt: now,
+    };
+    await saveNetWorthSnapshot(snapshot);
+    created.push(snapshot);
+  }
+  return created;
+}
+
+/**
+ * One point per month (its last snapshot) with month-over-month changes
+ */
+export function getNetWorthTrend(snapshots: NetWorthSnapshot[]): NetWorthPoint[] {
+  const byMonth = new Map<string, NetWorthSnapshot>();
+  [...snapshots]
+    .sort((a, b) => a.date.localeCompare(b.date))
+    .forEach(s => byMonth.set(s.date.slice(0, 7), s));
+
+  const points: NetWorthPoint[] = [];
+  for (const [month, s] of byMonth) {
+    const byType = Object.fromEntries(ACCOUNT_TYPES.map(t => [t, 0])) as Record<AccountType, number>;
+    s.accounts.forEach(a => { byType[a.type] = round2((byType[a.type] || 0) + a.balanceInBase); });
+
+    const previous = points[points.length - 1];
+    const change = previous ? round2(s.netWorth - previous.netWorth) : null;
+    points.push({
+      month,
+      date: s.date,
+      assets: s.assets,
+      liabilities: s.liabilities,
+      netWorth: s.netWorth,
+      byType,
+      change,
+      changePercent: previous && change !== null && previous.netWorth !== 0
+        ? round2((change / Math.abs(previous.netWorth)) * 100)
+        : null,
+      source: s.source,
+    });
+  }
+  return points;
+}
@@ -1,29 +1,119 @@
-import { getAllTransactions, saveTransaction, getAllWarranties } from './indexedDBService';
+import JSZip from 'jszip';
+import { AuditContext, ReceiptRetentionPolicy, ReceiptRetentionRule, Transaction } from '../types';
+import { applyTransactionChanges, getAllTransactions, getAttachments, getSetting, saveSetting } from './indexedDBService';
+import { attachmentExtension } from './attachmentService';
+import { newAuditContext } from './auditService';
 
-const RECEIPT_RETENTION_DAYS = 14;
+/**
+ * Receipt Retention
+ * A transaction's receipt images are dropped once the transaction is older than its retention
+ * period: the first policy rule matching its category, account, amount and tag decides, or the
+ * default. Receipts marked "keep" and warranty receipts are never deleted. The Blobs themselves
+ * go in the startup attachment sweep.
+ */
 
-export async function cleanupOldReceipts(): Promise<number> {
-  let deletedCount = 0;
-  const now = new Date();
-  const cutoffDate = new Date(now.getTime() - RECEIPT_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+const RETENTION_POLICY_KEY = 'receiptRetentionPolicy';
+const DAY = 24 * 60 * 60 * 1000;
+
+export const DEFAULT_RETENTION_POLICY: ReceiptRetentionPolicy = {
+  defaultDays: 14,
+  rules: [],
+  archiveBeforeDelete: false,
+};
+
+export interface RetentionPreview {
+  transactions: Transaction[]; // Transactions whose receipts would be deleted
+  bytes: number;
+}
+
+/**
+ * The stored policy lives in the settings store (and so travels with backups)
+ */
+export async function getRetentionPolicy(): Promise<ReceiptRetentionPolicy> {
+  return { ...DEFAULT_RETENTION_POLICY, ...((await getSetting(RETENTION_POLICY_KEY)) || {}) };
+}
+
+export async function saveRetentionPolicy(policy: ReceiptRetentionPolicy): Promise<void> {
+  await saveSetting(RETENTION_POLICY_KEY, policy);
+}
+
+export function retentionRuleMatches(rule: ReceiptRetentionRule, tx: Transaction): boolean {
+  if (rule.category && tx.category !== rule.category) return false;
+  if (rule.accountId && tx.accountId !== rule.accountId) return false;
+  if (rule.minAmount !== undefined && tx.amount < rule.minAmount) return false;
+  if (rule.tag && !(tx.tags || []).some(t => t.toLowerCase() === rule.tag!.toLowerCase())) return false;
+  return true;
+}
+
+/**
+ * Days a transaction's receipts are kept (null = forever)
+ */
+export function retentionDaysFor(tx: Transaction, policy: ReceiptRetentionPolicy): number | null {
+  if (tx.keepReceipt) return null;
+  const rule = policy.rules.find(r => retentionRuleMatches(r, tx));
+  return rule ? rule.keepDays : policy.defaultDays;
+}
+
+export function findExpiredReceipts(transactions: Transaction[], policy: ReceiptRetentionPolicy, now = new Date()): Transaction[] {
+  return transactions.filter(tx => {
+    if (!tx.attachmentIds?.length) return false;
+    const days = retentionDaysFor(tx, policy);
+    return days !== null && new Date(tx.date).getTime() < now.getTime() - days * DAY;
+  });
+}
+
+/**
+ * What a cleanup with this policy would delete, with the space it would free
+ */
+export async function previewRetention(transactions: Transaction[], policy: ReceiptRetentionPolicy): Promise<RetentionPreview> {
+  const expired = findExpiredReceipts(transactions, policy);
+  let bytes = 0;
+  for (const tx of expired) {
+    (await getAttachments(tx.attachmentIds!)).forEach(a => (bytes += a.size));
+  }
+  return { transactions: expired, bytes };
+}
 
-  // Clean transaction receipts
-  const transactions = await getAllTransactions();
+export const formatMegabytes = (bytes: number) => `${(bytes / 1024 / 1024).toFixed(bytes < 1024 * 1024 ? 2 : 1)} MB`;
+
+/**
+ * ZIP of the receipts of these transactions, named by date and merchant
+ */
+export async function archiveReceipts(transactions: Transaction[]): Promise<Blob> {
+  const zip = new JSZip();
   for (const tx of transactions) {
-    if (!tx.receiptImage) continue;
-    if (tx.keepReceipt === true) continue; // User wants to keep it
-
-    const txDate = new Date(tx.date);
-    if (txDate < cutoffDate) {
-      // Delete receipt image
-      const updated = { ...tx, receiptImage: undefined };
-      await saveTransaction(updated);
-      deletedCount++;
-    }
+    const attachments = await getAttachments(tx.attachmentIds || []);
+    const base = `${tx.date}_${tx.merchant.replace(/[^a-z0-9]+/gi, '-').replace(/^-|-$/g, '') || 'receipt'}_${tx.id.slice(0, 8)}`;
+    attachments.forEach((attachment, index) => {
+      const name = attachments.length > 1 ? `${base}_${index + 1}` : base;
+      zip.file(`${name}.${attachmentExtension(attachment.mimeType)}`, attachment.blob);
+    });
   }
+  return zip.generateAsync({ type: 'blob' });
+}
 
-  // Warranties always keep their receipts (never clean)
+/**
+ * Drop the receipts of these transactions (one IndexedDB transaction, one undo step)
+ */
+export async function deleteReceipts(
+  transactions: Transaction[],
+  audit: AuditContext = newAuditContext('system', 'Receipt retention cleanup')
+): Promise<number> {
+  if (transactions.length === 0) return 0;
+  const updated = transactions.map(tx => ({ ...tx, attachmentIds: undefined }));
+  await applyTransactionChanges(updated, [], audit);
+  return transactions.length;
+}
+
+/**
+ * Startup cleanup. With archiving on nothing is deleted here - the cleanup has to be run from
+ * Settings, where the archive is downloaded first.
+ */
+export async function cleanupOldReceipts(): Promise<number> {
+  const policy = await getRetentionPolicy();
+  if (policy.archiveBeforeDelete) return 0;
 
-  console.log(`Cleaned up ${deletedCount} old receipt images`);
+  const deletedCount = await deleteReceipts(findExpiredReceipts(await getAllTransactions(), policy));
+  if (deletedCount > 0) console.log(`Cleaned up receipts of ${deletedCount} transactions`);
   return deletedCount;
 }
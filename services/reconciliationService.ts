@@ -1,4 +1,6 @@
-import { Transaction, Account } from '../types';
+import { Transaction, Account, Reconciliation, TransactionType } from '../types';
+import { saveReconciliation, deleteReconciliation, saveTransaction } from './indexedDBService';
+import { v4 as uuidv4 } from 'uuid';
 
 export interface ReconciliationResult {
   currentBalance: number;
@@ -140,3 +142,179 @@ export function checkAllAccounts(
 
   return results;
 }
+
+// ---------- Statement reconciliation ----------
+
+export interface ReconciliationSummary {
+  openingBalance: number;
+  closingBalance: number;
+  clearedTotal: number; // Net of cleared transactions
+  clearedBalance: number; // openingBalance + clearedTotal
+  difference: number; // closingBalance - clearedBalance; 0 when reconciled
+  clearedCount: number;
+  unclearedCount: number;
+}
+
+// Differences smaller than this are rounding
+const RECONCILE_TOLERANCE = 0.005;
+
+export const isBalanced = (summary: ReconciliationSummary) => Math.abs(summary.difference) < RECONCILE_TOLERANCE;
+
+/**
+ * Effect of a transaction on an account's balance, in the account's currency
+ */
+export function reconciliationAmount(tx: Transaction, account: Account): number {
+  const amount = tx.originalCurrency === account.currency && tx.originalAmount !== undefined
+    ? tx.originalAmount
+    : tx.amount;
+  if (tx.toAccountId === account.id && tx.accountId !== account.id) return amount;
+  if (tx.toAccountId) return -amount;
+  return tx.type === TransactionType.INCOME ? amount : -amount;
+}
+
+const belongsTo = (tx: Transaction, accountId: string) => tx.accountId === accountId || tx.toAccountId === accountId;
+
+/**
+ * Locked reconciliations for an account, oldest statement first
+ */
+export function getLockedReconciliations(accountId: string, reconciliations: Reconciliation[]): Reconciliation[] {
+  return reconciliations
+    .filter(r => r.accountId === accountId && r.status === 'LOCKED')
+    .sort((a, b) => a.statementDate.localeCompare(b.statementDate));
+}
+
+export function getOpenReconciliation(accountId: string, reconciliations: Reconciliation[]): Reconciliation | null {
+  return reconciliations.find(r => r.accountId === accountId && r.status === 'IN_PROGRESS') || null;
+}
+
+/**
+ * Transactions that can be ticked off in a session: on or before the statement date
+ * and not already part of a locked reconciliation
+ */
+export function getReconciliationCandidates(reconciliation: Reconciliation, transactions: Transaction[]): Transaction[] {
+  return transactions
+    .filter(tx => belongsTo(tx, reconciliation.accountId) && !tx.reconciliationId && tx.date <= reconciliation.statementDate)
+    .sort((a, b) => a.date.localeCompare(b.date) || (a.time || '').localeCompare(b.time || ''));
+}
+
+export function calculateReconciliationSummary(
+  reconciliation: Reconciliation,
+  account: Account,
+  transactions: Transaction[]
+): ReconciliationSummary {
+  const candidates = getReconciliationCandidates(reconciliation, transactions);
+  const cleared = candidates.filter(tx => tx.cleared);
+  const clearedTotal = cleared.reduce((sum, tx) => sum + reconciliationAmount(tx, account), 0);
+  const clearedBalance = reconciliation.openingBalance + clearedTotal;
+
+  return {
+    openingBalance: reconciliation.openingBalance,
+    closingBalance: reconciliation.closingBalance,
+    clearedTotal,
+    clearedBalance,
+    difference: Number((reconciliation.closingBalance - clearedBalance).toFixed(2)),
+    clearedCount: cleared.length,
+    unclearedCount: candidates.length - cleared.length,
+  };
+}
+
+/**
+ * Open a session for a statement (or return the one already open for the account).
+ * The opening balance carries over from the last locked reconciliation.
+ */
+export async function startReconciliation(
+  accountId: string,
+  statementDate: string,
+  closingBalance: number,
+  reconciliations: Reconciliation[],
+  openingBalance?: number
+): Promise<Reconciliation> {
+  const open = getOpenReconciliation(accountId, reconciliations);
+  if (open) return open;
+
+  const locked = getLockedReconciliations(accountId, reconciliations);
+  const previous = locked[locked.length - 1];
+  if (previous && statementDate <= previous.statementDate) {
+    throw new Error(`Statement date must be after the last reconciled statement (${previous.statementDate})`);
+  }
+
+  const reconciliation: Reconciliation = {
+    id: uuidv4(),
+    accountId,
+    statementDate,
+    openingBalance: previous ? previous.closingBalance : openingBalance ?? 0,
+    closingBalance,
+    status: 'IN_PROGRESS',
+    clearedTransactionIds: [],
+    createdAt: new Date().toISOString(),
+  };
+  await saveReconciliation(reconciliation);
+  return reconciliation;
+}
+
+export async function updateReconciliation(reconciliation: Reconciliation, updates: Partial<Reconciliation>): Promise<Reconciliation> {
+  if (reconciliation.status === 'LOCKED') throw new Error('Reconciliation is locked');
+  const updated = { ...reconciliation, ...updates, updatedAt: new Date().toISOString() };
+  await saveReconciliation(updated);
+  return updated;
+}
+
+/**
+ * Tick or untick a transaction as cleared. Reconciled transactions can't be unticked.
+ */
+export async function toggleCleared(tx: Transaction): Promise<Transaction> {
+  if (tx.reconciliationId) throw new Error('Transaction is part of a locked reconciliation');
+  const updated = { ...tx, cleared: !tx.cleared };
+  await saveTransaction(updated);
+  return updated;
+}
+
+/**
+ * Finish a session: stamp every cleared transaction with the reconciliation and lock the record.
+ * Any remaining difference is recorded as accepted.
+ */
+export async function lockReconciliation(
+  reconciliation: Reconciliation,
+  account: Account,
+  transactions: Transaction[]
+): Promise<Reconciliation> {
+  const summary = calculateReconciliationSummary(reconciliation, account, transactions);
+  const cleared = getReconciliationCandidates(reconciliation, transactions).filter(tx => tx.cleared);
+
+  for (const tx of cleared) {
+    await saveTransaction({ ...tx, reconciliationId: reconciliation.id });
+  }
+
+  const now = new Date().toISOString();
+  const locked: Reconciliation = {
+    ...reconciliation,
+    status: 'LOCKED',
+    clearedTransactionIds: cleared.map(tx => tx.id),
+    difference: summary.difference,
+    updatedAt: now,
+    lockedAt: now,
+  };
+  await saveReconciliation(locked);
+  return locked;
+}
+
+/**
+ * Abandon an open session. Cleared ticks are kept for next time.
+ */
+export async function cancelReconciliation(reconciliation: Reconciliation): Promise<void> {
+  if (reconciliation.status === 'LOCKED') throw new Error('Reconciliation is locked');
+  await deleteReconciliation(reconciliation.id);
+}
+
+/**
+ * The locked reconciliation that covers a transaction, if any: the one it was cleared in,
+ * or any locked statement for its account(s) dated on or after it
+ */
+export function findLockingReconciliation(tx: Transaction, reconciliations: Reconciliation[]): Reconciliation | null {
+  const locked = reconciliations.filter(r => r.status === 'LOCKED');
+  if (tx.reconciliationId) {
+    const own = locked.find(r => r.id === tx.reconciliationId);
+    if (own) return own;
+  }
+  return locked.find(r => belongsTo(tx, r.accountId) && tx.date <= r.statementDate) || null;
+}
@@ -0,0 +1,238 @@
+import { ScheduledTransaction } from '../types';
+import { getAllScheduledTransactions, saveScheduledTransaction } from './indexedDBService';
+import { v4 as uuidv4 } from 'uuid';
+
+/**
+ * Recurrence Engine
+ * Works out the due dates of a recurring scheduled transaction and materializes the next
+ * occurrence when the current one is paid or skipped. Monthly rules keep their intended day
+ * (a bill on the 31st falls on the 28th/30th in short months and goes back to the 31st after).
+ */
+
+export type RecurrenceRule = Pick<
+  ScheduledTransaction,
+  | 'dueDate'
+  | 'recurrencePattern'
+  | 'recurrenceInterval'
+  | 'recurrenceEndDate'
+  | 'recurrenceDayOfMonth'
+  | 'recurrenceWeekday'
+  | 'recurrenceWeekOfMonth'
+>;
+
+export const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+export const WEEK_OF_MONTH_OPTIONS: { value: number; label: string }[] = [
+  { value: 1, label: '1st' },
+  { value: 2, label: '2nd' },
+  { value: 3, label: '3rd' },
+  { value: 4, label: '4th' },
+  { value: -1, label: 'Last' },
+];
+
+const toISO = (d: Date) =>
+  `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+
+const parseISO = (date: string) => {
+  const [y, m, d] = date.split('-').map(Number);
+  return new Date(y, m - 1, d);
+};
+
+const daysInMonth = (year: number, month: number) => new Date(year, month + 1, 0).getDate();
+
+export function isRecurring(rule: Pick<ScheduledTransaction, 'recurrencePattern'>): boolean {
+  return !!rule.recurrencePattern && rule.recurrencePattern !== 'ONCE';
+}
+
+/**
+ * Default NTH_WEEKDAY settings for a date: its weekday, and which one of the month it is
+ * (a 5th occurrence becomes "last")
+ */
+export function getWeekdayPosition(date: string): { weekday: number; weekOfMonth: number } {
+  const d = parseISO(date);
+  const week = Math.ceil(d.getDate() / 7);
+  return { weekday: d.getDay(), weekOfMonth: week > 4 ? -1 : week };
+}
+
+/**
+ * The nth given weekday of a month (n = -1 for the last one)
+ */
+export function nthWeekdayOfMonth(year: number, month: number, weekday: number, n: number): Date {
+  if (n === -1) {
+    const last = new Date(year, month + 1, 0);
+    last.setDate(last.getDate() - ((last.getDay() - weekday + 7) % 7));
+    return last;
+  }
+  const first = new Date(year, month, 1);
+  const offset = (weekday - first.getDay() + 7) % 7;
+  return new Date(year, month, 1 + offset + (n - 1) * 7);
+}
+
+/**
+ * Last Monday-Friday of a month
+ */
+export function lastBusinessDayOfMonth(year: number, month: number): Date {
+  const d = new Date(year, month + 1, 0);
+  while (d.getDay() === 0 || d.getDay() === 6) {
+    d.setDate(d.getDate() - 1);
+  }
+  return d;
+}
+
+/**
+ * Due date of the occurrence after `fromDate` (defaults to the rule's own due date).
+ * Returns null for one-time rules or when the next date would be past the end date.
+ */
+export function getNextDueDate(rule: RecurrenceRule, fromDate: string = rule.dueDate): string | null {
+  if (!isRecurring(rule)) return null;
+
+  const interval = Math.max(1, rule.recurrenceInterval || 1);
+  const from = parseISO(fromDate);
+  let next: Date;
+
+  switch (rule.recurrencePattern) {
+    case 'WEEKLY':
+      next = new Date(from);
+      next.setDate(from.getDate() + 7 * interval);
+      break;
+    case 'CUSTOM':
+      next = new Date(from);
+      next.setDate(from.getDate() + interval);
+      break;
+    default: {
+      const monthIndex = from.getFullYear() * 12 + from.getMonth() + interval;
+      const year = Math.floor(monthIndex / 12);
+      const month = monthIndex % 12;
+
+      if (rule.recurrencePattern === 'LAST_BUSINESS_DAY') {
+        next = lastBusinessDayOfMonth(year, month);
+      } else if (rule.recurrencePattern === 'NTH_WEEKDAY') {
+        const position = getWeekdayPosition(rule.dueDate);
+        next = nthWeekdayOfMonth(
+          year,
+          month,
+          rule.recurrenceWeekday ?? position.weekday,
+          rule.recurrenceWeekOfMonth ?? position.weekOfMonth
+        );
+      } else {
+        const day = rule.recurrenceDayOfMonth || parseISO(rule.dueDate).getDate();
+        next = new Date(year, month, Math.min(day, daysInMonth(year, month)));
+      }
+    }
+  }
+
+  const nextDate = toISO(next);
+  if (rule.recurrenceEndDate && nextDate > rule.recurrenceEndDate) return null;
+  return nextDate;
+}
+
+/**
+ * The first `count` due dates of a rule, starting with its own due date
+ */
+export function expandRecurrence(rule: RecurrenceRule, count: number = 5): string[] {
+  if (!rule.dueDate) return [];
+  const dates = [rule.dueDate];
+
+  let current: string | null = rule.dueDate;
+  while (dates.length < count) {
+    current = getNextDueDate(rule, current);
+    if (!current) break;
+    dates.push(current);
+  }
+  return dates;
+}
+
+/**
+ * Short human description, e.g. "Day 31 of every 2 months" or "The last Friday of every month"
+ */
+export function describeRecurrence(rule: RecurrenceRule): string {
+  const interval = Math.max(1, rule.recurrenceInterval || 1);
+  const every = (unit: string) => (interval === 1 ? `every ${unit}` : `every ${interval} ${unit}s`);
+
+  switch (rule.recurrencePattern) {
+    case 'WEEKLY':
+      return `Repeats ${every('week')}`;
+    case 'CUSTOM':
+      return `Repeats ${every('day')}`;
+    case 'MONTHLY': {
+      const day = rule.recurrenceDayOfMonth || (rule.dueDate ? parseISO(rule.dueDate).getDate() : 1);
+      return `Day ${day} of ${every('month')}`;
+    }
+    case 'LAST_BUSINESS_DAY':
+      return `Last business day of ${every('month')}`;
+    case 'NTH_WEEKDAY': {
+      const position = rule.dueDate ? getWeekdayPosition(rule.dueDate) : { weekday: 1, weekOfMonth: 1 };
+      const weekday = WEEKDAY_NAMES[rule.recurrenceWeekday ?? position.weekday];
+      const week = rule.recurrenceWeekOfMonth ?? position.weekOfMonth;
+      const ordinal = WEEK_OF_MONTH_OPTIONS.find(o => o.value === week)?.label.toLowerCase();
+      return `The ${ordinal} ${weekday} of ${every('month')}`;
+    }
+    default:
+      return 'One-time';
+  }
+}
+
+/**
+ * Build (but don't save) the occurrence that follows a scheduled transaction
+ */
+export function buildNextOccurrence(st: ScheduledTransaction): ScheduledTransaction | null {
+  const dueDate = getNextDueDate(st);
+  if (!dueDate) return null;
+
+  // Pin the rule to the first occurrence so later ones can't drift
+  const position = getWeekdayPosition(st.dueDate);
+  const isNthWeekday = st.recurrencePattern === 'NTH_WEEKDAY';
+  const now = new Date().toISOString();
+  return {
+    id: uuidv4(),
+    userId: st.userId,
+    amount: st.amount,
+    currency: st.currency,
+    merchant: st.merchant,
+    category: st.category,
+    type: st.type,
+    accountId: st.accountId,
+    dueDate,
+    recurrencePattern: st.recurrencePattern,
+    recurrenceInterval: st.recurrenceInterval,
+    recurrenceEndDate: st.recurrenceEndDate,
+    recurrenceDayOfMonth: st.recurrencePattern === 'MONTHLY'
+      ? st.recurrenceDayOfMonth || parseISO(st.dueDate).getDate()
+      : undefined,
+    recurrenceWeekday: isNthWeekday ? st.recurrenceWeekday ?? position.weekday : undefined,
+    recurrenceWeekOfMonth: isNthWeekday ? st.recurrenceWeekOfMonth ?? position.weekOfMonth : undefined,
+    recurrenceParentId: st.id,
+    // What the payment is for carries over, so a recurring card or loan payment stays one
+    statementAccountId: st.statementAccountId,
+    loanAccountId: st.loanAccountId,
+    payToAccountId: st.payToAccountId,
+    payoffPlanId: st.payoffPlanId,
+    isCheque: st.isCheque,
+    notes: st.notes,
+    // Left out as they belong to one occurrence: the statement (closing date, minimum due), the
+    // installment split, the cheque itself (number, image, series) and how it was paid
+    status: 'PENDING',
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+/**
+ * Materialize the next occurrence of a paid or skipped scheduled transaction.
+ * Does nothing if it is one-time, the series has ended, or the next occurrence already exists.
+ */
+export async function rollForward(st: ScheduledTransaction): Promise<ScheduledTransaction | null> {
+  const next = await pendingNextOccurrence(st);
+  if (next) await saveScheduledTransaction(next);
+  return next;
+}
+
+/**
+ * The next occurrence rollForward would save - for callers that write it themselves, in a batch
+ */
+export async function pendingNextOccurrence(st: ScheduledTransaction): Promise<ScheduledTransaction | null> {
+  const next = buildNextOccurrence(st);
+  if (!next) return null;
+
+  const all = await getAllScheduledTransactions();
+  return all.some(other => other.recurrenceParentId === st.id) ? null : next;
+}
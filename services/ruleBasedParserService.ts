@@ -0,0 +1,284 @@
+import { Transaction, TransactionType, AppSettings, Account } from '../types';
+import { getRateOn } from './exchangeRateService';
+
+/**
+ * Deterministic, offline parser for common bank SMS / email notification formats.
+ * No network access - used as a fallback when Gemini or the edge function is unreachable.
+ */
+
+const MONTHS: Record<string, number> = {
+  jan: 1, feb: 2, mar: 3, apr: 4, may: 5, jun: 6,
+  jul: 7, aug: 8, sep: 9, oct: 10, nov: 11, dec: 12,
+};
+
+// ISO codes we accept as the currency of an amount (base + account currencies are added at parse time)
+const COMMON_CURRENCIES = [
+  'AED', 'USD', 'EUR', 'GBP', 'INR', 'SAR', 'QAR', 'KWD', 'BHD', 'OMR', 'PKR', 'PHP', 'EGP', 'JPY',
+  'CNY', 'AUD', 'CAD', 'CHF', 'SGD', 'HKD', 'NZD', 'ZAR', 'LKR', 'BDT', 'NPR', 'MYR', 'THB', 'IDR', 'TRY',
+];
+
+const FAILED_PATTERN = /could not be completed|declined|failed|unsuccessful|reversed/i;
+const INCOME_PATTERN = /\b(credited|credit(?:ed)? to|received|deposit(?:ed)?|refund(?:ed)?|salary|reversal credit)\b/i;
+const EXPENSE_PATTERN = /\b(debited|debit(?:ed)? from|purchase|spent|paid|used|withdrawn|withdrawal|charged|txn of|transaction of)\b/i;
+const WITHDRAWAL_PATTERN = /\b(atm|cash)\s+withdrawal\b|\bwithdrawn\s+at\s+atm\b/i;
+
+// "AED 1,234.56" / "AED1234.56" / "1,234.56 AED"
+const AMOUNT_PATTERN = /\b([A-Z]{3})\s?([\d,]+(?:\.\d{1,2})?)\b|\b([\d,]+(?:\.\d{1,2})?)\s?([A-Z]{3})\b/g;
+const AVAILABLE_BALANCE_PATTERN = /(?:avl\.?\s*bal(?:ance)?|available\s+bal(?:ance)?|bal(?:ance)?\s+is|a\/c\s+bal(?:ance)?)[\s:.-]*(?:is\s+)?(?:[A-Z]{3}\s?)?(-?[\d,]+(?:\.\d{1,2})?)/i;
+const AVAILABLE_CREDIT_PATTERN = /(?:avl\.?\s*cr\.?\s*limit|available\s+(?:credit\s+)?limit|avl\.?\s*limit)[\s:.-]*(?:is\s+)?(?:[A-Z]{3}\s?)?([\d,]+(?:\.\d{1,2})?)/i;
+const CARD_DIGITS_PATTERN = /(?:ending(?:\s+with)?|ending\s+in|no\.?|a\/c|acct|account|card)\s*[:#]?\s*(?:[x*]+)?(\d{3,6})\b|[x*]{2,}(\d{3,6})\b/i;
+const MERCHANT_PATTERN = /(?:\b(at|to|from|towards|for)|(@))\s+([A-Za-z0-9&'*.\-/ ]{2,40}?)(?=\s+(?:on|with|using|via|ref|avl|available|is|has|dated|at)\b|[.,;]|\s*$)/gi;
+// Income: "from <payer>" anywhere, even inside a longer "to your a/c from ..." phrase
+const PAYER_PATTERN = /\bfrom\s+([A-Za-z0-9&'*.\-/ ]{2,40}?)(?=\s+(?:on|with|using|via|ref|avl|available|is|has|dated|at|to|into)\b|[.,;]|\s*$)/gi;
+const NOT_A_MERCHANT_PATTERN = /^(your|the|my|a\/c|acct|account|card|[A-Z]{3}\s?[\d,.]+|[\d,.\s]+)\b/i;
+const CHEQUE_PATTERN = /\b(?:cheque|chq|check)\s*(?:no\.?|number|#)?[\s:.-]*(\d{4,})\b/i;
+const TIME_PATTERN = /\b([01]?\d|2[0-3]):([0-5]\d)(?::[0-5]\d)?\b/;
+
+// Tag on parsed transactions the user should check before saving (e.g. no exchange rate known)
+export const NEEDS_REVIEW_TAG = 'needs-review';
+
+const toNumber = (value: string) => parseFloat(value.replace(/,/g, ''));
+
+const pad = (n: number) => n.toString().padStart(2, '0');
+
+/**
+ * Extract a YYYY-MM-DD date from common formats; falls back to today
+ */
+export function extractDate(text: string): string {
+  const today = new Date();
+
+  // 2026-01-12
+  let m = text.match(/\b(\d{4})-(\d{2})-(\d{2})\b/);
+  if (m) return `${m[1]}-${m[2]}-${m[3]}`;
+
+  // 12/01/2026, 12-01-26, 12.01.2026 (day first)
+  m = text.match(/\b(\d{1,2})[/.-](\d{1,2})[/.-](\d{2,4})\b/);
+  if (m) {
+    const year = m[3].length === 2 ? 2000 + parseInt(m[3]) : parseInt(m[3]);
+    return `${year}-${pad(parseInt(m[2]))}-${pad(parseInt(m[1]))}`;
+  }
+
+  // 12-Jan-26, 12 Jan 2026, 12JAN2026
+  m = text.match(/\b(\d{1,2})[\s-]?([A-Za-z]{3})[a-z]*[\s-]?(\d{2,4})\b/);
+  if (m && MONTHS[m[2].toLowerCase()]) {
+    const year = m[3].length === 2 ? 2000 + parseInt(m[3]) : parseInt(m[3]);
+    return `${year}-${pad(MONTHS[m[2].toLowerCase()])}-${pad(parseInt(m[1]))}`;
+  }
+
+  // Jan 12 (assume current year)
+  m = text.match(/\b([A-Za-z]{3})[a-z]*\s+(\d{1,2})\b/);
+  if (m && MONTHS[m[1].toLowerCase()]) {
+    return `${today.getFullYear()}-${pad(MONTHS[m[1].toLowerCase()])}-${pad(parseInt(m[2]))}`;
+  }
+
+  return today.toISOString().split('T')[0];
+}
+
+/**
+ * Extract an HH:mm time if present
+ */
+export function extractTime(text: string): string | undefined {
+  const m = text.match(TIME_PATTERN);
+  return m ? `${pad(parseInt(m[1]))}:${m[2]}` : undefined;
+}
+
+/**
+ * Find the transaction amount: the first currency amount that is not part of a balance/limit phrase
+ */
+function extractAmount(text: string, knownCurrencies: string[]): { amount: number; currency: string } | null {
+  const balanceSpans: [number, number][] = [];
+  for (const pattern of [AVAILABLE_BALANCE_PATTERN, AVAILABLE_CREDIT_PATTERN]) {
+    const match = pattern.exec(text);
+    if (match) balanceSpans.push([match.index, match.index + match[0].length]);
+  }
+
+  AMOUNT_PATTERN.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = AMOUNT_PATTERN.exec(text)) !== null) {
+    const start = match.index;
+    if (balanceSpans.some(([s, e]) => start >= s && start < e)) continue;
+
+    const currency = match[1] || match[4];
+    const value = toNumber(match[2] || match[3]);
+    // Guard against masked card numbers ("XXX1337") and words like "REF 1234"
+    if (!knownCurrencies.includes(currency) || isNaN(value)) continue;
+    return { amount: value, currency };
+  }
+  return null;
+}
+
+function matchAccount(text: string, accounts: Account[]): Account | undefined {
+  const digits = text.match(CARD_DIGITS_PATTERN);
+  const found = digits ? (digits[1] || digits[2]) : undefined;
+  if (!found) return undefined;
+
+  return accounts.find(a => a.last4Digits && (found.endsWith(a.last4Digits) || a.last4Digits.endsWith(found)));
+}
+
+/**
+ * Pick the most likely merchant: "at"/"@" beats "to"/"for", and income prefers the "from" payer
+ */
+function extractMerchant(text: string, isIncome: boolean): string | undefined {
+  if (isIncome) {
+    PAYER_PATTERN.lastIndex = 0;
+    let payer: RegExpExecArray | null;
+    while ((payer = PAYER_PATTERN.exec(text)) !== null) {
+      if (!NOT_A_MERCHANT_PATTERN.test(payer[1].trim())) return cleanMerchant(payer[1]);
+    }
+  }
+
+  const priority = isIncome ? ['from', 'at', '@', 'to', 'towards', 'for'] : ['at', '@', 'to', 'towards', 'for', 'from'];
+  const candidates: { keyword: string; value: string }[] = [];
+
+  MERCHANT_PATTERN.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = MERCHANT_PATTERN.exec(text)) !== null) {
+    const value = match[3].trim();
+    if (NOT_A_MERCHANT_PATTERN.test(value)) continue;
+    candidates.push({ keyword: (match[1] || match[2]).toLowerCase(), value });
+  }
+
+  candidates.sort((a, b) => priority.indexOf(a.keyword) - priority.indexOf(b.keyword));
+  return candidates[0] ? cleanMerchant(candidates[0].value) : undefined;
+}
+
+function getKnownCurrencies(settings: AppSettings): string[] {
+  return [...COMMON_CURRENCIES, settings.baseCurrency, ...settings.accounts.map(a => a.currency)];
+}
+
+export function cleanMerchant(raw: string): string {
+  return raw
+    .replace(/\s+/g, ' ')
+    .replace(/[*]+/g, ' ')
+    .trim()
+    .replace(/\b\w+/g, w => (w.length > 3 ? w.charAt(0).toUpperCase() + w.slice(1).toLowerCase() : w));
+}
+
+/**
+ * Split pasted input into individual messages (blank-line separated, or one per line for SMS dumps)
+ */
+export function splitMessages(text: string, knownCurrencies: string[] = COMMON_CURRENCIES): string[] {
+  const blocks = text.split(/\n\s*\n/).map(b => b.trim()).filter(Boolean);
+  if (blocks.length > 1) return blocks;
+
+  const lines = text.split('\n').map(l => l.trim()).filter(Boolean);
+  const amountLines = lines.filter(l => extractAmount(l, knownCurrencies) !== null);
+  // Several lines that each carry their own amount -> treat as separate messages
+  return amountLines.length > 1 && amountLines.length === lines.length ? lines : blocks;
+}
+
+/**
+ * Parse a single notification message. Returns an empty array for failed or unrecognised messages.
+ */
+export function parseMessage(message: string, settings: AppSettings): Omit<Transaction, 'id'>[] {
+  if (FAILED_PATTERN.test(message)) return [];
+
+  const amountInfo = extractAmount(message, getKnownCurrencies(settings));
+  if (!amountInfo) return [];
+
+  // Whichever keyword appears first decides the direction; default to expense
+  const incomeIndex = message.search(INCOME_PATTERN);
+  const expenseIndex = message.search(EXPENSE_PATTERN);
+  const isIncome = incomeIndex !== -1 && (expenseIndex === -1 || incomeIndex < expenseIndex);
+  const type = isIncome ? TransactionType.INCOME : TransactionType.EXPENSE;
+
+  const account = matchAccount(message, settings.accounts);
+  const extractedMerchant = extractMerchant(message, isIncome);
+  let merchant = extractedMerchant || (isIncome ? 'Deposit' : 'Unknown Merchant');
+
+  // Apply recurring rules (merchant keyword hints) deterministically
+  const rule = (settings.recurringRules || []).find(r =>
+    r.merchantKeyword && message.toLowerCase().includes(r.merchantKeyword.toLowerCase())
+  );
+  if (rule && !extractedMerchant) merchant = rule.merchantKeyword;
+
+  const fallbackCategory = settings.categories.find(c => c.name.toLowerCase() === 'other')?.name
+    || settings.categories[0]?.name
+    || 'Other';
+  const category = rule?.category || fallbackCategory;
+
+  const balanceMatch = message.match(AVAILABLE_BALANCE_PATTERN);
+  const creditMatch = message.match(AVAILABLE_CREDIT_PATTERN);
+  const chequeMatch = message.match(CHEQUE_PATTERN);
+
+  // Foreign amounts are converted at the known rate for the day; without one the figure is kept
+  // unconverted (converted for display later) and flagged so the user checks it
+  const date = extractDate(message);
+  const isForeign = amountInfo.currency !== settings.baseCurrency;
+  const rate = isForeign ? getRateOn(settings.exchangeRates || [], amountInfo.currency, settings.baseCurrency, date) : 1;
+  const base: Omit<Transaction, 'id'> = {
+    amount: rate === null ? amountInfo.amount : Number((amountInfo.amount * rate).toFixed(2)),
+    currency: settings.baseCurrency,
+    merchant,
+    date,
+    time: extractTime(message),
+    category,
+    type: rule?.type === TransactionType.INCOME || rule?.type === TransactionType.EXPENSE ? rule.type : type,
+    account: account?.name,
+    accountId: account?.id,
+    rawText: message,
+    exchangeRate: rate ?? 1,
+  };
+
+  if (isForeign) {
+    base.originalAmount = amountInfo.amount;
+    base.originalCurrency = amountInfo.currency;
+    if (rate === null) base.tags = [NEEDS_REVIEW_TAG];
+  }
+
+  if (balanceMatch || creditMatch) {
+    base.parsedMeta = {};
+    if (balanceMatch) base.parsedMeta.availableBalance = toNumber(balanceMatch[1]);
+    if (creditMatch) base.parsedMeta.availableCredit = toNumber(creditMatch[1]);
+  }
+
+  if (chequeMatch) {
+    base.isCheque = true;
+    base.chequeNumber = chequeMatch[1];
+    base.chequeStatus = 'PENDING';
+  }
+
+  // Cash withdrawals become a transfer pair into the cash/wallet account
+  if (WITHDRAWAL_PATTERN.test(message) && type === TransactionType.EXPENSE) {
+    const cashAccount = settings.accounts.find(a => a.type === 'Cash' || a.type === 'Wallet');
+    const withdrawal: Omit<Transaction, 'id'> = { ...base, merchant: 'ATM Withdrawal', isTransfer: true };
+    const cashIn: Omit<Transaction, 'id'> = {
+      ...base,
+      merchant: 'ATM Withdrawal',
+      type: TransactionType.INCOME,
+      account: cashAccount?.name || 'Cash',
+      accountId: cashAccount?.id,
+      parsedMeta: undefined,
+      isTransfer: true,
+    };
+    return [withdrawal, cashIn];
+  }
+
+  if (rule?.type === TransactionType.TRANSFER) {
+    base.isTransfer = true;
+  }
+
+  return [base];
+}
+
+/**
+ * Parse free text containing one or more bank notifications
+ */
+export const parseTransactionsOffline = async (
+  text: string,
+  settings: AppSettings
+): Promise<Omit<Transaction, 'id'>[]> => {
+  if (!text || !text.trim()) {
+    throw new Error('The offline parser only supports text input');
+  }
+
+  const results: Omit<Transaction, 'id'>[] = [];
+  for (const message of splitMessages(text, getKnownCurrencies(settings))) {
+    results.push(...parseMessage(message, settings));
+  }
+
+  // Newest first, matching the AI parsers
+  return results.sort((a, b) =>
+    `${b.date} ${b.time || '00:00'}`.localeCompare(`${a.date} ${a.time || '00:00'}`)
+  );
+};
@@ -0,0 +1,199 @@
+import { Account, CategorizationRule, Transaction, TransactionType } from '../types';
+import { getAllCategorizationRules, saveTransaction } from './indexedDBService';
+import { v4 as uuidv4 } from 'uuid';
+
+/**
+ * Rules Engine
+ * Deterministic categorization applied to transactions after parsing and on manual entry,
+ * so a rule always wins over whatever the parser guessed. Rules run in priority order; each
+ * field keeps the value from the first rule that set it, tags accumulate, and a rule can
+ * stop the rules below it from running.
+ */
+
+export interface RuleResult {
+  transactions: Transaction[]; // One, or the parts of a split
+  matchedRuleIds: string[];
+}
+
+export interface RuleChange {
+  original: Transaction;
+  result: Transaction[];
+  matchedRuleIds: string[];
+}
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+const byPriority = (rules: CategorizationRule[]) =>
+  rules.filter(r => r.enabled).sort((a, b) => a.priority - b.priority);
+
+const compilePattern = (pattern: string): RegExp | null => {
+  try {
+    return new RegExp(pattern, 'i');
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Problems that would stop a rule from saving (empty = valid)
+ */
+export function validateRule(rule: CategorizationRule): string[] {
+  const errors: string[] = [];
+  const { conditions: c, actions: a } = rule;
+
+  if (!rule.name.trim()) errors.push('Give the rule a name.');
+  if (c.merchantPattern && !compilePattern(c.merchantPattern)) errors.push('The merchant pattern is not a valid regular expression.');
+  if (c.minAmount !== undefined && c.maxAmount !== undefined && c.minAmount > c.maxAmount) errors.push('The minimum amount is above the maximum.');
+  if (Object.values(c).every(v => v === undefined || v === '')) errors.push('Add at least one condition.');
+
+  const hasAction = a.category || a.addTags?.length || a.accountId || a.type || a.toAccountId || a.split?.length;
+  if (!hasAction) errors.push('Add at least one action.');
+  if (a.split) {
+    const total = a.split.reduce((s, p) => s + p.percent, 0);
+    if (a.split.some(p => !p.category || !(p.percent > 0))) errors.push('Each split needs a category and a percentage.');
+    if (total > 100) errors.push('Split percentages add up to more than 100%.');
+  }
+  if (a.toAccountId && a.accountId && a.toAccountId === a.accountId) errors.push('A transfer needs two different accounts.');
+  return errors;
+}
+
+/**
+ * Does a transaction meet every condition of a rule
+ */
+export function ruleMatches(rule: CategorizationRule, tx: Transaction): boolean {
+  const c = rule.conditions;
+
+  if (c.merchantPattern) {
+    const pattern = compilePattern(c.merchantPattern);
+    if (!pattern || !pattern.test(tx.merchant || '')) return false;
+  }
+  if (c.minAmount !== undefined && tx.amount < c.minAmount) return false;
+  if (c.maxAmount !== undefined && tx.amount > c.maxAmount) return false;
+  if (c.accountId && tx.accountId !== c.accountId) return false;
+  if (c.type && tx.type !== c.type) return false;
+  if (c.rawTextContains && !(tx.rawText || '').toLowerCase().includes(c.rawTextContains.toLowerCase())) return false;
+
+  if (c.dayOfMonthFrom !== undefined || c.dayOfMonthTo !== undefined) {
+    const day = Number(tx.date.split('-')[2]);
+    const from = c.dayOfMonthFrom ?? 1;
+    const to = c.dayOfMonthTo ?? 31;
+    // A range like 28-3 wraps over the month end
+    const inRange = from <= to ? day >= from && day <= to : day >= from || day <= to;
+    if (!inRange) return false;
+  }
+  return true;
+}
+
+/**
+ * Split one transaction into parts by percentage. The first part keeps the original id; the
+ * remainder (if the percentages don't reach 100) keeps the original category.
+ */
+function splitTransaction(tx: Transaction, rule: CategorizationRule): Transaction[] {
+  const groupId = uuidv4();
+  const splitParent = { merchant: tx.merchant, totalAmount: tx.amount };
+  const parts = rule.actions.split!.map(p => ({ category: p.category, amount: round2(tx.amount * p.percent / 100) }));
+
+  const remainder = round2(tx.amount - parts.reduce((s, p) => s + p.amount, 0));
+  if (remainder >= 0.01) parts.push({ category: tx.category, amount: remainder });
+  else if (parts.length > 0) parts[parts.length - 1].amount = round2(parts[parts.length - 1].amount + remainder);
+
+  return parts.map((part, i) => ({
+    ...tx,
+    id: i === 0 ? tx.id : uuidv4(),
+    amount: part.amount,
+    originalAmount: tx.originalAmount !== undefined ? round2(tx.originalAmount * part.amount / tx.amount) : undefined,
+    category: part.category,
+    groupId,
+    splitParent,
+  }));
+}
+
+/**
+ * Run the rules over one transaction
+ */
+export function applyRules(tx: Transaction, rules: CategorizationRule[], accounts: Account[]): RuleResult {
+  const result: Transaction = { ...tx };
+  const matchedRuleIds: string[] = [];
+  const setBy = new Set<string>();
+  let split: CategorizationRule | null = null;
+
+  const set = <K extends keyof Transaction>(field: K, value: Transaction[K]) => {
+    if (setBy.has(field as string)) return;
+    result[field] = value;
+    setBy.add(field as string);
+  };
+
+  for (const rule of byPriority(rules)) {
+    if (!ruleMatches(rule, result)) continue;
+    matchedRuleIds.push(rule.id);
+
+    const a = rule.actions;
+    if (a.accountId) {
+      set('accountId', a.accountId);
+      set('account', accounts.find(acc => acc.id === a.accountId)?.name || result.account);
+    }
+    if (a.toAccountId) {
+      set('type', TransactionType.TRANSFER);
+      set('toAccountId', a.toAccountId);
+      set('isTransfer', true);
+    } else if (a.type) {
+      set('type', a.type);
+    }
+    if (a.category) set('category', a.category);
+    if (a.addTags?.length) {
+      result.tags = Array.from(new Set([...(result.tags || []), ...a.addTags]));
+    }
+    if (a.split?.length && !split) split = rule;
+
+    if (rule.stopProcessing) break;
+  }
+
+  // Splitting an already split transaction (or a transfer) would double count it
+  const transactions = split && !result.groupId && result.type !== TransactionType.TRANSFER
+    ? splitTransaction(result, split)
+    : [result];
+  return { transactions, matchedRuleIds };
+}
+
+/**
+ * Apply the stored rules to new transactions (parsed, imported or entered by hand)
+ */
+export async function applyStoredRules(transactions: Transaction[], accounts: Account[]): Promise<Transaction[]> {
+  const rules = await getAllCategorizationRules();
+  if (!rules.some(r => r.enabled)) return transactions;
+  return transactions.flatMap(tx => applyRules(tx, rules, accounts).transactions);
+}
+
+const changed = (before: Transaction, after: Transaction[]) =>
+  after.length !== 1 ||
+  (['category', 'accountId', 'type', 'toAccountId'] as const).some(f => before[f] !== after[0][f]) ||
+  (before.tags || []).join('|') !== (after[0].tags || []).join('|');
+
+/**
+ * What the rules would change in existing transactions. Locked (reconciled) transactions are
+ * left alone.
+ */
+export function previewRules(transactions: Transaction[], rules: CategorizationRule[], accounts: Account[]): RuleChange[] {
+  const changes: RuleChange[] = [];
+  for (const tx of transactions) {
+    if (tx.reconciliationId) continue;
+    const { transactions: result, matchedRuleIds } = applyRules(tx, rules, accounts);
+    if (matchedRuleIds.length > 0 && changed(tx, result)) {
+      changes.push({ original: tx, result, matchedRuleIds });
+    }
+  }
+  return changes;
+}
+
+/**
+ * Save previewed changes. Balances are not touched, the same as editing a transaction.
+ * Returns the number of transactions changed.
+ */
+export async function applyRuleChanges(changes: RuleChange[]): Promise<number> {
+  for (const change of changes) {
+    for (const tx of change.result) {
+      await saveTransaction(tx);
+    }
+  }
+  return changes.length;
+}
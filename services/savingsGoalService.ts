@@ -0,0 +1,148 @@
+import { Account, AuditContext, SavingsGoal, GoalContribution, Transaction, TransactionType } from '../types';
+import { v4 as uuidv4 } from 'uuid';
+import { AuditedChanges, applyAuditedChanges, getGoalContributionsByGoal } from './indexedDBService';
+
+export interface GoalProjection {
+  averageMonthlyContribution: number;
+  remainingAmount: number;
+  projectedCompletionDate: string | null; // ISO date, null if no progress rate
+  requiredMonthlyForDeadline: number | null; // null if no deadline or deadline passed
+  onTrack: boolean | null; // null if no deadline
+}
+
+/**
+ * Record a deposit into a savings goal.
+ * Saves the contribution and bumps the goal's currentAmount - and, with a withdrawal, the
+ * transaction and balance change on the source account - in a single audited IndexedDB
+ * transaction, so one undo reverts the whole deposit.
+ */
+export async function recordContribution(
+  goal: SavingsGoal,
+  amount: number,
+  date: string,
+  audit: AuditContext,
+  options: {
+    accountId?: string;
+    notes?: string;
+    withdrawal?: { account?: Account; currency: string };
+  } = {}
+): Promise<GoalContribution> {
+  const { accountId, notes, withdrawal } = options;
+  const contribution: GoalContribution = {
+    id: uuidv4(),
+    goalId: goal.id,
+    amount,
+    date,
+    accountId,
+    notes,
+    createdAt: new Date().toISOString(),
+  };
+
+  const changes: AuditedChanges = {
+    goal_contributions: { saves: [contribution] },
+    savings_goals: { saves: [{ ...goal, currentAmount: goal.currentAmount + amount }] },
+  };
+  if (withdrawal) {
+    const { account, currency } = withdrawal;
+    changes.transactions = {
+      saves: [{
+        id: uuidv4(),
+        amount,
+        currency,
+        merchant: `Deposit to ${goal.name}`,
+        category: 'Savings',
+        type: TransactionType.EXPENSE,
+        date,
+        accountId,
+        account: account?.name,
+        isTransfer: true,
+        goalContributionId: contribution.id,
+      }],
+    };
+    if (account) {
+      changes.accounts = { saves: [{ ...account, balance: account.balance - amount }] };
+    }
+  }
+  await applyAuditedChanges(changes, audit);
+
+  return contribution;
+}
+
+/**
+ * Whether a transaction moved money into a savings goal. It's still the user's money, so
+ * spending totals leave it out.
+ */
+export function isGoalDeposit(transaction: Transaction): boolean {
+  return !!transaction.goalContributionId;
+}
+
+/**
+ * Delete a goal together with its contribution history, as one audited write so it can be undone
+ */
+export async function deleteGoalWithContributions(goalId: string, audit: AuditContext): Promise<void> {
+  const contributions = await getGoalContributionsByGoal(goalId);
+  await applyAuditedChanges({
+    savings_goals: { deleteIds: [goalId] },
+    goal_contributions: { deleteIds: contributions.map(c => c.id) },
+  }, audit);
+}
+
+/**
+ * Count calendar months between two dates (inclusive of partial months, minimum 1)
+ */
+function monthsBetween(from: Date, to: Date): number {
+  const months = (to.getFullYear() - from.getFullYear()) * 12 + (to.getMonth() - from.getMonth());
+  const dayFraction = (to.getDate() - from.getDate()) / 30;
+  return Math.max(1, months + dayFraction);
+}
+
+/**
+ * Project when a goal will be reached based on the average monthly contribution
+ * since the first recorded deposit, and compare it against the goal's deadline.
+ */
+export function projectGoalCompletion(
+  goal: SavingsGoal,
+  contributions: GoalContribution[],
+  today: Date = new Date()
+): GoalProjection {
+  const remainingAmount = Math.max(0, goal.targetAmount - goal.currentAmount);
+  const goalContributions = contributions
+    .filter(c => c.goalId === goal.id)
+    .sort((a, b) => a.date.localeCompare(b.date));
+
+  let averageMonthlyContribution = 0;
+  if (goalContributions.length > 0) {
+    const total = goalContributions.reduce((sum, c) => sum + c.amount, 0);
+    const firstDate = new Date(goalContributions[0].date);
+    averageMonthlyContribution = total / monthsBetween(firstDate, today);
+  }
+
+  let projectedCompletionDate: string | null = null;
+  if (remainingAmount === 0) {
+    projectedCompletionDate = today.toISOString().split('T')[0];
+  } else if (averageMonthlyContribution > 0) {
+    const monthsNeeded = remainingAmount / averageMonthlyContribution;
+    const projected = new Date(today);
+    projected.setDate(projected.getDate() + Math.ceil(monthsNeeded * 30.44));
+    projectedCompletionDate = projected.toISOString().split('T')[0];
+  }
+
+  let requiredMonthlyForDeadline: number | null = null;
+  let onTrack: boolean | null = null;
+  if (goal.deadline) {
+    const deadline = new Date(goal.deadline);
+    if (deadline > today) {
+      requiredMonthlyForDeadline = remainingAmount / monthsBetween(today, deadline);
+    }
+    onTrack = remainingAmount === 0 ||
+      (projectedCompletionDate !== null && projectedCompletionDate <= goal.deadline);
+  }
+
+  return {
+    averageMonthlyContribution,
+    remainingAmount,
+    projectedCompletionDate,
+    requiredMonthlyForDeadline,
+    onTrack,
+  };
+}
@@ -1,4 +1,4 @@
-import { ScheduledTransaction, TransactionType } from '../types';
+import { AuditContext, ScheduledTransaction, TransactionType } from '../types';
 import { v4 as uuidv4 } from 'uuid';
 import {
   getAllScheduledTransactions,
@@ -6,7 +6,9 @@ import {
   deleteScheduledTransaction,
   getScheduledTransactionsBySeries,
   initDB,
+  applyAuditedChanges,
 } from './indexedDBService';
+import { pendingNextOccurrence, rollForward } from './recurrenceService';
 
 // Re-export for external use
 export { deleteScheduledTransaction };
@@ -36,7 +38,7 @@ export async function createScheduledTransaction(
 export async function updateScheduledTransaction(
   id: string,
   updates: Partial<ScheduledTransaction>
-): Promise<void> {
+): Promise<ScheduledTransaction> {
   const all = await getAllScheduledTransactions();
   const existing = all.find(st => st.id === id);
   if (!existing) throw new Error('Scheduled transaction not found');
@@ -48,31 +50,45 @@ export async function updateScheduledTransaction(
   };
 
   await saveScheduledTransaction(updated);
+  return updated;
 }
 
 /**
- * Mark scheduled transaction as paid
+ * Mark scheduled transaction as paid and, if it recurs, schedule the next occurrence.
+ * Both are written under the audit context of the payment that matched it, so undoing the
+ * payment reopens the bill and removes the next occurrence.
  */
 export async function markAsPaid(
   id: string,
   matchedTransactionId: string,
-  clearedDate: string
+  clearedDate: string,
+  audit?: AuditContext
 ): Promise<void> {
-  await updateScheduledTransaction(id, {
+  const existing = (await getAllScheduledTransactions()).find(st => st.id === id);
+  if (!existing) throw new Error('Scheduled transaction not found');
+
+  const updated: ScheduledTransaction = {
+    ...existing,
     status: 'PAID',
     matchedTransactionId,
     clearedDate,
-  });
+    updatedAt: new Date().toISOString(),
+  };
+  const next = await pendingNextOccurrence(updated);
+  await applyAuditedChanges({ scheduled_transactions: { saves: next ? [updated, next] : [updated] } }, audit);
 }
 
 /**
- * Mark scheduled transaction as skipped
+ * Mark scheduled transaction as skipped and, if it recurs, schedule the next occurrence
  */
 export async function markAsSkipped(id: string, notes?: string): Promise<void> {
-  await updateScheduledTransaction(id, {
+  const original = (await getAllScheduledTransactions()).find(st => st.id === id);
+  const updated = await updateScheduledTransaction(id, {
     status: 'SKIPPED',
     notes,
   });
+  // The skip reason is about this occurrence - the next one keeps the bill's own notes
+  await rollForward({ ...updated, notes: original?.notes });
 }
 
 /**
@@ -0,0 +1,299 @@
+import { Account, SavedSearch, Transaction, TransactionType } from '../types';
+import { getSetting, saveSetting } from './indexedDBService';
+
+/**
+ * History Search
+ * A small query language for the History view. Terms are space separated and all must match:
+ *   amount>200  amount:50..100  account:"Emirates NBD"  category:Groceries  tag:work
+ *   merchant:uber  date:2026-01..2026-03  type:income  currency:AED
+ *   has:receipt  is:cheque  status:pending
+ * A leading "-" negates a term; anything else is matched against merchant and category.
+ */
+
+export type SearchField =
+  | 'text' | 'amount' | 'account' | 'category' | 'tag' | 'merchant'
+  | 'date' | 'type' | 'currency' | 'has' | 'is' | 'status';
+
+export type SearchOperator = ':' | '=' | '>' | '<' | '>=' | '<=';
+
+export interface SearchTerm {
+  field: SearchField;
+  operator: SearchOperator;
+  value: string;
+  negated: boolean;
+}
+
+export interface ParsedQuery {
+  terms: SearchTerm[];
+  errors: string[]; // Terms that couldn't be understood (they are left out of the search)
+  hasDateTerm: boolean; // The query picks its own dates, so the period filter shouldn't apply
+}
+
+export type SortField = 'date' | 'amount' | 'merchant' | 'category' | 'account';
+
+export const SORT_FIELDS: { value: SortField; label: string }[] = [
+  { value: 'date', label: 'Date' },
+  { value: 'amount', label: 'Amount' },
+  { value: 'merchant', label: 'Merchant' },
+  { value: 'category', label: 'Category' },
+  { value: 'account', label: 'Account' },
+];
+
+const FIELDS: SearchField[] = ['amount', 'account', 'category', 'tag', 'merchant', 'date', 'type', 'currency', 'has', 'is', 'status'];
+const OPERATORS: SearchOperator[] = ['>=', '<=', '>', '<', '=', ':'];
+
+const HAS_VALUES = ['receipt', 'tag', 'split', 'time'];
+const IS_VALUES = ['cheque', 'transfer', 'split', 'cleared', 'reconciled', 'income', 'expense', 'obligation', 'investment'];
+const STATUS_VALUES = ['pending', 'cleared'];
+
+const SAVED_SEARCHES_KEY = 'savedSearches';
+
+/**
+ * Break a query into terms
+ */
+export function parseSearchQuery(query: string): ParsedQuery {
+  const terms: SearchTerm[] = [];
+  const errors: string[] = [];
+  let i = 0;
+
+  const readValue = () => {
+    if (query[i] === '"') {
+      const end = query.indexOf('"', i + 1);
+      const value = query.slice(i + 1, end === -1 ? undefined : end);
+      i = end === -1 ? query.length : end + 1;
+      return value;
+    }
+    const start = i;
+    while (i < query.length && !/\s/.test(query[i])) i++;
+    return query.slice(start, i);
+  };
+
+  while (i < query.length) {
+    if (/\s/.test(query[i])) {
+      i++;
+      continue;
+    }
+
+    const negated = query[i] === '-' && i + 1 < query.length && !/\s/.test(query[i + 1]);
+    if (negated) i++;
+
+    const key = /^[a-z]+/i.exec(query.slice(i))?.[0].toLowerCase() || '';
+    const operator = OPERATORS.find(op => query.startsWith(op, i + key.length));
+
+    if (key && operator && FIELDS.includes(key as SearchField)) {
+      i += key.length + operator.length;
+      const value = readValue().trim();
+      const term: SearchTerm = { field: key as SearchField, operator, value, negated };
+      const error = validateTerm(term);
+      if (error) errors.push(error);
+      else terms.push(term);
+    } else {
+      const value = readValue().trim();
+      if (value) terms.push({ field: 'text', operator: ':', value, negated });
+    }
+  }
+
+  return { terms, errors, hasDateTerm: terms.some(t => t.field === 'date') };
+}
+
+const parseNumber = (value: string) => (value.trim() === '' || isNaN(Number(value)) ? null : Number(value));
+
+/**
+ * Date bounds for YYYY, YYYY-MM or YYYY-MM-DD (the whole year / month / day)
+ */
+function periodBounds(value: string): { from: string; to: string } | null {
+  const match = /^(\d{4})(?:-(\d{1,2})(?:-(\d{1,2}))?)?$/.exec(value.trim());
+  if (!match) return null;
+  const [, y, m, d] = match;
+  const pad = (n: string | number) => String(n).padStart(2, '0');
+  if (m && (Number(m) < 1 || Number(m) > 12)) return null;
+  if (d && (Number(d) < 1 || Number(d) > new Date(Number(y), Number(m), 0).getDate())) return null;
+
+  if (d) {
+    const date = `${y}-${pad(m)}-${pad(d)}`;
+    return { from: date, to: date };
+  }
+  if (m) {
+    const lastDay = new Date(Number(y), Number(m), 0).getDate();
+    return { from: `${y}-${pad(m)}-01`, to: `${y}-${pad(m)}-${pad(lastDay)}` };
+  }
+  return { from: `${y}-01-01`, to: `${y}-12-31` };
+}
+
+/**
+ * Inclusive range for a date term; either end may be open
+ */
+function dateRange(term: SearchTerm): { from?: string; to?: string } | null {
+  if (term.value.includes('..')) {
+    const [a, b] = term.value.split('..');
+    const from = a ? periodBounds(a) : undefined;
+    const to = b ? periodBounds(b) : undefined;
+    if (from === null || to === null || (!from && !to)) return null;
+    return { from: from?.from, to: to?.to };
+  }
+
+  const period = periodBounds(term.value);
+  if (!period) return null;
+  switch (term.operator) {
+    case '>': return { from: nextDay(period.to) };
+    case '>=': return { from: period.from };
+    case '<': return { to: previousDay(period.from) };
+    case '<=': return { to: period.to };
+    default: return period;
+  }
+}
+
+const shiftDay = (date: string, days: number) => {
+  const [y, m, d] = date.split('-').map(Number);
+  const shifted = new Date(y, m - 1, d + days);
+  return `${shifted.getFullYear()}-${String(shifted.getMonth() + 1).padStart(2, '0')}-${String(shifted.getDate()).padStart(2, '0')}`;
+};
+const nextDay = (date: string) => shiftDay(date, 1);
+const previousDay = (date: string) => shiftDay(date, -1);
+
+function validateTerm(term: SearchTerm): string | null {
+  const label = `${term.field}${term.operator}${term.value}`;
+  if (!term.value) return `"${label}" needs a value.`;
+
+  switch (term.field) {
+    case 'amount':
+      if (term.value.includes('..')) {
+        const [a, b] = term.value.split('..');
+        if ((a && parseNumber(a) === null) || (b && parseNumber(b) === null) || (!a && !b)) return `"${label}" isn't a valid amount range.`;
+      } else if (parseNumber(term.value) === null) {
+        return `"${label}" isn't a valid amount.`;
+      }
+      return null;
+    case 'date':
+      return dateRange(term) ? null : `"${label}" isn't a valid date (use YYYY, YYYY-MM or YYYY-MM-DD).`;
+    case 'type':
+      return Object.values(TransactionType).includes(term.value.toUpperCase() as TransactionType) ? null : `Unknown type "${term.value}".`;
+    case 'has':
+      return HAS_VALUES.includes(term.value.toLowerCase()) ? null : `Unknown "has:${term.value}" (try ${HAS_VALUES.join(', ')}).`;
+    case 'is':
+      return IS_VALUES.includes(term.value.toLowerCase()) ? null : `Unknown "is:${term.value}" (try ${IS_VALUES.join(', ')}).`;
+    case 'status':
+      return STATUS_VALUES.includes(term.value.toLowerCase()) ? null : `Unknown "status:${term.value}" (try ${STATUS_VALUES.join(', ')}).`;
+    default:
+      return null;
+  }
+}
+
+const contains = (haystack: string | undefined, needle: string) =>
+  (haystack || '').toLowerCase().includes(needle.toLowerCase());
+
+function compareAmount(amount: number, term: SearchTerm): boolean {
+  if (term.value.includes('..')) {
+    const [a, b] = term.value.split('..');
+    return (!a || amount >= Number(a)) && (!b || amount <= Number(b));
+  }
+  const target = Number(term.value);
+  switch (term.operator) {
+    case '>': return amount > target;
+    case '<': return amount < target;
+    case '>=': return amount >= target;
+    case '<=': return amount <= target;
+    default: return Math.abs(amount - target) < 0.005;
+  }
+}
+
+function termMatches(term: SearchTerm, tx: Transaction, accounts: Account[]): boolean {
+  const value = term.value.toLowerCase();
+  const account = accounts.find(a => a.id === tx.accountId);
+
+  switch (term.field) {
+    case 'text':
+      return contains(tx.merchant, term.value) || contains(tx.category, term.value);
+    case 'amount':
+      return compareAmount(tx.amount, term);
+    case 'account': {
+      const toAccount = accounts.find(a => a.id === tx.toAccountId);
+      return contains(account?.name ?? tx.account, term.value) || contains(toAccount?.name, term.value);
+    }
+    case 'category':
+      return term.operator === '=' ? tx.category.toLowerCase() === value : contains(tx.category, term.value);
+    case 'tag':
+      return (tx.tags || []).some(tag => tag.toLowerCase() === value);
+    case 'merchant':
+      return term.operator === '=' ? tx.merchant.toLowerCase() === value : contains(tx.merchant, term.value);
+    case 'date': {
+      const range = dateRange(term)!;
+      return (!range.from || tx.date >= range.from) && (!range.to || tx.date <= range.to);
+    }
+    case 'type':
+      return tx.type === value.toUpperCase();
+    case 'currency':
+      return [tx.currency, tx.originalCurrency].some(c => c?.toLowerCase() === value);
+    case 'has':
+      switch (value) {
+        case 'receipt': return (tx.attachmentIds || []).length > 0;
+        case 'tag': return (tx.tags || []).length > 0;
+        case 'split': return !!tx.groupId;
+        case 'time': return !!tx.time;
+      }
+      return false;
+    case 'is':
+      switch (value) {
+        case 'cheque': return !!tx.isCheque;
+        case 'transfer': return tx.type === TransactionType.TRANSFER || !!tx.isTransfer;
+        case 'split': return !!tx.groupId;
+        case 'cleared': return !!tx.cleared;
+        case 'reconciled': return !!tx.reconciliationId;
+        case 'income': return tx.type === TransactionType.INCOME;
+        case 'expense': return tx.type === TransactionType.EXPENSE;
+        case 'obligation': return tx.type === TransactionType.OBLIGATION;
+        case 'investment': return !!tx.investmentAction;
+      }
+      return false;
+    case 'status':
+      // Cheque status; ticked-off and reconciled transactions count as cleared too
+      return value === 'pending'
+        ? tx.chequeStatus === 'PENDING'
+        : tx.chequeStatus === 'CLEARED' || !!tx.cleared || !!tx.reconciliationId;
+  }
+}
+
+/**
+ * Transactions matching every term of a parsed query
+ */
+export function filterByQuery(transactions: Transaction[], parsed: ParsedQuery, accounts: Account[]): Transaction[] {
+  if (parsed.terms.length === 0) return transactions;
+  return transactions.filter(tx => parsed.terms.every(term => termMatches(term, tx, accounts) !== term.negated));
+}
+
+/**
+ * Sort by any History column; ties fall back to newest first
+ */
+export function sortTransactions(
+  transactions: Transaction[],
+  field: SortField,
+  direction: 'asc' | 'desc',
+  accounts: Account[]
+): Transaction[] {
+  const timestamp = (t: Transaction) => `${t.date}T${t.time || '00:00'}`;
+  const accountName = (t: Transaction) => accounts.find(a => a.id === t.accountId)?.name || t.account || '';
+  const sign = direction === 'asc' ? 1 : -1;
+
+  const compare = (a: Transaction, b: Transaction): number => {
+    switch (field) {
+      case 'amount': return a.amount - b.amount;
+      case 'merchant': return a.merchant.localeCompare(b.merchant);
+      case 'category': return a.category.localeCompare(b.category);
+      case 'account': return accountName(a).localeCompare(accountName(b));
+      default: return timestamp(a).localeCompare(timestamp(b));
+    }
+  };
+
+  return [...transactions].sort((a, b) => compare(a, b) * sign || timestamp(b).localeCompare(timestamp(a)));
+}
+
+/**
+ * Saved searches live in the settings store (and so travel with backups)
+ */
+export async function getSavedSearches(): Promise<SavedSearch[]> {
+  return (await getSetting(SAVED_SEARCHES_KEY)) || [];
+}
+
+export async function saveSavedSearches(searches: SavedSearch[]): Promise<void> {
+  await saveSetting(SAVED_SEARCHES_KEY, searches);
+}
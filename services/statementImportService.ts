@@ -0,0 +1,330 @@
+import Papa from 'papaparse';
+import { Transaction, TransactionType, AppSettings, Account, StatementColumnMapping, StatementDateFormat } from '../types';
+import { cleanMerchant } from './ruleBasedParserService';
+
+/**
+ * Statement Import Service
+ * Turns bank statement files (CSV, OFX/QFX, QIF) into transactions for the review screen.
+ * Everything runs locally - no AI call, so a few hundred rows import instantly.
+ */
+
+export type StatementFormat = 'csv' | 'ofx' | 'qif';
+
+export interface StatementImportOptions {
+  accountId?: string; // Account the statement belongs to (OFX can also identify it by ACCTID)
+  mapping?: StatementColumnMapping; // Required for CSV
+}
+
+interface StatementRow {
+  date: string; // YYYY-MM-DD
+  amount: number; // Signed: negative = money out
+  description: string;
+  chequeNumber?: string;
+  category?: string;
+  currency?: string;
+}
+
+const CHEQUE_PATTERN = /\b(?:cheque|chq|check)\s*(?:no\.?|number|#)?[\s:.-]*(\d{4,})\b/i;
+
+const pad = (n: number) => n.toString().padStart(2, '0');
+
+/**
+ * Work out the statement format from the file name, falling back to sniffing the content
+ */
+export function detectStatementFormat(fileName: string, content: string): StatementFormat | null {
+  const ext = fileName.split('.').pop()?.toLowerCase();
+  if (ext === 'ofx' || ext === 'qfx') return 'ofx';
+  if (ext === 'qif') return 'qif';
+  if (ext === 'csv') return 'csv';
+
+  const head = content.slice(0, 500);
+  if (/OFXHEADER|<OFX>/i.test(head)) return 'ofx';
+  if (/^!Type:/im.test(head)) return 'qif';
+  if (head.includes(',') || head.includes(';')) return 'csv';
+  return null;
+}
+
+const MONTH_NAMES = ['january', 'february', 'march', 'april', 'may', 'june', 'july', 'august', 'september', 'october', 'november', 'december'];
+
+const monthFromName = (name: string) => {
+  const lower = name.toLowerCase();
+  return MONTH_NAMES.findIndex(m => m.startsWith(lower)) + 1 || NaN;
+};
+
+const DATE_SEPARATORS = /[\s/.,'-]+/;
+
+/**
+ * YYYY-MM-DD for a date that exists on the calendar (31/02 doesn't), otherwise null
+ */
+function toIsoDate(year: number, month: number, day: number): string | null {
+  if (![year, month, day].every(Number.isInteger)) return null;
+  if (year < 100) year += 2000;
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null;
+  return `${year}-${pad(month)}-${pad(day)}`;
+}
+
+/**
+ * Parse a date string in the given order. Accepts /, - or . separators, 2-digit years, month
+ * names ("12 Jan 2026", "Jan 12, 2026") and a trailing time, which is ignored.
+ */
+export function parseStatementDate(value: string, format: StatementDateFormat): string | null {
+  const trimmed = value.trim().replace(/(?:T|\s+)\d{1,2}:\d{2}.*$/i, '');
+  const compact = trimmed.match(/^(\d{4})(\d{2})(\d{2})/); // 20260112 (OFX)
+  if (compact) return toIsoDate(Number(compact[1]), Number(compact[2]), Number(compact[3]));
+
+  const parts = trimmed.split(DATE_SEPARATORS).filter(Boolean);
+  if (parts.length < 3) return null;
+
+  const named = parts.slice(0, 3).findIndex(p => /^[a-z]{3,}$/i.test(p));
+  if (named >= 0) {
+    // The 4-digit part is the year; otherwise the year comes last ("12-Jan-26", "Jan 12 26")
+    const [a, b] = parts.slice(0, 3).filter((_, i) => i !== named);
+    const [year, day] = a.length === 4 ? [a, b] : [b, a];
+    return toIsoDate(Number(year), monthFromName(parts[named]), Number(day));
+  }
+
+  const [first, second, third] = parts.map(p => (/^\d+$/.test(p) ? Number(p) : NaN));
+  if (format === 'YYYY-MM-DD' || parts[0].length === 4) return toIsoDate(first, second, third);
+  if (format === 'MM/DD/YYYY') return toIsoDate(third, first, second);
+  return toIsoDate(third, second, first);
+}
+
+/**
+ * Parse a statement amount: "1,234.50", "(12.00)", "12.00-", "45.00 DR", "$1,000".
+ * Debit markers don't cancel each other out - "-45.00 DR" is still money out.
+ */
+export function parseStatementAmount(value: string | undefined): number | null {
+  if (value === undefined || value === null) return null;
+  const text = String(value).trim();
+  if (!text) return null;
+
+  const negative = /^\(.*\)$/.test(text) || text.startsWith('-') || text.endsWith('-') || /\bDR\b\.?$/i.test(text);
+
+  const numeric = text.replace(/\b(?:CR|DR)\b\.?/gi, '').replace(/[^\d.,]/g, '');
+  // "1.234,56" (comma decimal) vs "1,234.56"
+  const normalised = /,\d{1,2}$/.test(numeric) && numeric.lastIndexOf(',') > numeric.lastIndexOf('.')
+    ? numeric.replace(/\./g, '').replace(',', '.')
+    : numeric.replace(/,/g, '');
+  const amount = parseFloat(normalised);
+  return isNaN(amount) ? null : negative ? -amount : amount;
+}
+
+// ---------- CSV ----------
+
+export function readCsvHeaders(content: string): string[] {
+  const parsed = Papa.parse<string[]>(content, { preview: 1, skipEmptyLines: true });
+  return (parsed.data[0] || []).map(h => String(h).trim()).filter(Boolean);
+}
+
+/**
+ * Guess a column mapping from header names; the user can adjust it before importing
+ */
+export function guessColumnMapping(headers: string[]): StatementColumnMapping {
+  const find = (pattern: RegExp) => headers.find(h => pattern.test(h));
+  const debit = find(/debit|withdrawal|money out|paid out/i);
+  const credit = find(/credit|deposit|money in|paid in/i);
+
+  return {
+    date: find(/^(transaction |posting |value )?date/i) || find(/date/i) || headers[0] || '',
+    description: find(/description|narrative|details|payee|merchant|particulars|memo/i) || headers[1] || '',
+    amount: debit && credit ? undefined : find(/amount|value/i),
+    debit: debit && credit ? debit : undefined,
+    credit: debit && credit ? credit : undefined,
+    reference: find(/cheque|check|ref/i),
+    dateFormat: 'DD/MM/YYYY',
+  };
+}
+
+function parseCsvRows(content: string, mapping: StatementColumnMapping): StatementRow[] {
+  const parsed = Papa.parse<Record<string, string>>(content, {
+    header: true,
+    skipEmptyLines: true,
+    transformHeader: h => h.trim(),
+  });
+
+  const rows: StatementRow[] = [];
+  for (const record of parsed.data) {
+    const date = parseStatementDate(record[mapping.date] || '', mapping.dateFormat);
+    if (!date) continue; // Preamble, totals or malformed rows
+
+    let amount: number | null = null;
+    if (mapping.amount) {
+      amount = parseStatementAmount(record[mapping.amount]);
+      if (amount !== null && mapping.expensesPositive) amount = -amount;
+    } else {
+      const debit = parseStatementAmount(record[mapping.debit || '']);
+      const credit = parseStatementAmount(record[mapping.credit || '']);
+      if (debit) amount = -Math.abs(debit);
+      else if (credit) amount = Math.abs(credit);
+    }
+    if (amount === null || amount === 0) continue;
+
+    // A reference column only counts as a cheque number on rows that look like cheques
+    const description = (record[mapping.description] || '').trim();
+    const reference = mapping.reference ? record[mapping.reference]?.trim() : undefined;
+    const chequeNumber = description.match(CHEQUE_PATTERN)?.[1]
+      || (reference && /^\d{4,}$/.test(reference) && /\b(?:cheque|chq|check)\b/i.test(description) ? reference : undefined);
+
+    rows.push({ date, amount, description, chequeNumber });
+  }
+  return rows;
+}
+
+// ---------- OFX / QFX ----------
+
+function ofxField(block: string, tag: string): string | undefined {
+  const match = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'));
+  return match ? match[1].trim() : undefined;
+}
+
+function parseOfxRows(content: string): { rows: StatementRow[]; accountNumber?: string } {
+  const currency = ofxField(content, 'CURDEF');
+  const accountNumber = ofxField(content, 'ACCTID');
+  const blocks = content.split(/<STMTTRN>/i).slice(1);
+
+  const rows: StatementRow[] = [];
+  for (const block of blocks) {
+    const date = parseStatementDate(ofxField(block, 'DTPOSTED') || '', 'YYYY-MM-DD');
+    const amount = parseStatementAmount(ofxField(block, 'TRNAMT'));
+    if (!date || amount === null || amount === 0) continue;
+
+    const name = ofxField(block, 'NAME') || '';
+    const memo = ofxField(block, 'MEMO') || '';
+    rows.push({
+      date,
+      amount,
+      description: name && memo && !name.includes(memo) ? `${name} ${memo}` : name || memo,
+      chequeNumber: ofxField(block, 'CHECKNUM') || undefined,
+      currency,
+    });
+  }
+  return { rows, accountNumber };
+}
+
+// ---------- QIF ----------
+
+/**
+ * QIF dates are US order (M/D/Y) unless some date in the file can't be read that way. Decided
+ * once per file so "03/04" means the same day on every row.
+ */
+function qifDateFormat(rawDates: string[]): StatementDateFormat {
+  for (const raw of rawDates) {
+    const parts = raw.split(DATE_SEPARATORS).filter(Boolean);
+    if (parts.length < 3 || parts[0].length === 4) continue;
+    if (Number(parts[0]) > 12) return 'DD/MM/YYYY';
+    if (Number(parts[1]) > 12) return 'MM/DD/YYYY';
+  }
+  return 'MM/DD/YYYY';
+}
+
+function parseQifRows(content: string): StatementRow[] {
+  const records = content.split(/^\^\s*$/m).map(record => {
+    const fields: Record<string, string> = {};
+    for (const line of record.split(/\r?\n/)) {
+      if (!line || line.startsWith('!')) continue;
+      const code = line[0];
+      if (!(code in fields)) fields[code] = line.slice(1).trim();
+    }
+    return fields;
+  });
+  const dateFormat = qifDateFormat(records.map(fields => fields['D'] || ''));
+
+  const rows: StatementRow[] = [];
+  for (const fields of records) {
+    const date = parseStatementDate(fields['D'] || '', dateFormat);
+    const amount = parseStatementAmount(fields['T'] || fields['U']);
+    if (!date || amount === null || amount === 0) continue;
+
+    rows.push({
+      date,
+      amount,
+      description: fields['P'] || fields['M'] || '',
+      chequeNumber: fields['N'] && /^\d+$/.test(fields['N']) ? fields['N'] : undefined,
+      category: fields['L']?.split(':')[0],
+    });
+  }
+  return rows;
+}
+
+// ---------- Transactions ----------
+
+function toTransaction(row: StatementRow, settings: AppSettings, account: Account | undefined): Omit<Transaction, 'id'> {
+  const description = row.description || 'Statement Entry';
+  const rule = (settings.recurringRules || []).find(r =>
+    r.merchantKeyword && description.toLowerCase().includes(r.merchantKeyword.toLowerCase())
+  );
+  const knownCategory = row.category && settings.categories.find(c => c.name.toLowerCase() === row.category!.toLowerCase());
+  const fallbackCategory = settings.categories.find(c => c.name.toLowerCase() === 'other')?.name
+    || settings.categories[0]?.name
+    || 'Other';
+
+  const amount = Math.abs(row.amount);
+  const currency = row.currency || account?.currency || settings.baseCurrency;
+
+  const transaction: Omit<Transaction, 'id'> = {
+    amount,
+    currency: settings.baseCurrency,
+    merchant: rule && !row.description ? rule.merchantKeyword : cleanMerchant(description),
+    date: row.date,
+    category: rule?.category || knownCategory?.name || fallbackCategory,
+    type: row.amount < 0 ? TransactionType.EXPENSE : TransactionType.INCOME,
+    account: account?.name,
+    accountId: account?.id,
+    rawText: description,
+    exchangeRate: 1,
+  };
+
+  if (currency !== settings.baseCurrency) {
+    transaction.originalAmount = amount;
+    transaction.originalCurrency = currency;
+  }
+
+  const chequeNumber = row.chequeNumber || description.match(CHEQUE_PATTERN)?.[1];
+  if (chequeNumber) {
+    transaction.isCheque = true;
+    transaction.chequeNumber = chequeNumber;
+    transaction.chequeStatus = 'PENDING';
+  }
+
+  if (rule?.type === TransactionType.TRANSFER) {
+    transaction.isTransfer = true;
+  }
+
+  return transaction;
+}
+
+/**
+ * Parse a statement file's contents into transactions (without ids)
+ */
+export function parseStatement(
+  content: string,
+  format: StatementFormat,
+  settings: AppSettings,
+  options: StatementImportOptions = {}
+): Omit<Transaction, 'id'>[] {
+  let rows: StatementRow[];
+  let account = settings.accounts.find(a => a.id === options.accountId);
+
+  switch (format) {
+    case 'csv':
+      if (!options.mapping) throw new Error('Choose which columns hold the date, description and amount');
+      rows = parseCsvRows(content, options.mapping);
+      break;
+    case 'ofx': {
+      const ofx = parseOfxRows(content);
+      rows = ofx.rows;
+      if (!account && ofx.accountNumber) {
+        account = settings.accounts.find(a => a.last4Digits && ofx.accountNumber!.endsWith(a.last4Digits));
+      }
+      break;
+    }
+    case 'qif':
+      rows = parseQifRows(content);
+      break;
+  }
+
+  return rows
+    .map(row => toTransaction(row, settings, account))
+    .sort((a, b) => b.date.localeCompare(a.date));
+}
@@ -0,0 +1,310 @@
+import { Transaction, TransactionType, AppSettings, ParsingTemplate } from '../types';
+import { v4 as uuidv4 } from 'uuid';
+import { getAllParsingTemplates, saveParsingTemplate } from './indexedDBService';
+import { extractDate, extractTime, cleanMerchant, NEEDS_REVIEW_TAG } from './ruleBasedParserService';
+import { getRateOn } from './exchangeRateService';
+
+type FieldKind = 'amount' | 'currency' | 'merchant' | 'last4' | 'balance';
+
+interface FieldSpan {
+  kind: FieldKind;
+  start: number;
+  end: number;
+}
+
+const GROUP_PATTERNS: Record<FieldKind, string> = {
+  amount: '([\\d,]+(?:\\.\\d{1,2})?)',
+  currency: '([A-Z]{3})',
+  merchant: '(.+?)',
+  last4: '(\\d{3,})',
+  balance: '(-?[\\d,]+(?:\\.\\d{1,2})?)',
+};
+
+const NUMBER_TOKEN = /-?\d[\d,]*(?:\.\d+)?/g;
+// Where a merchant phrase ends in typical notification wording
+const MERCHANT_END = /^.+?(?=\s+(?:on|with|using|via|ref|avl|available|is|has|dated|at)\b|[.,;]|\s*$)/i;
+const MONTH_WORD = /^(jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec)[a-z]*$/i;
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+
+/**
+ * Turn a literal stretch of the message into a pattern that tolerates the parts
+ * that change between messages from the same sender (digits, month names, spacing).
+ */
+function generaliseLiteral(literal: string): string {
+  return literal
+    .split(/(\d+|\s+|[A-Za-z]+)/)
+    .filter(part => part.length > 0)
+    .map(part => {
+      if (/^\d+$/.test(part)) return '\\d+';
+      if (/^\s+$/.test(part)) return '\\s+';
+      if (MONTH_WORD.test(part)) return '[A-Za-z]+';
+      return escapeRegExp(part);
+    })
+    .join('');
+}
+
+/**
+ * Find the first numeric token in text whose value equals target, skipping spans already claimed
+ */
+function findNumberSpan(text: string, target: number, taken: FieldSpan[]): { start: number; end: number } | null {
+  NUMBER_TOKEN.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = NUMBER_TOKEN.exec(text)) !== null) {
+    const value = parseFloat(match[0].replace(/,/g, ''));
+    const start = match.index;
+    const end = start + match[0].length;
+    if (Math.abs(value - target) < 0.005 && !overlaps(taken, start, end)) {
+      return { start, end };
+    }
+  }
+  return null;
+}
+
+function overlaps(spans: FieldSpan[], start: number, end: number): boolean {
+  return spans.some(s => start < s.end && end > s.start);
+}
+
+function findTextSpan(text: string, needle: string | undefined, taken: FieldSpan[]): { start: number; end: number } | null {
+  if (!needle || needle.trim().length < 2) return null;
+  const start = text.toLowerCase().indexOf(needle.trim().toLowerCase());
+  if (start === -1) return null;
+  const end = start + needle.trim().length;
+  return overlaps(taken, start, end) ? null : { start, end };
+}
+
+/**
+ * Build a template from a parsed transaction and the user's corrected version of it.
+ * Returns null when the message doesn't contain enough anchors (at minimum the amount).
+ */
+export function buildTemplate(
+  original: Transaction,
+  corrected: Transaction,
+  settings: AppSettings
+): Omit<ParsingTemplate, 'id' | 'createdAt' | 'hitCount' | 'enabled'> | null {
+  const rawText = (corrected.rawText || original.rawText || '').trim();
+  if (!rawText || rawText === 'Manual Entry') return null;
+
+  const spans: FieldSpan[] = [];
+  let balanceField: ParsingTemplate['balanceField'];
+
+  // Balance first, so an equal-valued amount doesn't steal its position
+  const balanceValue = corrected.parsedMeta?.availableBalance ?? corrected.parsedMeta?.availableCredit;
+  if (balanceValue !== undefined) {
+    const span = findNumberSpan(rawText, balanceValue, spans);
+    if (span) {
+      spans.push({ kind: 'balance', ...span });
+      balanceField = corrected.parsedMeta?.availableBalance !== undefined ? 'availableBalance' : 'availableCredit';
+    }
+  }
+
+  const amountSpan = findNumberSpan(rawText, corrected.originalAmount ?? corrected.amount, spans);
+  if (!amountSpan) return null;
+  spans.push({ kind: 'amount', ...amountSpan });
+
+  // Currency code directly before the amount ("AED 125.00" / "AED125.00")
+  const before = rawText.slice(0, amountSpan.start).match(/([A-Z]{3})\s?$/);
+  if (before && !/^X+$/.test(before[1])) {
+    const start = amountSpan.start - before[0].length;
+    spans.push({ kind: 'currency', start, end: start + 3 });
+  }
+
+  const account = settings.accounts.find(a => a.id === corrected.accountId);
+  if (account?.last4Digits) {
+    const digits = rawText.match(new RegExp(`\\d*${escapeRegExp(account.last4Digits)}\\b`));
+    if (digits && digits.index !== undefined && !overlaps(spans, digits.index, digits.index + digits[0].length)) {
+      spans.push({ kind: 'last4', start: digits.index, end: digits.index + digits[0].length });
+    }
+  }
+
+  // Merchant: locate the corrected (or originally parsed) name, widened to the whole merchant phrase
+  let merchantAliases: Record<string, string> | undefined;
+  let merchantCategories: Record<string, string> | undefined;
+  const merchantSpan = findTextSpan(rawText, corrected.merchant, spans) || findTextSpan(rawText, original.merchant, spans);
+  if (merchantSpan) {
+    const phrase = rawText.slice(merchantSpan.start).match(MERCHANT_END);
+    const end = phrase ? Math.max(merchantSpan.end, merchantSpan.start + phrase[0].length) : merchantSpan.end;
+    if (!overlaps(spans, merchantSpan.start, end)) merchantSpan.end = end;
+    spans.push({ kind: 'merchant', ...merchantSpan });
+
+    const captured = rawText.slice(merchantSpan.start, merchantSpan.end).toLowerCase();
+    if (cleanMerchant(captured) !== corrected.merchant) {
+      merchantAliases = { [captured]: corrected.merchant };
+    }
+    merchantCategories = { [captured]: corrected.category };
+  }
+
+  spans.sort((a, b) => a.start - b.start);
+
+  let pattern = '^\\s*';
+  let cursor = 0;
+  const groups: ParsingTemplate['groups'] = { amount: 0 };
+  spans.forEach((span, index) => {
+    pattern += generaliseLiteral(rawText.slice(cursor, span.start));
+    pattern += GROUP_PATTERNS[span.kind];
+    groups[span.kind] = index + 1;
+    cursor = span.end;
+  });
+  pattern += generaliseLiteral(rawText.slice(cursor)) + '\\s*$';
+
+  const sender = account?.name || rawText.split(/\s+/).slice(0, 3).join(' ').slice(0, 24);
+
+  return {
+    sender,
+    pattern,
+    groups,
+    balanceField,
+    merchantAliases,
+    merchantCategories,
+    category: corrected.category,
+    type: corrected.type,
+    accountId: corrected.accountId,
+    sampleText: rawText,
+  };
+}
+
+/**
+ * Learn (or refresh) a template from a correction made in the review screen
+ */
+export async function learnTemplateFromCorrection(
+  original: Transaction,
+  corrected: Transaction,
+  settings: AppSettings
+): Promise<ParsingTemplate | null> {
+  const built = buildTemplate(original, corrected, settings);
+  if (!built) return null;
+
+  const existing = (await getAllParsingTemplates()).find(t => t.pattern === built.pattern);
+  const template: ParsingTemplate = existing
+    ? {
+        ...existing,
+        ...built,
+        sender: existing.sender, // Keep any rename made in Settings
+        merchantAliases: { ...existing.merchantAliases, ...built.merchantAliases },
+        merchantCategories: { ...existing.merchantCategories, ...built.merchantCategories },
+        category: existing.category, // Keep any default picked in Settings - see senderDefaultCategory
+      }
+    : {
+        ...built,
+        id: uuidv4(),
+        enabled: true,
+        hitCount: 0,
+        createdAt: new Date().toISOString(),
+      };
+
+  await saveParsingTemplate(template);
+  return template;
+}
+
+/**
+ * The sender default for merchants a template hasn't seen yet - only while every merchant learned
+ * for the sender shares one category. A sender whose merchants differ has no meaningful default.
+ */
+function senderDefaultCategory(template: ParsingTemplate): string | undefined {
+  const learned = new Set(Object.values(template.merchantCategories || {}));
+  return learned.size <= 1 ? template.category : undefined;
+}
+
+/**
+ * Try a single message against the learned templates (most used first)
+ */
+export function applyTemplates(
+  message: string,
+  templates: ParsingTemplate[],
+  settings: AppSettings
+): { transaction: Omit<Transaction, 'id'>; template: ParsingTemplate } | null {
+  const ordered = templates.filter(t => t.enabled).sort((a, b) => b.hitCount - a.hitCount);
+
+  for (const template of ordered) {
+    let match: RegExpMatchArray | null;
+    try {
+      match = message.trim().match(new RegExp(template.pattern));
+    } catch {
+      continue; // Corrupt pattern - ignore
+    }
+    if (!match) continue;
+
+    const group = (index?: number) => (index ? match![index] : undefined);
+    const toNumber = (value?: string) => (value !== undefined ? parseFloat(value.replace(/,/g, '')) : undefined);
+
+    const amount = toNumber(group(template.groups.amount));
+    if (amount === undefined || isNaN(amount)) continue;
+
+    const currency = group(template.groups.currency) || settings.baseCurrency;
+    const capturedMerchant = group(template.groups.merchant)?.trim();
+    const merchantKey = capturedMerchant?.toLowerCase();
+    const merchant = capturedMerchant
+      ? template.merchantAliases?.[merchantKey!] || cleanMerchant(capturedMerchant)
+      : 'Unknown Merchant';
+
+    // Known merchant -> its corrected category; otherwise recurring rule keywords, then the sender
+    // default if its merchants agree, then the same fallback the rule-based parser uses
+    const rule = (settings.recurringRules || []).find(r =>
+      r.merchantKeyword && merchant.toLowerCase().includes(r.merchantKeyword.toLowerCase())
+    );
+    const category = (merchantKey && template.merchantCategories?.[merchantKey])
+      || rule?.category
+      || senderDefaultCategory(template)
+      || settings.categories.find(c => c.name.toLowerCase() === 'other')?.name
+      || settings.categories[0]?.name
+      || 'Other';
+
+    const digits = group(template.groups.last4);
+    const account = (digits && settings.accounts.find(a => a.last4Digits && digits.endsWith(a.last4Digits)))
+      || settings.accounts.find(a => a.id === template.accountId);
+
+    // Foreign amounts are converted like the rule-based parser does - flagged when no rate is known
+    const date = extractDate(message);
+    const isForeign = currency !== settings.baseCurrency;
+    const rate = isForeign ? getRateOn(settings.exchangeRates || [], currency, settings.baseCurrency, date) : 1;
+
+    const transaction: Omit<Transaction, 'id'> = {
+      amount: rate === null ? amount : Number((amount * rate).toFixed(2)),
+      currency: settings.baseCurrency,
+      merchant,
+      date,
+      time: extractTime(message),
+      category,
+      type: template.type === TransactionType.INCOME ? TransactionType.INCOME : TransactionType.EXPENSE,
+      account: account?.name,
+      accountId: account?.id,
+      rawText: message.trim(),
+      exchangeRate: rate ?? 1,
+    };
+
+    if (isForeign) {
+      transaction.originalAmount = amount;
+      transaction.originalCurrency = currency;
+      if (rate === null) transaction.tags = [NEEDS_REVIEW_TAG];
+    }
+
+    const balance = toNumber(group(template.groups.balance));
+    if (balance !== undefined && !isNaN(balance) && template.balanceField) {
+      transaction.parsedMeta = { [template.balanceField]: balance };
+    }
+
+    if (template.type === TransactionType.TRANSFER) {
+      transaction.isTransfer = true;
+    }
+
+    return { transaction, template };
+  }
+
+  return null;
+}
+
+/**
+ * Bump usage stats for templates that matched during a parse
+ */
+export async function recordTemplateHits(templates: ParsingTemplate[]): Promise<void> {
+  const now = new Date().toISOString();
+  const counts = new Map<string, { template: ParsingTemplate; hits: number }>();
+  for (const template of templates) {
+    const entry = counts.get(template.id) || { template, hits: 0 };
+    entry.hits++;
+    counts.set(template.id, entry);
+  }
+  for (const { template, hits } of counts.values()) {
+    await saveParsingTemplate({ ...template, hitCount: template.hitCount + hits, lastUsedAt: now });
+  }
+}
@@ -0,0 +1,172 @@
+import { Transaction, AppSettings, ParserProviderId, ParsingTemplate } from '../types';
+import { parseTransactions as parseWithGemini } from './geminiService';
+import { parseTransactions as parseWithEdgeFunction } from './supabaseService';
+import { parseTransactionsOffline, splitMessages } from './ruleBasedParserService';
+import { applyTemplates, recordTemplateHits } from './templateLearningService';
+import { getAllParsingTemplates } from './indexedDBService';
+
+/**
+ * Common interface for anything that turns raw text / images into transactions
+ */
+export interface TransactionParser {
+  id: ParserProviderId;
+  name: string;
+  description: string;
+  requiresNetwork: boolean;
+  supportsImages: boolean;
+  parse: (
+    text: string,
+    settings: AppSettings,
+    imageBase64?: string,
+    imageMimeType?: string
+  ) => Promise<Omit<Transaction, 'id'>[]>;
+}
+
+export interface ParseResult {
+  transactions: Omit<Transaction, 'id'>[];
+  providerUsed: ParserProviderId | 'templates'; // 'templates' = every message matched a learned template
+  usedFallback: boolean;
+  fallbackReason?: string;
+  templateMatchCount: number;
+}
+
+export const DEFAULT_PARSER_PROVIDER: ParserProviderId = 'gemini';
+
+const PARSERS: Record<ParserProviderId, TransactionParser> = {
+  gemini: {
+    id: 'gemini',
+    name: 'Gemini (Direct)',
+    description: 'Calls Gemini from the device. Best accuracy, supports images and statements.',
+    requiresNetwork: true,
+    supportsImages: true,
+    parse: parseWithGemini,
+  },
+  'edge-function': {
+    id: 'edge-function',
+    name: 'Supabase Edge Function',
+    description: 'Parses on the server via the parse-transactions function. Keeps the API key off the device.',
+    requiresNetwork: true,
+    supportsImages: true,
+    parse: parseWithEdgeFunction,
+  },
+  offline: {
+    id: 'offline',
+    name: 'Offline Rules',
+    description: 'Built-in pattern matching for common bank SMS formats. Works without network, text only.',
+    requiresNetwork: false,
+    supportsImages: false,
+    parse: parseTransactionsOffline,
+  },
+};
+
+export function getParserProviders(): TransactionParser[] {
+  return Object.values(PARSERS);
+}
+
+export function getParserProvider(id?: ParserProviderId): TransactionParser {
+  return PARSERS[id || DEFAULT_PARSER_PROVIDER] || PARSERS[DEFAULT_PARSER_PROVIDER];
+}
+
+const sortNewestFirst = (transactions: Omit<Transaction, 'id'>[]) =>
+  transactions.sort((a, b) =>
+    `${b.date} ${b.time || '00:00'}`.localeCompare(`${a.date} ${a.time || '00:00'}`)
+  );
+
+/**
+ * Parse input, trying learned templates first.
+ * Messages that match a template are parsed locally; the rest (and any image)
+ * go to the selected provider. If everything matched, the provider isn't called at all.
+ */
+export async function parseWithSelectedProvider(
+  text: string,
+  settings: AppSettings,
+  imageBase64?: string,
+  imageMimeType?: string
+): Promise<ParseResult> {
+  let templates: ParsingTemplate[] = [];
+  if (text.trim()) {
+    try {
+      templates = (await getAllParsingTemplates()).filter(t => t.enabled);
+    } catch (error) {
+      console.error('Failed to load parsing templates:', error);
+    }
+  }
+
+  if (templates.length === 0) {
+    return { ...(await parseWithProvider(text, settings, imageBase64, imageMimeType)), templateMatchCount: 0 };
+  }
+
+  const templated: Omit<Transaction, 'id'>[] = [];
+  const matchedTemplates: ParsingTemplate[] = [];
+  const unmatched: string[] = [];
+
+  for (const message of splitMessages(text)) {
+    const result = applyTemplates(message, templates, settings);
+    if (result) {
+      templated.push(result.transaction);
+      matchedTemplates.push(result.template);
+    } else {
+      unmatched.push(message);
+    }
+  }
+
+  if (matchedTemplates.length === 0) {
+    // Nothing matched - send the input through untouched
+    return { ...(await parseWithProvider(text, settings, imageBase64, imageMimeType)), templateMatchCount: 0 };
+  }
+
+  await recordTemplateHits(matchedTemplates);
+
+  if (unmatched.length === 0 && !imageBase64) {
+    return {
+      transactions: sortNewestFirst(templated),
+      providerUsed: 'templates',
+      usedFallback: false,
+      templateMatchCount: templated.length,
+    };
+  }
+
+  const remainder = await parseWithProvider(unmatched.join('\n\n'), settings, imageBase64, imageMimeType);
+  return {
+    ...remainder,
+    transactions: sortNewestFirst([...templated, ...remainder.transactions]),
+    templateMatchCount: templated.length,
+  };
+}
+
+/**
+ * Parse input with the provider selected in settings.
+ * If a network provider fails (or the device is offline) and text was supplied,
+ * falls back to the offline rule-based parser so entry never dead-ends.
+ */
+async function parseWithProvider(
+  text: string,
+  settings: AppSettings,
+  imageBase64?: string,
+  imageMimeType?: string
+): Promise<Omit<ParseResult, 'templateMatchCount'>> {
+  const provider = getParserProvider(settings.parserProvider);
+  const fallbackEnabled = settings.parserFallbackEnabled !== false;
+  const canFallback = fallbackEnabled && provider.id !== 'offline' && !!text.trim();
+
+  if (provider.requiresNetwork && typeof navigator !== 'undefined' && navigator.onLine === false && canFallback) {
+    const transactions = await PARSERS.offline.parse(text, settings);
+    return { transactions, providerUsed: 'offline', usedFallback: true, fallbackReason: 'Device is offline' };
+  }
+
+  try {
+    const transactions = await provider.parse(text, settings, imageBase64, imageMimeType);
+    return { transactions, providerUsed: provider.id, usedFallback: false };
+  } catch (error) {
+    if (!canFallback) throw error;
+
+    console.warn(`${provider.name} parser failed, falling back to offline rules:`, error);
+    const transactions = await PARSERS.offline.parse(text, settings);
+    return {
+      transactions,
+      providerUsed: 'offline',
+      usedFallback: true,
+      fallbackReason: `${provider.name} unavailable`,
+    };
+  }
+}
@@ -1,4 +1,5 @@
 import { Transaction, ScheduledTransaction, TransactionType, RecurrencePattern } from '../types';
+import { expandRecurrence } from './recurrenceService';
 
 /**
  * Transaction to Scheduled Service
@@ -6,10 +7,12 @@ import { Transaction, ScheduledTransaction, TransactionType, RecurrencePattern }
  */
 
 export interface RecurringBillFormData {
-  recurrencePattern: RecurrencePattern; // ONCE, MONTHLY, WEEKLY, CUSTOM
+  recurrencePattern: RecurrencePattern; // ONCE, MONTHLY, WEEKLY, CUSTOM, LAST_BUSINESS_DAY, NTH_WEEKDAY
   recurrenceInterval: number; // e.g., 2 for "every 2 months"
   firstDueDate: string; // ISO date YYYY-MM-DD
   recurrenceEndDate?: string; // Optional end date
+  recurrenceWeekday?: number; // NTH_WEEKDAY: 0 = Sunday ... 6 = Saturday
+  recurrenceWeekOfMonth?: number; // NTH_WEEKDAY: 1-4, or -1 for last
   notes?: string;
 }
 
@@ -40,6 +43,11 @@ export function convertTransactionToScheduled(
     recurrencePattern: recurringData.recurrencePattern,
     recurrenceInterval: recurringData.recurrenceInterval,
     recurrenceEndDate: recurringData.recurrenceEndDate,
+    recurrenceDayOfMonth: recurringData.recurrencePattern === 'MONTHLY'
+      ? Number(recurringData.firstDueDate.split('-')[2])
+      : undefined,
+    recurrenceWeekday: recurringData.recurrencePattern === 'NTH_WEEKDAY' ? recurringData.recurrenceWeekday : undefined,
+    recurrenceWeekOfMonth: recurringData.recurrencePattern === 'NTH_WEEKDAY' ? recurringData.recurrenceWeekOfMonth : undefined,
     notes: recurringData.notes ||
            `Created from transaction on ${transaction.date}${transaction.merchant ? ` - ${transaction.merchant}` : ''}`
   };
@@ -126,31 +134,15 @@ export function canConvertToRecurring(transaction: Transaction): { canConvert: b
 }
 
 /**
- * Preview: Calculate next N due dates based on recurrence pattern
+ * Preview: Calculate next N due dates based on the recurrence rule
  */
-export function previewDueDates(
-  startDate: string,
-  pattern: RecurrencePattern,
-  interval: number,
-  count: number = 5
-): string[] {
-  const dates: string[] = [];
-  let currentDate = new Date(startDate);
-
-  for (let i = 0; i < count; i++) {
-    dates.push(currentDate.toISOString().split('T')[0]);
-
-    // Calculate next date based on pattern
-    if (pattern === 'MONTHLY') {
-      currentDate.setMonth(currentDate.getMonth() + interval);
-    } else if (pattern === 'WEEKLY') {
-      currentDate.setDate(currentDate.getDate() + (7 * interval));
-    } else if (pattern === 'CUSTOM') {
-      currentDate.setDate(currentDate.getDate() + interval);
-    } else if (pattern === 'ONCE') {
-      break; // ONCE means no recurrence
-    }
-  }
-
-  return dates;
+export function previewDueDates(data: RecurringBillFormData, count: number = 5): string[] {
+  return expandRecurrence({
+    dueDate: data.firstDueDate,
+    recurrencePattern: data.recurrencePattern,
+    recurrenceInterval: data.recurrenceInterval,
+    recurrenceEndDate: data.recurrenceEndDate,
+    recurrenceWeekday: data.recurrenceWeekday,
+    recurrenceWeekOfMonth: data.recurrenceWeekOfMonth,
+  }, count);
 }
@@ -15,7 +15,7 @@ export interface Category {
   order?: number; // Position in category list for custom ordering
 }
 
-export type AccountType = 'Bank' | 'Credit Card' | 'Cash' | 'Wallet' | 'Loan/BNPL' | 'Other';
+export type AccountType = 'Bank' | 'Credit Card' | 'Cash' | 'Wallet' | 'Loan/BNPL' | 'Investment' | 'Asset' | 'Other';
 
 export interface Account {
   id: string;
@@ -33,16 +33,51 @@ export interface Account {
   totalCreditLimit?: number; // Max limit for credit cards (Required to calc debt from Avl Limit)
   monthlySpendingLimit?: number; // Budget warning threshold
   paymentDueDay?: number; // Day of month (1-31) for credit card payments
+  statementClosingDay?: number; // Day of month (1-31) the credit card statement closes
+  apr?: number; // Annual percentage rate on carried balances, e.g. 24.99
+  minimumPayment?: MinimumPaymentRule;
 
   // Loan/BNPL specific
   loanPrincipal?: number; // Original loan amount
   loanInstallments?: number; // Total number of installments
   loanStartDate?: string; // ISO date when loan started
+  loanInterestRate?: number; // Annual rate in percent (0 for interest-free BNPL)
+  loanInterestMethod?: LoanInterestMethod;
+
+  // Statement import
+  statementMapping?: StatementColumnMapping; // Last CSV column mapping used for this account
+}
+
+export type LoanInterestMethod = 'REDUCING_BALANCE' | 'FLAT' | 'ZERO';
+
+export interface MinimumPaymentRule {
+  percentOfBalance: number; // e.g. 1 for 1% of the statement balance
+  floor: number; // Fixed minimum; the whole balance is due when it is below this
+  includeInterest?: boolean; // Add the cycle's interest on top of the percentage
+}
+
+export type StatementDateFormat = 'YYYY-MM-DD' | 'DD/MM/YYYY' | 'MM/DD/YYYY';
+
+export interface StatementColumnMapping {
+  date: string; // CSV header names
+  description: string;
+  amount?: string; // Single signed amount column...
+  debit?: string; // ...or separate debit / credit columns
+  credit?: string;
+  reference?: string; // Cheque / reference number column
+  dateFormat: StatementDateFormat;
+  expensesPositive?: boolean; // Single amount column where expenses are positive (credit card statements)
 }
 
 export type Frequency = 'MONTHLY' | 'WEEKLY' | 'YEARLY';
 
-export type RecurrencePattern = 'ONCE' | 'MONTHLY' | 'WEEKLY' | 'CUSTOM';
+export type RecurrencePattern =
+  | 'ONCE'
+  | 'MONTHLY'
+  | 'WEEKLY'
+  | 'CUSTOM' // Every N days
+  | 'LAST_BUSINESS_DAY' // Last weekday of every N months
+  | 'NTH_WEEKDAY'; // e.g. 2nd Tuesday of every N months
 
 export interface RecurringRule {
   id: string;
@@ -57,6 +92,127 @@ export interface RecurringRule {
   lastPaidDate?: string; // ISO Date to track parsing hits
 }
 
+export interface RuleConditions {
+  merchantPattern?: string; // Regular expression, matched case-insensitively
+  minAmount?: number;
+  maxAmount?: number;
+  accountId?: string;
+  dayOfMonthFrom?: number; // 1-31, inclusive
+  dayOfMonthTo?: number;
+  type?: TransactionType;
+  rawTextContains?: string; // Case-insensitive
+}
+
+export interface RuleSplit {
+  category: string;
+  percent: number; // Share of the amount; whatever is left keeps the transaction's category
+}
+
+export interface RuleActions {
+  category?: string;
+  addTags?: string[];
+  accountId?: string;
+  type?: TransactionType;
+  toAccountId?: string; // Turns the transaction into a transfer to this account
+  split?: RuleSplit[];
+}
+
+export interface CategorizationRule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  priority: number; // 1 runs first; a field set by an earlier rule is not overwritten
+  conditions: RuleConditions;
+  actions: RuleActions;
+  stopProcessing?: boolean; // Don't run lower-priority rules after this one matches
+  createdAt: string;
+  updatedAt?: string;
+}
+
+export type AuditSource =
+  | 'ai-parse'
+  | 'manual-entry'
+  | 'manual-edit'
+  | 'bulk-edit'
+  | 'match-confirm'
+  | 'balance-adjustment'
+  | 'auto-balancer'
+  | 'restore'
+  | 'undo'
+  | 'redo'
+  | 'system'; // Background work: revaluations, cleanups, service-level updates
+
+export interface AuditContext {
+  batchId: string; // Every write made by one user action; undone and redone together
+  source: AuditSource;
+  label?: string; // Shown in the undo button and history, e.g. "Edit Starbucks"
+}
+
+// Entities whose writes are audited, by AuditEntry.entityType
+export interface AuditedEntities {
+  transaction: Transaction;
+  account: Account;
+  scheduled: ScheduledTransaction;
+  goal: SavingsGoal;
+  goalContribution: GoalContribution;
+}
+
+export type AuditEntityType = keyof AuditedEntities;
+
+interface AuditEntryOf<E extends AuditEntityType> {
+  id: string;
+  batchId: string;
+  entityType: E;
+  entityId: string;
+  action: 'create' | 'update' | 'delete';
+  before?: AuditedEntities[E]; // Absent for a create
+  after?: AuditedEntities[E]; // Absent for a delete
+  source: AuditSource;
+  label?: string;
+  timestamp: string; // ISO timestamp
+}
+
+export type AuditEntry<E extends AuditEntityType = AuditEntityType> = { [K in E]: AuditEntryOf<K> }[E];
+
+// How long transaction receipt images are kept. The first matching rule wins, otherwise defaultDays.
+export interface ReceiptRetentionRule {
+  id: string;
+  name: string;
+  category?: string;
+  accountId?: string;
+  minAmount?: number; // Transactions of at least this amount
+  tag?: string;
+  keepDays: number | null; // null = keep forever
+}
+
+export interface ReceiptRetentionPolicy {
+  defaultDays: number | null; // null = keep forever
+  rules: ReceiptRetentionRule[]; // In order of precedence
+  archiveBeforeDelete: boolean; // Download a ZIP of expiring receipts first (cleanup then only runs from Settings)
+}
+
+export type AttachmentOwnerType = 'transaction' | 'warranty' | 'scheduled';
+
+// An image kept as a Blob outside the record it belongs to, so lists load without it
+export interface Attachment {
+  id: string;
+  ownerType: AttachmentOwnerType;
+  ownerId: string;
+  mimeType: string;
+  size: number; // Bytes
+  blob: Blob;
+  thumbnail?: Blob; // Small JPEG for lists (missing if the image couldn't be decoded)
+  createdAt: string;
+}
+
+export interface SavedSearch {
+  id: string;
+  name: string;
+  query: string; // History search query, e.g. `category:Groceries amount>200`
+  pinned: boolean; // Shown in the navigation drawer
+  createdAt: string;
+}
+
 export interface SavingsGoal {
   id: string;
   name: string;
@@ -68,19 +224,115 @@ export interface SavingsGoal {
   icon?: string;
 }
 
+export interface GoalContribution {
+  id: string;
+  goalId: string; // Reference to SavingsGoal
+  amount: number; // Positive = deposit, negative = withdrawal
+  date: string; // ISO date YYYY-MM-DD
+  accountId?: string; // Source account the money came from
+  notes?: string;
+  createdAt?: string;
+}
+
+export interface Budget {
+  id: string;
+  categoryId?: string; // Category budget...
+  accountId?: string; // ...or a spending limit on an account
+  amount: number; // Limit per period, in base currency (may be 0 for income-funded envelopes)
+  period: Frequency;
+  rollover: boolean; // Carry unspent (or overspent) amounts into the next period
+  incomeAllocationPercent?: number; // Envelope: % of each period's income added to this budget
+  alertThresholds?: number[]; // Percent of budget used; default 50/80/100
+  startDate: string; // ISO date YYYY-MM-DD - rollover is counted from the period containing this date
+  createdAt: string;
+  updatedAt?: string;
+}
+
+export interface Reconciliation {
+  id: string;
+  accountId: string;
+  statementDate: string; // ISO date YYYY-MM-DD - statement end date
+  openingBalance: number; // Closing balance of the previous locked reconciliation
+  closingBalance: number; // Statement closing balance, in the account's currency
+  status: 'IN_PROGRESS' | 'LOCKED';
+  clearedTransactionIds: string[]; // Filled in when locked
+  difference?: number; // Unexplained difference accepted when locked (0 when it balanced)
+  createdAt: string;
+  updatedAt?: string;
+  lockedAt?: string;
+}
+
+export interface NetWorthAccountBalance {
+  accountId: string;
+  type: AccountType;
+  currency: string;
+  balance: number; // In the account's currency
+  balanceInBase: number;
+}
+
+export interface NetWorthSnapshot {
+  id: string; // Date YYYY-MM-DD - one snapshot per day, overwritten as balances change
+  date: string;
+  baseCurrency: string;
+  accounts: NetWorthAccountBalance[];
+  assets: number; // Sum of positive balances, in base currency
+  liabilities: number; // Sum of negative balances as a positive number, in base currency
+  netWorth: number;
+  source: 'recorded' | 'backfilled'; // Backfilled = rebuilt from transaction history
+  createdAt: string;
+  updatedAt?: string;
+}
+
+export interface ExchangeRate {
+  id: string; // `${currency}:${baseCurrency}:${date}` - one rate per pair per day
+  currency: string; // Foreign currency code
+  baseCurrency: string; // Currency the rate converts into
+  rate: number; // Units of baseCurrency per 1 unit of currency
+  date: string; // ISO date YYYY-MM-DD the rate applies from
+  source: 'manual' | 'learned'; // Learned = taken from a parsed transaction's exchangeRate
+  createdAt: string;
+}
+
 export interface WarrantyItem {
   id: string;
   name: string;
   merchant?: string;
   purchaseDate: string; // ISO Date
   warrantyDurationMonths: number; // Duration in months
-  receiptImage?: string; // Base64
+  receiptImage?: string; // New image as a data URL; moved to the attachments store on save
+  attachmentIds?: string[]; // Receipt images in the attachments store, in display order
   price?: number;
   notes?: string;
   // Calculated on render, but good to have explicit override if needed
   customExpirationDate?: string;
 }
 
+export type ParserProviderId = 'gemini' | 'edge-function' | 'offline';
+
+export interface ParsingTemplate {
+  id: string;
+  sender: string; // Label for the bank / sender the template was learned from
+  pattern: string; // RegExp source matched against a whole message
+  groups: {
+    amount: number; // Capture group indexes within pattern
+    currency?: number;
+    merchant?: number;
+    last4?: number;
+    balance?: number;
+  };
+  balanceField?: 'availableBalance' | 'availableCredit';
+  merchantAliases?: Record<string, string>; // Lowercased captured merchant -> corrected name
+  merchantCategories?: Record<string, string>; // Lowercased captured merchant -> corrected category
+  category?: string; // Default for unseen merchants - used only while merchantCategories all agree
+  type?: TransactionType;
+  accountId?: string;
+  sampleText: string; // The message the template was learned from
+  enabled: boolean;
+  hitCount: number;
+  createdAt: string;
+  lastUsedAt?: string;
+}
+
 export interface AppSettings {
   baseCurrency: string;
   categories: Category[];
@@ -89,6 +341,7 @@ export interface AppSettings {
   savingsGoals: SavingsGoal[];
   warranties: WarrantyItem[];
   scheduledTransactions: ScheduledTransaction[];
+  exchangeRates: ExchangeRate[];
 
   // Gradient Background Settings
   gradientStartColor?: string; // Default: #d0dddf
@@ -97,6 +350,10 @@ export interface AppSettings {
 
   // Auto-Balancer Settings
   autoBalancerEnabled?: boolean; // Default: true - Detects balance discrepancies when parsing transactions
+
+  // Parser Settings
+  parserProvider?: ParserProviderId; // Default: 'gemini'
+  parserFallbackEnabled?: boolean; // Default: true - Fall back to offline rules when the provider fails
 }
 
 export interface Transaction {
@@ -120,7 +377,8 @@ export interface Transaction {
   tags?: string[];
 
   // Receipt Management
-  receiptImage?: string; // Base64 image
+  receiptImage?: string; // New image as a data URL; moved to the attachments store on save
+  attachmentIds?: string[]; // Receipt images in the attachments store, in display order
   keepReceipt?: boolean; // Prevent auto-deletion
 
   parsedMeta?: {
@@ -135,6 +393,7 @@ export interface Transaction {
   };
 
   isTransfer?: boolean; // New flag to identify transfers
+  goalContributionId?: string; // Money set aside for a savings goal - not spending
 
   // Transfer-specific fields
   toAccountId?: string; // For TRANSFER: destination account ID
@@ -143,9 +402,37 @@ export interface Transaction {
   isCheque?: boolean; // True if transaction is a cheque payment
   chequeNumber?: string; // Cheque number from bank statement
   chequeStatus?: 'PENDING' | 'CLEARED'; // Whether cheque has been cleared
+
+  // Reconciliation
+  cleared?: boolean; // Ticked off against a bank statement
+  reconciliationId?: string; // Locked reconciliation this transaction belongs to
+
+  // Loan repayment split (set when matched to a loan installment)
+  principalPortion?: number;
+  interestPortion?: number;
+
+  // Investment trade or dividend
+  investmentAction?: InvestmentAction;
+  investmentAccountId?: string; // Investment / Asset account holding the security
+  symbol?: string;
+  quantity?: number; // Units bought or sold
+  unitPrice?: number; // Per unit, in the investment account's currency
+  fees?: number;
+}
+
+export type InvestmentAction = 'BUY' | 'SELL' | 'DIVIDEND';
+
+export interface SecurityPrice {
+  id: string; // `${symbol}:${date}` - one price per symbol per day
+  symbol: string; // Upper case ticker or label, e.g. VWRA, GOLD-G, FLAT-1
+  price: number; // Per unit
+  currency?: string;
+  date: string; // ISO date YYYY-MM-DD
+  source: 'manual' | 'csv';
+  createdAt: string;
 }
 
-export type View = 'dashboard' | 'accounts' | 'categories' | 'add' | 'history' | 'settings' | 'calendar' | 'planning' | 'warranties' | 'bills';
+export type View = 'dashboard' | 'accounts' | 'categories' | 'add' | 'history' | 'settings' | 'calendar' | 'planning' | 'warranties' | 'bills' | 'budgets';
 
 export interface CategoryStat {
   name: string;
@@ -174,6 +461,25 @@ export interface ScheduledTransaction {
   recurrencePattern?: RecurrencePattern;
   recurrenceInterval?: number; // e.g., 2 for "every 2 months"
   recurrenceEndDate?: string;
+  recurrenceDayOfMonth?: number; // MONTHLY: intended day (31 is clamped to short months, not drifted)
+  recurrenceWeekday?: number; // NTH_WEEKDAY: 0 = Sunday ... 6 = Saturday
+  recurrenceWeekOfMonth?: number; // NTH_WEEKDAY: 1-4, or -1 for the last one in the month
+  recurrenceParentId?: string; // Occurrence this one was rolled forward from
+
+  // Credit card statement payment (generated when a statement closes)
+  statementAccountId?: string; // Card being paid; accountId is the account paying it
+  statementClosingDate?: string;
+  minimumDue?: number;
+
+  // Loan installment (generated from the account's amortization schedule)
+  loanAccountId?: string; // Loan being repaid; accountId is the account paying it
+  installmentNumber?: number;
+  principalPortion?: number;
+  interestPortion?: number;
+
+  // Debt payoff plan payment
+  payToAccountId?: string; // Credit card or loan receiving the payment; accountId is the account paying it
+  payoffPlanId?: string;
 
   // Status
   status: 'PENDING' | 'PAID' | 'SKIPPED' | 'OVERDUE';
@@ -183,7 +489,8 @@ export interface ScheduledTransaction {
   // Cheque specific
   isCheque?: boolean;
   chequeNumber?: string;
-  chequeImage?: string; // Base64
+  chequeImage?: string; // New image as a data URL; moved to the attachments store on save
+  attachmentIds?: string[]; // Cheque images in the attachments store
   seriesId?: string; // Links batch-created cheques
 
   notes?: string;